@@ -1,12 +1,23 @@
 import { Button, Card, Container, Screen } from '@/components';
+import { BarcodeScanner } from '@/components/ui/BarcodeScanner';
+import { ImageCarousel } from '@/components/ui/ImageCarousel';
+import { AttachmentPreview } from '@/features/ai/components/AttachmentPreview';
 import { ChatMessage } from '@/features/ai/components/ChatMessage';
+import { ThreadList } from '@/features/ai/components/ThreadList';
 import { TokenCounter, estimateTokens } from '@/features/ai/components/TokenCounter';
 import { useAIChat } from '@/features/ai/hooks/useAIChat';
+import { useAttachments } from '@/features/ai/hooks/useAttachments';
+import { useImageGeneration } from '@/features/ai/hooks/useImageGeneration';
+import { usePushToTalk } from '@/features/ai/hooks/usePushToTalk';
+import { useReadAloud } from '@/features/ai/hooks/useReadAloud';
 import { useHaptics, useTheme } from '@/hooks';
+import { useRouter } from 'expo-router';
 import React, { useState } from 'react';
 import {
   ActivityIndicator,
   FlatList,
+  Modal,
+  Pressable,
   Image as RNImage,
   ScrollView,
   Text,
@@ -76,20 +87,51 @@ export default function AIPlaygroundScreen() {
 }
 
 /**
- * Chat Tab - Streaming conversational AI
+ * Chat Tab - Streaming conversational AI with attachments, push-to-talk and read-aloud
  */
 function ChatTab() {
   const { colors } = useTheme();
+  const router = useRouter();
   const { success, error: errorHaptic } = useHaptics();
   const [input, setInput] = useState('');
-
-  const { messages, isLoading, isStreaming, error, send, abort, clear, isOnline } = useAIChat();
+  const [showThreads, setShowThreads] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  const {
+    messages,
+    isLoading,
+    isStreaming,
+    error,
+    budgetExceeded,
+    context,
+    threadId,
+    selectThread,
+    send,
+    retry,
+    abort,
+    clear,
+    isOnline,
+  } = useAIChat();
+
+  // Hold the mic to dictate; the transcript is added to the input
+  const pushToTalk = usePushToTalk({
+    onTranscript: (text) => setInput((prev) => (prev.trim() ? `${prev.trim()} ${text}` : text)),
+  });
+  const readAloud = useReadAloud();
+  // Photos, documents and scanned codes for the next message (uploads need a connection)
+  const attach = useAttachments();
+
+  const handleSelectThread = (id: string | null) => {
+    selectThread(id);
+    setShowThreads(false);
+  };
 
   const handleSend = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() && attach.ready.length === 0) return;
 
-    await send(input);
+    await send(input, attach.ready);
     setInput('');
+    attach.clear();
     success();
   };
 
@@ -105,7 +147,7 @@ function ChatTab() {
       {!isOnline && (
         <View className="bg-warning-100 p-3 rounded-lg mb-4">
           <Text className="text-warning-800 text-center">
-            ⚠️ You're offline. Connect to use AI features.
+            ⚠️ You're offline. Messages will be sent when you reconnect.
           </Text>
         </View>
       )}
@@ -113,74 +155,188 @@ function ChatTab() {
       <Card className="flex-1 mb-4">
         <View className="flex-row justify-between items-center mb-4">
           <Text className="text-lg font-bold" style={{ color: colors.text }}>
-            Chat with AI
+            {showThreads ? 'Conversations' : 'Chat with AI'}
           </Text>
           <View className="flex-row gap-2">
-            <TokenCounter tokens={tokens} />
-            {messages.length > 0 && (
+            {!showThreads && <TokenCounter tokens={tokens} budgetExceeded={budgetExceeded} />}
+            {!showThreads && messages.length > 0 && (
               <Button variant="ghost" size="sm" onPress={clear}>
-                Clear
+                New
               </Button>
             )}
+            <Button variant="ghost" size="sm" onPress={() => setShowThreads((prev) => !prev)}>
+              {showThreads ? 'Back' : 'History'}
+            </Button>
           </View>
         </View>
 
-        <FlatList
-          data={messages}
-          renderItem={({ item }) => <ChatMessage message={item} />}
-          keyExtractor={(item) => item.id}
-          className="flex-1 mb-4"
-          contentContainerClassName="pb-4"
-          ListEmptyComponent={
-            <View className="flex-1 items-center justify-center py-12">
-              <Text className="text-6xl mb-4">💬</Text>
-              <Text className="text-base text-center" style={{ color: colors.textSecondary }}>
-                Start a conversation with AI
-              </Text>
+        {showThreads ? (
+          <ThreadList activeThreadId={threadId} onSelect={handleSelectThread} />
+        ) : (
+          <>
+            <FlatList
+              data={messages}
+              renderItem={({ item }) => (
+                <ChatMessage
+                  message={item}
+                  onRetry={retry}
+                  playback={readAloud.playback?.messageId === item.id ? readAloud.playback : null}
+                  onReadAloud={(message) => readAloud.play(message.id, message.content)}
+                  onPausePlayback={readAloud.pause}
+                  onStopPlayback={readAloud.stop}
+                  onNotePress={(noteId) =>
+                    router.push({ pathname: '/notes/[id]', params: { id: noteId } })
+                  }
+                />
+              )}
+              keyExtractor={(item) => item.id}
+              className="flex-1 mb-4"
+              contentContainerClassName="pb-4"
+              ListEmptyComponent={
+                <View className="flex-1 items-center justify-center py-12">
+                  <Text className="text-6xl mb-4">💬</Text>
+                  <Text className="text-base text-center" style={{ color: colors.textSecondary }}>
+                    Start a conversation with AI
+                  </Text>
+                </View>
+              }
+            />
+
+            {context?.truncated && (
+              <View className="bg-primary-100 p-3 rounded-lg mb-4">
+                <Text className="text-primary-800 text-sm">
+                  {context.summarized
+                    ? `${context.omittedMessages} earlier messages were summarized to fit the model's memory.`
+                    : `${context.omittedMessages} earlier messages were left out to fit the model's memory.`}
+                </Text>
+              </View>
+            )}
+
+            {error && (
+              <View className="bg-error-100 p-3 rounded-lg mb-4">
+                <Text className="text-error-800">{error.message}</Text>
+              </View>
+            )}
+
+            {(pushToTalk.error || readAloud.error || attach.error) && (
+              <View className="bg-error-100 p-3 rounded-lg mb-4">
+                <Text className="text-error-800">
+                  {(pushToTalk.error ?? readAloud.error ?? attach.error)?.message}
+                </Text>
+              </View>
+            )}
+
+            {attach.attachments.length > 0 && (
+              <View className="flex-row flex-wrap mb-2 pt-2">
+                {attach.attachments.map((attachment) => (
+                  <AttachmentPreview
+                    key={attachment.localId}
+                    attachment={attachment}
+                    onRemove={() => attach.remove(attachment.localId)}
+                  />
+                ))}
+              </View>
+            )}
+
+            <View className="flex-row gap-4 mb-2">
+              {[
+                { label: '📷 Camera', onPress: attach.takePhoto },
+                { label: '🖼️ Photo', onPress: attach.pickImage },
+                { label: '📄 File', onPress: attach.pickDocument },
+                { label: '▦ Scan', onPress: () => setShowScanner(true) },
+              ].map(({ label, onPress }) => (
+                <Pressable
+                  key={label}
+                  onPress={onPress}
+                  disabled={!isOnline || isLoading}
+                  accessibilityRole="button"
+                >
+                  <Text
+                    className="text-sm"
+                    style={{ color: isOnline ? colors.primary : colors.textSecondary }}
+                  >
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
             </View>
-          }
-        />
 
-        {error && (
-          <View className="bg-error-100 p-3 rounded-lg mb-4">
-            <Text className="text-error-800">{error.message}</Text>
-          </View>
-        )}
+            <View className="flex-row gap-2">
+              <TextInput
+                className="flex-1 h-12 rounded-lg px-4 border"
+                style={{
+                  backgroundColor: colors.surface,
+                  borderColor: colors.border,
+                  color: colors.text,
+                }}
+                placeholder="Type a message..."
+                placeholderTextColor={colors.textSecondary}
+                value={input}
+                onChangeText={setInput}
+                editable={!isLoading}
+                multiline
+              />
+
+              <Pressable
+                className={`h-12 w-12 rounded-lg items-center justify-center ${
+                  pushToTalk.isRecording ? 'bg-error-500' : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+                onPressIn={pushToTalk.start}
+                onPressOut={pushToTalk.stop}
+                disabled={!isOnline || pushToTalk.isTranscribing}
+                accessibilityRole="button"
+                accessibilityLabel="Hold to talk"
+              >
+                {pushToTalk.isTranscribing ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <Text className="text-xl">🎤</Text>
+                )}
+              </Pressable>
+
+              {isLoading || isStreaming ? (
+                <Button variant="danger" onPress={handleAbort}>
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  onPress={handleSend}
+                  disabled={(!input.trim() && attach.ready.length === 0) || attach.isUploading}
+                >
+                  Send
+                </Button>
+              )}
+            </View>
 
-        <View className="flex-row gap-2">
-          <TextInput
-            className="flex-1 h-12 rounded-lg px-4 border"
-            style={{
-              backgroundColor: colors.surface,
-              borderColor: colors.border,
-              color: colors.text,
-            }}
-            placeholder="Type a message..."
-            placeholderTextColor={colors.textSecondary}
-            value={input}
-            onChangeText={setInput}
-            editable={!isLoading && isOnline}
-            multiline
-          />
-
-          {isLoading || isStreaming ? (
-            <Button variant="danger" onPress={handleAbort}>
-              Stop
-            </Button>
-          ) : (
-            <Button onPress={handleSend} disabled={!input.trim() || !isOnline}>
-              Send
-            </Button>
-          )}
-        </View>
+            {pushToTalk.isRecording && (
+              <Text className="mt-2 text-sm" style={{ color: colors.textSecondary }}>
+                Listening... release to transcribe
+              </Text>
+            )}
 
-        {isStreaming && (
-          <View className="mt-2 flex-row items-center">
-            <ActivityIndicator size="small" color={colors.primary} />
-            <Text className="ml-2 text-sm" style={{ color: colors.textSecondary }}>
-              AI is typing...
-            </Text>
-          </View>
+            <Modal
+              visible={showScanner}
+              animationType="slide"
+              onRequestClose={() => setShowScanner(false)}
+            >
+              <BarcodeScanner
+                onScan={(scan) => {
+                  attach.addBarcode(scan);
+                  setShowScanner(false);
+                }}
+                onClose={() => setShowScanner(false)}
+              />
+            </Modal>
+
+            {isStreaming && (
+              <View className="mt-2 flex-row items-center">
+                <ActivityIndicator size="small" color={colors.primary} />
+                <Text className="ml-2 text-sm" style={{ color: colors.textSecondary }}>
+                  AI is typing...
+                </Text>
+              </View>
+            )}
+          </>
         )}
       </Card>
     </View>
@@ -291,50 +447,28 @@ function CompletionTab() {
 
 /**
  * Image Tab - AI image generation
+ * Generation runs as a server job; finished images land in the user's gallery
  */
 function ImageTab() {
   const { colors } = useTheme();
   const { success } = useHaptics();
   const [prompt, setPrompt] = useState('');
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { generate, cancel, job, isGenerating, error, gallery } = useImageGeneration();
 
   const handleGenerate = async () => {
     if (!prompt.trim()) return;
 
-    setIsLoading(true);
-    setError(null);
-    setImageUrl(null);
-
-    try {
-      const response = await fetch('/api/ai/image', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: 'Bearer your-token', // TODO: Get from auth
-        },
-        body: JSON.stringify({
-          prompt,
-          size: '1024x1024',
-          quality: 'standard',
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate image');
-      }
-
-      const data = await response.json();
-      setImageUrl(data.images[0]?.url || null);
+    const finished = await generate(prompt, {
+      size: '1024x1024',
+      quality: 'standard',
+    });
+    if (finished?.status === 'succeeded') {
       success();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const imageUrl = job?.status === 'succeeded' ? (job.images[0]?.url ?? null) : null;
+
   return (
     <View className="flex-1">
       <Card className="flex-1">
@@ -360,16 +494,22 @@ function ImageTab() {
           textAlignVertical="top"
         />
 
-        <Button fullWidth onPress={handleGenerate} loading={isLoading} disabled={!prompt.trim()}>
+        <Button fullWidth onPress={handleGenerate} loading={isGenerating} disabled={!prompt.trim()}>
           Generate Image
         </Button>
 
         {error && (
           <View className="bg-error-100 p-3 rounded-lg mt-4">
-            <Text className="text-error-800">{error}</Text>
+            <Text className="text-error-800">{error.message}</Text>
           </View>
         )}
 
+        {job?.status === 'cancelled' && (
+          <Text className="mt-4 text-center" style={{ color: colors.textSecondary }}>
+            Generation cancelled
+          </Text>
+        )}
+
         {imageUrl && (
           <View className="mt-4">
             <RNImage
@@ -380,12 +520,33 @@ function ImageTab() {
           </View>
         )}
 
-        {isLoading && (
+        {isGenerating && (
           <View className="mt-4 items-center justify-center py-12">
             <ActivityIndicator size="large" color={colors.primary} />
             <Text className="mt-4 text-center" style={{ color: colors.textSecondary }}>
-              Generating your image...
+              {job?.status === 'running' ? 'Generating your image...' : 'Waiting to start...'}
+            </Text>
+            <Button variant="outline" onPress={cancel} className="mt-4">
+              Cancel
+            </Button>
+          </View>
+        )}
+
+        {gallery.length > 0 && (
+          <View className="mt-6">
+            <Text className="text-sm font-medium mb-2" style={{ color: colors.text }}>
+              Your images
             </Text>
+            <ImageCarousel
+              images={gallery.map((image) => ({
+                id: image.id,
+                uri: image.url,
+                alt: image.revisedPrompt ?? image.prompt,
+              }))}
+              height={240}
+              width={240}
+              borderRadius={8}
+            />
           </View>
         )}
       </Card>
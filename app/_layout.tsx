@@ -8,7 +8,7 @@ import { useEffect } from 'react';
 import { I18nextProvider } from 'react-i18next';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
-import { useTheme } from '@/hooks';
+import { useAuth, useTheme } from '@/hooks';
 import { setupGlobalErrorHandlers } from '@/lib/errorHandler';
 import i18n from '@/lib/i18n';
 import { initSentry } from '@/lib/sentry';
@@ -36,6 +36,8 @@ const queryClient = new QueryClient({
 
 function RootLayoutNav() {
   const { colorScheme } = useTheme();
+  // Keeps the auth store and the API session token in sync with Clerk
+  useAuth();
 
   useEffect(() => {
     // Hide splash screen after a delay
@@ -57,6 +59,7 @@ function RootLayoutNav() {
       >
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+        <Stack.Screen name="notes/[id]" options={{ headerShown: true }} />
         <Stack.Screen name="+not-found" />
       </Stack>
     </>
@@ -0,0 +1,136 @@
+/**
+ * AI Chat Attachments API Route
+ *
+ * POST /api/ai/attachments
+ *
+ * Uploads an image or document to attach to a chat message. The returned
+ * attachment goes into `messages[].attachments` of POST /api/ai/chat, which
+ * sends it to the model (see src/services/ai/attachments.ts).
+ *
+ * Request Body (multipart/form-data):
+ * - file: JPEG, PNG, WebP or GIF image (up to 5 MB), PDF (up to 20 MB), or
+ *   plain text, Markdown, CSV or JSON (up to 100 KB)
+ *
+ * Response (201):
+ * {
+ *   attachment: {
+ *     type: 'image' | 'file',
+ *     id: string,
+ *     name: string,
+ *     mediaType: string,
+ *     size: number,
+ *     url: string,
+ *     thumbnailUrl?: string (images)
+ *   }
+ * }
+ *
+ * Oversized files return 413 and unsupported or mislabeled files 415. Whether the
+ * chat model can read the attachment is checked when the message is sent.
+ */
+
+import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
+import {
+  AttachmentError,
+  attachmentService,
+  toMessageAttachment,
+} from '@/services/ai/attachments';
+import { withSignedUrls } from '@/services/ai/imageJobs';
+import { MAX_ATTACHMENT_BYTES, formatAttachmentSize } from '@/features/ai/schemas/attachments';
+import { logError, addBreadcrumb } from '@/lib/sentry';
+
+/** Fetch API form data; React Native's global FormData type has no `get` */
+type FormFields = { get(name: string): File | string | null };
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Protect endpoint with auth and rate limiting
+    const authResult = await protectAIEndpoint(request);
+    if (authResult instanceof Response) {
+      return authResult;
+    }
+
+    const { userId } = authResult;
+
+    // Refuse oversized uploads before reading them (allowing for the multipart envelope)
+    const contentLength = Number(request.headers.get('Content-Length'));
+    if (contentLength > MAX_ATTACHMENT_BYTES + 64 * 1024) {
+      return Response.json(
+        {
+          error: 'Attachment Too Large',
+          code: 'PAYLOAD_TOO_LARGE',
+          message: `Attachments must be smaller than ${formatAttachmentSize(MAX_ATTACHMENT_BYTES)}`,
+        },
+        { status: 413 }
+      );
+    }
+
+    // Parse and validate the form
+    const form = (await request.formData().catch(() => null)) as FormFields | null;
+    const file = form?.get('file');
+    if (!file || typeof file === 'string') {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          message: 'Send the file as multipart/form-data in the `file` field',
+        },
+        { status: 400 }
+      );
+    }
+
+    const record = await attachmentService.upload(userId, {
+      name: file.name || 'attachment',
+      mediaType: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    // Add Sentry breadcrumb
+    addBreadcrumb({
+      message: 'AI Attachment Uploaded',
+      category: 'ai',
+      data: {
+        userId,
+        type: record.type,
+        mediaType: record.mediaType,
+        bytes: record.size,
+        duration: Date.now() - startTime,
+      },
+    });
+
+    return Response.json(
+      { attachment: withSignedUrls(toMessageAttachment(record)) },
+      { status: 201, headers: await getRateLimitHeaders(userId) }
+    );
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return Response.json(
+        {
+          error:
+            error.code === 'PAYLOAD_TOO_LARGE' ? 'Attachment Too Large' : 'Unsupported Attachment',
+          code: error.code,
+          message: error.message,
+        },
+        { status: error.code === 'PAYLOAD_TOO_LARGE' ? 413 : 415 }
+      );
+    }
+
+    // Log error to Sentry
+    logError(error as Error, {
+      context: 'AI Attachments API',
+      duration: Date.now() - startTime,
+    });
+
+    console.error('AI Attachment upload error:', error);
+
+    return Response.json(
+      {
+        error: 'Upload Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
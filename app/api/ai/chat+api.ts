@@ -4,30 +4,119 @@
  * POST /api/ai/chat
  *
  * Streaming conversational AI endpoint using the Vercel AI SDK.
- * Returns Server-Sent Events (SSE) for token streaming.
+ * Streams text and tool activity using the chat data stream protocol.
  *
  * Request Body:
  * {
- *   messages: Array<{ role: string, content: string }>,
- *   systemPrompt?: string,
+ *   messages: Array<{
+ *     role: 'user' | 'assistant' | 'tool',
+ *     content: string,
+ *     attachments?: MessageAttachment[] (user messages; see below)
+ *   }>,
+ *   promptTemplate?: { id: string, variables?: object } (default: { id: 'assistant' }),
  *   temperature?: number (0-2, default: 0.7),
  *   maxTokens?: number (default: 1000),
  *   stream?: boolean (default: true),
- *   tools?: string[] (optional tool names)
+ *   tools?: string[] (optional tool names; 403 TOOL_NOT_ALLOWED if the caller's role lacks access),
+ *   maxSteps?: number (1-10, default: AI_MAX_STEPS or 5; model calls per request when using tools),
+ *   threadId?: string (continue a stored conversation),
+ *   assistantMessageId?: string (ID to store the reply under)
  * }
  *
+ * System prompt: rendered from a server-side template (src/services/ai/promptTemplates.ts).
+ * Unknown templates or invalid variables return 400. The served `<id>@<version>` is
+ * recorded with usage, so rollouts of new versions can be compared.
+ *
+ * Threads: with `threadId`, prior messages are loaded from the thread store
+ * (src/services/ai/threads.ts) so clients only need to send new messages.
+ * New messages and the reply are saved to the thread and reach other devices via /api/sync.
+ *
+ * Context window: long conversations are fit to the model's context window by
+ * replacing older turns with a rolling summary (see src/services/ai/context.ts).
+ * What happened is reported in the X-AI-Stream-Metadata header (and `metadata` field)
+ * as JSON matching `streamMetadataSchema`.
+ *
+ * Agent loop: with tools, the model may call tools, read their results and continue
+ * for up to `maxSteps` steps. Streaming responses use the data stream protocol
+ * (src/features/ai/schemas/dataStream.ts): text deltas interleaved with tool call
+ * start/argument/result parts and step boundaries.
+ *
+ * Attachments: images and documents uploaded with POST /api/ai/attachments, and scanned
+ * barcodes, are sent as image, file or text parts (src/services/ai/attachments.ts).
+ * Unknown uploads return 404 ATTACHMENT_NOT_FOUND; images or PDFs the model can't read
+ * return 501 FEATURE_NOT_AVAILABLE. Attachments from earlier in a thread are described
+ * in text if the model can't read them.
+ *
+ * Moderation: new messages and the rendered system prompt are checked before the model call,
+ * along with the text of attached documents and barcodes, and the reply is checked a
+ * sentence at a time as it streams (see src/services/ai/moderation.ts).
+ * Redacted content is replaced; blocked requests or
+ * replies end with the `content_filter` finish reason and `metadata.moderation`.
+ *
  * Response:
- * - Streaming: text/event-stream with NDJSON chunks
+ * - Streaming: data stream protocol lines (`<code>:<JSON>\n`)
  * - Non-streaming: application/json with full response
+ * - The serving provider is reported in the X-AI-Provider header (and `provider` field)
+ * - Context metadata is reported in the X-AI-Stream-Metadata header (and `metadata` field)
+ *
+ * Failover: transient errors are retried, then the request falls back through
+ * AI_CHAT_FALLBACK (see src/services/ai/failover.ts).
  */
 
-import { streamText } from 'ai';
-import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
-import { getCurrentProvider, validateProviderKeys } from '@/services/ai/provider';
-import { chatRequestSchema } from '@/features/ai/schemas';
+import { stepCountIs, streamText } from 'ai';
+import {
+  protectAIEndpoint,
+  getRateLimitHeaders,
+  enforceAIBudget,
+  requireModelCapabilities,
+  resolvePromptTemplate,
+  failoverBreadcrumbs,
+} from './middleware';
+import {
+  getAIProvider,
+  getCurrentProvider,
+  getMissingCapabilities,
+  getModelId,
+  getProvider,
+  getProviderDisplayName,
+  validateProviderKeys,
+} from '@/services/ai/provider';
+import {
+  AIFailoverError,
+  getFallbackChain,
+  runWithFailover,
+  waitForStreamStart,
+} from '@/services/ai/failover';
+import {
+  contextManager,
+  createCompletionSummarizer,
+  estimateContextTokens,
+  getContextBudget,
+  getContextWindow,
+} from '@/services/ai/context';
+import {
+  createContentFilteredResponse,
+  createDataStreamResponse,
+} from '@/services/ai/dataStream';
+import {
+  mostSevereAction,
+  moderationPipeline,
+  summarizeModeration,
+} from '@/services/ai/moderation';
+import {
+  ThreadAccessError,
+  type ThreadMessageRecord,
+  threadRepository,
+} from '@/services/ai/threads';
+import { attachmentService, getAttachmentCapabilities } from '@/services/ai/attachments';
+import { usageLedger } from '@/services/ai/usage';
+import { type StreamMetadata, chatRequestSchema } from '@/features/ai/schemas';
+import { type MessageAttachment, parseAttachments } from '@/features/ai/schemas/attachments';
 import { logError, addBreadcrumb } from '@/lib/sentry';
 import { getTools } from './tools';
 
+const DEFAULT_MAX_STEPS = Number(process.env.AI_MAX_STEPS) || 5;
+
 export async function POST(request: Request) {
   const startTime = Date.now();
 
@@ -51,7 +140,7 @@ export async function POST(request: Request) {
       return authResult;
     }
 
-    const { userId } = authResult;
+    const { userId, role } = authResult;
 
     // Parse and validate request body
     const body = await request.json();
@@ -68,7 +157,226 @@ export async function POST(request: Request) {
       );
     }
 
-    const { messages, systemPrompt, temperature, maxTokens, stream, tools: toolNames } = validation.data;
+    const {
+      messages: requestMessages,
+      promptTemplate: promptTemplateRef,
+      temperature,
+      maxTokens,
+      stream,
+      tools: toolNames,
+      maxSteps = DEFAULT_MAX_STEPS,
+      threadId,
+      assistantMessageId,
+    } = validation.data;
+
+    // Get requested tools if specified, limited to those the caller may use
+    const tools =
+      toolNames && toolNames.length > 0 ? getTools(toolNames, { userId, role }) : undefined;
+    if (tools && tools.denied.length > 0) {
+      return Response.json(
+        {
+          error: 'Tool Not Allowed',
+          code: 'TOOL_NOT_ALLOWED',
+          message: `You don't have access to: ${tools.denied.join(', ')}`,
+          tools: tools.denied,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Render the system prompt from its template (the version depends on rollouts)
+    const promptTemplate = resolvePromptTemplate(promptTemplateRef, userId, 'chat');
+    if (promptTemplate instanceof Response) {
+      return promptTemplate;
+    }
+
+    // Attachments must be the caller's own uploads; use the stored details, not the client's
+    const missingAttachments: string[] = [];
+    const resolvedMessages = await Promise.all(
+      requestMessages.map(async (message) => {
+        if (!message.attachments?.length) {
+          return message;
+        }
+        const { attachments, missing } = await attachmentService.resolve(
+          userId,
+          message.attachments
+        );
+        missingAttachments.push(...missing);
+        return { ...message, attachments };
+      })
+    );
+
+    if (missingAttachments.length > 0) {
+      return Response.json(
+        {
+          error: 'Attachment Not Found',
+          code: 'ATTACHMENT_NOT_FOUND',
+          message: 'Upload attachments with POST /api/ai/attachments before sending them',
+          attachments: missingAttachments,
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only fall back to providers whose models can handle the request
+    const attachmentCapabilities = getAttachmentCapabilities(
+      resolvedMessages.flatMap((m) => m.attachments ?? [])
+    );
+    const requiredCapabilities = [
+      ...(stream !== false ? (['streaming'] as const) : []),
+      ...(toolNames && toolNames.length > 0 ? (['tools'] as const) : []),
+      ...attachmentCapabilities,
+    ];
+    const providers = getFallbackChain('chat').filter(
+      (name) => getMissingCapabilities(getProvider(name).chat, requiredCapabilities, name).length === 0
+    );
+
+    // Reject what the configured model can't handle (e.g. attached images) before spending budget
+    if (providers.length === 0) {
+      const capabilityResponse = requireModelCapabilities(
+        getCurrentProvider().chat,
+        requiredCapabilities
+      );
+      if (capabilityResponse) {
+        return capabilityResponse;
+      }
+    }
+
+    const primaryProvider = providers[0] ?? getAIProvider();
+    const chain = providers.length > 0 ? providers : [primaryProvider];
+
+    // Model parts for the new attachments; their text (documents, barcodes) is moderated below
+    const newAttachmentParts = await Promise.all(
+      resolvedMessages.map((m) =>
+        m.attachments?.length
+          ? attachmentService.toModelParts(userId, m.attachments, attachmentCapabilities)
+          : Promise.resolve([])
+      )
+    );
+    const attachmentTextParts = newAttachmentParts
+      .flat()
+      .filter((part) => part.type === 'text');
+
+    // Check new input before it reaches the model (stored history was checked when sent or synced)
+    const [messageCheck, systemCheck, attachmentCheck] = await Promise.all([
+      moderationPipeline.checkMessages(resolvedMessages, { stage: 'input', userId }),
+      moderationPipeline.check(promptTemplate?.text ?? '', { stage: 'input', userId }),
+      moderationPipeline.checkMessages(
+        attachmentTextParts.map((part) => ({ content: part.text })),
+        { stage: 'input', userId }
+      ),
+    ]);
+    attachmentTextParts.forEach((part, i) => {
+      part.text = attachmentCheck.messages[i].content;
+    });
+
+    const inputAction = mostSevereAction([
+      messageCheck.action,
+      systemCheck.action,
+      attachmentCheck.action,
+    ]);
+    const inputModeration =
+      inputAction === 'allow'
+        ? undefined
+        : summarizeModeration(
+            {
+              action: inputAction,
+              findings: [
+                ...messageCheck.findings,
+                ...systemCheck.findings,
+                ...attachmentCheck.findings,
+              ],
+            },
+            'input'
+          );
+
+    if (inputModeration?.action === 'block') {
+      addBreadcrumb({
+        message: 'AI Chat Input Blocked',
+        category: 'ai',
+        data: { userId, categories: inputModeration.categories },
+      });
+
+      const metadata: StreamMetadata = {
+        finishReason: 'content_filter',
+        moderation: inputModeration,
+      };
+      const headers = {
+        'X-AI-Stream-Metadata': JSON.stringify(metadata),
+        ...(await getRateLimitHeaders(userId)),
+      };
+
+      if (stream !== false) {
+        return createContentFilteredResponse(metadata, headers);
+      }
+      return Response.json(
+        { text: '', toolInvocations: [], steps: 0, finishReason: 'content_filter', metadata },
+        { headers }
+      );
+    }
+
+    const newMessages = messageCheck.messages;
+    const systemPrompt = promptTemplate ? systemCheck.text : undefined;
+
+    // Load prior context when continuing a stored thread
+    let history: Array<{
+      role: 'user' | 'assistant';
+      content: string;
+      attachments?: MessageAttachment[];
+    }> = [];
+    if (threadId) {
+      try {
+        const firstUserMessage = newMessages.find((m) => m.role === 'user')?.content ?? '';
+        await threadRepository.ensureThread(userId, threadId, firstUserMessage);
+
+        const newIds = new Set(newMessages.map((m) => m.id).filter(Boolean));
+        // Stored system messages are never sent: the system prompt comes from the server
+        history = (await threadRepository.getMessages(userId, threadId))
+          .filter(
+            (m): m is ThreadMessageRecord & { role: 'user' | 'assistant' } =>
+              !newIds.has(m.id) && m.role !== 'system'
+          )
+          .map((m) => ({
+            role: m.role,
+            content: m.content,
+            ...(m.attachments && { attachments: parseAttachments(m.attachments) }),
+          }));
+      } catch (error) {
+        if (error instanceof ThreadAccessError) {
+          return Response.json(
+            { error: 'Thread Not Found', code: 'THREAD_NOT_FOUND', message: error.message },
+            { status: 404 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // New messages carry their attachments as parts already
+    const messages = [
+      ...history,
+      ...newMessages.map(({ id: _id, attachments: _attachments, ...message }, i) => ({
+        ...message,
+        ...(newAttachmentParts[i].length > 0 && { parts: newAttachmentParts[i] }),
+      })),
+    ];
+
+    // Size the prompt for the smallest context window in the chain
+    const contextWindow = Math.min(
+      ...chain.map((name) => getContextWindow(getProvider(name).chat, name))
+    );
+
+    // Reject up front if the prompt and the longest reply would exceed the user's budget
+    // Long conversations are fit to the context budget below, so count at most that much
+    const estimatedTokens =
+      Math.min(
+        estimateContextTokens(messages, systemPrompt, primaryProvider),
+        getContextBudget(contextWindow, maxTokens)
+      ) + maxTokens;
+    const budgetResponse = await enforceAIBudget(userId, { tokens: estimatedTokens });
+    if (budgetResponse) {
+      return budgetResponse;
+    }
 
     // Add Sentry breadcrumb
     addBreadcrumb({
@@ -80,66 +388,240 @@ export async function POST(request: Request) {
         temperature,
         maxTokens,
         stream,
+        promptTemplate: promptTemplate?.label,
+        ...(tools && { tools: Object.keys(tools.tools), maxSteps }),
       },
     });
 
-    // Get AI provider
-    const provider = getCurrentProvider();
+    // Save the new messages to the thread before calling the model
+    if (threadId) {
+      await threadRepository.saveMessages(
+        userId,
+        threadId,
+        newMessages
+          .filter((m) => m.role !== 'tool')
+          .map((m) => ({
+            id: m.id ?? crypto.randomUUID(),
+            role: m.role as 'system' | 'user' | 'assistant',
+            content: m.content,
+            attachments: m.attachments,
+          }))
+      );
+    }
 
-    // Get requested tools if specified
-    const tools = toolNames && toolNames.length > 0 ? getTools(toolNames) : undefined;
+    // Replace older turns with a rolling summary if the conversation outgrew the context window
+    const { messages: promptMessages, metadata: contextMetadata } = await contextManager.fit(
+      messages,
+      {
+        model: getProvider(primaryProvider).chat,
+        provider: primaryProvider,
+        systemPrompt,
+        maxOutputTokens: maxTokens,
+        contextWindow,
+        conversationKey: threadId ? `${userId}:${threadId}` : undefined,
+        summarize: createCompletionSummarizer(userId),
+      }
+    );
+
+    if (contextMetadata.truncated) {
+      addBreadcrumb({
+        message: 'AI Chat Context Truncated',
+        category: 'ai',
+        data: { userId, ...contextMetadata },
+      });
+    }
+
+    // Send attachments as parts; older ones the chain can't read are described in text
+    const supportedCapabilities = (['imageInput', 'fileInput'] as const).filter((capability) =>
+      chain.every(
+        (name) => getMissingCapabilities(getProvider(name).chat, [capability], name).length === 0
+      )
+    );
+    const modelMessages = await Promise.all(
+      promptMessages.map(async (message) => {
+        const parts =
+          'parts' in message && message.parts
+            ? message.parts
+            : 'attachments' in message && message.attachments?.length
+              ? await attachmentService.toModelParts(
+                  userId,
+                  message.attachments,
+                  supportedCapabilities
+                )
+              : null;
+        if (!parts) {
+          return message;
+        }
+        return {
+          role: message.role,
+          content: [
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+            ...parts,
+          ],
+        };
+      })
+    );
 
     // Create system message if provided
     const systemMessages = systemPrompt
       ? [{ role: 'system' as const, content: systemPrompt }]
       : [];
 
-    // Stream response using AI SDK
-    // Note: maxTokens is not directly supported in AI SDK v5
-    // Token limits are controlled by the model configuration
-    const result = streamText({
-      model: provider.chat,
-      messages: [...systemMessages, ...messages] as any,
-      temperature,
-      tools: tools as any,
-      onFinish: (event) => {
-        // Log completion metrics to Sentry
-        const duration = Date.now() - startTime;
-        addBreadcrumb({
-          message: 'AI Chat Completed',
-          category: 'ai',
-          data: {
-            userId,
-            duration,
-            tokensUsed: event.usage?.totalTokens,
-            finishReason: event.finishReason,
+    // Checks the reply as it streams; stops the model if the reply is blocked
+    const outputModerator = moderationPipeline.createOutputModerator({ userId });
+    const outputAbort = new AbortController();
+
+    // Stream response using AI SDK, falling back to the next provider on failure
+    const { result, provider } = await runWithFailover(
+      chain,
+      async (config, abortSignal, providerName) => {
+        const attempt = streamText({
+          model: config.chat,
+          messages: [...systemMessages, ...modelMessages] as any,
+          temperature,
+          maxOutputTokens: maxTokens,
+          tools: tools?.tools,
+          // Let the model read tool results and continue, up to maxSteps model calls
+          ...(tools && { stopWhen: stepCountIs(maxSteps) }),
+          abortSignal: AbortSignal.any([abortSignal, outputAbort.signal]),
+          // Retries are handled by runWithFailover
+          maxRetries: 0,
+          onFinish: async (event) => {
+            // Log completion metrics to Sentry
+            const duration = Date.now() - startTime;
+            addBreadcrumb({
+              message: 'AI Chat Completed',
+              category: 'ai',
+              data: {
+                userId,
+                provider: providerName,
+                model: getModelId(config.chat),
+                duration,
+                promptTokens: event.totalUsage?.inputTokens,
+                completionTokens: event.totalUsage?.outputTokens,
+                tokensUsed: event.totalUsage?.totalTokens,
+                finishReason: event.finishReason,
+                steps: event.steps.length,
+                promptTemplate: promptTemplate?.label,
+              },
+            });
+
+            // Record usage against the user's budget
+            try {
+              await usageLedger.recordTokens(
+                userId,
+                getModelId(config.chat),
+                'chat',
+                event.totalUsage,
+                { promptTemplate: promptTemplate?.label }
+              );
+            } catch (error) {
+              logError(error as Error, { context: 'AI Chat usage recording', userId });
+            }
+
+            // Save the reply to the thread as the user saw it (redacted, or not at all if blocked)
+            if (threadId) {
+              try {
+                const reply = await moderationPipeline.check(
+                  // Text from every step, not just the last one
+                  event.steps.map((step) => step.text).join(''),
+                  { stage: 'output', userId }
+                );
+                if (reply.action === 'block') {
+                  return;
+                }
+                await threadRepository.saveMessages(userId, threadId, [
+                  {
+                    id: assistantMessageId ?? crypto.randomUUID(),
+                    role: 'assistant',
+                    content: reply.text,
+                  },
+                ]);
+              } catch (error) {
+                logError(error as Error, { context: 'AI Chat thread save', userId, threadId });
+              }
+            }
           },
         });
+
+        // Provider errors surface inside the stream, so wait for it to start
+        await waitForStreamStart(attempt.fullStream);
+        return attempt;
       },
-    });
+      { onEvent: failoverBreadcrumbs('chat', userId) }
+    );
+
+    const metadata: StreamMetadata = {
+      model: getModelId(getProvider(provider).chat),
+      context: contextMetadata,
+      ...(promptTemplate && { promptTemplate: promptTemplate.label }),
+      ...(inputModeration && { moderation: inputModeration }),
+    };
+
+    const providerHeaders = {
+      'X-AI-Provider': provider,
+      'X-AI-Stream-Metadata': JSON.stringify(metadata),
+      ...(threadId && { 'X-AI-Thread-Id': threadId }),
+      ...(await getRateLimitHeaders(userId)),
+    };
 
     // Return streaming response
     if (stream !== false) {
-      return result.toTextStreamResponse({
+      return createDataStreamResponse(result.fullStream, {
+        metadata,
+        maxSteps: tools ? maxSteps : undefined,
+        moderator: outputModerator,
+        onContentFiltered: () => {
+          addBreadcrumb({
+            message: 'AI Chat Output Blocked',
+            category: 'ai',
+            data: { userId, categories: outputModerator.metadata.categories },
+          });
+          outputAbort.abort();
+        },
         headers: {
-          'Content-Type': 'text/event-stream',
           'Cache-Control': 'no-cache',
           Connection: 'keep-alive',
-          ...getRateLimitHeaders(userId),
+          ...providerHeaders,
         },
       });
     }
 
     // Return non-streaming response
-    const response = await result.text;
+    const steps = await result.steps;
+    const reply = await moderationPipeline.check(steps.map((step) => step.text).join(''), {
+      stage: 'output',
+      userId,
+    });
+    const outputModeration =
+      reply.action === 'allow' ? undefined : summarizeModeration(reply, 'output');
+
     return Response.json(
       {
-        text: response,
-        usage: result.usage,
-        finishReason: result.finishReason,
+        text: reply.text,
+        toolInvocations: steps.flatMap((step, index) =>
+          step.toolResults.map((toolResult) => ({
+            toolCallId: toolResult.toolCallId,
+            toolName: toolResult.toolName,
+            args: toolResult.input,
+            result: toolResult.output,
+            step: index,
+          }))
+        ),
+        steps: steps.length,
+        usage: await result.totalUsage,
+        finishReason:
+          reply.action === 'block' ? 'content_filter' : await result.finishReason,
+        provider,
+        providerName: getProviderDisplayName(provider),
+        metadata: {
+          ...metadata,
+          ...(outputModeration && { moderation: outputModeration }),
+        },
+        ...(threadId && { threadId }),
       },
       {
-        headers: getRateLimitHeaders(userId),
+        headers: providerHeaders,
       }
     );
   } catch (error) {
@@ -156,6 +638,12 @@ export async function POST(request: Request) {
         error: 'AI Request Failed',
         code: 'AI_ERROR',
         message: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...(error instanceof AIFailoverError && {
+          details: {
+            failedProviders: error.errors.map((e) => e.provider),
+            skippedProviders: error.skipped,
+          },
+        }),
       },
       { status: 500 }
     );
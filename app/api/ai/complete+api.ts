@@ -9,23 +9,62 @@
  * Request Body:
  * {
  *   prompt: string,
- *   systemPrompt?: string,
+ *   promptTemplate?: { id: string, variables?: object } (system prompt, e.g. 'summarize'),
  *   temperature?: number (0-2, default: 0.7),
  *   maxTokens?: number (default: 500),
- *   stopSequences?: string[]
+ *   stopSequences?: string[],
+ *   cache?: boolean (reuse cached replies; default: only at temperature 0)
  * }
  *
  * Response:
  * {
  *   text: string,
  *   usage: { promptTokens, completionTokens, totalTokens },
- *   finishReason: string
+ *   finishReason: string,
+ *   provider: string,
+ *   promptTemplate?: string ('<id>@<version>' served),
+ *   moderation?: { action, stage, categories }
  * }
+ *
+ * System prompt: rendered from a server-side template (src/services/ai/promptTemplates.ts);
+ * unknown templates or invalid variables return 400.
+ *
+ * Moderation: the prompt and the reply are checked (src/services/ai/moderation.ts).
+ * Redacted content is replaced; blocked content returns empty text with the
+ * `content_filter` finish reason.
+ *
+ * Caching: deterministic requests (temperature 0, or `cache: true`) are answered from
+ * the response cache when an identical request was served recently (see
+ * src/services/ai/responseCache.ts). `X-Cache: HIT|MISS` reports which; hits skip the
+ * model, the AI rate limit and the usage budget.
+ *
+ * Failover: transient errors are retried, then the request falls back through
+ * AI_COMPLETION_FALLBACK (see src/services/ai/failover.ts).
  */
 
 import { generateText } from 'ai';
-import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
-import { getCurrentProvider, validateProviderKeys } from '@/services/ai/provider';
+import {
+  authenticateAIRequest,
+  enforceAIRateLimit,
+  getRateLimitHeaders,
+  enforceAIBudget,
+  resolvePromptTemplate,
+  failoverBreadcrumbs,
+} from './middleware';
+import {
+  getModelId,
+  getProvider,
+  getProviderDisplayName,
+  validateProviderKeys,
+} from '@/services/ai/provider';
+import { AIFailoverError, getFallbackChain, runWithFailover } from '@/services/ai/failover';
+import {
+  mostSevereAction,
+  moderationPipeline,
+  summarizeModeration,
+} from '@/services/ai/moderation';
+import { responseCache } from '@/services/ai/responseCache';
+import { estimateTextTokens, usageLedger } from '@/services/ai/usage';
 import { completionRequestSchema } from '@/features/ai/schemas';
 import { logError, addBreadcrumb } from '@/lib/sentry';
 
@@ -46,8 +85,8 @@ export async function POST(request: Request) {
       );
     }
 
-    // Protect endpoint with auth and rate limiting
-    const authResult = await protectAIEndpoint(request);
+    // Authenticate; the rate limit is checked after the cache lookup
+    const authResult = await authenticateAIRequest(request);
     if (authResult instanceof Response) {
       return authResult;
     }
@@ -69,7 +108,91 @@ export async function POST(request: Request) {
       );
     }
 
-    const { prompt, systemPrompt, temperature, maxTokens, stopSequences } = validation.data;
+    const { temperature, maxTokens, stopSequences } = validation.data;
+
+    // Render the system prompt from its template (the version depends on rollouts)
+    const promptTemplate = resolvePromptTemplate(
+      validation.data.promptTemplate,
+      userId,
+      'completion'
+    );
+    if (promptTemplate instanceof Response) {
+      return promptTemplate;
+    }
+
+    // Answer repeated deterministic requests from the cache
+    const providers = getFallbackChain('completion');
+    const cacheKey = responseCache.shouldCache(validation.data)
+      ? responseCache.createKey({
+          userId,
+          prompt: validation.data.prompt,
+          model: getModelId(getProvider(providers[0]).completion),
+          promptTemplate: promptTemplate?.label,
+          systemPrompt: promptTemplate?.text,
+          params: { temperature, maxTokens, stopSequences },
+        })
+      : null;
+
+    const cached = cacheKey ? await responseCache.get(cacheKey) : null;
+    if (cached) {
+      addBreadcrumb({
+        message: 'AI Completion Cache Hit',
+        category: 'ai',
+        data: { userId, promptTemplate: promptTemplate?.label },
+      });
+
+      return Response.json(cached, {
+        headers: {
+          'X-Cache': 'HIT',
+          'X-AI-Provider': String(cached.provider),
+          ...(await getRateLimitHeaders(userId)),
+        },
+      });
+    }
+
+    // Only requests that reach the model count against the rate limit
+    const rateLimitResponse = await enforceAIRateLimit(userId);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    // Check input before it reaches the model
+    const [promptCheck, systemCheck] = await Promise.all([
+      moderationPipeline.check(validation.data.prompt, { stage: 'input', userId }),
+      moderationPipeline.check(promptTemplate?.text ?? '', { stage: 'input', userId }),
+    ]);
+    const inputAction = mostSevereAction([promptCheck.action, systemCheck.action]);
+    const inputModeration =
+      inputAction === 'allow'
+        ? undefined
+        : summarizeModeration(
+            { action: inputAction, findings: [...promptCheck.findings, ...systemCheck.findings] },
+            'input'
+          );
+
+    if (inputModeration?.action === 'block') {
+      addBreadcrumb({
+        message: 'AI Completion Input Blocked',
+        category: 'ai',
+        data: { userId, categories: inputModeration.categories },
+      });
+
+      return Response.json(
+        { text: '', finishReason: 'content_filter', moderation: inputModeration },
+        { headers: { 'X-Cache': 'MISS', ...(await getRateLimitHeaders(userId)) } }
+      );
+    }
+
+    const prompt = promptCheck.text;
+    const systemPrompt = promptTemplate ? systemCheck.text : undefined;
+
+    // Reject up front if the prompt and the longest reply would exceed the user's budget
+    const budgetResponse = await enforceAIBudget(userId, {
+      tokens: estimateTextTokens(prompt) + estimateTextTokens(systemPrompt ?? '') + maxTokens,
+    });
+    if (budgetResponse) {
+      return budgetResponse;
+    }
 
     // Add Sentry breadcrumb
     addBreadcrumb({
@@ -80,14 +203,12 @@ export async function POST(request: Request) {
         promptLength: prompt.length,
         temperature,
         maxTokens,
+        promptTemplate: promptTemplate?.label,
       },
     });
 
-    // Get AI provider
-    const provider = getCurrentProvider();
-
     // Build messages array
-    const messages = [];
+    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
 
     if (systemPrompt) {
       messages.push({
@@ -101,15 +222,27 @@ export async function POST(request: Request) {
       content: prompt,
     });
 
-    // Generate completion using AI SDK
-    // Note: maxTokens is not directly supported in AI SDK v5
-    // Token limits are controlled by the model configuration
-    const result = await generateText({
-      model: provider.completion,
-      messages,
-      temperature,
-      ...(stopSequences && { stopSequences }),
-    });
+    // Generate completion using AI SDK, falling back to the next provider on failure
+    const {
+      result: { completion: result, modelId },
+      provider,
+    } = await runWithFailover(
+      providers,
+      async (config, abortSignal) => {
+        const completion = await generateText({
+          model: config.completion,
+          messages,
+          temperature,
+          maxOutputTokens: maxTokens,
+          abortSignal,
+          // Retries are handled by runWithFailover
+          maxRetries: 0,
+          ...(stopSequences && { stopSequences }),
+        });
+        return { completion, modelId: getModelId(config.completion) };
+      },
+      { onEvent: failoverBreadcrumbs('completion', userId) }
+    );
 
     // Log completion metrics to Sentry
     const duration = Date.now() - startTime;
@@ -118,23 +251,58 @@ export async function POST(request: Request) {
       category: 'ai',
       data: {
         userId,
+        provider,
+        model: modelId,
         duration,
+        promptTokens: result.usage?.inputTokens,
+        completionTokens: result.usage?.outputTokens,
         tokensUsed: result.usage?.totalTokens,
         finishReason: result.finishReason,
+        promptTemplate: promptTemplate?.label,
       },
     });
 
+    // Record usage against the user's budget
+    try {
+      await usageLedger.recordTokens(userId, modelId, 'completion', result.usage, {
+        promptTemplate: promptTemplate?.label,
+      });
+    } catch (error) {
+      logError(error as Error, { context: 'AI Completion usage recording', userId });
+    }
+
+    // Check the reply before returning it
+    const reply = await moderationPipeline.check(result.text, { stage: 'output', userId });
+    const moderation =
+      reply.action === 'allow' ? inputModeration : summarizeModeration(reply, 'output');
+
+    const responseBody = {
+      text: reply.text,
+      usage: result.usage,
+      finishReason: reply.action === 'block' ? 'content_filter' : result.finishReason,
+      provider,
+      providerName: getProviderDisplayName(provider),
+      ...(promptTemplate && { promptTemplate: promptTemplate.label }),
+      ...(moderation && { moderation }),
+    };
+
+    // Cache replies from the model the key names (not a fallback), unless blocked
+    if (cacheKey && provider === providers[0] && reply.action !== 'block') {
+      try {
+        await responseCache.set(cacheKey, responseBody);
+      } catch (error) {
+        logError(error as Error, { context: 'AI Completion cache write', userId });
+      }
+    }
+
     // Return response
-    return Response.json(
-      {
-        text: result.text,
-        usage: result.usage,
-        finishReason: result.finishReason,
+    return Response.json(responseBody, {
+      headers: {
+        'X-Cache': 'MISS',
+        'X-AI-Provider': provider,
+        ...(await getRateLimitHeaders(userId)),
       },
-      {
-        headers: getRateLimitHeaders(userId),
-      }
-    );
+    });
   } catch (error) {
     // Log error to Sentry
     logError(error as Error, {
@@ -149,6 +317,12 @@ export async function POST(request: Request) {
         error: 'AI Request Failed',
         code: 'AI_ERROR',
         message: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...(error instanceof AIFailoverError && {
+          details: {
+            failedProviders: error.errors.map((e) => e.provider),
+            skippedProviders: error.skipped,
+          },
+        }),
       },
       { status: 500 }
     );
@@ -0,0 +1,221 @@
+/**
+ * AI Structured Extraction API Route
+ *
+ * POST /api/ai/extract
+ *
+ * Turns free text into a typed record (note, contact, calendar event) validated
+ * against the Zod schemas in src/features/ai/schemas/extraction.ts. Responses that
+ * aren't valid JSON or don't match the schema are sent back to the model with the
+ * problems listed, up to `maxRepairs` times.
+ *
+ * Request Body:
+ * {
+ *   schema: 'note' | 'contact' | 'calendarEvent',
+ *   input: string,
+ *   instructions?: string,
+ *   referenceDate?: string (ISO date-time for relative dates, default: now),
+ *   timezone?: string (e.g. "Europe/Berlin"),
+ *   maxRepairs?: number (0-5, default: AI_EXTRACT_MAX_REPAIRS or 2)
+ * }
+ *
+ * Response:
+ * {
+ *   schema: string,
+ *   data: object (matches the schema),
+ *   attempts: number,
+ *   usage: { inputTokens, outputTokens, totalTokens },
+ *   provider: string
+ * }
+ *
+ * 422 EXTRACTION_FAILED with `issues` if no valid record was produced.
+ *
+ * Failover: each model call falls back through AI_COMPLETION_FALLBACK
+ * (see src/services/ai/failover.ts).
+ */
+
+import { generateText } from 'ai';
+import {
+  protectAIEndpoint,
+  getRateLimitHeaders,
+  enforceAIBudget,
+  failoverBreadcrumbs,
+} from './middleware';
+import {
+  type AIProvider,
+  getModelId,
+  getProviderDisplayName,
+  validateProviderKeys,
+} from '@/services/ai/provider';
+import { AIFailoverError, getFallbackChain, runWithFailover } from '@/services/ai/failover';
+import { extractStructured } from '@/services/ai/extraction';
+import { estimateTextTokens, usageLedger } from '@/services/ai/usage';
+import { extractRequestSchema } from '@/features/ai/schemas/extraction';
+import { logError, addBreadcrumb } from '@/lib/sentry';
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Validate provider configuration
+    const providerValidation = validateProviderKeys();
+    if (!providerValidation.valid) {
+      return Response.json(
+        {
+          error: 'AI Provider Not Configured',
+          code: 'PROVIDER_ERROR',
+          message: providerValidation.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Protect endpoint with auth and rate limiting
+    const authResult = await protectAIEndpoint(request);
+    if (authResult instanceof Response) {
+      return authResult;
+    }
+
+    const { userId } = authResult;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = extractRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { schema, input, instructions, referenceDate, timezone, maxRepairs } = validation.data;
+
+    // Reject up front if the prompt alone would exceed the user's budget
+    const budgetResponse = await enforceAIBudget(userId, {
+      tokens: estimateTextTokens(input) + estimateTextTokens(instructions ?? ''),
+    });
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
+    // Add Sentry breadcrumb
+    addBreadcrumb({
+      message: 'AI Extraction Request',
+      category: 'ai',
+      data: { userId, schema, inputLength: input.length },
+    });
+
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let provider: AIProvider | undefined;
+
+    const result = await extractStructured(
+      schema,
+      input,
+      async (messages) => {
+        const attempt = await runWithFailover(
+          getFallbackChain('completion'),
+          async (config, abortSignal) => {
+            const completion = await generateText({
+              model: config.completion,
+              messages,
+              // Deterministic output validates more reliably
+              temperature: 0,
+              abortSignal,
+              // Retries are handled by runWithFailover
+              maxRetries: 0,
+            });
+            return { completion, modelId: getModelId(config.completion) };
+          },
+          { onEvent: failoverBreadcrumbs('completion', userId) }
+        );
+
+        const { completion, modelId } = attempt.result;
+        provider = attempt.provider;
+        usage.inputTokens += completion.usage?.inputTokens ?? 0;
+        usage.outputTokens += completion.usage?.outputTokens ?? 0;
+        usage.totalTokens += completion.usage?.totalTokens ?? 0;
+
+        // Record usage against the user's budget, including repair attempts
+        try {
+          await usageLedger.recordTokens(userId, modelId, 'completion', completion.usage);
+        } catch (error) {
+          logError(error as Error, { context: 'AI Extraction usage recording', userId });
+        }
+
+        return { text: completion.text };
+      },
+      { instructions, referenceDate, timezone, maxRepairs }
+    );
+
+    addBreadcrumb({
+      message: result.success ? 'AI Extraction Completed' : 'AI Extraction Failed',
+      category: 'ai',
+      data: {
+        userId,
+        schema,
+        provider,
+        duration: Date.now() - startTime,
+        attempts: result.attempts.length,
+        tokensUsed: usage.totalTokens,
+      },
+    });
+
+    const headers = {
+      ...(provider && { 'X-AI-Provider': provider }),
+      ...(await getRateLimitHeaders(userId)),
+    };
+
+    if (!result.success) {
+      return Response.json(
+        {
+          error: 'Extraction Failed',
+          code: 'EXTRACTION_FAILED',
+          message: `The model did not return a valid ${schema} after ${result.attempts.length} attempts`,
+          issues: result.issues,
+          attempts: result.attempts.length,
+          usage,
+        },
+        { status: 422, headers }
+      );
+    }
+
+    return Response.json(
+      {
+        schema,
+        data: result.data,
+        attempts: result.attempts.length,
+        usage,
+        provider,
+        providerName: provider && getProviderDisplayName(provider),
+      },
+      { headers }
+    );
+  } catch (error) {
+    // Log error to Sentry
+    logError(error as Error, {
+      context: 'AI Extraction API',
+      duration: Date.now() - startTime,
+    });
+
+    console.error('AI Extraction error:', error);
+
+    return Response.json(
+      {
+        error: 'AI Request Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...(error instanceof AIFailoverError && {
+          details: {
+            failedProviders: error.errors.map((e) => e.provider),
+            skippedProviders: error.skipped,
+          },
+        }),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,11 @@
  *
  * POST /api/ai/image
  *
- * Generate images using DALL-E 3 or configured image model.
- * Returns base64 encoded image data or URLs.
+ * Queue an image generation job using DALL-E 3 or the configured image model.
+ * Providers without image generation (Anthropic, Google) return 501.
+ * The job runs in the background (src/services/ai/imageJobs.ts): poll
+ * GET /api/ai/image-jobs/:id for its status and images, DELETE it to cancel.
+ * Images are fetched as base64 and saved to our own storage with thumbnails.
  *
  * Request Body:
  * {
@@ -15,21 +18,44 @@
  *   n?: number (1-4)
  * }
  *
- * Response:
+ * Response (202):
  * {
- *   images: Array<{
- *     url?: string,
- *     b64_json?: string,
- *     revised_prompt?: string
- *   }>,
- *   created: number
+ *   jobId: string,
+ *   job: ImageJob (status 'queued')
  * }
+ *
+ * Users may have AI_IMAGE_MAX_ACTIVE_JOBS unfinished jobs (default 2); more return 429.
+ *
+ * Credits: when images cost credits (`costs.image` in PAYMENTS_CREDIT_PACKS, see
+ * src/services/payments/credits.ts), they are spent before the job is queued, and
+ * users without enough get 402 INSUFFICIENT_CREDITS with their `balance` and the
+ * credits `required`. When the job finishes, the credits of images it didn't save
+ * (failed or cancelled jobs, or fewer images returned) are given back.
+ *
+ * Moderation: the prompt is checked before generation (src/services/ai/moderation.ts).
+ * Blocked prompts return no job and no images with the `content_filter` finish reason.
+ * Generated images themselves are not checked.
  */
 
-import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
+import {
+  protectAIEndpoint,
+  getRateLimitHeaders,
+  enforceAIBudget,
+  requireModelCapabilities,
+} from './middleware';
 import { getCurrentProvider, validateProviderKeys } from '@/services/ai/provider';
 import { imageRequestSchema } from '@/features/ai/schemas';
 import { logError, addBreadcrumb } from '@/lib/sentry';
+import { usageLedger } from '@/services/ai/usage';
+import { moderationPipeline, summarizeModeration } from '@/services/ai/moderation';
+import {
+  ImageJobLimitError,
+  type ImageGenerator,
+  imageJobService,
+  toImageJob,
+} from '@/services/ai/imageJobs';
+import { InsufficientCreditsError, creditsService } from '@/services/payments/credits';
+import type { CreditLedgerEntry } from '@/services/payments/repository';
 
 export async function POST(request: Request) {
   const startTime = Date.now();
@@ -71,21 +97,35 @@ export async function POST(request: Request) {
       );
     }
 
-    const { prompt, size, quality, style, n } = validation.data;
+    const { size, quality, style, n } = validation.data;
 
-    // Add Sentry breadcrumb
-    addBreadcrumb({
-      message: 'AI Image Generation Request',
-      category: 'ai',
-      data: {
-        userId,
-        promptLength: prompt.length,
-        size,
-        quality,
-        style,
-        n,
-      },
+    // Check the prompt before it reaches the model
+    const promptCheck = await moderationPipeline.check(validation.data.prompt, {
+      stage: 'input',
+      userId,
     });
+    const moderation =
+      promptCheck.action === 'allow' ? undefined : summarizeModeration(promptCheck, 'input');
+
+    if (moderation?.action === 'block') {
+      addBreadcrumb({
+        message: 'AI Image Prompt Blocked',
+        category: 'ai',
+        data: { userId, categories: moderation.categories },
+      });
+
+      return Response.json(
+        {
+          images: [],
+          created: Math.floor(Date.now() / 1000),
+          finishReason: 'content_filter',
+          moderation,
+        },
+        { headers: await getRateLimitHeaders(userId) }
+      );
+    }
+
+    const prompt = promptCheck.text;
 
     // Get AI provider
     const provider = getCurrentProvider();
@@ -101,52 +141,153 @@ export async function POST(request: Request) {
       );
     }
 
-    // Call OpenAI DALL-E API directly
-    // Note: The AI SDK doesn't have built-in image generation yet
-    const response = await fetch('https://api.openai.com/v1/images/generations', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${provider.image.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: provider.image.model,
-        prompt,
-        size,
-        quality,
-        style,
-        n,
-        response_format: 'url', // or 'b64_json' for base64
-      }),
-    });
+    const capabilityResponse = requireModelCapabilities(provider.image.model, ['imageGeneration']);
+    if (capabilityResponse) {
+      return capabilityResponse;
+    }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Image generation failed');
+    // Reject up front if the images would exceed the user's budget
+    const budgetResponse = await enforceAIBudget(userId, { images: n });
+    if (budgetResponse) {
+      return budgetResponse;
     }
 
-    const result = await response.json();
+    // Pay for the images up front, when they cost credits
+    const creditsPerImage = creditsService.costOf('image');
+    let spend: CreditLedgerEntry | undefined;
+    if (creditsPerImage > 0) {
+      try {
+        spend = await creditsService.spend(userId, creditsPerImage * n, {
+          reference: 'ai:image',
+          description: `${n} image${n === 1 ? '' : 's'}`,
+        });
+      } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+          return Response.json(
+            {
+              error: 'Insufficient Credits',
+              code: error.code,
+              message: error.message,
+              balance: error.balance,
+              required: error.required,
+            },
+            { status: 402, headers: await getRateLimitHeaders(userId) }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Give back the credits of the images that weren't saved
+    const refundCredits = async (saved: number) => {
+      if (!spend || saved >= n) return;
+      try {
+        await creditsService.refund(spend, {
+          amount: creditsPerImage * (n - saved),
+          description: 'Images not generated',
+        });
+      } catch (error) {
+        logError(error as Error, { context: 'AI Image credit refund', userId });
+      }
+    };
 
-    // Log completion metrics to Sentry
-    const duration = Date.now() - startTime;
+    // Add Sentry breadcrumb
     addBreadcrumb({
-      message: 'AI Image Generation Completed',
+      message: 'AI Image Generation Request',
       category: 'ai',
       data: {
         userId,
-        duration,
-        imagesGenerated: result.data?.length || 0,
+        promptLength: prompt.length,
+        size,
+        quality,
+        style,
+        n,
       },
     });
 
-    // Return response
+    const imageConfig = provider.image;
+
+    // Call the OpenAI-compatible images API directly
+    // Note: The AI SDK doesn't have built-in image generation yet
+    const generate: ImageGenerator = async (imageRequest, abortSignal) => {
+      const response = await fetch(`${imageConfig.baseURL}/images/generations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${imageConfig.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: imageConfig.model,
+          ...imageRequest,
+          response_format: 'b64_json',
+        }),
+        signal: abortSignal,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Image generation failed');
+      }
+
+      const result = await response.json();
+      const images = (result.data ?? []) as Array<{ b64_json: string; revised_prompt?: string }>;
+
+      // Log completion metrics to Sentry
+      addBreadcrumb({
+        message: 'AI Image Generation Completed',
+        category: 'ai',
+        data: {
+          userId,
+          duration: Date.now() - startTime,
+          imagesGenerated: images.length,
+        },
+      });
+
+      // Record usage against the user's budget
+      try {
+        await usageLedger.recordImages(userId, imageConfig.model, images.length, quality);
+      } catch (error) {
+        logError(error as Error, { context: 'AI Image usage recording', userId });
+      }
+
+      return images.map((image) => ({
+        b64Json: image.b64_json,
+        revisedPrompt: image.revised_prompt,
+      }));
+    };
+
+    let job;
+    try {
+      job = await imageJobService.createJob(
+        userId,
+        { ...validation.data, prompt },
+        generate,
+        {
+          moderation,
+          // Failed and cancelled jobs keep no images
+          onFinished: (finished) => refundCredits(finished.images.length),
+        }
+      );
+    } catch (error) {
+      await refundCredits(0);
+      if (error instanceof ImageJobLimitError) {
+        return Response.json(
+          {
+            error: 'Too Many Image Jobs',
+            code: 'IMAGE_JOB_LIMIT',
+            message: error.message,
+          },
+          { status: 429, headers: await getRateLimitHeaders(userId) }
+        );
+      }
+      throw error;
+    }
+
     return Response.json(
+      { jobId: job.id, job: toImageJob(job) },
       {
-        images: result.data,
-        created: result.created,
-      },
-      {
-        headers: getRateLimitHeaders(userId),
+        status: 202,
+        headers: await getRateLimitHeaders(userId),
       }
     );
   } catch (error) {
@@ -0,0 +1,44 @@
+/**
+ * AI Image Files API Route
+ *
+ * GET /api/ai/image-files/<path>
+ *
+ * Serves generated images (<userId>/<file>) and chat attachments
+ * (attachments/<userId>/<file>) saved by the local storage adapter
+ * (AI_IMAGE_STORAGE=local) to:
+ * - their owner's session, or
+ * - anyone with a signed URL (`?expires=...&signature=...`). The API returns
+ *   signed URLs (see withSignedUrls), so they also work where auth headers
+ *   can't be sent (e.g. in <Image>) until they expire.
+ * With Supabase storage, image URLs point at the bucket instead.
+ */
+
+import { verifyUserSession } from '../middleware';
+import { LocalImageStorage, imageStorage, isStorageOwner } from '@/services/ai/imageJobs';
+
+export async function GET(request: Request, { path }: { path: string[] | string }) {
+  if (!(imageStorage instanceof LocalImageStorage)) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const filePath = Array.isArray(path) ? path.join('/') : path;
+  if (!imageStorage.verifySignature(filePath, new URL(request.url).searchParams)) {
+    const userId = await verifyUserSession(request);
+    if (!userId || !isStorageOwner(filePath, userId)) {
+      return new Response('Forbidden', { status: 403 });
+    }
+  }
+
+  const file = await imageStorage.read(filePath);
+  if (!file) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  return new Response(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': file.contentType,
+      // Only for this user's cache, and not longer than signed URLs are rounded to
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * AI Image Job API Route
+ *
+ * GET /api/ai/image-jobs/:id
+ * Status of an image generation job queued by POST /api/ai/image.
+ * Poll until `status` is succeeded, failed or cancelled; succeeded jobs
+ * include the stored images with stable URLs and thumbnails.
+ *
+ * DELETE /api/ai/image-jobs/:id
+ * Cancel a queued or running job. Finished jobs are returned unchanged.
+ *
+ * Polling does not count against the AI rate limit.
+ *
+ * Response:
+ * {
+ *   job: ImageJob
+ * }
+ */
+
+import { verifyUserSession } from '../middleware';
+import { imageJobService, toImageJob } from '@/services/ai/imageJobs';
+import { logError } from '@/lib/sentry';
+
+const unauthorized = () =>
+  Response.json(
+    { error: 'Unauthorized', code: 'AUTH_REQUIRED', message: 'You must be signed in' },
+    { status: 401 }
+  );
+
+const notFound = (id: string) =>
+  Response.json(
+    { error: 'Not Found', code: 'JOB_NOT_FOUND', message: `Image job ${id} not found` },
+    { status: 404 }
+  );
+
+export async function GET(request: Request, { id }: { id: string }) {
+  try {
+    const userId = await verifyUserSession(request);
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const job = await imageJobService.getJob(userId, id);
+    if (!job) {
+      return notFound(id);
+    }
+
+    return Response.json({ job: toImageJob(job) });
+  } catch (error) {
+    logError(error as Error, { context: 'AI Image Job API', jobId: id });
+
+    return Response.json(
+      {
+        error: 'Request Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { id }: { id: string }) {
+  try {
+    const userId = await verifyUserSession(request);
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const job = await imageJobService.cancelJob(userId, id);
+    if (!job) {
+      return notFound(id);
+    }
+
+    return Response.json({ job: toImageJob(job) });
+  } catch (error) {
+    logError(error as Error, { context: 'AI Image Job Cancel API', jobId: id });
+
+    return Response.json(
+      {
+        error: 'Request Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * AI Image Gallery API Route
+ *
+ * GET /api/ai/images
+ *
+ * The signed-in user's generated images, newest first.
+ *
+ * Query parameters (all optional):
+ *   limit: number of images (default 50, max 200)
+ *   before: epoch ms; only images created before this time (for paging)
+ *
+ * Response:
+ * {
+ *   images: StoredImage[]
+ * }
+ */
+
+import { z } from 'zod';
+import { verifyUserSession } from './middleware';
+import { imageJobService, withSignedUrls } from '@/services/ai/imageJobs';
+import { logError } from '@/lib/sentry';
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  before: z.coerce.number().int().positive().optional(),
+});
+
+export async function GET(request: Request) {
+  try {
+    const userId = await verifyUserSession(request);
+    if (!userId) {
+      return Response.json(
+        { error: 'Unauthorized', code: 'AUTH_REQUIRED', message: 'You must be signed in' },
+        { status: 401 }
+      );
+    }
+
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validation = querySchema.safeParse(params);
+
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const images = await imageJobService.listImages(userId, validation.data);
+
+    return Response.json({ images: images.map((image) => withSignedUrls(image)) });
+  } catch (error) {
+    logError(error as Error, { context: 'AI Image Gallery API' });
+
+    return Response.json(
+      {
+        error: 'Request Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,32 +4,52 @@
  * Provides authentication via Clerk and per-user rate limiting for AI endpoints.
  * Returns structured JSON errors for 401/429 responses.
  *
- * ⚠️  WARNING: In-memory rate limiting is for DEVELOPMENT ONLY.
- * For PRODUCTION, use Upstash Redis:
- * ```ts
- * import { Ratelimit } from '@upstash/ratelimit';
- * import { Redis } from '@upstash/redis';
+ * Also hosts shared helpers for budget, model capability, prompt template and
+ * failover handling.
  *
- * const aiRatelimit = new Ratelimit({
- *   redis: Redis.fromEnv(),
- *   limiter: Ratelimit.slidingWindow(20, '1 h'),
- *   prefix: 'ai-ratelimit',
- * });
- * ```
+ * Rate limits use the shared RateLimiter (src/lib/rateLimiter.ts) and the
+ * same store as the general API middleware. See app/api/middleware/rateLimit.ts
+ * for store and algorithm configuration.
  */
 
-// TODO: Replace with Upstash/Redis in production
-interface RateLimitStore {
-  [userId: string]: {
-    count: number;
-    resetTime: number;
-  };
-}
-
-// ⚠️ In-memory store - for development only
-const aiRateLimitStore: RateLimitStore = {};
+import {
+  RateLimiter,
+  type RateLimitResult,
+  buildRateLimitHeaders,
+  parseRateLimitAlgorithm,
+} from "@/lib/rateLimiter";
+import { addBreadcrumb } from "@/lib/sentry";
+import type { PromptTemplateRef } from "@/features/ai/schemas";
+import type { AIRoute, FailoverEvent } from "@/services/ai/failover";
+import {
+  DEFAULT_TEMPLATE_IDS,
+  type PromptFeature,
+  PromptTemplateError,
+  type RenderedPrompt,
+  promptTemplates,
+} from "@/services/ai/promptTemplates";
+import {
+  type ModelCapabilities,
+  getAIProvider,
+  getMissingCapabilities,
+  getProviderDisplayName,
+} from "@/services/ai/provider";
+import { resolveAITier, usageLedger } from "@/services/ai/usage";
+import type { LanguageModel } from "ai";
+import { type AuthToken, verifyAuthToken } from "../middleware/auth";
 
-import { verifyAuthToken } from "../middleware/auth";
+/**
+ * Per-user limiter for AI endpoints
+ * More restrictive than general API rate limits due to cost
+ *
+ * Default: 20 requests per hour per user
+ */
+export const aiRateLimiter = new RateLimiter({
+  prefix: "ai",
+  limit: 20,
+  windowMs: 3600000, // 1 hour
+  algorithm: parseRateLimitAlgorithm(process.env.RATE_LIMIT_ALGORITHM),
+});
 
 /**
  * Verify user session from request
@@ -43,62 +63,24 @@ export async function verifyUserSession(
 }
 
 /**
- * Check per-user rate limit for AI endpoints
- * More restrictive than general API rate limits due to cost
- *
- * Default: 20 requests per hour per user
+ * Count a request against the user's AI rate limit
  */
-export function checkAIRateLimit(
-  userId: string,
-  maxRequests = 20,
-  windowMs = 3600000 // 1 hour
-): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const userData = aiRateLimitStore[userId];
-
-  if (!userData || now > userData.resetTime) {
-    // Initialize or reset the user data
-    aiRateLimitStore[userId] = {
-      count: 1,
-      resetTime: now + windowMs,
-    };
-    return {
-      allowed: true,
-      remaining: maxRequests - 1,
-      resetTime: now + windowMs,
-    };
-  }
-
-  if (userData.count >= maxRequests) {
-    // Rate limit exceeded
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: userData.resetTime,
-    };
-  }
-
-  // Increment the request count
-  userData.count++;
-
-  return {
-    allowed: true,
-    remaining: maxRequests - userData.count,
-    resetTime: userData.resetTime,
-  };
+export async function checkAIRateLimit(
+  userId: string
+): Promise<RateLimitResult> {
+  return aiRateLimiter.consume(userId);
 }
 
 /**
- * Middleware to protect AI endpoints
- * Returns Response with error or null if checks pass
+ * Verify the caller of an AI endpoint without counting against the rate limit
+ * Returns a 401 response, or the caller's userId and role
  */
-export async function protectAIEndpoint(
+export async function authenticateAIRequest(
   request: Request
-): Promise<{ userId: string } | Response> {
-  // Verify authentication
-  const userId = await verifyUserSession(request);
+): Promise<AuthToken | Response> {
+  const token = await verifyAuthToken(request);
 
-  if (!userId) {
+  if (!token) {
     return Response.json(
       {
         error: "Unauthorized",
@@ -109,46 +91,174 @@ export async function protectAIEndpoint(
     );
   }
 
-  // Check rate limit
-  const rateLimit = checkAIRateLimit(userId);
+  return { userId: token.userId, role: token.role };
+}
 
-  if (!rateLimit.allowed) {
-    const resetDate = new Date(rateLimit.resetTime);
-    return Response.json(
-      {
-        error: "Too Many Requests",
-        code: "RATE_LIMIT_EXCEEDED",
-        message: "AI request limit exceeded. Please try again later.",
-        resetAt: resetDate.toISOString(),
-        retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
-      },
-      {
-        status: 429,
-        headers: {
-          "Retry-After": String(
-            Math.ceil((rateLimit.resetTime - Date.now()) / 1000)
-          ),
-          "X-RateLimit-Limit": "20",
-          "X-RateLimit-Remaining": String(rateLimit.remaining),
-          "X-RateLimit-Reset": String(Math.floor(rateLimit.resetTime / 1000)),
-        },
-      }
-    );
+/**
+ * Count a request against the user's AI rate limit
+ * Returns a 429 RATE_LIMIT_EXCEEDED response when over the limit, null otherwise
+ */
+export async function enforceAIRateLimit(
+  userId: string
+): Promise<Response | null> {
+  const rateLimit = await checkAIRateLimit(userId);
+
+  if (rateLimit.allowed) {
+    return null;
+  }
+
+  return Response.json(
+    {
+      error: "Too Many Requests",
+      code: "RATE_LIMIT_EXCEEDED",
+      message: "AI request limit exceeded. Please try again later.",
+      resetAt: new Date(rateLimit.resetTime).toISOString(),
+      retryAfter: rateLimit.retryAfter,
+    },
+    {
+      status: 429,
+      headers: buildRateLimitHeaders(rateLimit),
+    }
+  );
+}
+
+/**
+ * Middleware to protect AI endpoints
+ * Returns Response with error, or the caller's userId and role if checks pass
+ */
+export async function protectAIEndpoint(
+  request: Request
+): Promise<AuthToken | Response> {
+  // Verify authentication
+  const token = await authenticateAIRequest(request);
+  if (token instanceof Response) {
+    return token;
+  }
+
+  // Check rate limit
+  const rateLimitResponse = await enforceAIRateLimit(token.userId);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
   }
 
   // All checks passed
-  return { userId };
+  return token;
 }
 
 /**
  * Get rate limit headers for successful responses
+ * Reports the user's current limit without consuming a request
+ */
+export async function getRateLimitHeaders(
+  userId: string
+): Promise<Record<string, string>> {
+  return buildRateLimitHeaders(await aiRateLimiter.peek(userId));
+}
+
+/**
+ * Check the user's AI budget before calling the model
+ * Returns a 402 BUDGET_EXCEEDED response if the request doesn't fit, null otherwise
+ */
+export async function enforceAIBudget(
+  userId: string,
+  request: { tokens?: number; images?: number }
+): Promise<Response | null> {
+  const tier = await resolveAITier(userId);
+  const check = await usageLedger.checkBudget(userId, tier, request);
+
+  if (check.allowed) {
+    return null;
+  }
+
+  const { budget } = check;
+  return Response.json(
+    {
+      error: "Budget Exceeded",
+      code: "BUDGET_EXCEEDED",
+      message: `Your ${budget.period} AI ${budget.metric} budget is used up. It resets at ${budget.resetAt}.`,
+      tier: check.tier,
+      budget,
+    },
+    { status: 402 }
+  );
+}
+
+/**
+ * Check that the configured model supports what the request needs
+ * Returns a 501 FEATURE_NOT_AVAILABLE response naming the missing capabilities, null otherwise
+ */
+export function requireModelCapabilities(
+  model: LanguageModel | string,
+  required: Array<keyof ModelCapabilities>
+): Response | null {
+  const missing = getMissingCapabilities(model, required);
+
+  if (missing.length === 0) {
+    return null;
+  }
+
+  const modelId = typeof model === "string" ? model : model.modelId;
+  return Response.json(
+    {
+      error: "Feature Not Available",
+      code: "FEATURE_NOT_AVAILABLE",
+      message: `${getProviderDisplayName(getAIProvider())} model "${modelId}" does not support: ${missing.join(", ")}`,
+      missing,
+    },
+    { status: 501 }
+  );
+}
+
+/**
+ * Render the request's prompt template, or the feature's default, for the user
+ * Returns a 400 response for unknown templates or invalid variables, and null
+ * when the feature has no default
  */
-export function getRateLimitHeaders(userId: string): Record<string, string> {
-  const rateLimit = checkAIRateLimit(userId, 20, 3600000);
+export function resolvePromptTemplate(
+  ref: PromptTemplateRef | undefined,
+  userId: string,
+  feature: PromptFeature
+): RenderedPrompt | Response | null {
+  const templateId = ref?.id ?? DEFAULT_TEMPLATE_IDS[feature];
+  if (!templateId) {
+    return null;
+  }
 
-  return {
-    "X-RateLimit-Limit": "20",
-    "X-RateLimit-Remaining": String(Math.max(0, rateLimit.remaining)),
-    "X-RateLimit-Reset": String(Math.floor(rateLimit.resetTime / 1000)),
+  try {
+    return promptTemplates.render(templateId, ref?.variables, { userId, feature });
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      return Response.json(
+        {
+          error: "Invalid Prompt Template",
+          code: error.code,
+          message: error.message,
+          ...(error.details !== undefined && { details: error.details }),
+        },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Report provider failover as Sentry breadcrumbs
+ * Pass as `onEvent` to runWithFailover
+ */
+export function failoverBreadcrumbs(
+  route: AIRoute,
+  userId: string
+): (event: FailoverEvent) => void {
+  return (event) => {
+    addBreadcrumb({
+      message: `AI Provider ${event.type}`,
+      category: "ai.failover",
+      level:
+        event.type === "failed" || event.type === "circuit-open"
+          ? "warning"
+          : "info",
+      data: { route, userId, ...event },
+    });
   };
 }
@@ -0,0 +1,137 @@
+/**
+ * AI Speech API Route
+ *
+ * POST /api/ai/speech
+ *
+ * Reads text aloud with the voice provider's speech model (OpenAI TTS by default;
+ * AI_VOICE_PROVIDER picks another provider than chat).
+ * Providers without speech return 501.
+ *
+ * Request Body:
+ * {
+ *   text: string (up to 4096 characters),
+ *   voice?: string (default: AI_SPEECH_VOICE),
+ *   speed?: number (0.25-4, default: 1),
+ *   format?: 'mp3' | 'wav' (default: 'mp3')
+ * }
+ *
+ * Response: the audio itself (Content-Type audio/mpeg or audio/wav)
+ *
+ * The text isn't moderated here: clients read back messages that were already checked.
+ */
+
+import { experimental_generateSpeech as generateSpeech } from 'ai';
+import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
+import {
+  getProvider,
+  getVoiceProvider,
+  validateProviderKeys,
+} from '@/services/ai/provider';
+import { SPEECH_MEDIA_TYPES, speechRequestSchema } from '@/features/ai/schemas/voice';
+import { logError, addBreadcrumb } from '@/lib/sentry';
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Validate provider configuration
+    const voiceProvider = getVoiceProvider();
+    const providerValidation = validateProviderKeys(voiceProvider);
+    if (!providerValidation.valid) {
+      return Response.json(
+        {
+          error: 'AI Provider Not Configured',
+          code: 'PROVIDER_ERROR',
+          message: providerValidation.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Protect endpoint with auth and rate limiting
+    const authResult = await protectAIEndpoint(request);
+    if (authResult instanceof Response) {
+      return authResult;
+    }
+
+    const { userId } = authResult;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = speechRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { text, voice, speed, format } = validation.data;
+
+    const provider = getProvider(voiceProvider);
+
+    if (!provider.speech) {
+      return Response.json(
+        {
+          error: 'Speech Not Available',
+          code: 'FEATURE_NOT_AVAILABLE',
+          message: 'Speech is not configured for the current provider',
+        },
+        { status: 501 }
+      );
+    }
+
+    // Add Sentry breadcrumb
+    addBreadcrumb({
+      message: 'AI Speech Request',
+      category: 'ai',
+      data: { userId, textLength: text.length, voice: voice ?? provider.speech.voice, format },
+    });
+
+    const { audio } = await generateSpeech({
+      model: provider.speech.model,
+      text,
+      voice: voice ?? provider.speech.voice,
+      outputFormat: format,
+      speed,
+      abortSignal: request.signal,
+    });
+
+    // Log completion metrics to Sentry
+    addBreadcrumb({
+      message: 'AI Speech Completed',
+      category: 'ai',
+      data: { userId, duration: Date.now() - startTime, bytes: audio.uint8Array.length },
+    });
+
+    return new Response(new Uint8Array(audio.uint8Array), {
+      headers: {
+        'Content-Type': audio.mediaType || SPEECH_MEDIA_TYPES[format],
+        'Content-Length': String(audio.uint8Array.length),
+        ...(await getRateLimitHeaders(userId)),
+      },
+    });
+  } catch (error) {
+    // Log error to Sentry
+    logError(error as Error, {
+      context: 'AI Speech API',
+      duration: Date.now() - startTime,
+    });
+
+    console.error('AI Speech error:', error);
+
+    return Response.json(
+      {
+        error: 'Speech Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * AI Tool Calls API Route (admin only)
+ *
+ * GET /api/ai/tool-calls
+ *
+ * Lists recent AI tool invocations from the tool audit log, newest first,
+ * together with the registered tools and their permissions and limits.
+ *
+ * Query parameters (all optional):
+ *   userId: only calls made for this user
+ *   tool: only calls of this tool (e.g. "searchNotes")
+ *   outcome: success | error | timeout | denied | too_large | blocked
+ *   since, until: ISO date or epoch ms
+ *   limit: number of calls (default 50, max 500)
+ */
+
+import { z } from 'zod';
+import { verifyAuthToken } from '../middleware/auth';
+import { MAX_AUDIT_QUERY_LIMIT, toolAuditLog } from '@/services/ai/toolAudit';
+import {
+  DEFAULT_TOOL_MAX_RESULT_BYTES,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  toolRegistry,
+} from '@/services/ai/toolRegistry';
+import { logError } from '@/lib/sentry';
+// Registers the tools
+import './tools';
+
+const timestampSchema = z
+  .string()
+  .transform((value) => (/^\d+$/.test(value) ? Number(value) : Date.parse(value)))
+  .refine((value) => !Number.isNaN(value), 'Must be an ISO date or epoch milliseconds');
+
+const querySchema = z.object({
+  userId: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  outcome: z.enum(['success', 'error', 'timeout', 'denied', 'too_large', 'blocked']).optional(),
+  since: timestampSchema.optional(),
+  until: timestampSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_QUERY_LIMIT).default(50),
+});
+
+export async function GET(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { error: 'Unauthorized', code: 'AUTH_REQUIRED', message: 'You must be signed in' },
+        { status: 401 }
+      );
+    }
+
+    if (token.role !== 'admin') {
+      return Response.json(
+        { error: 'Forbidden', code: 'ADMIN_REQUIRED', message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    const validation = querySchema.safeParse(params);
+
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { userId, tool, outcome, since, until, limit } = validation.data;
+    const calls = await toolAuditLog.query({
+      userId,
+      toolName: tool,
+      outcome,
+      since,
+      until,
+      limit,
+    });
+
+    return Response.json({
+      calls,
+      count: calls.length,
+      tools: toolRegistry.list().map((definition) => ({
+        name: definition.name,
+        description: definition.description,
+        roles: definition.roles ?? ['user', 'admin'],
+        scopes: definition.scopes ?? [],
+        timeoutMs: definition.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS,
+        maxResultBytes: definition.maxResultBytes ?? DEFAULT_TOOL_MAX_RESULT_BYTES,
+        untrusted: definition.untrusted ?? false,
+      })),
+    });
+  } catch (error) {
+    logError(error as Error, { context: 'AI Tool Calls API' });
+
+    return Response.json(
+      {
+        error: 'Request Failed',
+        code: 'AUDIT_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
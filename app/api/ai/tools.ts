@@ -3,42 +3,54 @@
  *
  * Define server-side callable tools that the AI model can invoke.
  * All tool inputs and outputs are validated with Zod before execution.
+ *
+ * Tools are registered in the tool registry (src/services/ai/toolRegistry.ts) with
+ * the roles/scopes allowed to use them, a timeout and a result size limit.
+ * Every call is recorded in the tool audit log (GET /api/ai/tool-calls for admins).
  */
 
 import { z } from 'zod';
-import { tool } from 'ai';
-import { supabase } from '@/services/supabase';
+import { ExpressionError, evaluateExpression } from '@/lib/mathEvaluator';
+import { type ToolCaller, toolRegistry } from '@/services/ai/toolRegistry';
+import { getNotesIndex } from '@/services/ai/notesIndex';
+import { PageFetchError, pageFetcher } from '@/services/ai/pageFetcher';
+import { getWebSearchBackend } from '@/services/ai/webSearch';
 
 /**
  * Tool: Search Notes
- * Searches user's notes in Supabase
+ * Hybrid (embeddings + BM25) search over the user's notes index (src/services/ai/notesIndex.ts)
+ * Results are cited snippets; the model cites them inline as [note:<id>], which
+ * ChatMessage renders as links to the note.
+ * Note contents are untrusted: they're moderated and marked as data for the model.
  */
-export const searchNotesTool = tool({
-  description: 'Search through user notes to find relevant information',
+export const searchNotesTool = toolRegistry.register({
+  name: 'searchNotes',
+  description:
+    'Search through user notes (titles and content, by meaning and keywords) to find ' +
+    'relevant information. Cite notes you use inline with their citation, e.g. [note:123].',
   parameters: z.object({
     query: z.string().describe('The search query to find in notes'),
     limit: z.number().default(5).describe('Maximum number of results to return'),
   }),
-  execute: async ({ query, limit }: { query: string; limit: number }): Promise<any> => {
+  scopes: ['notes:read'],
+  timeoutMs: 5000,
+  maxResultBytes: 32768,
+  untrusted: true,
+  execute: async (
+    { query, limit }: { query: string; limit: number },
+    { userId, signal }
+  ): Promise<any> => {
     try {
-      // Search notes in Supabase
-      const { data, error } = await supabase
-        .from('notes')
-        .select('id, title, content, created_at')
-        .textSearch('content', query)
-        .limit(limit);
-
-      if (error) {
-        return {
-          success: false,
-          error: `Failed to search notes: ${error.message}`,
-        };
-      }
+      const results = await getNotesIndex(userId).search(userId, query, {
+        limit,
+        abortSignal: signal,
+      });
 
       return {
         success: true,
-        results: data || [],
-        count: data?.length || 0,
+        results,
+        count: results.length,
+        citationFormat: 'Cite a note inline with its `citation`, e.g. [note:123]',
       };
     } catch (error) {
       return {
@@ -47,17 +59,20 @@ export const searchNotesTool = tool({
       };
     }
   },
-} as any);
+});
 
 /**
  * Tool: Get Current Date/Time
  * Provides current date and time information
  */
-export const getCurrentTimeTool = tool({
+export const getCurrentTimeTool = toolRegistry.register({
+  name: 'getCurrentTime',
   description: 'Get the current date and time in ISO format',
   parameters: z.object({
     timezone: z.string().optional().describe('Optional timezone (e.g., "America/New_York")'),
   }),
+  timeoutMs: 1000,
+  maxResultBytes: 1024,
   execute: async ({ timezone }: { timezone?: string }): Promise<any> => {
     try {
       const now = new Date();
@@ -77,58 +92,143 @@ export const getCurrentTimeTool = tool({
       };
     }
   },
-} as any);
+});
 
 /**
  * Tool: Calculate
- * Performs basic calculations
+ * Evaluates math with the safe expression evaluator (no eval)
+ * Errors include a code and position so the model can fix its expression and retry.
  */
-export const calculateTool = tool({
-  description: 'Perform mathematical calculations',
+export const calculateTool = toolRegistry.register({
+  name: 'calculate',
+  description:
+    'Evaluate a math expression. Supports + - * / ^ mod !, parentheses, percentages ' +
+    '("20% of 150", "80 + 15%"), functions (sqrt, round, min, max, log, ln, sin, cos, ...), ' +
+    'constants (pi, e) and unit conversion ("5 km to mi", "3 h + 20 min", "100 F in C").',
   parameters: z.object({
     expression: z.string().describe('Mathematical expression to evaluate (e.g., "2 + 2 * 3")'),
   }),
+  timeoutMs: 1000,
+  maxResultBytes: 2048,
   execute: async ({ expression }: { expression: string }): Promise<any> => {
     try {
-      // Safely evaluate math expression
-      // Note: In production, use a proper math parser like mathjs
-      // eslint-disable-next-line no-eval
-      const result = eval(expression);
+      const { value, unit, formatted } = evaluateExpression(expression);
 
       return {
         success: true,
         expression,
-        result,
+        result: value,
+        ...(unit && { unit }),
+        formatted,
       };
-    } catch (_error) {
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return {
+          success: false,
+          error: error.message,
+          code: error.code,
+          position: error.position,
+          pointer: error.pointer(expression),
+        };
+      }
+
       return {
         success: false,
         error: 'Invalid mathematical expression',
       };
     }
   },
-} as any);
+});
 
 /**
- * Tool: Web Search (Stub)
- * Placeholder for web search functionality
+ * Tool: Web Search
+ * Searches the web with the configured backend (src/services/ai/webSearch.ts)
+ * Results carry source URLs for citations; they're third-party content, so untrusted.
  */
-export const webSearchTool = tool({
-  description: 'Search the web for current information (stub - not implemented)',
+export const webSearchTool = toolRegistry.register({
+  name: 'webSearch',
+  description:
+    'Search the web for current information. Returns titles, snippets and source URLs; ' +
+    'cite the URLs of results you use. Use fetchPage to read a result in full.',
   parameters: z.object({
     query: z.string().describe('The search query'),
-    numResults: z.number().default(5).describe('Number of results to return'),
+    numResults: z.number().int().min(1).max(10).default(5).describe('Number of results to return'),
+  }),
+  scopes: ['web:search'],
+  timeoutMs: 10000,
+  untrusted: true,
+  execute: async (
+    { query, numResults }: { query: string; numResults: number },
+    { signal }
+  ): Promise<any> => {
+    try {
+      const backend = getWebSearchBackend();
+      if (!backend) {
+        return {
+          success: false,
+          error: 'Web search is not configured (set AI_WEB_SEARCH_BACKEND)',
+        };
+      }
+
+      const results = await backend.search(query, { numResults, abortSignal: signal });
+
+      return {
+        success: true,
+        query,
+        results,
+        count: results.length,
+        sources: results.map((result) => result.url),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+});
+
+/**
+ * Tool: Fetch Page
+ * Downloads a public web page and returns its readable text (src/services/ai/pageFetcher.ts)
+ * Private/internal addresses are refused (SSRF guard) and pages are size-limited.
+ */
+export const fetchPageTool = toolRegistry.register({
+  name: 'fetchPage',
+  description:
+    'Download a public web page (http/https) and return its readable text. ' +
+    'Cite the returned finalUrl when using the content.',
+  parameters: z.object({
+    url: z.string().describe('The page URL, e.g. a webSearch result'),
   }),
-  execute: async ({ query, numResults }: { query: string; numResults: number }): Promise<any> => {
-    // TODO: Implement actual web search (e.g., using Brave Search API)
-    return {
-      success: false,
-      error: 'Web search is not yet implemented',
-      query,
-      numResults,
-    };
+  scopes: ['web:fetch'],
+  timeoutMs: 15000,
+  maxResultBytes: 49152,
+  untrusted: true,
+  execute: async ({ url }: { url: string }, { signal }): Promise<any> => {
+    try {
+      const page = await pageFetcher.fetchPage(url, signal);
+
+      return {
+        success: true,
+        ...page,
+      };
+    } catch (error) {
+      if (error instanceof PageFetchError) {
+        return {
+          success: false,
+          error: error.message,
+          code: error.code,
+        };
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
   },
-} as any);
+});
 
 /**
  * Export all available tools
@@ -138,19 +238,13 @@ export const availableTools = {
   getCurrentTime: getCurrentTimeTool,
   calculate: calculateTool,
   webSearch: webSearchTool,
+  fetchPage: fetchPageTool,
 };
 
 /**
- * Get tools by name
+ * Get tools by name for a caller
+ * Returns the wrapped tools plus any requested names the caller may not use
  */
-export function getTools(toolNames: string[]) {
-  const tools: Record<string, any> = {};
-
-  for (const name of toolNames) {
-    if (name in availableTools) {
-      tools[name] = availableTools[name as keyof typeof availableTools];
-    }
-  }
-
-  return tools;
+export function getTools(toolNames: string[], caller: ToolCaller) {
+  return toolRegistry.resolve(toolNames, caller);
 }
@@ -0,0 +1,200 @@
+/**
+ * AI Transcription API Route
+ *
+ * POST /api/ai/transcribe
+ *
+ * Turns a voice recording into text with the voice provider's transcription model
+ * (Whisper by default; AI_VOICE_PROVIDER picks another provider than chat).
+ * Providers without transcription return 501.
+ *
+ * Request Body (multipart/form-data):
+ * - audio: recording (m4a, mp3, wav, webm, ogg or flac; up to 25 MB)
+ * - language?: ISO 639-1 code, detected when omitted
+ *
+ * Response:
+ * {
+ *   text: string,
+ *   language?: string,
+ *   durationInSeconds?: number,
+ *   provider: string
+ * }
+ *
+ * The transcript isn't moderated here; it is checked like typed text when sent to chat.
+ */
+
+import { experimental_transcribe as transcribe } from 'ai';
+import { protectAIEndpoint, getRateLimitHeaders } from './middleware';
+import {
+  getProvider,
+  getProviderDisplayName,
+  getVoiceProvider,
+  validateProviderKeys,
+} from '@/services/ai/provider';
+import {
+  MAX_TRANSCRIBE_BYTES,
+  TRANSCRIBE_AUDIO_TYPES,
+  transcribeFieldsSchema,
+} from '@/features/ai/schemas/voice';
+import { logError, addBreadcrumb } from '@/lib/sentry';
+
+/** Fetch API form data; React Native's global FormData type has no `get` */
+type FormFields = { get(name: string): File | string | null };
+
+function payloadTooLarge() {
+  return Response.json(
+    {
+      error: 'Recording Too Large',
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Recordings must be smaller than ${MAX_TRANSCRIBE_BYTES / (1024 * 1024)} MB`,
+    },
+    { status: 413 }
+  );
+}
+
+export async function POST(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Validate provider configuration
+    const voiceProvider = getVoiceProvider();
+    const providerValidation = validateProviderKeys(voiceProvider);
+    if (!providerValidation.valid) {
+      return Response.json(
+        {
+          error: 'AI Provider Not Configured',
+          code: 'PROVIDER_ERROR',
+          message: providerValidation.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Protect endpoint with auth and rate limiting
+    const authResult = await protectAIEndpoint(request);
+    if (authResult instanceof Response) {
+      return authResult;
+    }
+
+    const { userId } = authResult;
+
+    // Refuse oversized uploads before reading them (allowing for the multipart envelope)
+    const contentLength = Number(request.headers.get('Content-Length'));
+    if (contentLength > MAX_TRANSCRIBE_BYTES + 64 * 1024) {
+      return payloadTooLarge();
+    }
+
+    // Parse and validate the form
+    const form = (await request.formData().catch(() => null)) as FormFields | null;
+    if (!form) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          message: 'Send the recording as multipart/form-data',
+        },
+        { status: 400 }
+      );
+    }
+
+    const audio = form.get('audio');
+    const fields = transcribeFieldsSchema.safeParse({
+      language: form.get('language') ?? undefined,
+    });
+
+    if (!audio || typeof audio === 'string' || !fields.success) {
+      return Response.json(
+        {
+          error: 'Invalid Request',
+          code: 'VALIDATION_ERROR',
+          message: fields.success ? 'An audio file is required' : undefined,
+          details: fields.success ? undefined : fields.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (audio.size > MAX_TRANSCRIBE_BYTES) {
+      return payloadTooLarge();
+    }
+
+    const mediaType = audio.type.split(';')[0].trim().toLowerCase();
+    if (mediaType && !TRANSCRIBE_AUDIO_TYPES.includes(mediaType)) {
+      return Response.json(
+        {
+          error: 'Unsupported Audio Format',
+          code: 'UNSUPPORTED_MEDIA_TYPE',
+          message: `Unsupported audio type "${mediaType}"`,
+        },
+        { status: 415 }
+      );
+    }
+
+    const provider = getProvider(voiceProvider);
+
+    if (!provider.transcription) {
+      return Response.json(
+        {
+          error: 'Transcription Not Available',
+          code: 'FEATURE_NOT_AVAILABLE',
+          message: 'Transcription is not configured for the current provider',
+        },
+        { status: 501 }
+      );
+    }
+
+    const { language } = fields.data;
+
+    // Add Sentry breadcrumb
+    addBreadcrumb({
+      message: 'AI Transcription Request',
+      category: 'ai',
+      data: { userId, bytes: audio.size, mediaType, language },
+    });
+
+    const result = await transcribe({
+      model: provider.transcription,
+      audio: new Uint8Array(await audio.arrayBuffer()),
+      providerOptions: language ? { openai: { language } } : undefined,
+      abortSignal: request.signal,
+    });
+
+    // Log completion metrics to Sentry
+    addBreadcrumb({
+      message: 'AI Transcription Completed',
+      category: 'ai',
+      data: {
+        userId,
+        duration: Date.now() - startTime,
+        audioSeconds: result.durationInSeconds,
+        textLength: result.text.length,
+      },
+    });
+
+    return Response.json(
+      {
+        text: result.text,
+        language: result.language,
+        durationInSeconds: result.durationInSeconds,
+        provider: getProviderDisplayName(voiceProvider),
+      },
+      { headers: await getRateLimitHeaders(userId) }
+    );
+  } catch (error) {
+    // Log error to Sentry
+    logError(error as Error, {
+      context: 'AI Transcription API',
+      duration: Date.now() - startTime,
+    });
+
+    console.error('AI Transcription error:', error);
+
+    return Response.json(
+      {
+        error: 'Transcription Failed',
+        code: 'AI_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
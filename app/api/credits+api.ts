@@ -0,0 +1,76 @@
+/**
+ * Credits API
+ *
+ * GET /api/credits?before=<epoch ms>&limit=50
+ *
+ * The signed-in user's credit balance and ledger (src/services/payments/credits.ts):
+ * pack purchases, spends, refunds of spends and reversals of refunded purchases.
+ *
+ * Response (200):
+ * {
+ *   balance: number (negative if a refunded pack's credits were already spent),
+ *   entries: [{
+ *     id: string,
+ *     type: 'purchase' | 'spend' | 'refund' | 'reversal',
+ *     amount: number (credits added, or taken if negative),
+ *     balanceAfter: number,
+ *     description?: string,
+ *     createdAt: number
+ *   }] (newest first),
+ *   nextBefore?: number (`before` of the next page)
+ * }
+ */
+
+import { z } from "zod";
+import { verifyAuthToken } from "./middleware/auth";
+import { creditsService } from "@/services/payments/credits";
+import { logError } from "@/lib/sentry";
+
+const creditsQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export async function GET(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { error: "Unauthorized", code: "AUTH_REQUIRED", message: "You must be signed in" },
+        { status: 401 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const validation = creditsQuerySchema.safeParse({
+      before: url.searchParams.get("before") ?? undefined,
+      limit: url.searchParams.get("limit") ?? undefined,
+    });
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: "Invalid Request",
+          code: "VALIDATION_ERROR",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const credits = await creditsService.getCredits(token.userId, validation.data);
+
+    return Response.json(credits, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (error) {
+    logError(error as Error, { context: "Credits API" });
+
+    console.error("GET /api/credits error:", error);
+    return Response.json(
+      {
+        error: "Credits Unavailable",
+        code: "CREDITS_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Entitlements API
+ *
+ * GET /api/entitlements
+ *
+ * What the signed-in user has access to, across RevenueCat (App Store / Play Store)
+ * and Stripe (web) purchases (src/services/payments/entitlements.ts).
+ *
+ * Response (200):
+ * {
+ *   entitlements: [{
+ *     id: string (e.g. "premium"),
+ *     isActive: boolean,
+ *     source: 'revenuecat' | 'stripe',
+ *     store?: string,
+ *     productId?: string,
+ *     expiresAt: number | null (epoch ms; null: no expiry),
+ *     gracePeriodExpiresAt?: number,
+ *     inGracePeriod: boolean,
+ *     willRenew: boolean
+ *   }],
+ *   checkedAt: number,
+ *   unavailableSources?: ('revenuecat' | 'stripe')[]
+ * }
+ */
+
+import { verifyAuthToken } from "./middleware/auth";
+import { entitlementsService } from "@/services/payments/entitlements";
+import { logError } from "@/lib/sentry";
+
+export async function GET(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { error: "Unauthorized", code: "AUTH_REQUIRED", message: "You must be signed in" },
+        { status: 401 }
+      );
+    }
+
+    const entitlements = await entitlementsService.getEntitlements(token.userId);
+
+    return Response.json(entitlements, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (error) {
+    logError(error as Error, { context: "Entitlements API" });
+
+    console.error("GET /api/entitlements error:", error);
+    return Response.json(
+      {
+        error: "Entitlements Unavailable",
+        code: "ENTITLEMENTS_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,59 @@
 /**
  * Rate Limit Middleware
  *
- * ⚠️  WARNING: This in-memory implementation is for DEVELOPMENT ONLY.
- * It resets on restart and doesn't scale across multiple instances.
+ * General-purpose per-client rate limiting for API routes, backed by the
+ * shared RateLimiter in src/lib/rateLimiter.ts.
  *
- * For PRODUCTION, use Upstash Redis:
- * ```ts
- * import { Ratelimit } from '@upstash/ratelimit';
- * import { Redis } from '@upstash/redis';
+ * Configuration (environment variables):
+ * - RATE_LIMIT_ALGORITHM: sliding-log (default) | fixed-window | token-bucket
+ * - RATE_LIMIT_STORE: memory (default) | file
+ * - RATE_LIMIT_FILE: JSON file used by the file store
  *
- * const ratelimit = new Ratelimit({
- *   redis: Redis.fromEnv(),
- *   limiter: Ratelimit.slidingWindow(100, '1 m'),
- * });
+ * ⚠️  The default in-memory store resets on restart and doesn't scale across
+ * multiple instances. For PRODUCTION, register a Redis store at startup:
+ * ```ts
+ * import Redis from 'ioredis';
+ * import { RedisRateLimitStore, setDefaultRateLimitStore } from '@/lib/rateLimiter';
  *
- * export async function checkRateLimit(clientId: string): Promise<boolean> {
- *   const { success } = await ratelimit.limit(clientId);
- *   return success;
- * }
+ * const redis = new Redis(process.env.REDIS_URL);
+ * setDefaultRateLimitStore(
+ *   new RedisRateLimitStore((command, ...args) => redis.call(command, ...args))
+ * );
  * ```
- * Install: npm install @upstash/ratelimit @upstash/redis
  */
 
-// TODO: Replace with Upstash/Redis in production
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
-  };
-}
-
-// ⚠️ In-memory store - for development only
-const store: RateLimitStore = {};
+import {
+  RateLimiter,
+  type RateLimitResult,
+  buildRateLimitHeaders,
+  parseRateLimitAlgorithm,
+} from "@/lib/rateLimiter";
 
-export function checkRateLimit(
-  clientId: string,
-  maxRequests = 100,
-  windowMs = 60000
-): boolean {
-  const now = Date.now();
-  const clientData = store[clientId];
+export type { RateLimitResult } from "@/lib/rateLimiter";
 
-  if (!clientData || now > clientData.resetTime) {
-    // Initialize or reset the client data
-    store[clientId] = {
-      count: 1,
-      resetTime: now + windowMs,
-    };
-    return true;
-  }
+// Default: 100 requests per minute per client
+export const apiRateLimiter = new RateLimiter({
+  prefix: "api",
+  limit: 100,
+  windowMs: 60000,
+  algorithm: parseRateLimitAlgorithm(process.env.RATE_LIMIT_ALGORITHM),
+});
 
-  if (clientData.count >= maxRequests) {
-    // Rate limit exceeded
-    return false;
-  }
+/**
+ * Count a request from a client against the API rate limit
+ */
+export async function checkRateLimit(
+  clientId: string,
+  limiter: RateLimiter = apiRateLimiter
+): Promise<RateLimitResult> {
+  return limiter.consume(clientId);
+}
 
-  // Increment the request count
-  clientData.count++;
-  return true;
+/**
+ * X-RateLimit-* headers for a rate limit result
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return buildRateLimitHeaders(result);
 }
@@ -0,0 +1,127 @@
+/**
+ * Notes API
+ *
+ * GET  /api/notes  - the signed-in user's notes, newest first
+ * POST /api/notes  - create a note { title, content }
+ *
+ * Created notes are chunked and embedded into the notes search index
+ * (src/services/ai/notesIndex.ts) used by the AI searchNotes tool.
+ * Indexing problems don't fail the request; the response reports `indexed: false`.
+ */
+
+import { verifyAuthToken } from "./middleware/auth";
+import { checkRateLimit, getRateLimitHeaders } from "./middleware/rateLimit";
+import { noteSchema } from "@/features/notes/schemas";
+import { getNotesIndex } from "@/services/ai/notesIndex";
+import { supabase } from "@/services/supabase";
+import { logError } from "@/lib/sentry";
+
+// GET /api/notes
+export async function GET(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { status: "error", message: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("notes")
+      .select("id, title, content, created_at, updated_at")
+      .eq("user_id", token.userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return Response.json({ status: "success", data: data ?? [] });
+  } catch (error) {
+    console.error("GET /api/notes error:", error);
+    return Response.json(
+      { status: "error", message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/notes
+export async function POST(request: Request) {
+  try {
+    // Check rate limit
+    const clientId = request.headers.get("x-forwarded-for") || "unknown";
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return Response.json(
+        { status: "error", message: "Too many requests" },
+        { status: 429, headers }
+      );
+    }
+
+    // Check authentication
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { status: "error", message: "Unauthorized" },
+        { status: 401, headers }
+      );
+    }
+
+    const result = noteSchema.safeParse(await request.json());
+    if (!result.success) {
+      return Response.json(
+        {
+          status: "error",
+          message: "Validation failed",
+          details: result.error.flatten(),
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const { data: note, error } = await supabase
+      .from("notes")
+      .insert({ ...result.data, user_id: token.userId })
+      .select("id, title, content, created_at, updated_at")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    let indexed = true;
+    try {
+      await getNotesIndex(token.userId).indexNote(token.userId, {
+        id: String(note.id),
+        title: note.title,
+        content: note.content,
+      });
+    } catch (indexError) {
+      indexed = false;
+      logError(indexError as Error, {
+        context: "Notes index",
+        noteId: note.id,
+        userId: token.userId,
+      });
+    }
+
+    return Response.json(
+      {
+        status: "success",
+        message: "Note created successfully",
+        data: note,
+        indexed,
+      },
+      { status: 201, headers }
+    );
+  } catch (error) {
+    console.error("POST /api/notes error:", error);
+    return Response.json(
+      { status: "error", message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
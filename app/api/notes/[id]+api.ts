@@ -0,0 +1,202 @@
+/**
+ * Note API
+ *
+ * GET    /api/notes/:id  - one of the signed-in user's notes
+ * PATCH  /api/notes/:id  - update { title?, content? } and re-index the note
+ * DELETE /api/notes/:id  - delete the note and remove it from the search index
+ *
+ * Notes are scoped to their owner: other users' notes return 404.
+ */
+
+import { verifyAuthToken } from "../middleware/auth";
+import { checkRateLimit, getRateLimitHeaders } from "../middleware/rateLimit";
+import { noteSchema } from "@/features/notes/schemas";
+import { getNotesIndex } from "@/services/ai/notesIndex";
+import { supabase } from "@/services/supabase";
+import { logError } from "@/lib/sentry";
+
+const NOTE_COLUMNS = "id, title, content, created_at, updated_at";
+
+// GET /api/notes/:id
+export async function GET(request: Request, { id }: { id: string }) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { status: "error", message: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { data: note, error } = await supabase
+      .from("notes")
+      .select(NOTE_COLUMNS)
+      .eq("id", id)
+      .eq("user_id", token.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!note) {
+      return Response.json(
+        { status: "error", message: "Note not found" },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({ status: "success", data: note });
+  } catch (error) {
+    console.error("GET /api/notes/:id error:", error);
+    return Response.json(
+      { status: "error", message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/notes/:id
+export async function PATCH(request: Request, { id }: { id: string }) {
+  try {
+    // Check rate limit
+    const clientId = request.headers.get("x-forwarded-for") || "unknown";
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return Response.json(
+        { status: "error", message: "Too many requests" },
+        { status: 429, headers }
+      );
+    }
+
+    // Check authentication
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { status: "error", message: "Unauthorized" },
+        { status: 401, headers }
+      );
+    }
+
+    const result = noteSchema.partial().safeParse(await request.json());
+    if (!result.success) {
+      return Response.json(
+        {
+          status: "error",
+          message: "Validation failed",
+          details: result.error.flatten(),
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const { data: note, error } = await supabase
+      .from("notes")
+      .update({ ...result.data, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", token.userId)
+      .select(NOTE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!note) {
+      return Response.json(
+        { status: "error", message: "Note not found" },
+        { status: 404, headers }
+      );
+    }
+
+    // Re-index; unchanged chunks keep their embeddings
+    let indexed = true;
+    try {
+      await getNotesIndex(token.userId).indexNote(token.userId, {
+        id: String(note.id),
+        title: note.title,
+        content: note.content,
+      });
+    } catch (indexError) {
+      indexed = false;
+      logError(indexError as Error, {
+        context: "Notes index",
+        noteId: id,
+        userId: token.userId,
+      });
+    }
+
+    return Response.json(
+      {
+        status: "success",
+        message: "Note updated successfully",
+        data: note,
+        indexed,
+      },
+      { headers }
+    );
+  } catch (error) {
+    console.error("PATCH /api/notes/:id error:", error);
+    return Response.json(
+      { status: "error", message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/notes/:id
+export async function DELETE(request: Request, { id }: { id: string }) {
+  try {
+    // Check rate limit
+    const clientId = request.headers.get("x-forwarded-for") || "unknown";
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+      return Response.json(
+        { status: "error", message: "Too many requests" },
+        { status: 429, headers }
+      );
+    }
+
+    // Check authentication
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { status: "error", message: "Unauthorized" },
+        { status: 401, headers }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("notes")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", token.userId)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      return Response.json(
+        { status: "error", message: "Note not found" },
+        { status: 404, headers }
+      );
+    }
+
+    await getNotesIndex(token.userId).removeNote(token.userId, id);
+
+    return Response.json(
+      { status: "success", message: "Note deleted successfully" },
+      { headers }
+    );
+  } catch (error) {
+    console.error("DELETE /api/notes/:id error:", error);
+    return Response.json(
+      { status: "error", message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
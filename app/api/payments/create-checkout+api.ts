@@ -1,15 +1,33 @@
 /**
  * Create Stripe Checkout Session
  *
- * Backend API route to create a Stripe Checkout session for web-based subscriptions
+ * Backend API route to create a Stripe Checkout session for web-based subscriptions.
+ * Prices in the plan catalog (src/services/payments/planCatalog.ts) get the plan's
+ * free trial, including the user's experiment variant of it, for users who never
+ * subscribed before. A promo code (src/services/payments/promoCodes.ts) adds its
+ * Stripe coupon and replaces the trial with its own; the session reserves it until
+ * it expires, and the Stripe webhook confirms or releases the reservation.
  */
 
 // Example implementation - you'll need to install stripe on your backend
 // npm install stripe
 
 import { verifyAuthToken } from "../middleware/auth";
+import { planCatalog } from "@/services/payments/planCatalog";
+import {
+  type PromoCodeDefinition,
+  PromoCodeError,
+  promoCodeService,
+} from "@/services/payments/promoCodes";
+import { paymentsRepository } from "@/services/payments/repository";
 import { z } from "zod";
 
+/** Metadata keys only the server sets; the Stripe webhook trusts them */
+const RESERVED_METADATA_KEYS = ["userId", "promoCode", "planId", "planVariant"];
+
+/** Sessions with a promo code expire after this (Stripe allows 30 minutes to 24 hours) */
+const PROMO_CHECKOUT_TTL_MS = 60 * 60 * 1000;
+
 // Input validation schema
 const checkoutSchema = z.object({
   priceId: z
@@ -20,6 +38,7 @@ const checkoutSchema = z.object({
   successUrl: z.string().url("Invalid success URL").optional(),
   cancelUrl: z.string().url("Invalid cancel URL").optional(),
   metadata: z.record(z.string()).optional(),
+  promoCode: z.string().trim().min(1).max(64).optional(),
 });
 
 export async function POST(req: Request): Promise<Response> {
@@ -41,11 +60,52 @@ export async function POST(req: Request): Promise<Response> {
       );
     }
 
-    const { priceId, email, successUrl, cancelUrl, metadata } = result.data;
+    const { priceId, email, successUrl, cancelUrl, promoCode } = result.data;
+    const metadata: Record<string, string> = { ...result.data.metadata };
+    for (const key of RESERVED_METADATA_KEYS) {
+      delete metadata[key];
+    }
 
     // Use authenticated userId instead of client-provided one
     const userId = token.userId;
 
+    const catalogPlan = planCatalog.findByStripePrice(priceId, userId);
+    const planMetadata = catalogPlan
+      ? {
+          planId: catalogPlan.plan.id,
+          ...(catalogPlan.variant && { planVariant: catalogPlan.variant }),
+        }
+      : {};
+
+    let promo: PromoCodeDefinition | undefined;
+    if (promoCode) {
+      try {
+        promo = await promoCodeService.validate(promoCode, {
+          userId,
+          source: "stripe",
+          // Prices outside the catalog only take codes valid for every plan
+          planId: catalogPlan?.plan.id ?? priceId,
+        });
+      } catch (error) {
+        if (error instanceof PromoCodeError) {
+          return Response.json(
+            { error: "Invalid Promo Code", code: error.code, message: error.message },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Plan trials are for first subscriptions; a code's trial for anyone who can redeem it
+    const isFirstSubscription =
+      (await paymentsRepository.getSubscriptionsForUser(userId)).length === 0;
+    const trialDays =
+      promo?.trialDays ?? (isFirstSubscription ? catalogPlan?.plan.trialDays : undefined);
+    // Recorded as redeemed when the checkout completes (Stripe webhook)
+    const promoMetadata = promo ? { promoCode: promo.code } : {};
+    const expiresAt = promo ? Date.now() + PROMO_CHECKOUT_TTL_MS : undefined;
+
     // Initialize Stripe (server-side only)
     const stripe = require("stripe")(process.env.STRIPE_SECRET_KEY);
 
@@ -65,15 +125,42 @@ export async function POST(req: Request): Promise<Response> {
         cancelUrl || `${process.env.EXPO_PUBLIC_APP_URL}/payment/cancel`,
       customer_email: email,
       client_reference_id: userId,
-      metadata: metadata || {},
+      ...(expiresAt && { expires_at: Math.floor(expiresAt / 1000) }),
+      metadata: { ...metadata, userId, ...promoMetadata },
+      ...(promo?.stripeCouponId && { discounts: [{ coupon: promo.stripeCouponId }] }),
       subscription_data: {
+        ...(trialDays && { trial_period_days: trialDays }),
         metadata: {
-          userId,
           ...metadata,
+          userId,
+          ...planMetadata,
+          ...promoMetadata,
         },
       },
     });
 
+    if (promo && expiresAt) {
+      try {
+        // Until the session is returned no one can pay with it, so a failed
+        // reservation only needs the session expired
+        await promoCodeService.reserve(promo, {
+          userId,
+          source: "stripe",
+          reference: session.id,
+          expiresAt,
+        });
+      } catch (error) {
+        await stripe.checkout.sessions.expire(session.id);
+        if (error instanceof PromoCodeError) {
+          return Response.json(
+            { error: "Invalid Promo Code", code: error.code, message: error.message },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
     return Response.json({ url: session.url });
   } catch (error: any) {
     console.error("Error creating checkout session:", error);
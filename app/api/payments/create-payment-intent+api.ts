@@ -2,28 +2,68 @@
  * Create Stripe Payment Intent
  *
  * Backend API route for one-time payments
+ *
+ * Request Body, either:
+ * - { packId: string, currency?: string }: a credit pack
+ *   (src/services/payments/credits.ts) for the signed-in user, at the pack's
+ *   price. The Stripe webhook adds its credits when the payment succeeds.
+ * - { amount: number (major units), currency: string, metadata?: object }
  */
 
+import { verifyAuthToken } from '../middleware/auth';
+import { creditsService } from '@/services/payments/credits';
+
+/** Metadata keys only the server sets; the Stripe webhook adds credits for them */
+const CREDIT_PACK_METADATA_KEYS = ['creditPackId', 'credits'];
+
 export async function POST(req: Request): Promise<Response> {
   try {
     const body = await req.json();
-    const { amount, currency, metadata } = body;
+    const { amount, currency, metadata, packId } = body;
 
-    if (!amount || !currency) {
+    if (!packId && (!amount || !currency)) {
       return Response.json(
         { error: 'amount and currency are required' },
         { status: 400 }
       );
     }
 
+    const paymentMetadata: Record<string, string> = { ...(metadata || {}) };
+    for (const key of CREDIT_PACK_METADATA_KEYS) {
+      delete paymentMetadata[key];
+    }
+
+    let price = { amount: Math.round(amount * 100), currency }; // Convert to cents
+    if (packId) {
+      const token = await verifyAuthToken(req);
+      if (!token) {
+        return Response.json(
+          { error: 'Unauthorized', code: 'AUTH_REQUIRED', message: 'You must be signed in' },
+          { status: 401 }
+        );
+      }
+
+      const pack = creditsService.findPack(packId);
+      if (!pack) {
+        return Response.json({ error: `Unknown credit pack ${packId}` }, { status: 400 });
+      }
+
+      price = creditsService.priceOf(pack, currency);
+      Object.assign(paymentMetadata, {
+        creditPackId: pack.id,
+        credits: String(pack.credits),
+        userId: token.userId,
+      });
+    }
+
     // Initialize Stripe (server-side only)
     const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
 
     // Create payment intent
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency: currency.toLowerCase(),
-      metadata: metadata || {},
+      amount: price.amount,
+      currency: price.currency.toLowerCase(),
+      metadata: paymentMetadata,
       automatic_payment_methods: {
         enabled: true,
       },
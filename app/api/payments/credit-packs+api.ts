@@ -0,0 +1,60 @@
+/**
+ * Credit Packs API
+ *
+ * GET /api/payments/credit-packs?locale=es-MX&currency=EUR
+ *
+ * The credit packs for sale (src/services/payments/credits.ts), named in the
+ * requested language (`locale`, else Accept-Language) and priced in the requested
+ * currency where the pack has a price in it. Buy them with
+ * POST /api/payments/create-payment-intent ({ packId }) on the web, or the
+ * pack's RevenueCat product in the app.
+ *
+ * Response (200):
+ * {
+ *   locale: string (language of the names, e.g. "es"),
+ *   packs: [{
+ *     id: string,
+ *     credits: number,
+ *     name: string (e.g. "100 credits"),
+ *     badge?: string,
+ *     highlighted: boolean,
+ *     price: { amount: number (minor units), currency: string, formatted: string },
+ *     revenueCatProductId?: string
+ *   }]
+ * }
+ */
+
+import { creditsService } from "@/services/payments/credits";
+import { logError } from "@/lib/sentry";
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+
+    const packs = creditsService.getPacks({
+      locale:
+        url.searchParams.get("locale") ??
+        request.headers.get("accept-language")?.split(",")[0]?.split(";")[0]?.trim(),
+      currency: url.searchParams.get("currency") ?? undefined,
+    });
+
+    return Response.json(packs, {
+      headers: {
+        "Cache-Control": "public, max-age=300",
+        Vary: "Accept-Language",
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "Credit Packs API" });
+
+    console.error("GET /api/payments/credit-packs error:", error);
+    return Response.json(
+      {
+        error: "Credit Packs Unavailable",
+        code: "CREDIT_PACKS_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Subscription Plans API
+ *
+ * GET /api/payments/plans?locale=es-MX&currency=EUR
+ *
+ * The plans to sell, from the plan catalog (src/services/payments/planCatalog.ts):
+ * strings in the requested language (`locale`, else Accept-Language), prices in the
+ * requested currency where the plan has one. Signed-in users get the plan variants
+ * of the experiments they are bucketed into; anonymous users get the control plans.
+ *
+ * Response (200):
+ * {
+ *   version: number,
+ *   locale: string (language of the strings, e.g. "es"),
+ *   plans: [{
+ *     id: string,
+ *     period: 'monthly' | 'yearly' | 'lifetime',
+ *     name: string,
+ *     description: string,
+ *     features: string[],
+ *     badge?: string,
+ *     highlighted: boolean,
+ *     price: { amount: number (minor units), currency: string, formatted: string },
+ *     periodLabel: string,
+ *     trialDays?: number,
+ *     trialLabel?: string,
+ *     entitlements: string[],
+ *     stripePriceId?: string,
+ *     revenueCatPackageId?: string,
+ *     variant?: string
+ *   }]
+ * }
+ */
+
+import { verifyAuthToken } from "../middleware/auth";
+import { planCatalog } from "@/services/payments/planCatalog";
+import { logError } from "@/lib/sentry";
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const token = await verifyAuthToken(request);
+
+    const catalog = planCatalog.getPlans({
+      userId: token?.userId,
+      locale:
+        url.searchParams.get("locale") ??
+        request.headers.get("accept-language")?.split(",")[0]?.split(";")[0]?.trim(),
+      currency: url.searchParams.get("currency") ?? undefined,
+    });
+
+    return Response.json(catalog, {
+      headers: {
+        // Variants differ per user
+        "Cache-Control": "private, max-age=300",
+        Vary: "Authorization, Accept-Language",
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "Plans API" });
+
+    console.error("GET /api/payments/plans error:", error);
+    return Response.json(
+      {
+        error: "Plans Unavailable",
+        code: "PLANS_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Reconcile Subscriptions (admin or scheduler)
+ *
+ * POST /api/payments/reconcile
+ *
+ * Compares the subscription records kept by the Stripe and RevenueCat webhooks
+ * with both APIs and fixes the ones that drifted
+ * (src/services/payments/reconciliation.ts). Meant to run periodically, e.g. from
+ * .github/workflows/payments-reconcile.yml.
+ *
+ * Authorization: an admin's token, or "Bearer <PAYMENTS_RECONCILE_SECRET>" for
+ * schedulers.
+ *
+ * Request Body (optional):
+ * {
+ *   source?: 'stripe' | 'revenuecat' (default: both)
+ * }
+ *
+ * Response (200):
+ * {
+ *   checked: number,
+ *   updated: string[],
+ *   created: string[],
+ *   failed: [{ id, error }],
+ *   startedAt: number,
+ *   finishedAt: number
+ * }
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { verifyAuthToken } from "../middleware/auth";
+import { paymentsReconciler } from "@/services/payments/reconciliation";
+import { addBreadcrumb, logError } from "@/lib/sentry";
+
+const reconcileSchema = z.object({
+  source: z.enum(["stripe", "revenuecat"]).optional(),
+});
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** Whether the request carries the scheduler secret */
+function isScheduler(request: Request): boolean {
+  const secret = process.env.PAYMENTS_RECONCILE_SECRET;
+  const header = request.headers.get("authorization");
+  return !!secret && !!header && timingSafeEqual(digest(header), digest(`Bearer ${secret}`));
+}
+
+export async function POST(request: Request) {
+  try {
+    let caller = "scheduler";
+    if (!isScheduler(request)) {
+      const token = await verifyAuthToken(request);
+      if (!token) {
+        return Response.json(
+          { error: "Unauthorized", code: "AUTH_REQUIRED", message: "You must be signed in" },
+          { status: 401 }
+        );
+      }
+
+      if (token.role !== "admin") {
+        return Response.json(
+          { error: "Forbidden", code: "ADMIN_REQUIRED", message: "Admin access required" },
+          { status: 403 }
+        );
+      }
+      caller = token.userId;
+    }
+
+    // The body is optional
+    const validation = reconcileSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: "Invalid Request",
+          code: "VALIDATION_ERROR",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await paymentsReconciler.reconcile(validation.data);
+
+    addBreadcrumb({
+      message: "Subscriptions Reconciled",
+      category: "payments",
+      data: {
+        caller,
+        checked: report.checked,
+        updated: report.updated.length,
+        created: report.created.length,
+        failed: report.failed.length,
+      },
+    });
+
+    return Response.json(report);
+  } catch (error) {
+    logError(error as Error, { context: "Payments Reconciliation" });
+
+    console.error("Error reconciling subscriptions:", error);
+    return Response.json(
+      {
+        error: "Reconciliation Failed",
+        code: "RECONCILIATION_FAILED",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
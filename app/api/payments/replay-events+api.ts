@@ -0,0 +1,138 @@
+/**
+ * Replay Webhook Events (admin only)
+ *
+ * POST /api/payments/replay-events
+ *
+ * Applies stored Stripe and RevenueCat webhook events again, oldest first, e.g.
+ * after fixing a handler or restoring the database. Replays use the same ordering checks as deliveries,
+ * so an old event can't overwrite newer subscription or payment state.
+ *
+ * Request Body (either eventIds or at least one filter):
+ * {
+ *   eventIds?: string[] (up to 100),
+ *   source?: 'stripe' | 'revenuecat',
+ *   status?: 'processing' | 'processed' | 'stale' | 'ignored' | 'failed',
+ *   type?: string (e.g. "customer.subscription.updated", "RENEWAL"),
+ *   since?, until?: ISO date or epoch ms (when the event was sent),
+ *   limit?: number (default 50, max 100)
+ * }
+ *
+ * Response (200):
+ * {
+ *   results: [{ id, type, outcome } | { id, error }]
+ * }
+ */
+
+import { z } from "zod";
+import { verifyAuthToken } from "../middleware/auth";
+import { paymentsRepository } from "@/services/payments/repository";
+import { revenueCatWebhookProcessor } from "@/services/payments/revenueCatWebhooks";
+import { stripeWebhookProcessor } from "@/services/payments/stripeWebhooks";
+import { addBreadcrumb, logError } from "@/lib/sentry";
+
+const MAX_REPLAY_EVENTS = 100;
+
+const processors = {
+  stripe: stripeWebhookProcessor,
+  revenuecat: revenueCatWebhookProcessor,
+};
+
+const timestampSchema = z
+  .union([z.number(), z.string()])
+  .transform((value) =>
+    typeof value === "number" ? value : /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  )
+  .refine((value) => !Number.isNaN(value), "Must be an ISO date or epoch milliseconds");
+
+const replaySchema = z
+  .object({
+    eventIds: z.array(z.string().min(1)).min(1).max(MAX_REPLAY_EVENTS).optional(),
+    source: z.enum(["stripe", "revenuecat"]).optional(),
+    status: z.enum(["processing", "processed", "stale", "ignored", "failed"]).optional(),
+    type: z.string().min(1).optional(),
+    since: timestampSchema.optional(),
+    until: timestampSchema.optional(),
+    limit: z.number().int().min(1).max(MAX_REPLAY_EVENTS).default(50),
+  })
+  .refine(
+    (body) =>
+      body.eventIds || body.source || body.status || body.type || body.since !== undefined,
+    "Pass eventIds or a filter (source, status, type, since)"
+  );
+
+export async function POST(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { error: "Unauthorized", code: "AUTH_REQUIRED", message: "You must be signed in" },
+        { status: 401 }
+      );
+    }
+
+    if (token.role !== "admin") {
+      return Response.json(
+        { error: "Forbidden", code: "ADMIN_REQUIRED", message: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const validation = replaySchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: "Invalid Request",
+          code: "VALIDATION_ERROR",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { eventIds, source, status, type, since, until, limit } = validation.data;
+    const results: Record<string, string>[] = [];
+    let events;
+    if (eventIds) {
+      const found = await Promise.all(eventIds.map((id) => paymentsRepository.getEvent(id)));
+      events = found.flatMap((event) => (event ? [event] : []));
+      for (const id of eventIds) {
+        if (!events.some((event) => event.id === id)) {
+          results.push({ id, error: "Event not found" });
+        }
+      }
+      events.sort((a, b) => a.created - b.created || a.receivedAt - b.receivedAt);
+    } else {
+      events = await paymentsRepository.listEvents({ source, status, type, since, until, limit });
+    }
+
+    // One at a time, oldest first, so events apply in order
+    for (const { id, source: eventSource, type: eventType } of events) {
+      try {
+        const outcome = await processors[eventSource].replay(id);
+        results.push(outcome ? { id, type: eventType, outcome } : { id, error: "Event not found" });
+      } catch (error) {
+        results.push({ id, error: error instanceof Error ? error.message : "Replay failed" });
+      }
+    }
+
+    addBreadcrumb({
+      message: "Webhook Events Replayed",
+      category: "payments",
+      data: { userId: token.userId, count: results.length },
+    });
+
+    return Response.json({ results });
+  } catch (error) {
+    logError(error as Error, { context: "Webhook Event Replay" });
+
+    console.error("Error replaying webhook events:", error);
+    return Response.json(
+      {
+        error: "Replay Failed",
+        code: "REPLAY_FAILED",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
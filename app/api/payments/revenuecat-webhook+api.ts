@@ -0,0 +1,90 @@
+/**
+ * RevenueCat Webhook Handler
+ *
+ * POST /api/payments/revenuecat-webhook
+ *
+ * Receives RevenueCat webhook events (App Store / Play Store purchases, renewals,
+ * cancellations, billing issues, refunds) and records them in the same
+ * subscription records as the Stripe webhook
+ * (src/services/payments/revenueCatWebhooks.ts).
+ *
+ * Requests must carry the Authorization header configured for the webhook in the
+ * RevenueCat dashboard: REVENUECAT_WEBHOOK_SECRET, optionally as "Bearer <secret>".
+ *
+ * Response (200):
+ * { received: true, outcome: 'processed' | 'stale' | 'ignored' | 'duplicate' }
+ *
+ * Redeliveries of an event that was already handled return `duplicate`. Events
+ * that fail return 500 so RevenueCat retries them; they can also be replayed with
+ * POST /api/payments/replay-events.
+ */
+
+import {
+  RevenueCatWebhookError,
+  parseRevenueCatWebhook,
+  revenueCatWebhookProcessor,
+  verifyRevenueCatAuthorization,
+} from "@/services/payments/revenueCatWebhooks";
+import { addBreadcrumb, logError } from "@/lib/sentry";
+
+export async function POST(req: Request): Promise<Response> {
+  const secret = process.env.REVENUECAT_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("REVENUECAT_WEBHOOK_SECRET is not set");
+    return Response.json(
+      { error: "Webhook not configured", code: "CONFIG_ERROR" },
+      { status: 500 }
+    );
+  }
+
+  if (!verifyRevenueCatAuthorization(req.headers.get("authorization"), secret)) {
+    return Response.json(
+      { error: "Unauthorized", code: "INVALID_AUTHORIZATION" },
+      { status: 401 }
+    );
+  }
+
+  const body = await req.text();
+
+  let webhook;
+  try {
+    webhook = parseRevenueCatWebhook(body);
+  } catch (err) {
+    if (err instanceof RevenueCatWebhookError) {
+      return Response.json(
+        { error: "Invalid webhook payload", code: err.code, message: err.message },
+        { status: 400 }
+      );
+    }
+    throw err;
+  }
+
+  const { event } = webhook;
+  try {
+    const outcome = await revenueCatWebhookProcessor.handle(webhook, body);
+
+    addBreadcrumb({
+      message: "RevenueCat Webhook",
+      category: "payments",
+      data: { eventId: event.id, type: event.type, outcome },
+    });
+
+    return Response.json({ received: true, outcome });
+  } catch (error) {
+    logError(error as Error, {
+      context: "RevenueCat Webhook",
+      eventId: event.id,
+      type: event.type,
+    });
+
+    console.error("RevenueCat webhook error:", error);
+    return Response.json(
+      {
+        error: "Webhook handler failed",
+        code: "WEBHOOK_FAILED",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Validate Promo Code
+ *
+ * POST /api/payments/validate-promo
+ *
+ * Checks that the signed-in user can redeem a promo code
+ * (src/services/payments/promoCodes.ts) and prices the plans it applies to.
+ * Nothing is redeemed yet: that happens when the purchase completes.
+ *
+ * Request Body:
+ * {
+ *   code: string,
+ *   source: 'stripe' | 'revenuecat' (how the user will pay),
+ *   planId?: string (only check this plan),
+ *   locale?: string,
+ *   currency?: string
+ * }
+ *
+ * Response (200):
+ * {
+ *   code: string,
+ *   description?: string,
+ *   percentOff?: number,
+ *   trialDays?: number,
+ *   revenueCatOfferingId?: string (offering to buy from in the app),
+ *   plans: [{ planId, price, originalPrice, trialDays?, trialLabel? }]
+ * }
+ *
+ * Response (404 / 409 / 422): { error, code, message }, code being
+ * NOT_FOUND, EXPIRED, EXHAUSTED, ALREADY_REDEEMED or NOT_APPLICABLE
+ */
+
+import { z } from "zod";
+import { verifyAuthToken } from "../middleware/auth";
+import { PromoCodeError, promoCodeService } from "@/services/payments/promoCodes";
+import type { PromoCodeErrorCode } from "@/features/payments/schemas";
+import { logError } from "@/lib/sentry";
+
+const validatePromoSchema = z.object({
+  code: z.string().trim().min(1, "code is required").max(64),
+  source: z.enum(["stripe", "revenuecat"]),
+  planId: z.string().min(1).optional(),
+  locale: z.string().min(1).optional(),
+  currency: z.string().length(3).optional(),
+});
+
+const ERROR_STATUS: Record<PromoCodeErrorCode, number> = {
+  NOT_FOUND: 404,
+  EXPIRED: 422,
+  EXHAUSTED: 409,
+  ALREADY_REDEEMED: 409,
+  NOT_APPLICABLE: 422,
+};
+
+export async function POST(request: Request) {
+  try {
+    const token = await verifyAuthToken(request);
+    if (!token) {
+      return Response.json(
+        { error: "Unauthorized", code: "AUTH_REQUIRED", message: "You must be signed in" },
+        { status: 401 }
+      );
+    }
+
+    const validation = validatePromoSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+      return Response.json(
+        {
+          error: "Invalid Request",
+          code: "VALIDATION_ERROR",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { code, source, planId, locale, currency } = validation.data;
+    const promo = await promoCodeService.validate(code, { userId: token.userId, source, planId });
+
+    return Response.json(
+      promoCodeService.describe(promo, { userId: token.userId, locale, currency }),
+      { headers: { "Cache-Control": "private, no-store" } }
+    );
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return Response.json(
+        { error: "Invalid Promo Code", code: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+
+    logError(error as Error, { context: "Validate Promo API" });
+
+    console.error("POST /api/payments/validate-promo error:", error);
+    return Response.json(
+      {
+        error: "Promo Code Check Failed",
+        code: "PROMO_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
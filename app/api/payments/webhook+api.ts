@@ -1,155 +1,86 @@
 /**
  * Stripe Webhook Handler
  *
- * Handles Stripe webhook events for subscription updates, payment confirmations, etc.
+ * POST /api/payments/webhook
+ *
+ * Receives Stripe webhook events (subscription updates, payment confirmations, etc.)
+ * and records them in the payments repository (src/services/payments/stripeWebhooks.ts).
+ *
+ * Requests must carry a valid Stripe-Signature header for STRIPE_WEBHOOK_SECRET.
+ *
+ * Response (200):
+ * { received: true, outcome: 'processed' | 'stale' | 'ignored' | 'duplicate' }
+ *
+ * Redeliveries of an event that was already handled return `duplicate`. Events
+ * that fail return 500 so Stripe retries them; they can also be replayed with
+ * POST /api/payments/replay-events.
  */
 
-// =============================================================================
-// Subscription Service (TODO: Replace with real database implementation)
-// =============================================================================
-
-async function activateSubscription(
-  userId: string,
-  subscriptionId: string
-): Promise<void> {
-  // TODO: Implement with your database (e.g., Prisma, Drizzle, Supabase)
-  // Example:
-  // await db.subscription.upsert({
-  //   where: { userId },
-  //   create: { userId, stripeSubscriptionId: subscriptionId, status: 'active' },
-  //   update: { stripeSubscriptionId: subscriptionId, status: 'active' },
-  // });
-  console.log(
-    `[DB] Activating subscription for user ${userId}: ${subscriptionId}`
-  );
-}
-
-async function updateSubscriptionStatus(
-  subscriptionId: string,
-  status: string
-): Promise<void> {
-  // TODO: Implement with your database
-  // await db.subscription.update({
-  //   where: { stripeSubscriptionId: subscriptionId },
-  //   data: { status },
-  // });
-  console.log(
-    `[DB] Updating subscription ${subscriptionId} status to: ${status}`
-  );
-}
-
-async function deactivateSubscription(subscriptionId: string): Promise<void> {
-  // TODO: Implement with your database
-  // await db.subscription.update({
-  //   where: { stripeSubscriptionId: subscriptionId },
-  //   data: { status: 'cancelled' },
-  // });
-  console.log(`[DB] Deactivating subscription: ${subscriptionId}`);
-}
-
-async function recordPayment(
-  invoiceId: string,
-  _subscriptionId: string,
-  amount: number
-): Promise<void> {
-  // TODO: Implement with your database
-  // await db.payment.create({ data: { invoiceId, subscriptionId, amount, status: 'succeeded' } });
-  console.log(`[DB] Recording payment ${invoiceId} for ${amount}`);
-}
-
-async function handleFailedPayment(
-  invoiceId: string,
-  subscriptionId: string
-): Promise<void> {
-  // TODO: Implement notification + database update
-  // await db.subscription.update({ where: { stripeSubscriptionId: subscriptionId }, data: { status: 'past_due' } });
-  // await sendEmail(userId, 'Payment failed - please update your payment method');
-  console.log(
-    `[DB] Payment failed for invoice ${invoiceId}, subscription ${subscriptionId}`
-  );
-}
-
-// =============================================================================
-// Webhook Handler
-// =============================================================================
+import {
+  StripeWebhookError,
+  stripeWebhookProcessor,
+  verifyStripeSignature,
+} from "@/services/payments/stripeWebhooks";
+import { addBreadcrumb, logError } from "@/lib/sentry";
 
 export async function POST(req: Request): Promise<Response> {
-  try {
-    const stripe = require("stripe")(process.env.STRIPE_SECRET_KEY);
-    const sig = req.headers.get("stripe-signature");
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not set");
+    return Response.json(
+      { error: "Webhook not configured", code: "CONFIG_ERROR" },
+      { status: 500 }
+    );
+  }
 
-    if (!sig) {
-      return Response.json(
-        { error: "Missing stripe signature" },
-        { status: 400 }
-      );
-    }
+  const sig = req.headers.get("stripe-signature");
+  if (!sig) {
+    return Response.json(
+      { error: "Missing stripe signature", code: "INVALID_SIGNATURE" },
+      { status: 400 }
+    );
+  }
 
-    const body = await req.text();
+  const body = await req.text();
 
-    let event;
-    try {
-      event = stripe.webhooks.constructEvent(
-        body,
-        sig,
-        process.env.STRIPE_WEBHOOK_SECRET
-      );
-    } catch (err: any) {
+  let event;
+  try {
+    event = verifyStripeSignature(body, sig, secret);
+  } catch (err) {
+    if (err instanceof StripeWebhookError) {
       console.error("Webhook signature verification failed:", err.message);
       return Response.json(
-        { error: "Webhook signature verification failed" },
+        { error: "Webhook signature verification failed", code: err.code, message: err.message },
         { status: 400 }
       );
     }
+    throw err;
+  }
 
-    // Handle the event
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object;
-        const userId = session.client_reference_id;
-        if (userId && session.subscription) {
-          await activateSubscription(userId, session.subscription);
-        }
-        break;
-      }
-
-      case "customer.subscription.updated": {
-        const subscription = event.data.object;
-        await updateSubscriptionStatus(subscription.id, subscription.status);
-        break;
-      }
-
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object;
-        await deactivateSubscription(subscription.id);
-        break;
-      }
-
-      case "invoice.payment_succeeded": {
-        const invoice = event.data.object;
-        await recordPayment(
-          invoice.id,
-          invoice.subscription,
-          invoice.amount_paid
-        );
-        break;
-      }
-
-      case "invoice.payment_failed": {
-        const invoice = event.data.object;
-        await handleFailedPayment(invoice.id, invoice.subscription);
-        break;
-      }
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-    }
+  try {
+    const outcome = await stripeWebhookProcessor.handle(event, body);
+
+    addBreadcrumb({
+      message: "Stripe Webhook",
+      category: "payments",
+      data: { eventId: event.id, type: event.type, outcome },
+    });
+
+    return Response.json({ received: true, outcome });
+  } catch (error) {
+    logError(error as Error, {
+      context: "Stripe Webhook",
+      eventId: event.id,
+      type: event.type,
+    });
 
-    return Response.json({ received: true });
-  } catch (error: any) {
     console.error("Webhook error:", error);
     return Response.json(
-      { error: error.message || "Webhook handler failed" },
+      {
+        error: "Webhook handler failed",
+        code: "WEBHOOK_FAILED",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      },
       { status: 500 }
     );
   }
@@ -0,0 +1,61 @@
+/**
+ * Sync Pull
+ *
+ * POST /api/sync/pull
+ *
+ * Server side of WatermelonDB's pullChanges (see src/database/sync.ts).
+ * Returns the changes to server-backed tables since the client's last pull.
+ *
+ * Server-backed tables: ai_threads, ai_messages
+ */
+
+import { verifyAuthToken } from "../middleware/auth";
+import { threadRepository } from "@/services/ai/threads";
+import { z } from "zod";
+
+const pullSchema = z.object({
+  lastPulledAt: z.number().nullable().optional(),
+  schemaVersion: z.number().optional(),
+  migration: z
+    .object({
+      from: z.number(),
+      tables: z.array(z.string()),
+      columns: z.array(z.object({ table: z.string(), columns: z.array(z.string()) })),
+    })
+    .nullable()
+    .optional(),
+});
+
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const token = await verifyAuthToken(req);
+    if (!token) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = pullSchema.safeParse(body);
+
+    if (!result.success) {
+      return Response.json(
+        { error: "Validation failed", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { lastPulledAt, migration } = result.data;
+
+    // Clients that just created the AI tables locally need everything
+    const needsFullSync = migration?.tables.some((table) => table.startsWith("ai_")) ?? false;
+
+    const { changes, timestamp } = await threadRepository.pullChanges(
+      token.userId,
+      needsFullSync ? null : lastPulledAt ?? null
+    );
+
+    return Response.json({ changes, timestamp });
+  } catch (error) {
+    console.error("Sync pull error:", error);
+    return Response.json({ error: "Sync pull failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Sync Push
+ *
+ * POST /api/sync/push
+ *
+ * Server side of WatermelonDB's pushChanges (see src/database/sync.ts).
+ * Applies local changes to server-backed tables; other tables are ignored.
+ *
+ * Server-backed tables: ai_threads, ai_messages
+ *
+ * Pushed messages become chat history the model reads, so they get the chat's
+ * input moderation: redacted messages are stored redacted, blocked ones not at all.
+ */
+
+import { verifyAuthToken } from "../middleware/auth";
+import { moderationPipeline } from "@/services/ai/moderation";
+import { type ThreadMessageRecord, threadRepository } from "@/services/ai/threads";
+import { z } from "zod";
+
+const tableChanges = <T extends z.ZodTypeAny>(record: T) =>
+  z
+    .object({
+      created: z.array(record).default([]),
+      updated: z.array(record).default([]),
+      deleted: z.array(z.string()).default([]),
+    })
+    .optional();
+
+const pushSchema = z.object({
+  changes: z
+    .object({
+      ai_threads: tableChanges(
+        z.object({
+          id: z.string().min(1),
+          title: z.string(),
+          last_message_at: z.number(),
+          created_at: z.number(),
+          updated_at: z.number(),
+        })
+      ),
+      ai_messages: tableChanges(
+        z.object({
+          id: z.string().min(1),
+          thread_id: z.string().min(1),
+          // System prompts come from the server only
+          role: z.enum(["user", "assistant"]),
+          content: z.string(),
+          attachments: z.string().nullable().optional(),
+          created_at: z.number(),
+          updated_at: z.number(),
+        })
+      ),
+    })
+    .passthrough(),
+  lastPulledAt: z.number().nullable().optional(),
+});
+
+/**
+ * Messages as they may reach the model: redacted, without blocked ones
+ */
+async function moderateMessages(
+  records: ThreadMessageRecord[],
+  userId: string
+): Promise<ThreadMessageRecord[]> {
+  const results = await Promise.all(
+    records.map((record) => moderationPipeline.check(record.content, { stage: "input", userId }))
+  );
+  return records.flatMap((record, i) =>
+    results[i].action === "block" ? [] : [{ ...record, content: results[i].text }]
+  );
+}
+
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const token = await verifyAuthToken(req);
+    if (!token) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = pushSchema.safeParse(body);
+
+    if (!result.success) {
+      return Response.json(
+        { error: "Validation failed", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { ai_threads, ai_messages } = result.data.changes;
+    await threadRepository.pushChanges(token.userId, {
+      ai_threads,
+      ai_messages: ai_messages && {
+        ...ai_messages,
+        created: await moderateMessages(ai_messages.created, token.userId),
+        updated: await moderateMessages(ai_messages.updated, token.userId),
+      },
+    });
+
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error("Sync push error:", error);
+    return Response.json({ error: "Sync push failed" }, { status: 500 });
+  }
+}
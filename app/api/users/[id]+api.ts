@@ -1,5 +1,5 @@
 import { verifyAuthToken, AuthToken } from "../middleware/auth";
-import { checkRateLimit } from "../middleware/rateLimit";
+import { checkRateLimit, getRateLimitHeaders } from "../middleware/rateLimit";
 import { z } from "zod";
 
 // Authorization helper: users can access own data, admins can access any
@@ -31,10 +31,12 @@ export async function GET(request: Request, { id }: { id: string }) {
   try {
     // Check rate limit
     const clientId = request.headers.get("x-forwarded-for") || "unknown";
-    if (!checkRateLimit(clientId)) {
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
       return Response.json(
         { status: "error", message: "Too many requests" },
-        { status: 429 }
+        { status: 429, headers }
       );
     }
 
@@ -43,7 +45,7 @@ export async function GET(request: Request, { id }: { id: string }) {
     if (!token) {
       return Response.json(
         { status: "error", message: "Unauthorized" },
-        { status: 401 }
+        { status: 401, headers }
       );
     }
 
@@ -51,7 +53,7 @@ export async function GET(request: Request, { id }: { id: string }) {
     if (!canAccessUser(token, id)) {
       return Response.json(
         { status: "error", message: "Forbidden" },
-        { status: 403 }
+        { status: 403, headers }
       );
     }
 
@@ -60,14 +62,17 @@ export async function GET(request: Request, { id }: { id: string }) {
     if (!user) {
       return Response.json(
         { status: "error", message: "User not found" },
-        { status: 404 }
+        { status: 404, headers }
       );
     }
 
-    return Response.json({
-      status: "success",
-      data: user,
-    });
+    return Response.json(
+      {
+        status: "success",
+        data: user,
+      },
+      { headers }
+    );
   } catch (error) {
     console.error("GET /api/users/:id error:", error);
     return Response.json(
@@ -82,10 +87,12 @@ export async function PATCH(request: Request, { id }: { id: string }) {
   try {
     // Check rate limit
     const clientId = request.headers.get("x-forwarded-for") || "unknown";
-    if (!checkRateLimit(clientId)) {
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
       return Response.json(
         { status: "error", message: "Too many requests" },
-        { status: 429 }
+        { status: 429, headers }
       );
     }
 
@@ -94,7 +101,7 @@ export async function PATCH(request: Request, { id }: { id: string }) {
     if (!token) {
       return Response.json(
         { status: "error", message: "Unauthorized" },
-        { status: 401 }
+        { status: 401, headers }
       );
     }
 
@@ -102,7 +109,7 @@ export async function PATCH(request: Request, { id }: { id: string }) {
     if (!canAccessUser(token, id)) {
       return Response.json(
         { status: "error", message: "Forbidden" },
-        { status: 403 }
+        { status: 403, headers }
       );
     }
 
@@ -112,7 +119,7 @@ export async function PATCH(request: Request, { id }: { id: string }) {
     if (userIndex === -1) {
       return Response.json(
         { status: "error", message: "User not found" },
-        { status: 404 }
+        { status: 404, headers }
       );
     }
 
@@ -141,7 +148,7 @@ export async function PATCH(request: Request, { id }: { id: string }) {
           message: "Validation failed",
           details: result.error.flatten(),
         },
-        { status: 400 }
+        { status: 400, headers }
       );
     }
 
@@ -154,11 +161,14 @@ export async function PATCH(request: Request, { id }: { id: string }) {
       updatedAt: new Date().toISOString(),
     };
 
-    return Response.json({
-      status: "success",
-      message: "User updated successfully",
-      data: users[userIndex],
-    });
+    return Response.json(
+      {
+        status: "success",
+        message: "User updated successfully",
+        data: users[userIndex],
+      },
+      { headers }
+    );
   } catch (error) {
     console.error("PATCH /api/users/:id error:", error);
     return Response.json(
@@ -173,10 +183,12 @@ export async function DELETE(request: Request, { id }: { id: string }) {
   try {
     // Check rate limit
     const clientId = request.headers.get("x-forwarded-for") || "unknown";
-    if (!checkRateLimit(clientId)) {
+    const rateLimit = await checkRateLimit(clientId);
+    const headers = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
       return Response.json(
         { status: "error", message: "Too many requests" },
-        { status: 429 }
+        { status: 429, headers }
       );
     }
 
@@ -185,7 +197,7 @@ export async function DELETE(request: Request, { id }: { id: string }) {
     if (!token) {
       return Response.json(
         { status: "error", message: "Unauthorized" },
-        { status: 401 }
+        { status: 401, headers }
       );
     }
 
@@ -193,7 +205,7 @@ export async function DELETE(request: Request, { id }: { id: string }) {
     if (token.role !== "admin") {
       return Response.json(
         { status: "error", message: "Forbidden: Admin access required" },
-        { status: 403 }
+        { status: 403, headers }
       );
     }
 
@@ -202,17 +214,20 @@ export async function DELETE(request: Request, { id }: { id: string }) {
     if (userIndex === -1) {
       return Response.json(
         { status: "error", message: "User not found" },
-        { status: 404 }
+        { status: 404, headers }
       );
     }
 
     // Delete user
     users.splice(userIndex, 1);
 
-    return Response.json({
-      status: "success",
-      message: "User deleted successfully",
-    });
+    return Response.json(
+      {
+        status: "success",
+        message: "User deleted successfully",
+      },
+      { headers }
+    );
   } catch (error) {
     console.error("DELETE /api/users/:id error:", error);
     return Response.json(
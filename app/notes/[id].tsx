@@ -0,0 +1,75 @@
+import { Container, Screen } from '@/components';
+import { useTheme } from '@/hooks';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, Text, View } from 'react-native';
+
+interface Note {
+  id: string;
+  title: string;
+  content: string;
+  updated_at?: string;
+}
+
+/**
+ * Note Screen
+ * Opened from note citations in AI replies (see ChatMessage)
+ */
+export default function NoteScreen() {
+  const { colors } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [note, setNote] = useState<Note | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/notes/${encodeURIComponent(id)}`, {
+          headers: {
+            Authorization: 'Bearer your-token', // TODO: Get from auth
+          },
+        });
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload.message || 'Failed to load note');
+        }
+        if (!cancelled) setNote(payload.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: note?.title ?? 'Note' }} />
+      <Screen>
+        <Container className="flex-1 py-6">
+          {error ? (
+            <View className="bg-error-100 p-3 rounded-lg">
+              <Text className="text-error-800">{error}</Text>
+            </View>
+          ) : !note ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <ScrollView>
+              <Text className="text-2xl font-bold mb-4" style={{ color: colors.text }}>
+                {note.title}
+              </Text>
+              <Text className="text-base" style={{ color: colors.text }}>
+                {note.content}
+              </Text>
+            </ScrollView>
+          )}
+        </Container>
+      </Screen>
+    </>
+  );
+}
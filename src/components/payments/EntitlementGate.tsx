@@ -0,0 +1,54 @@
+/**
+ * Entitlement Gate Component
+ *
+ * Renders its children only for users with the entitlement (useEntitlements),
+ * whichever platform they bought it on
+ */
+
+import { useEntitlements } from '@/features/payments/hooks';
+import { DEFAULT_ENTITLEMENT } from '@/features/payments/schemas';
+import type { ReactNode } from 'react';
+import { ActivityIndicator, View } from 'react-native';
+
+interface EntitlementGateProps {
+  /**
+   * Required entitlement
+   * @default 'premium'
+   */
+  entitlement?: string;
+
+  /**
+   * Shown to users without the entitlement (e.g. an upgrade prompt)
+   */
+  fallback?: ReactNode;
+
+  children: ReactNode;
+}
+
+/**
+ * Entitlement Gate Component
+ *
+ * @example
+ * ```tsx
+ * <EntitlementGate fallback={<Paywall />}>
+ *   <AdvancedAnalytics />
+ * </EntitlementGate>
+ * ```
+ */
+export function EntitlementGate({
+  entitlement = DEFAULT_ENTITLEMENT,
+  fallback = null,
+  children,
+}: EntitlementGateProps) {
+  const { isEntitled, isLoading } = useEntitlements();
+
+  if (isLoading) {
+    return (
+      <View style={{ padding: 32, alignItems: 'center' }}>
+        <ActivityIndicator color="#3b82f6" />
+      </View>
+    );
+  }
+
+  return <>{isEntitled(entitlement) ? children : fallback}</>;
+}
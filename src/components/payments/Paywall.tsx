@@ -1,17 +1,28 @@
 /**
  * Paywall Component
  *
- * Beautiful subscription paywall with both IAP and web payment options
+ * Beautiful subscription paywall with both IAP and web payment options.
+ * Plans, prices and features come from the plan catalog (GET /api/payments/plans),
+ * in the app's language and the device's currency. Promo codes entered here are
+ * checked by the backend and shown as the discounted price.
+ * Users who already have the entitlement (bought on any platform, see
+ * useEntitlements) see their subscription instead of the plans.
  */
 
+import { useEntitlements } from '@/features/payments/hooks';
+import { DEFAULT_ENTITLEMENT } from '@/features/payments/schemas';
 import {
   type PaymentMethod,
   type SubscriptionPlan,
+  applyPromoCode,
   getSubscriptionPlans,
   purchaseSubscription,
   restorePurchases,
+  validatePromoCode,
 } from '@/services/payments';
+import * as Localization from 'expo-localization';
 import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import {
   ActivityIndicator,
   Platform,
@@ -19,6 +30,7 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -49,6 +61,12 @@ interface PaywallProps {
    */
   userId?: string;
 
+  /**
+   * Entitlement the paywall unlocks
+   * @default 'premium'
+   */
+  entitlement?: string;
+
   /**
    * Show close button
    * @default false
@@ -77,27 +95,85 @@ export function Paywall({
   paymentMethod,
   userEmail,
   userId,
+  entitlement: entitlementId = DEFAULT_ENTITLEMENT,
   showClose = false,
 }: PaywallProps) {
+  const {
+    isEntitled,
+    getEntitlement,
+    refresh,
+    isLoading: checkingEntitlements,
+  } = useEntitlements();
   const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
   const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null);
   const [loading, setLoading] = useState(true);
   const [purchasing, setPurchasing] = useState(false);
   const [restoring, setRestoring] = useState(false);
+  const [promoOpen, setPromoOpen] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoPlans, setPromoPlans] = useState<SubscriptionPlan[] | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
   const insets = useSafeAreaInsets();
+  const { i18n } = useTranslation();
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload when the language changes
   useEffect(() => {
     loadPlans();
-  }, []);
+  }, [i18n.language]);
+
+  const planOptions = () => ({
+    locale: i18n.language,
+    currency: Localization.getLocales()[0]?.currencyCode ?? undefined,
+  });
 
   const loadPlans = async () => {
     setLoading(true);
-    const availablePlans = await getSubscriptionPlans();
-    setPlans(availablePlans);
-    // Auto-select the yearly plan (usually best value)
-    const defaultPlan = availablePlans.find((p) => p.period === 'yearly') || availablePlans[0];
-    setSelectedPlan(defaultPlan);
-    setLoading(false);
+    try {
+      const availablePlans = await getSubscriptionPlans(planOptions());
+      setPlans(availablePlans);
+      setPromoPlans(null);
+      // Auto-select the plan the catalog highlights
+      const defaultPlan = availablePlans.find((p) => p.highlighted) ?? availablePlans[0] ?? null;
+      setSelectedPlan(defaultPlan);
+    } catch (error) {
+      console.error('Failed to load plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    setCheckingPromo(true);
+    setPromoError(null);
+    try {
+      const promo = await validatePromoCode(code, planOptions());
+      const discounted = await applyPromoCode(plans, promo);
+      if (discounted.length === 0) {
+        setPromoError('This code is not available for these plans');
+        return;
+      }
+      setPromoPlans(discounted);
+      setSelectedPlan(
+        discounted.find((p) => p.id === selectedPlan?.id) ??
+          discounted.find((p) => p.highlighted) ??
+          discounted[0]
+      );
+    } catch (error) {
+      setPromoError(error instanceof Error ? error.message : 'Failed to check promo code');
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setPromoPlans(null);
+    setPromoInput('');
+    setPromoError(null);
+    setSelectedPlan(plans.find((p) => p.id === selectedPlan?.id) ?? plans[0] ?? null);
   };
 
   const handlePurchase = async () => {
@@ -109,11 +185,14 @@ export function Paywall({
       email: userEmail,
       userId,
     });
-    setPurchasing(false);
 
     if (result.success) {
+      // The backend learns about the purchase from RevenueCat / the Stripe webhook
+      await refresh();
+      setPurchasing(false);
       onSuccess?.();
     } else {
+      setPurchasing(false);
       // Show error toast
       console.error('Purchase failed:', result.error);
     }
@@ -122,16 +201,18 @@ export function Paywall({
   const handleRestore = async () => {
     setRestoring(true);
     const result = await restorePurchases();
-    setRestoring(false);
 
     if (result.success) {
+      await refresh();
+      setRestoring(false);
       onSuccess?.();
     } else {
+      setRestoring(false);
       console.error('Restore failed:', result.error);
     }
   };
 
-  if (loading) {
+  if (loading || checkingEntitlements) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#3b82f6" />
@@ -139,6 +220,33 @@ export function Paywall({
     );
   }
 
+  // Already subscribed (possibly on another platform)
+  const entitlement = getEntitlement(entitlementId);
+  if (entitlement && isEntitled(entitlementId) && !purchasing && !restoring) {
+    return (
+      <View style={[styles.loadingContainer, { paddingTop: insets.top }]}>
+        <Text style={styles.title}>You're subscribed</Text>
+        <Text style={styles.subtitle}>
+          {entitlement.source === 'stripe'
+            ? 'Your web subscription is active on this device too.'
+            : 'Your subscription is active.'}
+        </Text>
+        {(onDismiss || onSuccess) && (
+          <Pressable
+            style={({ pressed }) => [
+              styles.subscribeButton,
+              styles.doneButton,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={onDismiss ?? onSuccess}
+          >
+            <Text style={styles.subscribeButtonText}>Done</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {showClose && onDismiss && (
@@ -158,16 +266,9 @@ export function Paywall({
           <Text style={styles.subtitle}>Unlock all features and get the most out of the app</Text>
         </View>
 
-        {/* Features */}
+        {/* Features of the selected plan */}
         <View style={styles.features}>
-          {[
-            'Unlimited access to all features',
-            'Priority customer support',
-            'Ad-free experience',
-            'Advanced analytics',
-            'Cloud sync across devices',
-            'Early access to new features',
-          ].map((feature) => (
+          {(selectedPlan ?? plans[0])?.features.map((feature) => (
             <View key={feature} style={styles.featureRow}>
               <Text style={styles.checkmark}>✓</Text>
               <Text style={styles.featureText}>{feature}</Text>
@@ -177,25 +278,33 @@ export function Paywall({
 
         {/* Plans */}
         <View style={styles.plans}>
-          {plans.map((plan) => (
+          {(promoPlans ?? plans).map((plan) => (
             <Pressable
               key={plan.id}
               style={[styles.planCard, selectedPlan?.id === plan.id && styles.planCardSelected]}
               onPress={() => setSelectedPlan(plan)}
             >
-              {plan.period === 'yearly' && (
+              {plan.badge && (
                 <View style={styles.badge}>
-                  <Text style={styles.badgeText}>BEST VALUE</Text>
+                  <Text style={styles.badgeText}>{plan.badge}</Text>
                 </View>
               )}
 
               <View style={styles.planHeader}>
                 <Text style={styles.planName}>{plan.name}</Text>
-                <Text style={styles.planPrice}>{plan.price}</Text>
+                <View style={styles.planPriceColumn}>
+                  {plan.originalPrice && (
+                    <Text style={styles.planOriginalPrice}>{plan.originalPrice}</Text>
+                  )}
+                  <Text style={styles.planPrice}>{plan.price}</Text>
+                  <Text style={styles.planPeriod}>{plan.periodLabel}</Text>
+                </View>
               </View>
 
               <Text style={styles.planDescription}>{plan.description}</Text>
 
+              {plan.trialLabel && <Text style={styles.planTrial}>{plan.trialLabel}</Text>}
+
               {selectedPlan?.id === plan.id && (
                 <View style={styles.selectedIndicator}>
                   <Text style={styles.selectedText}>✓</Text>
@@ -205,6 +314,51 @@ export function Paywall({
           ))}
         </View>
 
+        {/* Promo Code */}
+        <View style={styles.promo}>
+          {promoPlans ? (
+            <View style={styles.promoApplied}>
+              <Text style={styles.promoAppliedText}>Code {promoPlans[0].promoCode} applied</Text>
+              <Pressable onPress={handleRemovePromo}>
+                <Text style={styles.promoLink}>Remove</Text>
+              </Pressable>
+            </View>
+          ) : promoOpen ? (
+            <View style={styles.promoRow}>
+              <TextInput
+                style={styles.promoInput}
+                value={promoInput}
+                onChangeText={setPromoInput}
+                placeholder="Promo code"
+                autoCapitalize="characters"
+                autoCorrect={false}
+                returnKeyType="done"
+                onSubmitEditing={handleApplyPromo}
+              />
+              <Pressable
+                style={({ pressed }) => [
+                  styles.promoButton,
+                  pressed && styles.buttonPressed,
+                  (checkingPromo || !promoInput.trim()) && styles.buttonDisabled,
+                ]}
+                onPress={handleApplyPromo}
+                disabled={checkingPromo || !promoInput.trim()}
+              >
+                {checkingPromo ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.promoButtonText}>Apply</Text>
+                )}
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable onPress={() => setPromoOpen(true)}>
+              <Text style={styles.promoLink}>Have a promo code?</Text>
+            </Pressable>
+          )}
+          {promoError && <Text style={styles.promoError}>{promoError}</Text>}
+        </View>
+
         {/* Subscribe Button */}
         <Pressable
           style={({ pressed }) => [
@@ -355,15 +509,33 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1f2937',
   },
+  planPriceColumn: {
+    alignItems: 'flex-end',
+  },
   planPrice: {
     fontSize: 24,
     fontWeight: '700',
     color: '#3b82f6',
   },
+  planOriginalPrice: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
+  planPeriod: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
   planDescription: {
     fontSize: 14,
     color: '#6b7280',
   },
+  planTrial: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
   selectedIndicator: {
     position: 'absolute',
     top: 20,
@@ -380,6 +552,56 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  promo: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    gap: 8,
+  },
+  promoInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  promoButton: {
+    backgroundColor: '#1f2937',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  promoButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  promoAppliedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  promoLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  promoError: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#ef4444',
+  },
   subscribeButton: {
     backgroundColor: '#3b82f6',
     paddingVertical: 16,
@@ -387,6 +609,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  doneButton: {
+    marginTop: 24,
+    paddingHorizontal: 48,
+  },
   subscribeButtonText: {
     color: '#ffffff',
     fontSize: 18,
@@ -1,20 +1,39 @@
 /**
  * Subscription Status Component
  *
- * Displays current subscription status and management options
+ * Displays current subscription status and management options.
+ * Reads the merged RevenueCat / Stripe entitlements (useEntitlements), so web
+ * subscriptions show up in the app and vice versa.
  */
 
-import { getSubscriptionStatus, manageSubscription } from '@/services/payments';
-import { useEffect, useState } from 'react';
+import { useEntitlements } from '@/features/payments/hooks';
+import { DEFAULT_ENTITLEMENT } from '@/features/payments/schemas';
+import { manageSubscription } from '@/services/payments';
+import { useState } from 'react';
 import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
 
 interface SubscriptionStatusProps {
+  /**
+   * Entitlement to show
+   * @default 'premium'
+   */
+  entitlement?: string;
+
   /**
    * Callback when user wants to upgrade
    */
   onUpgrade?: () => void;
 }
 
+const STORE_NAMES: Record<string, string> = {
+  app_store: 'App Store',
+  mac_app_store: 'Mac App Store',
+  play_store: 'Google Play',
+  amazon: 'Amazon Appstore',
+  stripe: 'Web (Stripe)',
+  promotional: 'Promotional',
+};
+
 /**
  * Subscription Status Component
  *
@@ -25,25 +44,26 @@ interface SubscriptionStatusProps {
  * />
  * ```
  */
-export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
-  const [status, setStatus] = useState<{
-    isActive: boolean;
-    willRenew: boolean;
-    expirationDate?: Date;
-    plan?: string;
-  } | null>(null);
-  const [loading, setLoading] = useState(true);
+export function SubscriptionStatus({
+  entitlement: entitlementId = DEFAULT_ENTITLEMENT,
+  onUpgrade,
+}: SubscriptionStatusProps) {
+  const { getEntitlement, isEntitled, isLoading, refresh } = useEntitlements();
   const [managing, setManaging] = useState(false);
 
-  useEffect(() => {
-    loadStatus();
-  }, []);
-
-  const loadStatus = async () => {
-    setLoading(true);
-    const subscriptionStatus = await getSubscriptionStatus();
-    setStatus(subscriptionStatus);
-    setLoading(false);
+  const entitlement = getEntitlement(entitlementId);
+  const isActive = isEntitled(entitlementId);
+  const status = entitlement && {
+    willRenew: isActive && entitlement.willRenew,
+    expirationDate: entitlement.expiresAt ? new Date(entitlement.expiresAt) : undefined,
+    gracePeriodEnd: entitlement.gracePeriodExpiresAt
+      ? new Date(entitlement.gracePeriodExpiresAt)
+      : undefined,
+    inGracePeriod:
+      isActive && entitlement.expiresAt !== null && entitlement.expiresAt <= Date.now(),
+    lifetime: entitlement.expiresAt === null,
+    plan: entitlement.productId,
+    store: entitlement.store && (STORE_NAMES[entitlement.store] ?? entitlement.store),
   };
 
   const handleManage = async () => {
@@ -51,10 +71,10 @@ export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
     await manageSubscription();
     setManaging(false);
     // Reload status after managing
-    setTimeout(loadStatus, 2000);
+    setTimeout(refresh, 2000);
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator color="#3b82f6" />
@@ -62,7 +82,7 @@ export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
     );
   }
 
-  if (!status?.isActive) {
+  if (!status || !isActive) {
     return (
       <View style={styles.container}>
         <View style={styles.card}>
@@ -97,11 +117,17 @@ export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Status:</Text>
             <Text style={styles.detailValue}>
-              {status.willRenew ? 'Active - Auto-renews' : 'Active - Cancelled'}
+              {status.inGracePeriod
+                ? 'Active - Payment issue'
+                : status.lifetime
+                  ? 'Active - Lifetime'
+                  : status.willRenew
+                    ? 'Active - Auto-renews'
+                    : 'Active - Cancelled'}
             </Text>
           </View>
 
-          {status.expirationDate && (
+          {status.expirationDate && !status.inGracePeriod && (
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>
                 {status.willRenew ? 'Renews on:' : 'Expires on:'}
@@ -109,8 +135,23 @@ export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
               <Text style={styles.detailValue}>{formatDate(status.expirationDate)}</Text>
             </View>
           )}
+
+          {status.store && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Purchased via:</Text>
+              <Text style={styles.detailValue}>{status.store}</Text>
+            </View>
+          )}
         </View>
 
+        {status.inGracePeriod && (
+          <Text style={styles.graceNote}>
+            We couldn't renew your subscription. Update your payment method
+            {status.gracePeriodEnd ? ` before ${formatDate(status.gracePeriodEnd)}` : ''} to keep
+            access.
+          </Text>
+        )}
+
         <Pressable
           style={({ pressed }) => [styles.manageButton, pressed && styles.buttonPressed]}
           onPress={handleManage}
@@ -123,10 +164,9 @@ export function SubscriptionStatus({ onUpgrade }: SubscriptionStatusProps) {
           )}
         </Pressable>
 
-        {!status.willRenew && (
+        {!status.willRenew && !status.inGracePeriod && status.expirationDate && (
           <Text style={styles.cancelledNote}>
-            Your subscription will remain active until{' '}
-            {status.expirationDate && formatDate(status.expirationDate)}
+            Your subscription will remain active until {formatDate(status.expirationDate)}
           </Text>
         )}
       </View>
@@ -236,6 +276,11 @@ const styles = StyleSheet.create({
   buttonPressed: {
     opacity: 0.7,
   },
+  graceNote: {
+    marginBottom: 16,
+    fontSize: 14,
+    color: '#b45309',
+  },
   cancelledNote: {
     marginTop: 16,
     fontSize: 14,
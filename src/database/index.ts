@@ -8,6 +8,9 @@
 import { Database } from '@nozbe/watermelondb';
 import SQLiteAdapter from '@nozbe/watermelondb/adapters/sqlite';
 
+import { migrations } from './migrations';
+import AIMessage from './models/AIMessage';
+import AIThread from './models/AIThread';
 import Comment from './models/Comment';
 import Post from './models/Post';
 import User from './models/User';
@@ -16,6 +19,7 @@ import { schema } from './schema';
 // Configure SQLite adapter
 const adapter = new SQLiteAdapter({
   schema,
+  migrations,
   // Enable JSI for better performance (optional)
   jsi: true,
 });
@@ -23,7 +27,7 @@ const adapter = new SQLiteAdapter({
 // Create database instance
 export const database = new Database({
   adapter,
-  modelClasses: [User, Post, Comment],
+  modelClasses: [User, Post, Comment, AIThread, AIMessage],
 });
 
 /**
@@ -49,6 +53,8 @@ export const collections = {
   users: database.get<User>('users'),
   posts: database.get<Post>('posts'),
   comments: database.get<Comment>('comments'),
+  aiThreads: database.get<AIThread>('ai_threads'),
+  aiMessages: database.get<AIMessage>('ai_messages'),
 };
 
-export { User, Post, Comment };
+export { User, Post, Comment, AIThread, AIMessage };
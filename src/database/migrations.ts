@@ -0,0 +1,48 @@
+/**
+ * WatermelonDB Migrations
+ *
+ * One entry per schema version after 1. Steps must match the table
+ * definitions in ./schema.ts so existing installs end up with the same schema.
+ */
+
+import { addColumns, createTable, schemaMigrations } from '@nozbe/watermelondb/Schema/migrations';
+
+export const migrations = schemaMigrations({
+  migrations: [
+    {
+      // Attachments on AI messages
+      toVersion: 3,
+      steps: [
+        addColumns({
+          table: 'ai_messages',
+          columns: [{ name: 'attachments', type: 'string', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      // AI conversation threads
+      toVersion: 2,
+      steps: [
+        createTable({
+          name: 'ai_threads',
+          columns: [
+            { name: 'title', type: 'string' },
+            { name: 'last_message_at', type: 'number', isIndexed: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+        createTable({
+          name: 'ai_messages',
+          columns: [
+            { name: 'thread_id', type: 'string', isIndexed: true },
+            { name: 'role', type: 'string' },
+            { name: 'content', type: 'string' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+  ],
+});
@@ -0,0 +1,27 @@
+/**
+ * AI Message Model
+ * A single message in an AI conversation thread
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { date, field, readonly, relation } from '@nozbe/watermelondb/decorators';
+import type AIThread from './AIThread';
+
+export default class AIMessage extends Model {
+  static table = 'ai_messages';
+
+  static associations = {
+    ai_threads: { type: 'belongs_to' as const, key: 'thread_id' },
+  };
+
+  @field('thread_id') threadId!: string;
+  @field('role') role!: 'system' | 'user' | 'assistant';
+  @field('content') content!: string;
+  /** JSON array of MessageAttachment; read with parseAttachments */
+  @field('attachments') attachments!: string | null;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+
+  @relation('ai_threads', 'thread_id') thread!: AIThread;
+}
@@ -0,0 +1,24 @@
+/**
+ * AI Thread Model
+ * A conversation with the AI assistant
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { children, date, field, readonly } from '@nozbe/watermelondb/decorators';
+import type AIMessage from './AIMessage';
+
+export default class AIThread extends Model {
+  static table = 'ai_threads';
+
+  static associations = {
+    ai_messages: { type: 'has_many' as const, foreignKey: 'thread_id' },
+  };
+
+  @field('title') title!: string;
+  @date('last_message_at') lastMessageAt!: Date;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+
+  @children('ai_messages') messages!: AIMessage[];
+}
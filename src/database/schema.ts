@@ -5,12 +5,13 @@
  * WatermelonDB uses SQLite under the hood for React Native.
  *
  * Schema versioning is important for migrations.
+ * Bump `version` and add a matching step in ./migrations.ts when changing tables.
  */
 
 import { appSchema, tableSchema } from '@nozbe/watermelondb';
 
 export const schema = appSchema({
-  version: 1,
+  version: 3,
   tables: [
     // Users table
     tableSchema({
@@ -108,5 +109,29 @@ export const schema = appSchema({
         { name: 'updated_at', type: 'number' },
       ],
     }),
+
+    // AI conversation threads (synced with /api/sync)
+    tableSchema({
+      name: 'ai_threads',
+      columns: [
+        { name: 'title', type: 'string' },
+        { name: 'last_message_at', type: 'number', isIndexed: true },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+
+    // AI conversation messages (synced with /api/sync)
+    tableSchema({
+      name: 'ai_messages',
+      columns: [
+        { name: 'thread_id', type: 'string', isIndexed: true },
+        { name: 'role', type: 'string' }, // 'system' | 'user' | 'assistant'
+        { name: 'content', type: 'string' },
+        { name: 'attachments', type: 'string', isOptional: true }, // JSON string
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
   ],
 });
@@ -8,6 +8,7 @@
 import type { Model } from '@nozbe/watermelondb';
 import { synchronize } from '@nozbe/watermelondb/sync';
 import { database } from './index';
+import { schema } from './schema';
 
 interface SyncResult {
   success: boolean;
@@ -114,7 +115,7 @@ export async function pullChanges(apiUrl: string, authToken: string): Promise<Sy
       },
       body: JSON.stringify({
         lastPulledAt: null, // Full sync
-        schemaVersion: 1,
+        schemaVersion: schema.version,
       }),
     });
 
@@ -0,0 +1,79 @@
+import { useTheme } from '@/hooks';
+import type React from 'react';
+import { ActivityIndicator, Image, Pressable, Text, View } from 'react-native';
+import type { PendingAttachment } from '../hooks/useAttachments';
+import { type MessageAttachment, formatAttachmentSize } from '../schemas/attachments';
+
+interface AttachmentPreviewProps {
+  /** An attachment of a sent message, or one being added to the next message */
+  attachment: MessageAttachment | PendingAttachment;
+  /** Shows a remove button (while composing) */
+  onRemove?: () => void;
+}
+
+const THUMBNAIL_SIZE = 64;
+
+/**
+ * Image thumbnail, or a chip with the file name or barcode contents
+ */
+export const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, onRemove }) => {
+  const { colors } = useTheme();
+  const pending = 'localId' in attachment ? attachment : undefined;
+  const sent = pending ? pending.attachment : (attachment as MessageAttachment);
+
+  const imageUri =
+    sent?.type === 'image'
+      ? (sent.thumbnailUrl ?? sent.url)
+      : pending?.type === 'image' && pending.uri;
+  const label =
+    sent?.type === 'barcode'
+      ? sent.data
+      : sent
+        ? `${sent.name} · ${formatAttachmentSize(sent.size)}`
+        : (pending?.name ?? '');
+
+  return (
+    <View className="mr-2 mb-2">
+      <View
+        className={`rounded-xl overflow-hidden border ${
+          pending?.status === 'failed' ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+        }`}
+      >
+        {imageUri ? (
+          <Image
+            source={{ uri: imageUri }}
+            style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+            accessibilityLabel={pending?.name ?? (sent?.type === 'image' ? sent.name : 'Image')}
+          />
+        ) : (
+          <View className="flex-row items-center px-3 py-2 max-w-[200px]">
+            <Text className="mr-2">{attachment.type === 'barcode' ? '▦' : '📄'}</Text>
+            <Text className="text-xs flex-shrink" style={{ color: colors.text }} numberOfLines={1}>
+              {label}
+            </Text>
+          </View>
+        )}
+        {pending?.status === 'uploading' && (
+          <View className="absolute inset-0 items-center justify-center bg-black/30">
+            <ActivityIndicator size="small" color="#ffffff" />
+          </View>
+        )}
+      </View>
+      {pending?.status === 'failed' && (
+        <Text className="text-xs text-red-500 max-w-[200px]" numberOfLines={2}>
+          {pending.error ?? 'Upload failed'}
+        </Text>
+      )}
+      {onRemove && (
+        <Pressable
+          onPress={onRemove}
+          className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-700 items-center justify-center"
+          accessibilityRole="button"
+          accessibilityLabel={`Remove ${pending?.name ?? 'attachment'}`}
+        >
+          <Text className="text-white text-xs">✕</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
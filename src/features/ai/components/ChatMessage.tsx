@@ -1,32 +1,190 @@
 import { useTheme } from '@/hooks';
 import type React from 'react';
-import { Text, View } from 'react-native';
-import type { Message } from '../hooks/useAIChat';
+import { ActivityIndicator, Text, View } from 'react-native';
+import type { Message, MessageStatus, ToolInvocation } from '../hooks/useAIChat';
+import type { ReadAloudPlayback } from '../hooks/useReadAloud';
+import { splitNoteCitations } from '../schemas/citations';
+import { AttachmentPreview } from './AttachmentPreview';
+import { ToolInvocationCard } from './ToolInvocationCard';
 
 interface ChatMessageProps {
   message: Message;
+  /** Called when a note citation ([note:<id>]) in the reply is tapped */
+  onNotePress?: (noteId: string) => void;
+  /** Called when a message that failed to send is tapped */
+  onRetry?: (messageId: string) => void;
+  /** Read-aloud state, when this message is the one being read */
+  playback?: ReadAloudPlayback | null;
+  /** Read the reply aloud or resume it; shows playback controls on replies */
+  onReadAloud?: (message: Message) => void;
+  onPausePlayback?: () => void;
+  onStopPlayback?: () => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  pending: 'Waiting for connection',
+  sending: 'Sending…',
+  resent: 'Sent after reconnecting',
+  failed: 'Not sent',
+};
+
+function formatPlaybackTime(millis: number): string {
+  const seconds = Math.floor(millis / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Note titles from the searchNotes results of a reply, for citation labels
+ */
+function getNoteTitles(toolInvocations: ToolInvocation[]): Map<string, string> {
+  const titles = new Map<string, string>();
+  for (const invocation of toolInvocations) {
+    const results = (invocation.result as { results?: unknown } | undefined)?.results;
+    if (invocation.toolName !== 'searchNotes' || !Array.isArray(results)) continue;
+    for (const result of results) {
+      if (typeof result?.noteId === 'string' && typeof result.title === 'string') {
+        titles.set(result.noteId, result.title);
+      }
+    }
+  }
+  return titles;
+}
+
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  onNotePress,
+  onRetry,
+  playback,
+  onReadAloud,
+  onPausePlayback,
+  onStopPlayback,
+}) => {
   const { colors } = useTheme();
   const isUser = message.role === 'user';
+  const toolInvocations = message.toolInvocations ?? [];
+  const segments = isUser
+    ? [{ type: 'text' as const, text: message.content }]
+    : splitNoteCitations(message.content);
+  const noteTitles = getNoteTitles(toolInvocations);
+  const attachments = message.attachments ?? [];
 
   return (
     <View className={`mb-4 ${isUser ? 'items-end' : 'items-start'}`}>
-      <View
-        className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-          isUser ? 'bg-primary-500' : 'bg-gray-200 dark:bg-gray-700'
-        }`}
-      >
-        <Text
-          className={`text-base ${isUser ? 'text-white' : ''}`}
-          style={!isUser ? { color: colors.text } : undefined}
+      {attachments.length > 0 && (
+        <View className="max-w-[80%] flex-row flex-wrap justify-end">
+          {attachments.map((attachment) => (
+            <AttachmentPreview key={attachment.id} attachment={attachment} />
+          ))}
+        </View>
+      )}
+      {toolInvocations.length > 0 && (
+        <View className="max-w-[80%] w-full mb-2">
+          {toolInvocations.map((invocation) => (
+            <ToolInvocationCard key={invocation.toolCallId} invocation={invocation} />
+          ))}
+        </View>
+      )}
+      {/* Replies can be tool calls only until the model writes its answer */}
+      {(message.content.length > 0 ||
+        (toolInvocations.length === 0 && !message.contentFiltered && attachments.length === 0)) && (
+        <View
+          className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+            isUser ? 'bg-primary-500' : 'bg-gray-200 dark:bg-gray-700'
+          }`}
         >
-          {message.content}
+          <Text
+            className={`text-base ${isUser ? 'text-white' : ''}`}
+            style={!isUser ? { color: colors.text } : undefined}
+          >
+            {segments.map((segment) =>
+              segment.type === 'text' ? (
+                segment.text
+              ) : (
+                <Text
+                  key={segment.start}
+                  className="text-primary-600 dark:text-primary-400 underline"
+                  onPress={onNotePress ? () => onNotePress(segment.noteId) : undefined}
+                  accessibilityRole="link"
+                >
+                  [{noteTitles.get(segment.noteId) ?? 'note'}]
+                </Text>
+              )
+            )}
+          </Text>
+        </View>
+      )}
+      {message.contentFiltered && (
+        <Text className="text-xs mt-1 px-2 text-red-500">
+          {message.content
+            ? 'The rest of this reply was blocked by the content filter'
+            : 'This request was blocked by the content filter'}
+        </Text>
+      )}
+      {message.maxStepsReached && (
+        <Text className="text-xs mt-1 px-2" style={{ color: colors.textSecondary }}>
+          Stopped after reaching the tool step limit
+        </Text>
+      )}
+      {!isUser && onReadAloud && message.content.length > 0 && (
+        <View className="flex-row items-center gap-3 mt-1 px-2">
+          {playback?.state === 'loading' && <ActivityIndicator size="small" />}
+          {playback?.state === 'playing' ? (
+            <Text
+              className="text-xs text-primary-600 dark:text-primary-400"
+              onPress={onPausePlayback}
+              accessibilityRole="button"
+            >
+              ⏸ Pause
+            </Text>
+          ) : (
+            playback?.state !== 'loading' && (
+              <Text
+                className="text-xs text-primary-600 dark:text-primary-400"
+                onPress={() => onReadAloud(message)}
+                accessibilityRole="button"
+              >
+                {playback?.state === 'paused' ? '▶ Resume' : '🔊 Read aloud'}
+              </Text>
+            )
+          )}
+          {playback && (
+            <Text
+              className="text-xs text-primary-600 dark:text-primary-400"
+              onPress={onStopPlayback}
+              accessibilityRole="button"
+            >
+              ■ Stop
+            </Text>
+          )}
+          {playback?.durationMillis !== undefined && (
+            <Text className="text-xs" style={{ color: colors.textSecondary }}>
+              {formatPlaybackTime(playback.positionMillis)} /{' '}
+              {formatPlaybackTime(playback.durationMillis)}
+            </Text>
+          )}
+        </View>
+      )}
+      {message.local && (
+        <Text className="text-xs mt-1 px-2" style={{ color: colors.textSecondary }}>
+          Answered offline
         </Text>
-      </View>
+      )}
       <Text className="text-xs mt-1 px-2" style={{ color: colors.textSecondary }}>
         {message.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        {message.status && (
+          <Text className={message.status === 'failed' ? 'text-red-500' : undefined}>
+            {` · ${STATUS_LABELS[message.status]}`}
+          </Text>
+        )}
+        {message.status === 'failed' && onRetry && (
+          <Text
+            className="text-primary-600 dark:text-primary-400 underline"
+            onPress={() => onRetry(message.id)}
+            accessibilityRole="button"
+          >
+            {' Retry'}
+          </Text>
+        )}
       </Text>
     </View>
   );
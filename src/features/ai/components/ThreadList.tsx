@@ -0,0 +1,146 @@
+import { Button } from '@/components';
+import { useTheme } from '@/hooks';
+import { dbOperations, useAIThreads } from '@/hooks/useDatabase';
+import { formatRelativeTime } from '@/utils/formatters';
+import type React from 'react';
+import { useState } from 'react';
+import { Alert, FlatList, Pressable, Text, TextInput, View } from 'react-native';
+import { threadTitleSchema } from '../schemas';
+
+interface ThreadListProps {
+  activeThreadId: string | null;
+  onSelect: (threadId: string | null) => void;
+}
+
+/**
+ * Stored AI conversations with search, rename and delete
+ */
+export const ThreadList: React.FC<ThreadListProps> = ({ activeThreadId, onSelect }) => {
+  const { colors } = useTheme();
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+
+  const threads = useAIThreads(search);
+
+  const startRename = (threadId: string, currentTitle: string) => {
+    setEditingId(threadId);
+    setTitle(currentTitle);
+  };
+
+  const saveRename = async () => {
+    if (!editingId) return;
+
+    const result = threadTitleSchema.safeParse(title);
+    if (!result.success) {
+      Alert.alert('Invalid title', result.error.errors[0]?.message);
+      return;
+    }
+
+    await dbOperations.renameAIThread(editingId, result.data);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (threadId: string, threadTitle: string) => {
+    Alert.alert('Delete conversation', `Delete "${threadTitle}"? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await dbOperations.deleteAIThread(threadId);
+          if (threadId === activeThreadId) {
+            onSelect(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View className="flex-1">
+      <View className="flex-row gap-2 mb-4">
+        <TextInput
+          className="flex-1 h-10 rounded-lg px-3 border"
+          style={{
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            color: colors.text,
+          }}
+          placeholder="Search conversations..."
+          placeholderTextColor={colors.textSecondary}
+          value={search}
+          onChangeText={setSearch}
+          autoCorrect={false}
+        />
+        <Button size="sm" onPress={() => onSelect(null)}>
+          New
+        </Button>
+      </View>
+
+      <FlatList
+        data={threads}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) =>
+          editingId === item.id ? (
+            <View className="flex-row items-center gap-2 py-2">
+              <TextInput
+                className="flex-1 h-10 rounded-lg px-3 border"
+                style={{
+                  backgroundColor: colors.surface,
+                  borderColor: colors.primary,
+                  color: colors.text,
+                }}
+                value={title}
+                onChangeText={setTitle}
+                onSubmitEditing={saveRename}
+                autoFocus
+              />
+              <Button size="sm" onPress={saveRename}>
+                Save
+              </Button>
+              <Button variant="ghost" size="sm" onPress={() => setEditingId(null)}>
+                Cancel
+              </Button>
+            </View>
+          ) : (
+            <Pressable
+              onPress={() => onSelect(item.id)}
+              className={`flex-row items-center py-3 px-2 rounded-lg ${
+                item.id === activeThreadId ? 'bg-primary-100 dark:bg-primary-900' : ''
+              }`}
+              accessibilityRole="button"
+              accessibilityLabel={`Open conversation ${item.title}`}
+            >
+              <View className="flex-1">
+                <Text
+                  className="text-base font-medium"
+                  style={{ color: colors.text }}
+                  numberOfLines={1}
+                >
+                  {item.title}
+                </Text>
+                <Text className="text-xs mt-1" style={{ color: colors.textSecondary }}>
+                  {formatRelativeTime(item.lastMessageAt)}
+                </Text>
+              </View>
+              <Button variant="ghost" size="sm" onPress={() => startRename(item.id, item.title)}>
+                Rename
+              </Button>
+              <Button variant="ghost" size="sm" onPress={() => confirmDelete(item.id, item.title)}>
+                Delete
+              </Button>
+            </Pressable>
+          )
+        }
+        ListEmptyComponent={
+          <View className="items-center justify-center py-12">
+            <Text className="text-base text-center" style={{ color: colors.textSecondary }}>
+              {search ? 'No conversations match your search' : 'No conversations yet'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
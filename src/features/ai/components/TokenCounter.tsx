@@ -1,10 +1,12 @@
 import { useTheme } from '@/hooks';
 import type React from 'react';
 import { Text, View } from 'react-native';
+import type { BudgetExceededError } from '../schemas';
 
 interface TokenCounterProps {
   tokens: number;
   maxTokens?: number;
+  budgetExceeded?: BudgetExceededError | null;
 }
 
 /**
@@ -16,12 +18,28 @@ export const estimateTokens = (text: string): number => {
   return Math.ceil(text.length / 4);
 };
 
-export const TokenCounter: React.FC<TokenCounterProps> = ({ tokens, maxTokens = 4096 }) => {
+/**
+ * Format a budget reset time for display
+ */
+const formatResetTime = (resetAt: string): string => {
+  return new Date(resetAt).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const TokenCounter: React.FC<TokenCounterProps> = ({
+  tokens,
+  maxTokens = 4096,
+  budgetExceeded,
+}) => {
   const { colors } = useTheme();
   const percentage = (tokens / maxTokens) * 100;
 
   const getColor = () => {
-    if (percentage > 90) return colors.error;
+    if (budgetExceeded || percentage > 90) return colors.error;
     if (percentage > 70) return colors.warning;
     return colors.success;
   };
@@ -40,9 +58,16 @@ export const TokenCounter: React.FC<TokenCounterProps> = ({ tokens, maxTokens =
         <Text className="text-xs font-medium" style={{ color: colors.text }}>
           Tokens
         </Text>
-        <Text className="text-xs" style={{ color: colors.textSecondary }}>
-          {maxTokens - tokens} left
-        </Text>
+        {budgetExceeded ? (
+          <Text className="text-xs" style={{ color: colors.error }}>
+            {budgetExceeded.budget.period === 'daily' ? 'Daily' : 'Monthly'} budget used · resets{' '}
+            {formatResetTime(budgetExceeded.budget.resetAt)}
+          </Text>
+        ) : (
+          <Text className="text-xs" style={{ color: colors.textSecondary }}>
+            {maxTokens - tokens} left
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -0,0 +1,96 @@
+import { useTheme } from '@/hooks';
+import type React from 'react';
+import { useState } from 'react';
+import { ActivityIndicator, Platform, Pressable, Text, View } from 'react-native';
+import type { ToolInvocation, ToolInvocationState } from '../hooks/useAIChat';
+
+interface ToolInvocationCardProps {
+  invocation: ToolInvocation;
+}
+
+const STATUS_LABELS: Record<ToolInvocationState, string> = {
+  'partial-call': 'Preparing',
+  call: 'Running',
+  result: 'Done',
+  error: 'Failed',
+};
+
+const monospace = Platform.OS === 'ios' ? 'Courier' : 'monospace';
+
+function formatJSON(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  try {
+    return JSON.stringify(value, null, 2) ?? '';
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * A tool call made by the assistant, collapsed to its name and status
+ * Tap to show the arguments and result.
+ */
+export const ToolInvocationCard: React.FC<ToolInvocationCardProps> = ({ invocation }) => {
+  const { colors } = useTheme();
+  const [expanded, setExpanded] = useState(false);
+
+  const isPending = invocation.state === 'partial-call' || invocation.state === 'call';
+  const args = invocation.args !== undefined ? formatJSON(invocation.args) : invocation.argsText;
+
+  return (
+    <View className="mt-2 w-full rounded-xl border border-gray-300 dark:border-gray-600 overflow-hidden">
+      <Pressable
+        onPress={() => setExpanded((value) => !value)}
+        className="flex-row items-center px-3 py-2"
+        accessibilityRole="button"
+        accessibilityState={{ expanded }}
+        accessibilityLabel={`Tool ${invocation.toolName}, ${STATUS_LABELS[invocation.state]}`}
+      >
+        <Text className="mr-2" style={{ color: colors.textSecondary }}>
+          {expanded ? '▾' : '▸'}
+        </Text>
+        <Text className="flex-1 text-sm font-semibold" style={{ color: colors.text }}>
+          {invocation.toolName}
+        </Text>
+        {isPending && <ActivityIndicator size="small" className="mr-2" />}
+        <Text
+          className={`text-xs ${invocation.state === 'error' ? 'text-red-500' : ''}`}
+          style={invocation.state !== 'error' ? { color: colors.textSecondary } : undefined}
+        >
+          {STATUS_LABELS[invocation.state]}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <View className="px-3 pb-3">
+          <Text className="text-xs font-semibold mb-1" style={{ color: colors.textSecondary }}>
+            Arguments
+          </Text>
+          <Text className="text-xs" style={{ color: colors.text, fontFamily: monospace }}>
+            {args || '{}'}
+          </Text>
+
+          {invocation.result !== undefined && (
+            <>
+              <Text
+                className="text-xs font-semibold mt-2 mb-1"
+                style={{ color: colors.textSecondary }}
+              >
+                Result
+              </Text>
+              <Text
+                className="text-xs"
+                style={{ color: colors.text, fontFamily: monospace }}
+                numberOfLines={20}
+              >
+                {formatJSON(invocation.result)}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
@@ -1,2 +1,5 @@
+export * from './AttachmentPreview';
 export * from './ChatMessage';
 export * from './TokenCounter';
+export * from './ThreadList';
+export * from './ToolInvocationCard';
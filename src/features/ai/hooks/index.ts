@@ -1 +1,6 @@
 export * from './useAIChat';
+export * from './useAIExtract';
+export * from './useAttachments';
+export * from './useImageGeneration';
+export * from './usePushToTalk';
+export * from './useReadAloud';
@@ -2,26 +2,176 @@
  * useAIChat Hook
  *
  * Client-side hook for streaming AI chat functionality.
- * Provides send/abort, message history, system prompts, and streaming state.
- * Degrades gracefully when offline.
+ * Provides send/abort, message history, prompt templates, and streaming state.
+ *
+ * Conversations are persisted as threads in WatermelonDB (`ai_threads`, `ai_messages`).
+ * The server keeps the same thread, so only new messages are sent with the `threadId`,
+ * and the local copy is synced via /api/sync after each reply.
+ *
+ * When the server fits a long conversation into the model's context window it reports
+ * it in the X-AI-Stream-Metadata header, exposed here as `context`.
+ *
+ * User messages may carry attachments uploaded with useAttachments (images, documents)
+ * or scanned barcodes; they're stored with the message and sent to the model as parts.
+ *
+ * The system prompt is a server-side template chosen with `promptTemplate` (ID and
+ * variables); the server decides which version of it to serve.
+ *
+ * Replies arrive in the chat data stream protocol (../schemas/dataStream.ts). With
+ * `tools`, the model may run several steps; each tool call is tracked on the reply
+ * as a `ToolInvocation` from the moment it starts until its result arrives.
+ *
+ * Offline, messages are saved locally and queued in `offlineQueue` at high priority,
+ * then sent in order when the connection returns. Each queued message reports its
+ * `status`: pending -> sending -> resent, or failed (retry with `retry`). An optional
+ * `offlineResponder` (canned replies or an on-device model) answers in the meantime.
+ * The queue sends through the most recently mounted useAIChat.
  */
 
+import { collections } from '@/database';
+import { syncDatabase } from '@/database/sync';
+import { dbOperations } from '@/hooks/useDatabase';
+import { getAuthToken } from '@/lib/authToken';
+import { type QueuedRequest, offlineQueue } from '@/lib/offlineQueue';
+import { Q } from '@nozbe/watermelondb';
 import { useNetInfo } from '@react-native-community/netinfo';
-import { useCallback, useRef, useState } from 'react';
-import type { ChatRequest } from '../schemas';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  type BudgetExceededError,
+  type ChatRequest,
+  type ContextMetadata,
+  type PromptTemplateRef,
+  budgetExceededErrorSchema,
+  createThreadTitle,
+  streamMetadataSchema,
+} from '../schemas';
+import {
+  type MessageAttachment,
+  parseAttachments,
+  serializeAttachments,
+} from '../schemas/attachments';
+import { type DataStreamPart, createDataStreamParser } from '../schemas/dataStream';
+
+export type ToolInvocationState = 'partial-call' | 'call' | 'result' | 'error';
+
+export interface ToolInvocation {
+  toolCallId: string;
+  toolName: string;
+  /** Arguments as streamed so far (JSON text) */
+  argsText: string;
+  /** Parsed arguments, once the call is complete */
+  args?: unknown;
+  result?: unknown;
+  state: ToolInvocationState;
+  /** Agent loop step the call was made in (0-based) */
+  step: number;
+}
+
+/**
+ * Delivery of a user message sent while offline (or behind one that was)
+ * - pending: queued until the connection returns
+ * - sending: being sent from the queue
+ * - resent: delivered from the queue
+ * - failed: gave up or rejected by the server; `retry` queues it again
+ */
+export type MessageStatus = 'pending' | 'sending' | 'resent' | 'failed';
 
 export interface Message {
   id: string;
   role: 'system' | 'user' | 'assistant';
   content: string;
+  /** Images, documents and barcodes attached to a user message */
+  attachments?: MessageAttachment[];
   createdAt: Date;
+  /** Tools the assistant called while producing this reply */
+  toolInvocations?: ToolInvocation[];
+  /** The reply was cut short by the step limit while still calling tools */
+  maxStepsReached?: boolean;
+  /** The request or reply was stopped by content moderation */
+  contentFiltered?: boolean;
+  /** Offline delivery state of a user message (unset when sent directly) */
+  status?: MessageStatus;
+  /** Answered on the device while offline; not saved to the thread */
+  local?: boolean;
+}
+
+/**
+ * Answers a message on the device while offline; null for no answer
+ */
+export type OfflineResponder = (
+  content: string,
+  history: Message[]
+) => string | null | Promise<string | null>;
+
+export interface CannedResponse {
+  /** Matched against the message (avoid the `g` flag; it makes `test` stateful) */
+  pattern: RegExp;
+  reply: string;
+}
+
+/**
+ * Offline responder that replies with the first matching canned response
+ */
+export function createCannedResponder(
+  responses: CannedResponse[],
+  fallback?: string
+): OfflineResponder {
+  return (content) =>
+    responses.find((response) => response.pattern.test(content))?.reply ?? fallback ?? null;
+}
+
+/** offlineQueue request type for chat messages sent while offline */
+export const AI_CHAT_QUEUE_TYPE = 'ai-chat';
+
+/** Ahead of default-priority (0) requests when the connection returns */
+const AI_CHAT_QUEUE_PRIORITY = 10;
+
+/**
+ * Body of a queued chat message: the request as built when the user sent it
+ */
+interface QueuedChatMessage {
+  messageId: string;
+  assistantMessageId: string;
+  threadId: string | null;
+  request: ChatRequest;
+}
+
+/**
+ * Chat messages waiting in the offline queue
+ */
+function getQueuedChatMessages(): QueuedChatMessage[] {
+  return offlineQueue
+    .getQueue()
+    .filter((request) => request.type === AI_CHAT_QUEUE_TYPE)
+    .map((request) => request.body as QueuedChatMessage);
+}
+
+/**
+ * The server rejected the request, so sending it again as-is won't help
+ */
+class ChatResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatResponseError';
+  }
 }
 
 export interface UseAIChatOptions {
   apiUrl?: string;
-  systemPrompt?: string;
+  /** Base URL for the /sync endpoints */
+  syncApiUrl?: string;
+  /** Thread to open; a new thread is created on the first message if omitted */
+  threadId?: string | null;
+  /** Server-side system prompt template (default: the server's `assistant` template) */
+  promptTemplate?: PromptTemplateRef;
   temperature?: number;
   maxTokens?: number;
+  /** Tool names the model may call (see app/api/ai/tools.ts) */
+  tools?: string[];
+  /** Model calls per reply when using tools (server default: 5) */
+  maxSteps?: number;
+  /** Answers on the device while offline, e.g. `createCannedResponder([...])` */
+  offlineResponder?: OfflineResponder;
   onError?: (error: Error) => void;
 }
 
@@ -30,19 +180,33 @@ export interface UseAIChatReturn {
   isLoading: boolean;
   isStreaming: boolean;
   error: Error | null;
-  send: (content: string) => Promise<void>;
+  budgetExceeded: BudgetExceededError | null;
+  /** How the last request's conversation was fit into the context window */
+  context: ContextMetadata | null;
+  threadId: string | null;
+  /** Open a stored thread, or start a new one with null */
+  selectThread: (threadId: string | null) => void;
+  /** Send a message, with attachments from useAttachments (already uploaded) */
+  send: (content: string, attachments?: MessageAttachment[]) => Promise<void>;
+  /** Queue a failed message again */
+  retry: (messageId: string) => Promise<void>;
   abort: () => void;
   clear: () => void;
-  setSystemPrompt: (prompt: string) => void;
+  setPromptTemplate: (template: PromptTemplateRef | undefined) => void;
   isOnline: boolean;
 }
 
 export function useAIChat(options: UseAIChatOptions = {}): UseAIChatReturn {
   const {
     apiUrl = '/api/ai/chat',
-    systemPrompt: initialSystemPrompt,
+    syncApiUrl = '/api',
+    threadId: initialThreadId = null,
+    promptTemplate: initialPromptTemplate,
     temperature = 0.7,
     maxTokens = 1000,
+    tools,
+    maxSteps,
+    offlineResponder,
     onError,
   } = options;
 
@@ -50,9 +214,19 @@ export function useAIChat(options: UseAIChatOptions = {}): UseAIChatReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [systemPrompt, setSystemPrompt] = useState<string | undefined>(initialSystemPrompt);
+  const [budgetExceeded, setBudgetExceeded] = useState<BudgetExceededError | null>(null);
+  const [context, setContext] = useState<ContextMetadata | null>(null);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplateRef | undefined>(
+    initialPromptTemplate
+  );
+  const [threadId, setThreadId] = useState<string | null>(initialThreadId);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const stepRef = useRef(0);
+  /** Thread on screen, for replies that finish after the user switched threads */
+  const threadIdRef = useRef(threadId);
+  /** Queued messages that failed, by user message ID, for `retry` */
+  const failedMessagesRef = useRef(new Map<string, QueuedChatMessage>());
   const netInfo = useNetInfo();
   const isOnline = netInfo.isConnected ?? true;
 
@@ -63,124 +237,402 @@ export function useAIChat(options: UseAIChatOptions = {}): UseAIChatReturn {
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }, []);
 
+  useEffect(() => {
+    threadIdRef.current = threadId;
+  }, [threadId]);
+
   /**
-   * Send a message to the AI
+   * Load the selected thread's messages from the local database
    */
-  const send = useCallback(
-    async (content: string) => {
-      if (!isOnline) {
-        const offlineError = new Error('No internet connection. Please check your network.');
-        setError(offlineError);
-        onError?.(offlineError);
-        return;
+  useEffect(() => {
+    if (!threadId) {
+      return;
+    }
+
+    let cancelled = false;
+    collections.aiMessages
+      .query(Q.where('thread_id', threadId), Q.sortBy('created_at', Q.asc))
+      .fetch()
+      .then((records) => {
+        if (cancelled) return;
+        const queuedIds = new Set(getQueuedChatMessages().map((queued) => queued.messageId));
+        setMessages(
+          records.map((record) => ({
+            id: record.id,
+            role: record.role,
+            content: record.content,
+            ...(record.attachments && { attachments: parseAttachments(record.attachments) }),
+            createdAt: record.createdAt,
+            ...(queuedIds.has(record.id) && { status: 'pending' as const }),
+            ...(failedMessagesRef.current.has(record.id) && { status: 'failed' as const }),
+          }))
+        );
+      })
+      .catch((err) => console.error('[useAIChat] Failed to load thread:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  /**
+   * Apply a data stream part to the reply being streamed
+   */
+  const applyStreamPart = useCallback((message: Message, part: DataStreamPart): Message => {
+    const invocations = message.toolInvocations ?? [];
+    const updateInvocation = (toolCallId: string, update: Partial<ToolInvocation>) =>
+      invocations.map((invocation) =>
+        invocation.toolCallId === toolCallId ? { ...invocation, ...update } : invocation
+      );
+
+    switch (part.type) {
+      case 'text':
+        return { ...message, content: message.content + part.value };
+
+      case 'start-step':
+        stepRef.current = part.value.step;
+        return message;
+
+      case 'tool-call-start':
+        return {
+          ...message,
+          toolInvocations: [
+            ...invocations,
+            {
+              toolCallId: part.value.toolCallId,
+              toolName: part.value.toolName,
+              argsText: '',
+              state: 'partial-call',
+              step: stepRef.current,
+            },
+          ],
+        };
+
+      case 'tool-call-delta': {
+        const invocation = invocations.find((i) => i.toolCallId === part.value.toolCallId);
+        return invocation
+          ? {
+              ...message,
+              toolInvocations: updateInvocation(part.value.toolCallId, {
+                argsText: invocation.argsText + part.value.argsTextDelta,
+              }),
+            }
+          : message;
+      }
+
+      case 'tool-call': {
+        const call = {
+          toolName: part.value.toolName,
+          args: part.value.args,
+          argsText: JSON.stringify(part.value.args ?? {}),
+          state: 'call' as const,
+        };
+        // Providers that don't stream arguments only send the complete call
+        return invocations.some((i) => i.toolCallId === part.value.toolCallId)
+          ? { ...message, toolInvocations: updateInvocation(part.value.toolCallId, call) }
+          : {
+              ...message,
+              toolInvocations: [
+                ...invocations,
+                { toolCallId: part.value.toolCallId, step: stepRef.current, ...call },
+              ],
+            };
+      }
+
+      case 'tool-result':
+        return {
+          ...message,
+          toolInvocations: updateInvocation(part.value.toolCallId, {
+            result: part.value.result,
+            state: part.value.isError ? 'error' : 'result',
+          }),
+        };
+
+      case 'finish-message':
+        return {
+          ...message,
+          ...(part.value.maxStepsReached && { maxStepsReached: true }),
+          ...(part.value.finishReason === 'content-filter' && { contentFiltered: true }),
+        };
+
+      default:
+        return message;
+    }
+  }, []);
+
+  /**
+   * Save a message to the local thread (best effort - the server keeps its own copy)
+   */
+  const persistMessage = useCallback(async (activeThreadId: string, message: Message) => {
+    try {
+      await dbOperations.saveAIMessage({
+        id: message.id,
+        threadId: activeThreadId,
+        role: message.role,
+        content: message.content,
+        attachments: serializeAttachments(message.attachments),
+      });
+    } catch (err) {
+      console.error('[useAIChat] Failed to save message:', err);
+    }
+  }, []);
+
+  const setMessageStatus = useCallback((messageId: string, status: MessageStatus) => {
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, status } : m)));
+  }, []);
+
+  /**
+   * Send a chat request and stream the reply into the thread
+   * Throws ChatResponseError when the server rejects it, other errors on network failure
+   */
+  const streamReply = useCallback(
+    async (queued: QueuedChatMessage, signal: AbortSignal) => {
+      const { request, assistantMessageId, threadId: activeThreadId } = queued;
+      // Only show the reply if its thread is still on screen
+      const updateMessages = (update: (prev: Message[]) => Message[]) => {
+        if (threadIdRef.current === activeThreadId) {
+          setMessages(update);
+        }
+      };
+
+      const token = await getAuthToken();
+
+      // Make streaming request
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify(request),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+
+        // Surface budget details so the UI can show usage and reset time
+        const budgetError = budgetExceededErrorSchema.safeParse(errorData);
+        if (budgetError.success) {
+          setBudgetExceeded(budgetError.data);
+        }
+
+        throw new ChatResponseError(errorData.message || 'Failed to get AI response');
+      }
+
+      if (!response.body) {
+        throw new ChatResponseError('No response body');
+      }
+
+      // Note whether older messages were summarized to fit the context window
+      const metadataHeader = response.headers.get('X-AI-Stream-Metadata');
+      if (metadataHeader) {
+        try {
+          const metadata = streamMetadataSchema.safeParse(JSON.parse(metadataHeader));
+          setContext(metadata.success ? (metadata.data.context ?? null) : null);
+        } catch {
+          setContext(null);
+        }
+      }
+
+      // Create assistant message placeholder (replacing one left by an earlier attempt)
+      const assistantMessage: Message = {
+        id: assistantMessageId,
+        role: 'assistant',
+        content: '',
+        createdAt: new Date(),
+      };
+
+      updateMessages((prev) => [
+        ...prev.filter((m) => m.id !== assistantMessageId),
+        assistantMessage,
+      ]);
+      setIsStreaming(true);
+
+      // Read stream
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = createDataStreamParser();
+      let reply = assistantMessage;
+      let streamError: string | null = null;
+      stepRef.current = 0;
+
+      const handleParts = (parts: DataStreamPart[]) => {
+        if (parts.length === 0) {
+          return;
+        }
+
+        for (const part of parts) {
+          if (part.type === 'error') {
+            streamError = part.value;
+          } else if (part.type === 'metadata') {
+            if (part.value.context) {
+              setContext(part.value.context);
+            }
+          } else {
+            reply = applyStreamPart(reply, part);
+          }
+        }
+
+        // Update the assistant message once per chunk
+        const updated = reply;
+        updateMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        handleParts(parser.push(decoder.decode(value, { stream: true })));
+      }
+      handleParts(parser.flush());
+
+      if (streamError) {
+        throw new ChatResponseError(streamError);
+      }
+
+      if (activeThreadId) {
+        await persistMessage(activeThreadId, reply);
+
+        // Share the thread with other devices in the background
+        if (token) {
+          syncDatabase(syncApiUrl, token).catch((err) =>
+            console.error('[useAIChat] Thread sync failed:', err)
+          );
+        }
       }
+    },
+    [apiUrl, syncApiUrl, persistMessage, applyStreamPart]
+  );
+
+  /**
+   * Queue a message to be sent when the connection returns
+   */
+  const queueMessage = useCallback(
+    async (queued: QueuedChatMessage) => {
+      setMessageStatus(queued.messageId, 'pending');
+      await offlineQueue.addRequest({
+        type: AI_CHAT_QUEUE_TYPE,
+        url: apiUrl,
+        method: 'POST',
+        body: queued,
+        priority: AI_CHAT_QUEUE_PRIORITY,
+      });
+    },
+    [apiUrl, setMessageStatus]
+  );
 
+  /**
+   * Send a message to the AI
+   */
+  const send = useCallback(
+    async (content: string, attachments: MessageAttachment[] = []) => {
       if (isLoading) {
         return;
       }
 
       setIsLoading(true);
       setError(null);
+      setBudgetExceeded(null);
 
       // Create user message
       const userMessage: Message = {
         id: generateMessageId(),
         role: 'user',
         content,
+        ...(attachments.length > 0 && { attachments }),
         createdAt: new Date(),
       };
 
       // Add user message to history
       setMessages((prev) => [...prev, userMessage]);
 
-      // Create abort controller for this request
-      abortControllerRef.current = new AbortController();
+      // Start a thread on the first message
+      let activeThreadId = threadId;
+      if (!activeThreadId) {
+        try {
+          const thread = await dbOperations.createAIThread({ title: createThreadTitle(content) });
+          activeThreadId = thread.id;
+          threadIdRef.current = thread.id;
+          setThreadId(thread.id);
+        } catch (err) {
+          console.error('[useAIChat] Failed to create thread:', err);
+        }
+      }
 
-      try {
-        // Prepare request body
-        const requestBody: ChatRequest = {
+      if (activeThreadId) {
+        await persistMessage(activeThreadId, userMessage);
+      }
+
+      const assistantMessageId = generateMessageId();
+
+      // With a thread the server already has the history, so only send the new message
+      const queued: QueuedChatMessage = {
+        messageId: userMessage.id,
+        assistantMessageId,
+        threadId: activeThreadId,
+        request: {
           messages: [
-            ...messages.map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
+            ...(activeThreadId
+              ? []
+              : messages
+                  .filter((m) => m.role !== 'system' && !m.local)
+                  .map((m) => ({
+                    role: m.role as 'user' | 'assistant',
+                    content: m.content,
+                    ...(m.attachments && { attachments: m.attachments }),
+                  }))),
             {
-              role: userMessage.role,
+              id: userMessage.id,
+              role: 'user',
               content: userMessage.content,
+              ...(userMessage.attachments && { attachments: userMessage.attachments }),
             },
           ],
-          systemPrompt,
+          ...(promptTemplate && { promptTemplate }),
           temperature,
           maxTokens,
           stream: true,
-        };
-
-        // Get auth token (from your auth store)
-        const token = 'your-auth-token'; // TODO: Get from auth store
-
-        // Make streaming request
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify(requestBody),
-          signal: abortControllerRef.current.signal,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.message || 'Failed to get AI response');
-        }
-
-        if (!response.body) {
-          throw new Error('No response body');
-        }
-
-        // Create assistant message placeholder
-        const assistantMessage: Message = {
-          id: generateMessageId(),
-          role: 'assistant',
-          content: '',
-          createdAt: new Date(),
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
-        setIsStreaming(true);
-
-        // Read stream
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let assistantContent = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
+          ...(tools && tools.length > 0 && { tools, maxSteps }),
+          ...(activeThreadId && { threadId: activeThreadId, assistantMessageId }),
+        },
+      };
 
-          if (done) {
-            break;
+      // Offline, or behind messages still waiting to go out: queue to keep replies in order
+      const waiting = getQueuedChatMessages().some((q) => q.threadId === activeThreadId);
+      if (!isOnline || waiting) {
+        try {
+          await queueMessage(queued);
+
+          const localReply = !isOnline && (await offlineResponder?.(content, messages));
+          if (localReply) {
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: generateMessageId(),
+                role: 'assistant',
+                content: localReply,
+                createdAt: new Date(),
+                local: true,
+              },
+            ]);
           }
+        } catch (err) {
+          console.error('[useAIChat] Failed to queue message:', err);
+        } finally {
+          setIsLoading(false);
+        }
+        return;
+      }
 
-          const chunk = decoder.decode(value, { stream: true });
-
-          // Parse NDJSON chunks
-          const lines = chunk.split('\n');
-
-          for (const line of lines) {
-            if (line.startsWith('0:')) {
-              // Text chunk
-              const text = JSON.parse(line.substring(2));
-              assistantContent += text;
+      // Create abort controller for this request
+      abortControllerRef.current = new AbortController();
 
-              // Update assistant message with accumulated content
-              setMessages((prev) =>
-                prev.map((m) =>
-                  m.id === assistantMessage.id ? { ...m, content: assistantContent } : m
-                )
-              );
-            }
-          }
-        }
+      try {
+        await streamReply(queued, abortControllerRef.current.signal);
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           // Request was aborted
@@ -200,15 +652,137 @@ export function useAIChat(options: UseAIChatOptions = {}): UseAIChatReturn {
       isOnline,
       isLoading,
       messages,
-      systemPrompt,
+      threadId,
+      persistMessage,
+      promptTemplate,
       temperature,
       maxTokens,
-      apiUrl,
+      tools,
+      maxSteps,
       generateMessageId,
+      queueMessage,
+      streamReply,
+      offlineResponder,
       onError,
     ]
   );
 
+  /**
+   * Send a message from the offline queue
+   * Network failures throw so the queue tries again; rejected or stopped messages fail
+   */
+  const sendQueuedMessage = useCallback(
+    async (request: QueuedRequest) => {
+      const queued = request.body as QueuedChatMessage;
+
+      // Wait for the reply in progress; the queue tries again on its next pass
+      if (abortControllerRef.current) {
+        throw new Error('A reply is already streaming');
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setMessageStatus(queued.messageId, 'sending');
+      setIsLoading(true);
+
+      try {
+        await streamReply(queued, controller.signal);
+        setMessageStatus(queued.messageId, 'resent');
+      } catch (err) {
+        const aborted = err instanceof Error && err.name === 'AbortError';
+        if (!aborted && !(err instanceof ChatResponseError)) {
+          setMessageStatus(queued.messageId, 'pending');
+          throw err;
+        }
+
+        failedMessagesRef.current.set(queued.messageId, queued);
+        setMessageStatus(queued.messageId, 'failed');
+        if (err instanceof ChatResponseError) {
+          setError(err);
+          onError?.(err);
+        }
+      } finally {
+        setIsLoading(false);
+        setIsStreaming(false);
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
+    },
+    [streamReply, setMessageStatus, onError]
+  );
+
+  const sendQueuedMessageRef = useRef(sendQueuedMessage);
+  useEffect(() => {
+    sendQueuedMessageRef.current = sendQueuedMessage;
+  }, [sendQueuedMessage]);
+
+  /**
+   * Send queued messages through this hook and track their delivery
+   */
+  useEffect(() => {
+    let cancelled = false;
+    let unregister: (() => void) | undefined;
+
+    offlineQueue
+      .registerHandler(AI_CHAT_QUEUE_TYPE, (request) => sendQueuedMessageRef.current(request))
+      .then((unregisterHandler) => {
+        if (cancelled) {
+          unregisterHandler();
+          return;
+        }
+        unregister = unregisterHandler;
+
+        // Messages queued in an earlier session are loaded with the queue
+        const queuedIds = new Set(getQueuedChatMessages().map((queued) => queued.messageId));
+        setMessages((prev) =>
+          prev.map((m) => (queuedIds.has(m.id) && !m.status ? { ...m, status: 'pending' } : m))
+        );
+      })
+      .catch((err) => console.error('[useAIChat] Failed to start the offline queue:', err));
+
+    const unsubscribe = offlineQueue.subscribe((event) => {
+      if (event.type !== 'dropped' || event.request.type !== AI_CHAT_QUEUE_TYPE) {
+        return;
+      }
+      const queued = event.request.body as QueuedChatMessage;
+      failedMessagesRef.current.set(queued.messageId, queued);
+      setMessageStatus(queued.messageId, 'failed');
+    });
+
+    return () => {
+      cancelled = true;
+      unregister?.();
+      unsubscribe();
+    };
+  }, [setMessageStatus]);
+
+  /**
+   * Send what's queued once back online
+   */
+  useEffect(() => {
+    if (isOnline) {
+      offlineQueue.processQueue().catch((err) => console.error('[useAIChat] Queue failed:', err));
+    }
+  }, [isOnline]);
+
+  /**
+   * Queue a failed message again
+   */
+  const retry = useCallback(
+    async (messageId: string) => {
+      const queued = failedMessagesRef.current.get(messageId);
+      if (!queued) {
+        return;
+      }
+
+      failedMessagesRef.current.delete(messageId);
+      setError(null);
+      await queueMessage(queued);
+    },
+    [queueMessage]
+  );
+
   /**
    * Abort the current request
    */
@@ -222,22 +796,46 @@ export function useAIChat(options: UseAIChatOptions = {}): UseAIChatReturn {
   }, []);
 
   /**
-   * Clear message history
+   * Clear message history and start a new thread
+   * The previous thread stays in the thread list
    */
   const clear = useCallback(() => {
+    setThreadId(null);
     setMessages([]);
     setError(null);
+    setBudgetExceeded(null);
+    setContext(null);
   }, []);
 
+  /**
+   * Open a stored thread, or start a new one with null
+   */
+  const selectThread = useCallback(
+    (id: string | null) => {
+      abort();
+      setMessages([]);
+      setError(null);
+      setBudgetExceeded(null);
+      setContext(null);
+      setThreadId(id);
+    },
+    [abort]
+  );
+
   return {
     messages,
     isLoading,
     isStreaming,
     error,
+    budgetExceeded,
+    context,
+    threadId,
+    selectThread,
     send,
+    retry,
     abort,
     clear,
-    setSystemPrompt,
+    setPromptTemplate,
     isOnline,
   };
 }
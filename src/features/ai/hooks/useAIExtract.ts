@@ -0,0 +1,193 @@
+/**
+ * useAIExtract Hook
+ *
+ * Client-side hook for POST /api/ai/extract: turns free text into typed records
+ * (note, contact, calendar event) validated against the shared extraction schemas.
+ *
+ * Convenience helpers connect results to device features:
+ * - extractContact: scanned vCards are parsed locally with parseVCard, anything
+ *   else (e.g. OCR text from a business card) goes to the model
+ * - extractCalendarEvent: returns a CalendarEvent ready for createCalendarEvent
+ */
+
+import { getAuthHeaders } from '@/lib/authToken';
+import type { CalendarEvent } from '@/services/deviceFeatures';
+import { parseVCard } from '@/services/scanner';
+import { useCallback, useRef, useState } from 'react';
+import { type BudgetExceededError, budgetExceededErrorSchema } from '../schemas';
+import {
+  EXTRACTION_SCHEMAS,
+  type ExtractRequest,
+  type ExtractedCalendarEvent,
+  type ExtractedContact,
+  type ExtractionResultData,
+  type ExtractionSchemaName,
+} from '../schemas/extraction';
+
+export type ExtractOptions = Omit<ExtractRequest, 'schema' | 'input'>;
+
+export interface UseAIExtractOptions {
+  apiUrl?: string;
+  onError?: (error: Error) => void;
+}
+
+export interface UseAIExtractReturn {
+  /** Extract a record; resolves to null on failure (see `error` and `issues`) */
+  extract: <T extends ExtractionSchemaName>(
+    schema: T,
+    input: string,
+    options?: ExtractOptions
+  ) => Promise<ExtractionResultData<T> | null>;
+  /** Contact from scanned or pasted text; vCards are parsed without the model */
+  extractContact: (input: string, options?: ExtractOptions) => Promise<ExtractedContact | null>;
+  /** Calendar event from text, ready for createCalendarEvent */
+  extractCalendarEvent: (input: string, options?: ExtractOptions) => Promise<CalendarEvent | null>;
+  isLoading: boolean;
+  error: Error | null;
+  /** Validation problems with the model's last response when extraction failed */
+  issues: string[];
+  budgetExceeded: BudgetExceededError | null;
+  abort: () => void;
+}
+
+/**
+ * Convert an extracted event to the shape createCalendarEvent expects
+ */
+export function toCalendarEvent(event: ExtractedCalendarEvent): CalendarEvent {
+  return {
+    title: event.title,
+    startDate: new Date(event.startDate),
+    endDate: new Date(event.endDate),
+    location: event.location,
+    notes: event.notes,
+    ...(event.reminderMinutes !== undefined && {
+      // Expo calendar offsets are negative for alarms before the start
+      alarms: [{ relativeOffset: -event.reminderMinutes }],
+    }),
+  };
+}
+
+export function useAIExtract(options: UseAIExtractOptions = {}): UseAIExtractReturn {
+  const { apiUrl = '/api/ai/extract', onError } = options;
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [budgetExceeded, setBudgetExceeded] = useState<BudgetExceededError | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const extract = useCallback(
+    async <T extends ExtractionSchemaName>(
+      schema: T,
+      input: string,
+      extractOptions: ExtractOptions = {}
+    ): Promise<ExtractionResultData<T> | null> => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsLoading(true);
+      setError(null);
+      setIssues([]);
+      setBudgetExceeded(null);
+
+      try {
+        const requestBody: ExtractRequest = {
+          schema,
+          input,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ...extractOptions,
+        };
+
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
+        });
+
+        const payload = await response.json();
+
+        if (!response.ok) {
+          const budgetError = budgetExceededErrorSchema.safeParse(payload);
+          if (budgetError.success) {
+            setBudgetExceeded(budgetError.data);
+          }
+          if (Array.isArray(payload.issues)) {
+            setIssues(payload.issues);
+          }
+
+          throw new Error(payload.message || 'Failed to extract data');
+        }
+
+        // Re-validate so callers get parsed, typed values (defaults applied)
+        const parsed = EXTRACTION_SCHEMAS[schema].schema.safeParse(payload.data);
+        if (!parsed.success) {
+          setIssues(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`));
+          throw new Error('The server returned data that does not match the schema');
+        }
+
+        return parsed.data as ExtractionResultData<T>;
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return null;
+        }
+
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        onError?.(error);
+        return null;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [apiUrl, onError]
+  );
+
+  const extractContact = useCallback(
+    async (input: string, extractOptions?: ExtractOptions) => {
+      const vCard = parseVCard(input.trim());
+      if (vCard && (vCard.name || vCard.phone || vCard.email)) {
+        return vCard;
+      }
+      return extract('contact', input, extractOptions);
+    },
+    [extract]
+  );
+
+  const extractCalendarEvent = useCallback(
+    async (input: string, extractOptions?: ExtractOptions) => {
+      const event = await extract('calendarEvent', input, extractOptions);
+      return event ? toCalendarEvent(event) : null;
+    },
+    [extract]
+  );
+
+  /**
+   * Abort the current request
+   */
+  const abort = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    extract,
+    extractContact,
+    extractCalendarEvent,
+    isLoading,
+    error,
+    issues,
+    budgetExceeded,
+    abort,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * useAttachments Hook
+ *
+ * Collects attachments for the next chat message:
+ * - takePhoto / pickImage: photos from the media service
+ * - pickDocument: PDFs and text documents from the file management service
+ * - addBarcode: a code read by the barcode scanner (sent as text, nothing to upload)
+ *
+ * Files are checked against the accepted types and size limits (../schemas/attachments.ts)
+ * and uploaded with POST /api/ai/attachments as soon as they're picked. Pass `ready`
+ * to useAIChat's `send`, then `clear`.
+ */
+
+import { getAuthHeaders } from '@/lib/authToken';
+import { getFileInfo, pickDocument as pickDocumentFile } from '@/services/fileManagement';
+import { pickImage as pickImageFile, takePhoto as takePhotoFile } from '@/services/media';
+import type { ScanResult } from '@/services/scanner';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ATTACHMENT_MEDIA_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  type MessageAttachment,
+  attachmentUploadResponseSchema,
+  formatAttachmentSize,
+  getAttachmentMediaType,
+} from '../schemas/attachments';
+
+/** Document types offered by the picker */
+const DOCUMENT_MEDIA_TYPES = Object.keys(ATTACHMENT_MEDIA_TYPES).filter(
+  (mediaType) => ATTACHMENT_MEDIA_TYPES[mediaType].type === 'file'
+);
+
+export type PendingAttachmentStatus = 'uploading' | 'ready' | 'failed';
+
+export interface PendingAttachment {
+  /** Local ID, until the upload returns the attachment */
+  localId: string;
+  type: MessageAttachment['type'];
+  name: string;
+  /** Local file, for previews while uploading */
+  uri?: string;
+  status: PendingAttachmentStatus;
+  /** Set once ready */
+  attachment?: MessageAttachment;
+  error?: string;
+}
+
+interface LocalFile {
+  uri: string;
+  name: string;
+  size: number;
+  mediaType?: string;
+}
+
+export interface UseAttachmentsOptions {
+  apiUrl?: string;
+  /** Attachments allowed on one message (default and maximum: 4) */
+  maxAttachments?: number;
+  onError?: (error: Error) => void;
+}
+
+export interface UseAttachmentsReturn {
+  attachments: PendingAttachment[];
+  /** Uploaded attachments, ready to send */
+  ready: MessageAttachment[];
+  isUploading: boolean;
+  takePhoto: () => Promise<void>;
+  pickImage: () => Promise<void>;
+  pickDocument: () => Promise<void>;
+  addBarcode: (scan: ScanResult) => void;
+  remove: (localId: string) => void;
+  clear: () => void;
+  error: Error | null;
+}
+
+export function useAttachments(options: UseAttachmentsOptions = {}): UseAttachmentsReturn {
+  const { apiUrl = '/api/ai/attachments', onError } = options;
+  const maxAttachments = Math.min(
+    options.maxAttachments ?? MAX_ATTACHMENTS_PER_MESSAGE,
+    MAX_ATTACHMENTS_PER_MESSAGE
+  );
+
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  /** Latest list, so picks that finish together respect the limit */
+  const attachmentsRef = useRef<PendingAttachment[]>([]);
+  /** Uploads in progress by local ID */
+  const uploadsRef = useRef(new Map<string, AbortController>());
+
+  const update = useCallback((change: (prev: PendingAttachment[]) => PendingAttachment[]) => {
+    attachmentsRef.current = change(attachmentsRef.current);
+    setAttachments(attachmentsRef.current);
+  }, []);
+
+  const fail = useCallback(
+    (message: string) => {
+      const error = new Error(message);
+      setError(error);
+      onError?.(error);
+    },
+    [onError]
+  );
+
+  const generateLocalId = useCallback(() => {
+    return `att_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }, []);
+
+  /**
+   * Upload a file; the server checks the type and size again
+   */
+  const upload = useCallback(
+    async (file: LocalFile, mediaType: string, signal: AbortSignal) => {
+      const form = new FormData();
+      // React Native uploads files from a URI descriptor
+      form.append('file', { uri: file.uri, name: file.name, type: mediaType } as unknown as Blob);
+
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal,
+      });
+
+      const payload = await response.json();
+
+      if (!response.ok) {
+        throw new Error(payload.message || 'Failed to upload the attachment');
+      }
+
+      return attachmentUploadResponseSchema.parse(payload).attachment;
+    },
+    [apiUrl]
+  );
+
+  /**
+   * Check a picked file and start uploading it
+   */
+  const addFile = useCallback(
+    async (file: LocalFile) => {
+      if (attachmentsRef.current.length >= maxAttachments) {
+        fail(`You can attach up to ${maxAttachments} files to a message`);
+        return;
+      }
+
+      const mediaType = getAttachmentMediaType(file.name, file.mediaType);
+      const accepted = mediaType ? ATTACHMENT_MEDIA_TYPES[mediaType] : undefined;
+      if (!mediaType || !accepted) {
+        fail(`${file.name} can't be attached (unsupported file type)`);
+        return;
+      }
+      if (file.size > accepted.maxBytes) {
+        fail(`${file.name} is too large (limit: ${formatAttachmentSize(accepted.maxBytes)})`);
+        return;
+      }
+
+      setError(null);
+      const localId = generateLocalId();
+      const controller = new AbortController();
+      uploadsRef.current.set(localId, controller);
+      update((prev) => [
+        ...prev,
+        { localId, type: accepted.type, name: file.name, uri: file.uri, status: 'uploading' },
+      ]);
+
+      try {
+        const attachment = await upload(file, mediaType, controller.signal);
+        update((prev) =>
+          prev.map((a) => (a.localId === localId ? { ...a, status: 'ready', attachment } : a))
+        );
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return;
+        }
+
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        update((prev) =>
+          prev.map((a) => (a.localId === localId ? { ...a, status: 'failed', error: message } : a))
+        );
+        fail(message);
+      } finally {
+        uploadsRef.current.delete(localId);
+      }
+    },
+    [maxAttachments, generateLocalId, upload, update, fail]
+  );
+
+  /**
+   * Add a photo; the media service doesn't report its size, so read it from the file
+   */
+  const addPhoto = useCallback(
+    async (uri: string) => {
+      const info = await getFileInfo(uri);
+      await addFile({ uri, name: info?.name ?? 'photo.jpg', size: info?.size ?? 0 });
+    },
+    [addFile]
+  );
+
+  const takePhoto = useCallback(async () => {
+    const photo = await takePhotoFile();
+    if (photo) {
+      await addPhoto(photo.uri);
+    }
+  }, [addPhoto]);
+
+  const pickImage = useCallback(async () => {
+    const image = await pickImageFile();
+    if (image) {
+      await addPhoto(image.uri);
+    }
+  }, [addPhoto]);
+
+  const pickDocument = useCallback(async () => {
+    const files = await pickDocumentFile({ type: DOCUMENT_MEDIA_TYPES, multiple: true });
+    await Promise.all((files ?? []).map((file) => addFile(file)));
+  }, [addFile]);
+
+  const addBarcode = useCallback(
+    (scan: ScanResult) => {
+      if (attachmentsRef.current.length >= maxAttachments) {
+        fail(`You can attach up to ${maxAttachments} files to a message`);
+        return;
+      }
+      if (scan.data.length > 4096) {
+        fail('The scanned code is too long to attach');
+        return;
+      }
+
+      setError(null);
+      const localId = generateLocalId();
+      const attachment: MessageAttachment = {
+        type: 'barcode',
+        id: localId,
+        format: scan.type.slice(0, 40),
+        data: scan.data,
+      };
+      update((prev) => [
+        ...prev,
+        { localId, type: 'barcode', name: scan.data, status: 'ready', attachment },
+      ]);
+    },
+    [maxAttachments, generateLocalId, update, fail]
+  );
+
+  const remove = useCallback(
+    (localId: string) => {
+      uploadsRef.current.get(localId)?.abort();
+      uploadsRef.current.delete(localId);
+      update((prev) => prev.filter((a) => a.localId !== localId));
+    },
+    [update]
+  );
+
+  /**
+   * Drop all attachments, e.g. after sending them
+   */
+  const clear = useCallback(() => {
+    for (const controller of uploadsRef.current.values()) {
+      controller.abort();
+    }
+    uploadsRef.current.clear();
+    update(() => []);
+    setError(null);
+  }, [update]);
+
+  // Stop uploads when the component unmounts
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => {
+      for (const controller of uploads.values()) {
+        controller.abort();
+      }
+    };
+  }, []);
+
+  const ready = useMemo(
+    () => attachments.flatMap((a) => (a.status === 'ready' && a.attachment ? [a.attachment] : [])),
+    [attachments]
+  );
+
+  return {
+    attachments,
+    ready,
+    isUploading: attachments.some((a) => a.status === 'uploading'),
+    takePhoto,
+    pickImage,
+    pickDocument,
+    addBarcode,
+    remove,
+    clear,
+    error,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * useImageGeneration Hook
+ *
+ * Client-side hook for image generation jobs:
+ * - generate: POST /api/ai/image, then polls GET /api/ai/image-jobs/:id until
+ *   the job finishes
+ * - cancel: DELETE /api/ai/image-jobs/:id for the running job
+ * - gallery: the user's stored images from GET /api/ai/images, refreshed after
+ *   each successful job (e.g. for ImageCarousel)
+ */
+
+import { getAuthHeaders } from '@/lib/authToken';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  type BudgetExceededError,
+  FINISHED_IMAGE_JOB_STATUSES,
+  type ImageJob,
+  type ImageRequest,
+  type StoredImage,
+  budgetExceededErrorSchema,
+  imageJobSchema,
+  storedImageSchema,
+} from '../schemas';
+
+export type GenerateImageOptions = Partial<Omit<ImageRequest, 'prompt'>>;
+
+export interface UseImageGenerationOptions {
+  apiUrl?: string;
+  jobsUrl?: string;
+  galleryUrl?: string;
+  /** Delay between status polls in ms (default: 1500) */
+  pollInterval?: number;
+  /** Load the gallery on mount (default: true) */
+  loadGallery?: boolean;
+  onError?: (error: Error) => void;
+}
+
+export interface UseImageGenerationReturn {
+  /** Queue a job and wait for it; resolves to the finished job, or null on error */
+  generate: (prompt: string, options?: GenerateImageOptions) => Promise<ImageJob | null>;
+  /** Cancel the running job */
+  cancel: () => Promise<void>;
+  /** The current or last job */
+  job: ImageJob | null;
+  isGenerating: boolean;
+  error: Error | null;
+  budgetExceeded: BudgetExceededError | null;
+  /** The user's generated images, newest first */
+  gallery: StoredImage[];
+  isGalleryLoading: boolean;
+  refreshGallery: () => Promise<void>;
+}
+
+const isFinished = (job: ImageJob) => FINISHED_IMAGE_JOB_STATUSES.includes(job.status);
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+}
+
+export function useImageGeneration(
+  options: UseImageGenerationOptions = {}
+): UseImageGenerationReturn {
+  const {
+    apiUrl = '/api/ai/image',
+    jobsUrl = '/api/ai/image-jobs',
+    galleryUrl = '/api/ai/images',
+    pollInterval = 1500,
+    loadGallery = true,
+    onError,
+  } = options;
+
+  const [job, setJob] = useState<ImageJob | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [budgetExceeded, setBudgetExceeded] = useState<BudgetExceededError | null>(null);
+  const [gallery, setGallery] = useState<StoredImage[]>([]);
+  const [isGalleryLoading, setIsGalleryLoading] = useState(false);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  const refreshGallery = useCallback(async () => {
+    setIsGalleryLoading(true);
+    try {
+      const response = await fetch(galleryUrl, { headers: await getAuthHeaders() });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.message || 'Failed to load images');
+      }
+      setGallery(storedImageSchema.array().parse(payload.images));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      onError?.(error);
+    } finally {
+      setIsGalleryLoading(false);
+    }
+  }, [galleryUrl, onError]);
+
+  useEffect(() => {
+    if (loadGallery) {
+      refreshGallery();
+    }
+  }, [loadGallery, refreshGallery]);
+
+  // Stop polling on unmount; the job keeps running on the server
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const generate = useCallback(
+    async (prompt: string, generateOptions: GenerateImageOptions = {}) => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsGenerating(true);
+      setError(null);
+      setBudgetExceeded(null);
+      setJob(null);
+
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: { ...(await getAuthHeaders()), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt, ...generateOptions }),
+          signal: controller.signal,
+        });
+
+        const payload = await response.json();
+
+        if (!response.ok) {
+          const budgetError = budgetExceededErrorSchema.safeParse(payload);
+          if (budgetError.success) {
+            setBudgetExceeded(budgetError.data);
+          }
+          throw new Error(payload.message || 'Failed to generate image');
+        }
+
+        if (payload.finishReason === 'content_filter') {
+          throw new Error('This prompt was blocked by the content filter');
+        }
+
+        let current = imageJobSchema.parse(payload.job);
+        jobIdRef.current = current.id;
+        setJob(current);
+
+        while (!isFinished(current)) {
+          await wait(pollInterval, controller.signal);
+          const statusResponse = await fetch(`${jobsUrl}/${current.id}`, {
+            headers: await getAuthHeaders(),
+            signal: controller.signal,
+          });
+          const status = await statusResponse.json();
+          if (!statusResponse.ok) {
+            throw new Error(status.message || 'Failed to get image job status');
+          }
+          current = imageJobSchema.parse(status.job);
+          setJob(current);
+        }
+
+        if (current.status === 'failed') {
+          throw new Error(current.error || 'Image generation failed');
+        }
+        if (current.status === 'succeeded') {
+          setGallery((images) => [
+            ...current.images,
+            ...images.filter((image) => image.jobId !== current.id),
+          ]);
+        }
+
+        return current;
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return null;
+        }
+
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        onError?.(error);
+        return null;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsGenerating(false);
+        }
+      }
+    },
+    [apiUrl, jobsUrl, pollInterval, onError]
+  );
+
+  const cancel = useCallback(async () => {
+    const jobId = jobIdRef.current;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsGenerating(false);
+
+    if (!jobId) return;
+
+    try {
+      const response = await fetch(`${jobsUrl}/${jobId}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders(),
+      });
+      const payload = await response.json();
+      if (response.ok) {
+        setJob(imageJobSchema.parse(payload.job));
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      onError?.(error);
+    }
+  }, [jobsUrl, onError]);
+
+  return {
+    generate,
+    cancel,
+    job,
+    isGenerating,
+    error,
+    budgetExceeded,
+    gallery,
+    isGalleryLoading,
+    refreshGallery,
+  };
+}
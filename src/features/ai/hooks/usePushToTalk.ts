@@ -0,0 +1,189 @@
+/**
+ * usePushToTalk Hook
+ *
+ * Records while a button is held and transcribes the recording with
+ * POST /api/ai/transcribe when it's released:
+ * - start: begin recording (onPressIn)
+ * - stop: finish and transcribe; resolves to the transcript (onPressOut)
+ * - cancel: discard the recording or transcription in progress
+ *
+ * Recording goes through the media service (expo-av).
+ */
+
+import { getAuthHeaders } from '@/lib/authToken';
+import {
+  type AudioRecordingResult,
+  startAudioRecording,
+  stopAudioRecording,
+} from '@/services/media';
+import type { Audio } from 'expo-av';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type Transcription, transcriptionSchema } from '../schemas/voice';
+
+/** Recordings shorter than this are treated as accidental taps */
+const MIN_RECORDING_MS = 300;
+
+export interface UsePushToTalkOptions {
+  apiUrl?: string;
+  /** ISO 639-1 code of the spoken language; detected when omitted */
+  language?: string;
+  onTranscript?: (text: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface UsePushToTalkReturn {
+  /** Start recording; resolves to false if the microphone isn't available */
+  start: () => Promise<boolean>;
+  /** Stop recording and transcribe; resolves to the text, or null on error or a short tap */
+  stop: () => Promise<string | null>;
+  /** Discard the current recording or transcription */
+  cancel: () => Promise<void>;
+  isRecording: boolean;
+  isTranscribing: boolean;
+  /** The last transcription */
+  transcription: Transcription | null;
+  error: Error | null;
+}
+
+export function usePushToTalk(options: UsePushToTalkOptions = {}): UsePushToTalkReturn {
+  const { apiUrl = '/api/ai/transcribe', language, onTranscript, onError } = options;
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcription, setTranscription] = useState<Transcription | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Upload a recording and parse the transcript
+   */
+  const transcribe = useCallback(
+    async (recording: AudioRecordingResult, signal: AbortSignal): Promise<Transcription> => {
+      const extension = recording.mimeType === 'audio/webm' ? 'webm' : 'm4a';
+      const form = new FormData();
+      // React Native uploads files from a URI descriptor
+      form.append('audio', {
+        uri: recording.uri,
+        name: `recording.${extension}`,
+        type: recording.mimeType,
+      } as unknown as Blob);
+      if (language) {
+        form.append('language', language);
+      }
+
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal,
+      });
+
+      const payload = await response.json();
+
+      if (!response.ok) {
+        throw new Error(payload.message || 'Failed to transcribe the recording');
+      }
+
+      return transcriptionSchema.parse(payload);
+    },
+    [apiUrl, language]
+  );
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) {
+      return true;
+    }
+
+    setError(null);
+    const recording = await startAudioRecording();
+    if (!recording) {
+      const error = new Error('Microphone is not available');
+      setError(error);
+      onError?.(error);
+      return false;
+    }
+
+    recordingRef.current = recording;
+    setIsRecording(true);
+    return true;
+  }, [onError]);
+
+  const stop = useCallback(async () => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      return null;
+    }
+
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    const result = await stopAudioRecording(recording);
+    if (!result || result.durationMillis < MIN_RECORDING_MS) {
+      return null;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsTranscribing(true);
+
+    try {
+      const transcript = await transcribe(result, controller.signal);
+      setTranscription(transcript);
+      onTranscript?.(transcript.text);
+      return transcript.text;
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return null;
+      }
+
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      onError?.(error);
+      return null;
+    } finally {
+      setIsTranscribing(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [transcribe, onTranscript, onError]);
+
+  const cancel = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    setIsTranscribing(false);
+
+    if (recording) {
+      await stopAudioRecording(recording);
+    }
+  }, []);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      const recording = recordingRef.current;
+      if (recording) {
+        stopAudioRecording(recording);
+      }
+    };
+  }, []);
+
+  return {
+    start,
+    stop,
+    cancel,
+    isRecording,
+    isTranscribing,
+    transcription,
+    error,
+  };
+}
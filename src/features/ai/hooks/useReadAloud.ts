@@ -0,0 +1,195 @@
+/**
+ * useReadAloud Hook
+ *
+ * Reads chat messages aloud with POST /api/ai/speech:
+ * - play: synthesize a message (or resume it if paused) and start playback
+ * - pause / stop: control the message that's playing
+ * - playback: which message is playing, its state and progress, for ChatMessage
+ *
+ * Synthesized audio is saved to the cache directory and reused when the same
+ * message is played again. Only one message plays at a time.
+ */
+
+import { getAuthHeaders } from '@/lib/authToken';
+import { playSound } from '@/services/media';
+import type { AVPlaybackStatus, Audio } from 'expo-av';
+import { File, Paths } from 'expo-file-system';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SpeechFormat, SpeechRequest } from '../schemas/voice';
+
+export type ReadAloudState = 'loading' | 'playing' | 'paused';
+
+export interface ReadAloudPlayback {
+  messageId: string;
+  state: ReadAloudState;
+  positionMillis: number;
+  durationMillis?: number;
+}
+
+export interface UseReadAloudOptions {
+  apiUrl?: string;
+  /** Provider voice name; the server default when omitted */
+  voice?: string;
+  /** Playback speed of the synthesized speech (0.25-4) */
+  speed?: number;
+  format?: SpeechFormat;
+  onError?: (error: Error) => void;
+}
+
+export interface UseReadAloudReturn {
+  /** Read a message aloud, or resume it if it's paused */
+  play: (messageId: string, text: string) => Promise<void>;
+  pause: () => Promise<void>;
+  stop: () => Promise<void>;
+  /** The message being read, or null when nothing is */
+  playback: ReadAloudPlayback | null;
+  error: Error | null;
+}
+
+export function useReadAloud(options: UseReadAloudOptions = {}): UseReadAloudReturn {
+  const { apiUrl = '/api/ai/speech', voice, speed, format = 'mp3', onError } = options;
+
+  const [playback, setPlayback] = useState<ReadAloudPlayback | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  /** Audio files by message ID and text, so edits or streamed text are synthesized again */
+  const audioFilesRef = useRef(new Map<string, string>());
+
+  const unload = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+
+    const sound = soundRef.current;
+    soundRef.current = null;
+    if (sound) {
+      await sound.unloadAsync().catch((err) => console.error('[useReadAloud] Unload failed:', err));
+    }
+  }, []);
+
+  /**
+   * Synthesize text and save it to the cache directory
+   */
+  const synthesize = useCallback(
+    async (messageId: string, text: string, signal: AbortSignal): Promise<string> => {
+      const cacheKey = `${messageId}:${text.length}:${voice ?? ''}:${speed ?? ''}`;
+      const cached = audioFilesRef.current.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const requestBody: Partial<SpeechRequest> = { text, voice, speed, format };
+
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(requestBody),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to read the message aloud');
+      }
+
+      const file = new File(Paths.cache, `speech-${messageId}-${Date.now()}.${format}`);
+      file.write(new Uint8Array(await response.arrayBuffer()));
+
+      audioFilesRef.current.set(cacheKey, file.uri);
+      return file.uri;
+    },
+    [apiUrl, voice, speed, format]
+  );
+
+  const stop = useCallback(async () => {
+    await unload();
+    setPlayback(null);
+  }, [unload]);
+
+  const pause = useCallback(async () => {
+    await soundRef.current?.pauseAsync();
+  }, []);
+
+  const play = useCallback(
+    async (messageId: string, text: string) => {
+      // Resume the paused message
+      if (playback?.messageId === messageId && playback.state === 'paused' && soundRef.current) {
+        await soundRef.current.playAsync();
+        return;
+      }
+
+      await unload();
+      setError(null);
+      setPlayback({ messageId, state: 'loading', positionMillis: 0 });
+
+      // Aborted by unload when playback stops or another message starts
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      try {
+        const uri = await synthesize(messageId, text, controller.signal);
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        const onStatusUpdate = (status: AVPlaybackStatus) => {
+          if (!status.isLoaded || controller.signal.aborted) {
+            return;
+          }
+
+          if (status.didJustFinish) {
+            stop();
+            return;
+          }
+
+          setPlayback({
+            messageId,
+            state: status.isPlaying || status.shouldPlay ? 'playing' : 'paused',
+            positionMillis: status.positionMillis,
+            durationMillis: status.durationMillis,
+          });
+        };
+
+        const sound = await playSound(uri, onStatusUpdate);
+        if (!sound) {
+          throw new Error('Could not play the audio');
+        }
+
+        // Another message was started while this one loaded
+        if (controller.signal.aborted) {
+          await sound.unloadAsync();
+          return;
+        }
+        soundRef.current = sound;
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          return;
+        }
+
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        setPlayback(null);
+        onError?.(error);
+      }
+    },
+    [playback, unload, synthesize, stop, onError]
+  );
+
+  // Stop playback when the component unmounts
+  useEffect(() => {
+    return () => {
+      unload();
+    };
+  }, [unload]);
+
+  return {
+    play,
+    pause,
+    stop,
+    playback,
+    error,
+  };
+}
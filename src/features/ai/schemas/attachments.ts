@@ -0,0 +1,130 @@
+import { z } from 'zod';
+
+/**
+ * Chat Attachment Schemas
+ *
+ * Images and documents are uploaded with POST /api/ai/attachments before the message
+ * is sent, then referenced from `messages[].attachments` in chat requests. Scanned
+ * barcodes travel inline as text. Shared by the routes, useAttachments and useAIChat.
+ */
+
+/** Attachments allowed on a single message */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+export type UploadedAttachmentType = 'image' | 'file';
+
+export interface AttachmentMediaType {
+  type: UploadedAttachmentType;
+  /** Extension the file is stored under */
+  extension: string;
+  maxBytes: number;
+  /** Sent to the model as text instead of a file part (no file input needed) */
+  inline?: boolean;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted uploads by media type
+ * Images stay under 5 MB, the smallest per-image limit of the supported providers.
+ * Text documents are inlined into the prompt, so they're kept small.
+ */
+export const ATTACHMENT_MEDIA_TYPES: Record<string, AttachmentMediaType> = {
+  'image/jpeg': { type: 'image', extension: 'jpg', maxBytes: 5 * MB },
+  'image/png': { type: 'image', extension: 'png', maxBytes: 5 * MB },
+  'image/webp': { type: 'image', extension: 'webp', maxBytes: 5 * MB },
+  'image/gif': { type: 'image', extension: 'gif', maxBytes: 5 * MB },
+  'application/pdf': { type: 'file', extension: 'pdf', maxBytes: 20 * MB },
+  'text/plain': { type: 'file', extension: 'txt', maxBytes: 100 * 1024, inline: true },
+  'text/markdown': { type: 'file', extension: 'md', maxBytes: 100 * 1024, inline: true },
+  'text/csv': { type: 'file', extension: 'csv', maxBytes: 100 * 1024, inline: true },
+  'application/json': { type: 'file', extension: 'json', maxBytes: 100 * 1024, inline: true },
+};
+
+/** Largest upload of any type */
+export const MAX_ATTACHMENT_BYTES = Math.max(
+  ...Object.values(ATTACHMENT_MEDIA_TYPES).map((mediaType) => mediaType.maxBytes)
+);
+
+/**
+ * Human-readable size, e.g. 100 KB or 4.2 MB
+ */
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < MB) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${Number((bytes / MB).toFixed(1))} MB`;
+}
+
+const EXTENSION_ALIASES: Record<string, string> = { jpeg: 'jpg', markdown: 'md' };
+
+/**
+ * Supported media type of a file: the declared type if accepted, otherwise by extension
+ * Pickers often report `application/octet-stream` or nothing for documents.
+ */
+export function getAttachmentMediaType(name: string, declared?: string | null): string | null {
+  const normalized = declared?.split(';')[0].trim().toLowerCase();
+  if (normalized && ATTACHMENT_MEDIA_TYPES[normalized]) {
+    return normalized;
+  }
+
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  const canonical = EXTENSION_ALIASES[extension] ?? extension;
+  const match = Object.entries(ATTACHMENT_MEDIA_TYPES).find(
+    ([, mediaType]) => mediaType.extension === canonical
+  );
+  return match ? match[0] : null;
+}
+
+const uploadedAttachmentFields = {
+  /** ID returned by POST /api/ai/attachments */
+  id: z.string().min(1),
+  name: z.string().min(1).max(255),
+  mediaType: z.string(),
+  size: z.number().int().nonnegative(),
+  url: z.string(),
+  thumbnailUrl: z.string().optional(),
+};
+
+export const messageAttachmentSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('image'), ...uploadedAttachmentFields }),
+  z.object({ type: z.literal('file'), ...uploadedAttachmentFields }),
+  z.object({
+    type: z.literal('barcode'),
+    id: z.string().min(1),
+    /** Symbology reported by the scanner, e.g. qr or ean13 */
+    format: z.string().min(1).max(40),
+    data: z.string().min(1).max(4096),
+  }),
+]);
+
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+
+export type UploadedAttachment = Extract<MessageAttachment, { type: UploadedAttachmentType }>;
+
+export const attachmentUploadResponseSchema = z.object({
+  attachment: messageAttachmentSchema,
+});
+
+/**
+ * Attachments as stored in the `attachments` column of ai_messages (JSON), or null
+ */
+export function serializeAttachments(attachments?: MessageAttachment[]): string | null {
+  return attachments && attachments.length > 0 ? JSON.stringify(attachments) : null;
+}
+
+/**
+ * Read the `attachments` column; invalid or missing values read as none
+ */
+export function parseAttachments(value: string | null | undefined): MessageAttachment[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const result = z.array(messageAttachmentSchema).safeParse(JSON.parse(value));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
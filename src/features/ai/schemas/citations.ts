@@ -0,0 +1,48 @@
+/**
+ * Note Citations
+ *
+ * The searchNotes tool asks the model to cite notes inline as `[note:<id>]`.
+ * ChatMessage splits replies on these markers and renders them as links to the note.
+ */
+
+/** Matches `[note:<id>]`; ids are UUIDs or other URL-safe strings */
+const NOTE_CITATION_PATTERN = /\[note:([\w-]+)\]/g;
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | {
+      type: 'note';
+      noteId: string;
+      /** Offset of the marker in the text */
+      start: number;
+    };
+
+/**
+ * Inline citation marker for a note
+ */
+export function formatNoteCitation(noteId: string): string {
+  return `[note:${noteId}]`;
+}
+
+/**
+ * Split text into plain text and note citations
+ */
+export function splitNoteCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(NOTE_CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'note', noteId: match[1], start: index });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
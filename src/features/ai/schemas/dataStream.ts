@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { streamMetadataSchema } from './index';
+
+/**
+ * Chat Data Stream Protocol
+ *
+ * Streaming chat responses are newline-delimited parts of the form `<code>:<JSON>\n`:
+ *
+ *   0: text delta                     "Hello"
+ *   2: stream metadata                { model, context, tokensUsed, finishReason }
+ *   3: error message                  "All AI providers failed"
+ *   b: tool call started              { toolCallId, toolName }
+ *   c: tool call arguments delta      { toolCallId, argsTextDelta }
+ *   9: tool call (complete arguments) { toolCallId, toolName, args }
+ *   a: tool result                    { toolCallId, result, isError? }
+ *   f: step started                   { step }
+ *   e: step finished                  { step, finishReason, usage? }
+ *   d: message finished               { finishReason, steps, maxStepsReached, usage? }
+ *
+ * Shared by the chat route (encoding) and useAIChat (decoding).
+ */
+
+const usageSchema = z.object({
+  inputTokens: z.number().optional(),
+  outputTokens: z.number().optional(),
+});
+
+const dataStreamPartSchemas = {
+  text: z.string(),
+  metadata: streamMetadataSchema,
+  error: z.string(),
+  'tool-call-start': z.object({ toolCallId: z.string(), toolName: z.string() }),
+  'tool-call-delta': z.object({ toolCallId: z.string(), argsTextDelta: z.string() }),
+  'tool-call': z.object({ toolCallId: z.string(), toolName: z.string(), args: z.unknown() }),
+  'tool-result': z.object({
+    toolCallId: z.string(),
+    result: z.unknown(),
+    isError: z.boolean().optional(),
+  }),
+  'start-step': z.object({ step: z.number() }),
+  'finish-step': z.object({
+    step: z.number(),
+    finishReason: z.string(),
+    usage: usageSchema.optional(),
+  }),
+  'finish-message': z.object({
+    finishReason: z.string(),
+    steps: z.number(),
+    maxStepsReached: z.boolean(),
+    usage: usageSchema.optional(),
+  }),
+};
+
+type DataStreamPartSchemas = typeof dataStreamPartSchemas;
+
+export type DataStreamPartType = keyof DataStreamPartSchemas;
+
+export type DataStreamPart = {
+  [T in DataStreamPartType]: { type: T; value: z.infer<DataStreamPartSchemas[T]> };
+}[DataStreamPartType];
+
+const PART_CODES: Record<DataStreamPartType, string> = {
+  text: '0',
+  metadata: '2',
+  error: '3',
+  'tool-call': '9',
+  'tool-result': 'a',
+  'tool-call-start': 'b',
+  'tool-call-delta': 'c',
+  'finish-message': 'd',
+  'finish-step': 'e',
+  'start-step': 'f',
+};
+
+const PART_TYPES = Object.fromEntries(
+  Object.entries(PART_CODES).map(([type, code]) => [code, type as DataStreamPartType])
+);
+
+/**
+ * Encode one part as a protocol line
+ */
+export function formatDataStreamPart<T extends DataStreamPartType>(
+  type: T,
+  value: z.infer<DataStreamPartSchemas[T]>
+): string {
+  return `${PART_CODES[type]}:${JSON.stringify(value)}\n`;
+}
+
+/**
+ * Decode one protocol line
+ * Returns null for unknown codes (newer servers) and malformed lines.
+ */
+export function parseDataStreamPart(line: string): DataStreamPart | null {
+  const separator = line.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const type = PART_TYPES[line.slice(0, separator)];
+  if (!type) {
+    return null;
+  }
+
+  try {
+    const parsed = dataStreamPartSchemas[type].safeParse(JSON.parse(line.slice(separator + 1)));
+    return parsed.success ? ({ type, value: parsed.data } as DataStreamPart) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental decoder for streamed chunks
+ * Network chunks can split lines, so incomplete lines are kept until the next chunk.
+ */
+export function createDataStreamParser() {
+  let buffer = '';
+
+  const parseLines = (lines: string[]) =>
+    lines
+      .filter((line) => line.length > 0)
+      .map(parseDataStreamPart)
+      .filter((part): part is DataStreamPart => part !== null);
+
+  return {
+    push(chunk: string): DataStreamPart[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return parseLines(lines);
+    },
+    flush(): DataStreamPart[] {
+      const lines = [buffer];
+      buffer = '';
+      return parseLines(lines);
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+
+/**
+ * Structured Extraction Schemas
+ *
+ * Typed records the model can extract from free text via POST /api/ai/extract.
+ * Shared by the route (validation and repair prompts) and useAIExtract (typed results).
+ */
+
+const isoDateTime = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date-time');
+
+export const extractedNoteSchema = z.object({
+  title: z.string().min(1).max(200),
+  content: z.string(),
+  tags: z.array(z.string().min(1).max(50)).max(10).default([]),
+});
+
+export type ExtractedNote = z.infer<typeof extractedNoteSchema>;
+
+/** Same fields as parseVCard, plus what business cards usually carry */
+export const extractedContactSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    phone: z.string().min(1).optional(),
+    email: z.string().email().optional(),
+    organization: z.string().min(1).optional(),
+    jobTitle: z.string().min(1).optional(),
+    address: z.string().min(1).optional(),
+    website: z.string().url().optional(),
+  })
+  .refine((contact) => contact.name || contact.phone || contact.email, {
+    message: 'At least one of name, phone or email is required',
+  });
+
+export type ExtractedContact = z.infer<typeof extractedContactSchema>;
+
+/** Calendar event with ISO dates; see toCalendarEvent in useAIExtract for createCalendarEvent */
+export const extractedCalendarEventSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    startDate: isoDateTime,
+    endDate: isoDateTime,
+    allDay: z.boolean().default(false),
+    location: z.string().optional(),
+    notes: z.string().optional(),
+    /** Minutes before the event */
+    reminderMinutes: z.number().int().min(0).max(40320).optional(),
+  })
+  .refine((event) => Date.parse(event.endDate) >= Date.parse(event.startDate), {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  });
+
+export type ExtractedCalendarEvent = z.infer<typeof extractedCalendarEventSchema>;
+
+export interface ExtractionSchemaDefinition<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema: T;
+  /** What to extract, added to the prompt */
+  instructions: string;
+}
+
+export const EXTRACTION_SCHEMAS = {
+  note: {
+    schema: extractedNoteSchema,
+    instructions:
+      'Turn the text into a note with a short descriptive title, the cleaned-up content and a few lowercase topic tags.',
+  },
+  contact: {
+    schema: extractedContactSchema,
+    instructions:
+      'Extract the contact details of the person, e.g. from a business card or email signature. Use international phone format when the country is clear. Leave out fields that are not present.',
+  },
+  calendarEvent: {
+    schema: extractedCalendarEventSchema,
+    instructions:
+      'Extract the event. Resolve relative dates ("next Friday") against the reference date and timezone, and write dates as ISO 8601 with the UTC offset. If no end is given, assume one hour after the start.',
+  },
+} satisfies Record<string, ExtractionSchemaDefinition>;
+
+export type ExtractionSchemaName = keyof typeof EXTRACTION_SCHEMAS;
+
+export type ExtractionResultData<T extends ExtractionSchemaName> = z.infer<
+  (typeof EXTRACTION_SCHEMAS)[T]['schema']
+>;
+
+export const extractionSchemaNames = Object.keys(EXTRACTION_SCHEMAS) as [
+  ExtractionSchemaName,
+  ...ExtractionSchemaName[],
+];
+
+/**
+ * Extraction Request Schema
+ */
+export const extractRequestSchema = z.object({
+  schema: z.enum(extractionSchemaNames),
+  input: z.string().min(1, 'Input is required').max(20000),
+  /** Extra guidance, e.g. "the meeting is with the Berlin office" */
+  instructions: z.string().max(1000).optional(),
+  /** Reference date for relative dates (default: now) */
+  referenceDate: isoDateTime.optional(),
+  /** IANA timezone for relative dates, e.g. "Europe/Berlin" */
+  timezone: z.string().max(64).optional(),
+  /** Repair attempts after an invalid response (default: AI_EXTRACT_MAX_REPAIRS or 2) */
+  maxRepairs: z.number().int().min(0).max(5).optional(),
+});
+
+export type ExtractRequest = z.infer<typeof extractRequestSchema>;
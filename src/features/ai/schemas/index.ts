@@ -1,37 +1,102 @@
+import { truncateText } from '@/utils/formatters';
 import { z } from 'zod';
+import { MAX_ATTACHMENTS_PER_MESSAGE, messageAttachmentSchema } from './attachments';
+
+/** Upper bound for `maxSteps` in chat requests */
+export const MAX_CHAT_STEPS = 10;
+
+/**
+ * Prompt Template Reference
+ * System prompts are versioned server-side templates (src/services/ai/promptTemplates.ts).
+ * Requests name one and fill in its variables; the server picks the version.
+ */
+export const promptTemplateRefSchema = z.object({
+  id: z.string().min(1),
+  variables: z.record(z.unknown()).optional(),
+});
+
+export type PromptTemplateRef = z.infer<typeof promptTemplateRefSchema>;
 
 /**
  * Chat Request Schema
  * For streaming conversational AI
+ *
+ * With `threadId`, the server prepends the thread's stored messages and saves
+ * the new messages (by `id`) and the reply (as `assistantMessageId`) to the thread.
+ *
+ * With `tools`, the model may call tools and continue for up to `maxSteps` steps
+ * (model call + tool calls), streamed in the protocol in ./dataStream.ts.
+ *
+ * The system prompt comes from a server-side template (`promptTemplate`, default
+ * `assistant`); clients can't send system messages.
+ *
+ * User messages may carry `attachments` (./attachments.ts); content may then be empty.
  */
 export const chatRequestSchema = z.object({
   messages: z.array(
-    z.object({
-      role: z.enum(['system', 'user', 'assistant', 'tool']),
-      content: z.string().min(1, 'Message content is required'),
-      name: z.string().optional(),
-      tool_calls: z.any().optional(),
-    })
+    z
+      .object({
+        id: z.string().optional(),
+        role: z.enum(['user', 'assistant', 'tool']),
+        content: z.string(),
+        name: z.string().optional(),
+        tool_calls: z.any().optional(),
+        attachments: z.array(messageAttachmentSchema).max(MAX_ATTACHMENTS_PER_MESSAGE).optional(),
+      })
+      .refine((m) => m.content.length > 0 || (m.attachments?.length ?? 0) > 0, {
+        message: 'Message content is required',
+        path: ['content'],
+      })
+      .refine((m) => !m.attachments?.length || m.role === 'user', {
+        message: 'Only user messages can have attachments',
+        path: ['attachments'],
+      })
   ),
-  systemPrompt: z.string().optional(),
+  promptTemplate: promptTemplateRefSchema.optional(),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().positive().max(4096).default(1000),
   stream: z.boolean().default(true),
   tools: z.array(z.any()).optional(),
+  maxSteps: z.number().int().min(1).max(MAX_CHAT_STEPS).optional(),
+  threadId: z.string().min(1).optional(),
+  assistantMessageId: z.string().min(1).optional(),
 });
 
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
 
+/**
+ * Conversation Thread Title
+ */
+export const THREAD_TITLE_MAX_LENGTH = 60;
+
+export const threadTitleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Title is required')
+  .max(THREAD_TITLE_MAX_LENGTH, `Title must be ${THREAD_TITLE_MAX_LENGTH} characters or less`);
+
+/**
+ * Default thread title from the first user message
+ */
+export function createThreadTitle(content: string): string {
+  const line = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return line ? truncateText(line, THREAD_TITLE_MAX_LENGTH - 3) : 'New chat';
+}
+
 /**
  * Completion Request Schema
  * For single-shot text completion
+ *
+ * Replies are cached server-side at temperature 0; `cache: true` opts in at other
+ * temperatures and `cache: false` opts out.
  */
 export const completionRequestSchema = z.object({
   prompt: z.string().min(1, 'Prompt is required').max(4000, 'Prompt too long'),
-  systemPrompt: z.string().optional(),
+  promptTemplate: promptTemplateRefSchema.optional(),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().positive().max(2048).default(500),
   stopSequences: z.array(z.string()).optional(),
+  cache: z.boolean().optional(),
 });
 
 export type CompletionRequest = z.infer<typeof completionRequestSchema>;
@@ -79,13 +144,127 @@ export const aiErrorSchema = z.object({
 
 export type AIError = z.infer<typeof aiErrorSchema>;
 
+/**
+ * Budget Exceeded Error Schema
+ * Returned with status 402 when a request would exceed the user's AI budget
+ */
+export const budgetExceededErrorSchema = aiErrorSchema.extend({
+  code: z.literal('BUDGET_EXCEEDED'),
+  message: z.string(),
+  tier: z.enum(['free', 'pro']),
+  budget: z.object({
+    period: z.enum(['daily', 'monthly']),
+    metric: z.enum(['tokens', 'images']),
+    limit: z.number(),
+    used: z.number(),
+    resetAt: z.string(),
+  }),
+});
+
+export type BudgetExceededError = z.infer<typeof budgetExceededErrorSchema>;
+
+/**
+ * Context Window Metadata
+ * How the server fit the conversation into the model's context window
+ */
+export const contextMetadataSchema = z.object({
+  /** Older messages were replaced by a summary or dropped */
+  truncated: z.boolean(),
+  /** Older messages were replaced by a rolling summary (false if summarization failed) */
+  summarized: z.boolean(),
+  /** Messages left out of the prompt */
+  omittedMessages: z.number(),
+  /** Messages sent verbatim */
+  keptMessages: z.number(),
+  /** Estimated prompt tokens after fitting */
+  estimatedTokens: z.number(),
+  /** Prompt token budget */
+  budget: z.number(),
+});
+
+export type ContextMetadata = z.infer<typeof contextMetadataSchema>;
+
+/**
+ * Content Moderation Metadata
+ * Outcome of the moderation checks on a request or reply
+ * Blocked requests and replies finish with the `content_filter` finish reason.
+ */
+export const moderationMetadataSchema = z.object({
+  action: z.enum(['allow', 'redact', 'block']),
+  stage: z.enum(['input', 'output', 'tool']),
+  /** e.g. prompt_injection, pii_credit_card, blocklist */
+  categories: z.array(z.string()),
+});
+
+export type ModerationMetadata = z.infer<typeof moderationMetadataSchema>;
+
 /**
  * Streaming Response Metadata
+ * Sent as JSON in the X-AI-Stream-Metadata header of chat responses
  */
 export const streamMetadataSchema = z.object({
   tokensUsed: z.number().optional(),
   model: z.string().optional(),
   finishReason: z.enum(['stop', 'length', 'content_filter', 'tool_calls']).optional(),
+  context: contextMetadataSchema.optional(),
+  moderation: moderationMetadataSchema.optional(),
+  /** Prompt template version served, as `<id>@<version>` */
+  promptTemplate: z.string().optional(),
 });
 
 export type StreamMetadata = z.infer<typeof streamMetadataSchema>;
+
+/**
+ * Image Generation Jobs
+ * POST /api/ai/image queues a job; poll GET /api/ai/image-jobs/:id until it finishes.
+ */
+export const imageJobStatusSchema = z.enum([
+  'queued',
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled',
+]);
+
+export type ImageJobStatus = z.infer<typeof imageJobStatusSchema>;
+
+/** Statuses after which a job no longer changes */
+export const FINISHED_IMAGE_JOB_STATUSES: readonly ImageJobStatus[] = [
+  'succeeded',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * A generated image kept in our own storage
+ * URLs are stable: they keep working after the provider's URLs expire.
+ */
+export const storedImageSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  url: z.string(),
+  thumbnailUrl: z.string(),
+  prompt: z.string(),
+  revisedPrompt: z.string().optional(),
+  size: imageRequestSchema.shape.size,
+  createdAt: z.number(),
+});
+
+export type StoredImage = z.infer<typeof storedImageSchema>;
+
+export const imageJobSchema = z.object({
+  id: z.string(),
+  status: imageJobStatusSchema,
+  prompt: z.string(),
+  size: imageRequestSchema.shape.size,
+  quality: imageRequestSchema.shape.quality,
+  style: imageRequestSchema.shape.style,
+  n: z.number(),
+  images: z.array(storedImageSchema),
+  error: z.string().optional(),
+  moderation: moderationMetadataSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type ImageJob = z.infer<typeof imageJobSchema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+/**
+ * Voice Schemas
+ *
+ * Speech to text via POST /api/ai/transcribe and text to speech via POST /api/ai/speech.
+ * Shared by the routes and the push-to-talk / read-aloud hooks.
+ */
+
+/** Largest recording accepted for transcription (Whisper's upload limit) */
+export const MAX_TRANSCRIBE_BYTES = 25 * 1024 * 1024;
+
+/** Recording formats accepted for transcription; expo-av records m4a (AAC) */
+export const TRANSCRIBE_AUDIO_TYPES: readonly string[] = [
+  'audio/mp4',
+  'audio/m4a',
+  'audio/x-m4a',
+  'audio/aac',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/webm',
+  'audio/ogg',
+  'audio/flac',
+];
+
+/**
+ * Form fields sent with the `audio` file
+ */
+export const transcribeFieldsSchema = z.object({
+  /** ISO 639-1 code; improves accuracy when known, detected otherwise */
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/, 'Language must be an ISO 639-1 code')
+    .optional(),
+});
+
+export const transcriptionSchema = z.object({
+  text: z.string(),
+  language: z.string().optional(),
+  durationInSeconds: z.number().optional(),
+  provider: z.string(),
+});
+
+export type Transcription = z.infer<typeof transcriptionSchema>;
+
+export const speechFormatSchema = z.enum(['mp3', 'wav']);
+
+export type SpeechFormat = z.infer<typeof speechFormatSchema>;
+
+export const SPEECH_MEDIA_TYPES: Record<SpeechFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+export const speechRequestSchema = z.object({
+  text: z.string().trim().min(1, 'Text is required').max(4096, 'Text too long'),
+  /** Provider voice name; defaults to AI_SPEECH_VOICE */
+  voice: z.string().min(1).max(40).optional(),
+  speed: z.number().min(0.25).max(4).default(1),
+  format: speechFormatSchema.default('mp3'),
+});
+
+export type SpeechRequest = z.infer<typeof speechRequestSchema>;
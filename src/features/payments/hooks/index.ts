@@ -0,0 +1,2 @@
+export * from './useCredits';
+export * from './useEntitlements';
@@ -0,0 +1,66 @@
+/**
+ * useCredits Hook
+ *
+ * The user's credit balance and recent ledger entries from GET /api/credits,
+ * cached by TanStack Query. Credits are added by the backend's payment webhooks,
+ * so call `refresh` after buying a pack and after spending them (e.g. an image
+ * generation).
+ */
+
+import { getCredits } from '@/services/payments';
+import { useQuery } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import type { CreditEntry } from '../schemas';
+
+export const CREDITS_QUERY_KEY = ['credits'] as const;
+
+export interface UseCreditsOptions {
+  /** Skip fetching, e.g. while signed out */
+  enabled?: boolean;
+  /** Time before the balance is fetched again (default: 1 minute) */
+  staleTime?: number;
+}
+
+export interface UseCreditsReturn {
+  /** 0 until loaded */
+  balance: number;
+  /** Newest first */
+  entries: CreditEntry[];
+  /** Whether the user has at least `amount` credits */
+  hasCredits: (amount: number) => boolean;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+const NO_ENTRIES: CreditEntry[] = [];
+
+export function useCredits(options: UseCreditsOptions = {}): UseCreditsReturn {
+  const { enabled = true, staleTime = 60 * 1000 } = options;
+
+  const query = useQuery({
+    queryKey: CREDITS_QUERY_KEY,
+    queryFn: () => getCredits(),
+    enabled,
+    staleTime,
+  });
+
+  const balance = query.data?.balance ?? 0;
+  const entries = query.data?.entries ?? NO_ENTRIES;
+
+  const hasCredits = useCallback((amount: number) => balance >= amount, [balance]);
+
+  const { refetch } = query;
+  const refresh = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  return {
+    balance,
+    entries,
+    hasCredits,
+    isLoading: query.isLoading,
+    error: query.error,
+    refresh,
+  };
+}
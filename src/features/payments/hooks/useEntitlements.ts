@@ -0,0 +1,81 @@
+/**
+ * useEntitlements Hook
+ *
+ * The user's entitlements from GET /api/entitlements, merging native (RevenueCat) and
+ * web (Stripe) purchases. Cached by TanStack Query and, for offline use, in storage
+ * (see getEntitlements in @/services/payments).
+ *
+ * Gate features with `isEntitled`, and call `refresh` after a purchase or restore.
+ */
+
+import { getEntitlements } from '@/services/payments';
+import { useQuery } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import {
+  DEFAULT_ENTITLEMENT,
+  type Entitlement,
+  isEntitlementActive,
+  pickEntitlement,
+} from '../schemas';
+
+export const ENTITLEMENTS_QUERY_KEY = ['entitlements'] as const;
+
+export interface UseEntitlementsOptions {
+  /** Skip fetching, e.g. while signed out */
+  enabled?: boolean;
+  /** Time before entitlements are fetched again (default: 5 minutes) */
+  staleTime?: number;
+}
+
+export interface UseEntitlementsReturn {
+  entitlements: Entitlement[];
+  /** Whether the entitlement (default: "premium") grants access now */
+  isEntitled: (entitlementId?: string) => boolean;
+  /** The entitlement to show for an ID (default: "premium") */
+  getEntitlement: (entitlementId?: string) => Entitlement | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+const NO_ENTITLEMENTS: Entitlement[] = [];
+
+export function useEntitlements(options: UseEntitlementsOptions = {}): UseEntitlementsReturn {
+  const { enabled = true, staleTime = 5 * 60 * 1000 } = options;
+
+  const query = useQuery({
+    queryKey: ENTITLEMENTS_QUERY_KEY,
+    queryFn: getEntitlements,
+    enabled,
+    staleTime,
+  });
+
+  const entitlements = query.data?.entitlements ?? NO_ENTITLEMENTS;
+
+  const getEntitlement = useCallback(
+    (entitlementId = DEFAULT_ENTITLEMENT) => pickEntitlement(entitlements, entitlementId),
+    [entitlements]
+  );
+
+  const isEntitled = useCallback(
+    (entitlementId = DEFAULT_ENTITLEMENT) => {
+      const entitlement = pickEntitlement(entitlements, entitlementId);
+      return !!entitlement && isEntitlementActive(entitlement);
+    },
+    [entitlements]
+  );
+
+  const { refetch } = query;
+  const refresh = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  return {
+    entitlements,
+    isEntitled,
+    getEntitlement,
+    isLoading: query.isLoading,
+    error: query.error,
+    refresh,
+  };
+}
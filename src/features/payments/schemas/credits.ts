@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { planPriceSchema } from './plans';
+
+/**
+ * Credits Schemas
+ *
+ * Credits are bought in packs (GET /api/payments/credit-packs) and spent on
+ * metered features such as image generation. GET /api/credits returns the
+ * balance and the user's ledger. Shared by the routes, the payments service and
+ * the useCredits hook.
+ */
+
+/** Error code of requests the user doesn't have enough credits for (HTTP 402) */
+export const INSUFFICIENT_CREDITS = 'INSUFFICIENT_CREDITS';
+
+export const creditPackSchema = z.object({
+  /** e.g. "credits_100" */
+  id: z.string(),
+  credits: z.number().int().positive(),
+  /** e.g. "100 credits" */
+  name: z.string(),
+  /** e.g. "BEST VALUE" */
+  badge: z.string().optional(),
+  /** Selected by default */
+  highlighted: z.boolean(),
+  price: planPriceSchema,
+  /** Consumable store product that sells the pack in the app (RevenueCat) */
+  revenueCatProductId: z.string().optional(),
+});
+
+export type CreditPack = z.infer<typeof creditPackSchema>;
+
+export const creditPacksResponseSchema = z.object({
+  /** Language of the names, e.g. "es" */
+  locale: z.string(),
+  packs: z.array(creditPackSchema),
+});
+
+export type CreditPacksResponse = z.infer<typeof creditPacksResponseSchema>;
+
+/**
+ * - purchase: a credit pack was bought
+ * - spend: credits were used
+ * - refund: credits given back for a spend that didn't deliver
+ * - reversal: a purchase was refunded, so its credits were taken back
+ */
+export const creditEntryTypeSchema = z.enum(['purchase', 'spend', 'refund', 'reversal']);
+
+export type CreditEntryType = z.infer<typeof creditEntryTypeSchema>;
+
+export const creditEntrySchema = z.object({
+  id: z.string(),
+  type: creditEntryTypeSchema,
+  /** Credits added (positive) or taken (negative) */
+  amount: z.number().int(),
+  /** Balance with this entry */
+  balanceAfter: z.number().int(),
+  description: z.string().optional(),
+  createdAt: z.number(),
+});
+
+export type CreditEntry = z.infer<typeof creditEntrySchema>;
+
+export const creditsResponseSchema = z.object({
+  /** Negative when a refunded purchase's credits were already spent */
+  balance: z.number().int(),
+  /** Newest first */
+  entries: z.array(creditEntrySchema),
+  /** Pass as `before` for the next page (absent: no more entries) */
+  nextBefore: z.number().optional(),
+});
+
+export type CreditsResponse = z.infer<typeof creditsResponseSchema>;
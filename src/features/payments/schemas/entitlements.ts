@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Entitlement Schemas
+ *
+ * GET /api/entitlements merges RevenueCat (App Store / Play Store purchases) and
+ * Stripe (web subscriptions) into named entitlements, so a purchase made on one
+ * platform unlocks the app on all of them. Shared by the route, the payments
+ * service and useEntitlements.
+ */
+
+/** Entitlement granted by the default subscription (match your RevenueCat entitlement ID) */
+export const DEFAULT_ENTITLEMENT = 'premium';
+
+export const entitlementSourceSchema = z.enum(['revenuecat', 'stripe']);
+
+export type EntitlementSource = z.infer<typeof entitlementSourceSchema>;
+
+export const entitlementSchema = z.object({
+  /** e.g. "premium" */
+  id: z.string(),
+  isActive: z.boolean(),
+  source: entitlementSourceSchema,
+  /** app_store, play_store, stripe, promotional, ... */
+  store: z.string().optional(),
+  /** RevenueCat product or Stripe price */
+  productId: z.string().optional(),
+  /** Epoch ms; null if it doesn't expire (lifetime) or no period end is known yet */
+  expiresAt: z.number().nullable(),
+  /** Access continues until then while a renewal payment is retried (epoch ms) */
+  gracePeriodExpiresAt: z.number().optional(),
+  inGracePeriod: z.boolean(),
+  willRenew: z.boolean(),
+});
+
+export type Entitlement = z.infer<typeof entitlementSchema>;
+
+export const entitlementsResponseSchema = z.object({
+  entitlements: z.array(entitlementSchema),
+  checkedAt: z.number(),
+  /** Sources that couldn't be checked; their entitlements may be missing */
+  unavailableSources: z.array(entitlementSourceSchema).optional(),
+});
+
+export type EntitlementsResponse = z.infer<typeof entitlementsResponseSchema>;
+
+/**
+ * Whether an entitlement grants access at `now`
+ * Checked again on the client, so cached entitlements still run out when they expire.
+ */
+export function isEntitlementActive(entitlement: Entitlement, now = Date.now()): boolean {
+  return (
+    entitlement.expiresAt === null ||
+    entitlement.expiresAt > now ||
+    (entitlement.gracePeriodExpiresAt ?? 0) > now
+  );
+}
+
+/**
+ * The entitlement to show for an ID: active before inactive, then the one lasting longest
+ */
+export function pickEntitlement(
+  entitlements: Entitlement[],
+  id = DEFAULT_ENTITLEMENT,
+  now = Date.now()
+): Entitlement | undefined {
+  const lastsUntil = (entitlement: Entitlement) =>
+    entitlement.expiresAt === null
+      ? Number.POSITIVE_INFINITY
+      : Math.max(entitlement.expiresAt, entitlement.gracePeriodExpiresAt ?? 0);
+
+  return entitlements
+    .filter((entitlement) => entitlement.id === id)
+    .sort(
+      (a, b) =>
+        Number(isEntitlementActive(b, now)) - Number(isEntitlementActive(a, now)) ||
+        lastsUntil(b) - lastsUntil(a)
+    )[0];
+}
@@ -0,0 +1,4 @@
+export * from './credits';
+export * from './entitlements';
+export * from './plans';
+export * from './promo';
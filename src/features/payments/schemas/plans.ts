@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+/**
+ * Plan Catalog Schemas
+ *
+ * GET /api/payments/plans returns the plans to sell, resolved for the user's
+ * language, currency and experiment buckets. Shared by the route, the payments
+ * service and the Paywall.
+ */
+
+export const planPeriodSchema = z.enum(['monthly', 'yearly', 'lifetime']);
+
+export type PlanPeriod = z.infer<typeof planPeriodSchema>;
+
+export const planPriceSchema = z.object({
+  /** In the currency's smallest unit (e.g. cents) */
+  amount: z.number().int().nonnegative(),
+  /** ISO 4217, e.g. "USD" */
+  currency: z.string().length(3),
+  /** Formatted for the requested locale, e.g. "$9.99" */
+  formatted: z.string(),
+});
+
+export type PlanPrice = z.infer<typeof planPriceSchema>;
+
+export const catalogPlanSchema = z.object({
+  /** e.g. "yearly" */
+  id: z.string(),
+  period: planPeriodSchema,
+  name: z.string(),
+  description: z.string(),
+  /** Feature bullets */
+  features: z.array(z.string()),
+  /** e.g. "BEST VALUE" */
+  badge: z.string().optional(),
+  /** Selected by default */
+  highlighted: z.boolean(),
+  price: planPriceSchema,
+  /** e.g. "per month" */
+  periodLabel: z.string(),
+  trialDays: z.number().int().positive().optional(),
+  /** e.g. "7-day free trial" */
+  trialLabel: z.string().optional(),
+  /** Entitlements the plan grants */
+  entitlements: z.array(z.string()),
+  /** Stripe price for web checkout */
+  stripePriceId: z.string().optional(),
+  /** RevenueCat package in the current offering, e.g. "$rc_annual" */
+  revenueCatPackageId: z.string().optional(),
+  /** Experiment variant the user was bucketed into (absent: control) */
+  variant: z.string().optional(),
+});
+
+export type CatalogPlan = z.infer<typeof catalogPlanSchema>;
+
+export const planCatalogResponseSchema = z.object({
+  /** Catalog version, bumped whenever plans or prices change */
+  version: z.number().int().positive(),
+  /** Language the strings are in */
+  locale: z.string(),
+  plans: z.array(catalogPlanSchema),
+});
+
+export type PlanCatalogResponse = z.infer<typeof planCatalogResponseSchema>;
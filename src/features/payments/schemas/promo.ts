@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { planPriceSchema } from './plans';
+
+/**
+ * Promo Code Schemas
+ *
+ * POST /api/payments/validate-promo checks a code for the signed-in user and
+ * returns what it does to each plan it applies to. Shared by the route, the
+ * payments service and the Paywall.
+ */
+
+/**
+ * RevenueCat subscriber attribute the app sets to the code before an in-app
+ * purchase; the RevenueCat webhook records the redemption from it
+ */
+export const PROMO_CODE_ATTRIBUTE = 'promo_code';
+
+/**
+ * Codes are matched case-insensitively, e.g. " launch50 " -> "LAUNCH50"
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Why a code can't be used:
+ * - NOT_FOUND: no such code (or it hasn't started yet)
+ * - EXPIRED: past its end date
+ * - EXHAUSTED: redeemed as often as allowed
+ * - ALREADY_REDEEMED: the user already redeemed it
+ * - NOT_APPLICABLE: not for this plan or payment platform
+ */
+export const promoCodeErrorCodeSchema = z.enum([
+  'NOT_FOUND',
+  'EXPIRED',
+  'EXHAUSTED',
+  'ALREADY_REDEEMED',
+  'NOT_APPLICABLE',
+]);
+
+export type PromoCodeErrorCode = z.infer<typeof promoCodeErrorCodeSchema>;
+
+export const promoPlanSchema = z.object({
+  planId: z.string(),
+  /** Price with the discount (for the first billing period) */
+  price: planPriceSchema,
+  originalPrice: planPriceSchema,
+  /** Free trial with the code (the code's, or the plan's) */
+  trialDays: z.number().int().positive().optional(),
+  /** e.g. "14-day free trial" */
+  trialLabel: z.string().optional(),
+});
+
+export type PromoPlan = z.infer<typeof promoPlanSchema>;
+
+export const promoValidationSchema = z.object({
+  /** The code, normalized (upper case) */
+  code: z.string(),
+  description: z.string().optional(),
+  percentOff: z.number().positive().max(100).optional(),
+  /** Free trial the code gives */
+  trialDays: z.number().int().positive().optional(),
+  /** RevenueCat offering to buy from with the code (in-app purchases) */
+  revenueCatOfferingId: z.string().optional(),
+  /** Plans the code applies to */
+  plans: z.array(promoPlanSchema),
+});
+
+export type PromoValidation = z.infer<typeof promoValidationSchema>;
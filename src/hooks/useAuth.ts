@@ -1,10 +1,11 @@
+import { setAuthTokenGetter } from '@/lib/authToken';
 import { useAuthStore } from '@/store';
 import type { User } from '@/types';
 import { useAuth as useClerkAuth, useUser as useClerkUser } from '@clerk/clerk-expo';
 import { useEffect } from 'react';
 
 export const useAuth = () => {
-  const { isSignedIn, isLoaded } = useClerkAuth();
+  const { isSignedIn, isLoaded, getToken } = useClerkAuth();
   const { user: clerkUser } = useClerkUser();
   const { user, setUser, setIsAuthenticated, setIsLoading, signOut } = useAuthStore();
 
@@ -12,6 +13,11 @@ export const useAuth = () => {
     setIsLoading(!isLoaded);
   }, [isLoaded, setIsLoading]);
 
+  // API requests send the session token (see getAuthToken)
+  useEffect(() => {
+    setAuthTokenGetter(isSignedIn ? () => getToken() : null);
+  }, [isSignedIn, getToken]);
+
   useEffect(() => {
     if (isLoaded) {
       setIsAuthenticated(!!isSignedIn);
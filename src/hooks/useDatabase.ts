@@ -4,10 +4,18 @@
  * Reactive hooks for database queries with automatic updates.
  */
 
-import { type Comment, type Post, type User, collections, database } from '@/database';
+import {
+  type AIMessage,
+  type AIThread,
+  type Comment,
+  type Post,
+  type User,
+  collections,
+  database,
+} from '@/database';
 import { Q } from '@nozbe/watermelondb';
 import type { Model, Query } from '@nozbe/watermelondb';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
 /**
  * Subscribe to query changes
@@ -126,6 +134,35 @@ export function useComment(commentId: string): Comment | null {
   return useRecord<Comment>('comments', commentId);
 }
 
+/**
+ * Get AI conversation threads, most recently active first
+ * Optionally filtered by a title search
+ */
+export function useAIThreads(search?: string): AIThread[] {
+  const query = useMemo(() => {
+    const term = search?.trim();
+    return collections.aiThreads.query(
+      ...(term ? [Q.where('title', Q.like(`%${Q.sanitizeLikeString(term)}%`))] : []),
+      Q.sortBy('last_message_at', Q.desc)
+    );
+  }, [search]);
+
+  return useQuery(query);
+}
+
+/**
+ * Get messages of an AI thread in conversation order
+ */
+export function useAIMessages(threadId: string): AIMessage[] {
+  const query = useMemo(
+    () =>
+      collections.aiMessages.query(Q.where('thread_id', threadId), Q.sortBy('created_at', Q.asc)),
+    [threadId]
+  );
+
+  return useQuery(query);
+}
+
 /**
  * Database write operations
  */
@@ -318,4 +355,80 @@ export const dbOperations = {
       });
     });
   },
+
+  /**
+   * Create an AI conversation thread
+   */
+  async createAIThread(data: { id?: string; title: string }): Promise<AIThread> {
+    return database.write(async () => {
+      return collections.aiThreads.create((thread) => {
+        if (data.id) thread._raw.id = data.id;
+        thread.title = data.title;
+        thread.lastMessageAt = new Date();
+      });
+    });
+  },
+
+  /**
+   * Rename an AI conversation thread
+   */
+  async renameAIThread(threadId: string, title: string): Promise<AIThread> {
+    return database.write(async () => {
+      const thread = await collections.aiThreads.find(threadId);
+      return thread.update((t) => {
+        t.title = title;
+      });
+    });
+  },
+
+  /**
+   * Delete an AI conversation thread and its messages
+   */
+  async deleteAIThread(threadId: string): Promise<void> {
+    return database.write(async () => {
+      const thread = await collections.aiThreads.find(threadId);
+      const messages = await collections.aiMessages.query(Q.where('thread_id', threadId)).fetch();
+
+      await database.batch(
+        ...messages.map((m) => m.prepareMarkAsDeleted()),
+        thread.prepareMarkAsDeleted()
+      );
+    });
+  },
+
+  /**
+   * Create or update an AI message and bump its thread's activity time
+   */
+  async saveAIMessage(data: {
+    id: string;
+    threadId: string;
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+    /** JSON array of attachments (see serializeAttachments) */
+    attachments?: string | null;
+  }): Promise<AIMessage> {
+    return database.write(async () => {
+      const thread = await collections.aiThreads.find(data.threadId);
+      const existing = await collections.aiMessages.query(Q.where('id', data.id)).fetch();
+
+      const message =
+        existing.length > 0
+          ? await existing[0].update((m) => {
+              m.content = data.content;
+            })
+          : await collections.aiMessages.create((m) => {
+              m._raw.id = data.id;
+              m.threadId = data.threadId;
+              m.role = data.role;
+              m.content = data.content;
+              m.attachments = data.attachments ?? null;
+            });
+
+      await thread.update((t) => {
+        t.lastMessageAt = new Date();
+      });
+
+      return message;
+    });
+  },
 };
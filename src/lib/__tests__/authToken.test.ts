@@ -0,0 +1,35 @@
+/**
+ * Auth Token Tests
+ */
+
+import { getAuthHeaders, getAuthToken, setAuthTokenGetter } from '../authToken';
+
+describe('authToken', () => {
+  afterEach(() => {
+    setAuthTokenGetter(null);
+  });
+
+  it('sends no token when signed out', async () => {
+    expect(await getAuthToken()).toBeNull();
+    expect(await getAuthHeaders()).toEqual({});
+  });
+
+  it('sends the session token of the registered getter', async () => {
+    const getToken = jest.fn(async () => 'session-token');
+    setAuthTokenGetter(getToken);
+
+    expect(await getAuthHeaders()).toEqual({ Authorization: 'Bearer session-token' });
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats a failing getter as signed out', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setAuthTokenGetter(async () => {
+      throw new Error('Network error');
+    });
+
+    expect(await getAuthToken()).toBeNull();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,123 @@
+import { ExpressionError, evaluateExpression } from '../mathEvaluator';
+
+const value = (expression: string) => evaluateExpression(expression).value;
+
+const errorOf = (expression: string, options = {}): ExpressionError => {
+  try {
+    evaluateExpression(expression, options);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${expression}" to fail`);
+};
+
+describe('mathEvaluator', () => {
+  describe('arithmetic', () => {
+    it('respects precedence, associativity and parentheses', () => {
+      expect(value('2 + 2 * 3')).toBe(8);
+      expect(value('(2 + 2) * 3')).toBe(12);
+      expect(value('2 ^ 3 ^ 2')).toBe(512);
+      expect(value('-2 ^ 2')).toBe(-4);
+      expect(value('2 ** -1')).toBe(0.5);
+      expect(value('10 - 4 - 3')).toBe(3);
+      expect(value('7 mod 4')).toBe(3);
+      expect(value('10 % 4')).toBe(2);
+      expect(value('5!')).toBe(120);
+    });
+
+    it('supports implicit multiplication, functions and constants', () => {
+      expect(value('2pi')).toBeCloseTo(2 * Math.PI);
+      expect(value('3(4 + 5)')).toBe(27);
+      expect(value('sqrt(16) + abs(-3)')).toBe(7);
+      expect(value('round(pi, 2)')).toBe(3.14);
+      expect(value('max(1, 5, 3)')).toBe(5);
+      expect(value('log(1000)')).toBe(3);
+      expect(value('log(8, 2)')).toBe(3);
+      expect(value('ln(e)')).toBe(1);
+    });
+
+    it('cleans floating point noise', () => {
+      expect(value('0.1 + 0.2')).toBe(0.3);
+    });
+  });
+
+  describe('percentages', () => {
+    it('handles percent of, increases and decreases', () => {
+      expect(value('20% of 150')).toBe(30);
+      expect(value('15% * 80')).toBe(12);
+      expect(value('200 + 10%')).toBe(220);
+      expect(value('200 - 25%')).toBe(150);
+      expect(value('50%')).toBe(0.5);
+    });
+  });
+
+  describe('units', () => {
+    it('converts between units of the same dimension', () => {
+      expect(evaluateExpression('5 km to mi').formatted).toBe('3.10685596119 mi');
+      expect(value('100 F in C')).toBeCloseTo(37.7778, 4);
+      expect(evaluateExpression('3 h + 30 min').formatted).toBe('3.5 h');
+      expect(value('2 GB / 500 MB')).toBe(4);
+      expect(value('sin(30 deg)')).toBe(0.5);
+    });
+
+    it('rejects mismatched units', () => {
+      expect(errorOf('5 km + 3 kg').code).toBe('UNIT_MISMATCH');
+      expect(errorOf('5 km to h').code).toBe('UNIT_MISMATCH');
+      expect(errorOf('5 + 3 km').code).toBe('UNIT_MISMATCH');
+      expect(errorOf('5 km to parsecs').code).toBe('UNKNOWN_UNIT');
+    });
+  });
+
+  describe('errors', () => {
+    it('reports where parsing failed', () => {
+      const error = errorOf('2 + * 3');
+
+      expect(error.code).toBe('UNEXPECTED_TOKEN');
+      expect(error.position).toBe(4);
+      expect(error.pointer('2 + * 3')).toBe('2 + * 3\n    ^');
+    });
+
+    it('reports unexpected characters, names and endings', () => {
+      expect(errorOf('2 + 3)').code).toBe('UNEXPECTED_TOKEN');
+      expect(errorOf('(2 + 3').code).toBe('UNEXPECTED_END');
+      expect(errorOf('2 $ 3')).toMatchObject({ code: 'UNEXPECTED_CHARACTER', position: 2 });
+      expect(errorOf('foo + 1')).toMatchObject({ code: 'UNKNOWN_IDENTIFIER', position: 0 });
+      expect(errorOf('sqrt(1, 2)').code).toBe('WRONG_ARGUMENT_COUNT');
+      expect(errorOf('').code).toBe('EMPTY_EXPRESSION');
+    });
+
+    it('reports math errors', () => {
+      expect(errorOf('1 / 0').code).toBe('DIVISION_BY_ZERO');
+      expect(errorOf('sqrt(-1)').code).toBe('DOMAIN_ERROR');
+      expect(errorOf('10 ^ 400').code).toBe('NOT_FINITE');
+      expect(errorOf('2.5!').code).toBe('DOMAIN_ERROR');
+    });
+
+    it('never executes code', () => {
+      expect(errorOf('process.exit(1)').code).toBe('UNEXPECTED_CHARACTER');
+      expect(errorOf('constructor("return 1")()').code).toBe('UNEXPECTED_CHARACTER');
+    });
+
+    it('knows no names of Object.prototype', () => {
+      for (const expression of [
+        'constructor',
+        '__proto__',
+        'valueOf',
+        'toString(1)',
+        'hasOwnProperty(1)',
+      ]) {
+        expect(errorOf(expression)).toMatchObject({ code: 'UNKNOWN_IDENTIFIER', position: 0 });
+      }
+    });
+  });
+
+  describe('limits', () => {
+    it('bounds length, nesting and factorials', () => {
+      expect(errorOf('1+'.repeat(300)).code).toBe('TOO_LONG');
+      expect(errorOf(`${'('.repeat(40)}1${')'.repeat(40)}`).code).toBe('LIMIT_EXCEEDED');
+      expect(errorOf('1000!').code).toBe('LIMIT_EXCEEDED');
+      expect(errorOf('1 + 1 + 1 + 1', { maxTokens: 3 }).code).toBe('LIMIT_EXCEEDED');
+    });
+  });
+});
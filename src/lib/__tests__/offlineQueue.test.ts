@@ -3,7 +3,8 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { offlineQueue, withOfflineQueue } from '../offlineQueue';
+import NetInfo from '@react-native-community/netinfo';
+import { type QueueEvent, offlineQueue, withOfflineQueue } from '../offlineQueue';
 
 // Mock Sentry
 jest.mock('@sentry/react-native', () => ({
@@ -31,6 +32,17 @@ jest.mock('@react-native-community/netinfo', () => ({
   fetch: jest.fn(() => Promise.resolve(mockNetInfoState)),
 }));
 
+// Let queue processing triggered by a connectivity change finish
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+const goOnline = async () => {
+  const listener = (NetInfo.addEventListener as jest.Mock).mock.calls.at(-1)[0];
+  listener({ isConnected: true });
+  for (let i = 0; i < 5; i++) {
+    await flushPromises();
+  }
+};
+
 describe('OfflineQueue', () => {
   const mockRequestHandler = jest.fn();
 
@@ -207,4 +219,69 @@ describe('OfflineQueue', () => {
       expect(offlineQueue.getQueueSize()).toBe(0);
     });
   });
+
+  describe('registerHandler', () => {
+    it('routes typed requests to their handler when back online', async () => {
+      const chatHandler = jest.fn().mockResolvedValue(undefined);
+      const unregister = await offlineQueue.registerHandler('chat', chatHandler);
+
+      await offlineQueue.addRequest({ url: '/api/default', method: 'POST', priority: 1 });
+      await offlineQueue.addRequest({
+        type: 'chat',
+        url: '/api/chat',
+        method: 'POST',
+        priority: 10,
+      });
+      await goOnline();
+
+      expect(chatHandler).toHaveBeenCalledWith(expect.objectContaining({ url: '/api/chat' }));
+      expect(mockRequestHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/api/default' })
+      );
+      expect(offlineQueue.getQueueSize()).toBe(0);
+
+      unregister();
+    });
+
+    it('keeps requests without a registered handler queued', async () => {
+      await offlineQueue.addRequest({
+        type: 'chat',
+        url: '/api/chat',
+        method: 'POST',
+        priority: 1,
+      });
+      await goOnline();
+
+      expect(mockRequestHandler).not.toHaveBeenCalled();
+      expect(offlineQueue.getQueueSize()).toBe(1);
+      expect(offlineQueue.getQueue()[0].attempts).toBe(0);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('reports processed, retried and dropped requests', async () => {
+      const events: QueueEvent['type'][] = [];
+      const unsubscribe = offlineQueue.subscribe((event) => events.push(event.type));
+      mockRequestHandler.mockRejectedValueOnce(new Error('Network request failed'));
+
+      await offlineQueue.addRequest({ url: '/api/test', method: 'POST', priority: 1 });
+      await goOnline();
+      expect(events).toEqual(['retrying']);
+
+      await offlineQueue.processQueue();
+      expect(events).toEqual(['retrying', 'processed']);
+
+      mockRequestHandler.mockRejectedValue(new Error('Network request failed'));
+      await offlineQueue.addRequest({ url: '/api/test', method: 'POST', priority: 1 });
+      await flushPromises();
+      await offlineQueue.processQueue();
+      await offlineQueue.processQueue();
+
+      expect(events).toEqual(['retrying', 'processed', 'retrying', 'retrying', 'dropped']);
+      expect(offlineQueue.getQueueSize()).toBe(0);
+
+      mockRequestHandler.mockReset();
+      unsubscribe();
+    });
+  });
 });
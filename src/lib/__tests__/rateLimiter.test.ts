@@ -0,0 +1,306 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimiter,
+  RedisRateLimitStore,
+  buildRateLimitHeaders,
+  parseRateLimitAlgorithm,
+} from '../rateLimiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('fixed-window', () => {
+    it('allows requests up to the limit and resets after the window', async () => {
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowMs: 1000,
+        algorithm: 'fixed-window',
+        store: new MemoryRateLimitStore(),
+      });
+
+      expect((await limiter.consume('a')).allowed).toBe(true);
+      expect((await limiter.consume('a')).remaining).toBe(0);
+
+      const denied = await limiter.consume('a');
+      expect(denied.allowed).toBe(false);
+      expect(denied.resetTime).toBe(now + 1000);
+      expect(denied.retryAfter).toBe(1);
+
+      now += 1000;
+      expect((await limiter.consume('a')).allowed).toBe(true);
+    });
+  });
+
+  describe('sliding-log', () => {
+    it('prevents bursts at the window edge', async () => {
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowMs: 1000,
+        algorithm: 'sliding-log',
+        store: new MemoryRateLimitStore(),
+      });
+
+      now += 900;
+      await limiter.consume('a');
+      await limiter.consume('a');
+
+      // A fixed window would have reset here
+      now += 200;
+      expect((await limiter.consume('a')).allowed).toBe(false);
+
+      now += 800;
+      const result = await limiter.consume('a');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(1);
+    });
+
+    it('reports when the oldest request ages out', async () => {
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowMs: 10000,
+        store: new MemoryRateLimitStore(),
+      });
+
+      await limiter.consume('a');
+      now += 4000;
+
+      const denied = await limiter.consume('a');
+      expect(denied.resetTime).toBe(now + 6000);
+      expect(denied.retryAfter).toBe(6);
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('refills tokens over time', async () => {
+      const limiter = new RateLimiter({
+        limit: 4,
+        windowMs: 4000,
+        algorithm: 'token-bucket',
+        store: new MemoryRateLimitStore(),
+      });
+
+      for (let i = 0; i < 4; i++) {
+        expect((await limiter.consume('a')).allowed).toBe(true);
+      }
+
+      const denied = await limiter.consume('a');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfter).toBe(1);
+
+      now += 1000;
+      expect((await limiter.consume('a')).allowed).toBe(true);
+      expect((await limiter.consume('a')).allowed).toBe(false);
+    });
+  });
+
+  describe('peek', () => {
+    it('reports the limit without consuming a request', async () => {
+      const limiter = new RateLimiter({
+        limit: 3,
+        windowMs: 1000,
+        store: new MemoryRateLimitStore(),
+      });
+
+      await limiter.consume('a');
+      const first = await limiter.peek('a');
+      const second = await limiter.peek('a');
+
+      expect(first.remaining).toBe(2);
+      expect(second.remaining).toBe(2);
+      expect(first.allowed).toBe(true);
+    });
+
+    it('reports a full limit for unknown keys', async () => {
+      const limiter = new RateLimiter({
+        limit: 5,
+        windowMs: 1000,
+        algorithm: 'token-bucket',
+        store: new MemoryRateLimitStore(),
+      });
+
+      expect((await limiter.peek('unknown')).remaining).toBe(5);
+    });
+  });
+
+  it('keeps separate counts per key and prefix', async () => {
+    const store = new MemoryRateLimitStore();
+    const api = new RateLimiter({ limit: 1, windowMs: 1000, store, prefix: 'api' });
+    const ai = new RateLimiter({ limit: 1, windowMs: 1000, store, prefix: 'ai' });
+
+    expect((await api.consume('user')).allowed).toBe(true);
+    expect((await ai.consume('user')).allowed).toBe(true);
+    expect((await api.consume('other')).allowed).toBe(true);
+    expect((await api.consume('user')).allowed).toBe(false);
+  });
+
+  it('does not double count concurrent requests', async () => {
+    const limiter = new RateLimiter({
+      limit: 5,
+      windowMs: 1000,
+      store: new MemoryRateLimitStore(),
+    });
+
+    const results = await Promise.all(Array.from({ length: 8 }, () => limiter.consume('a')));
+
+    expect(results.filter((r) => r.allowed)).toHaveLength(5);
+  });
+
+  it('reset clears recorded requests', async () => {
+    const limiter = new RateLimiter({
+      limit: 1,
+      windowMs: 1000,
+      store: new MemoryRateLimitStore(),
+    });
+
+    await limiter.consume('a');
+    await limiter.reset('a');
+
+    expect((await limiter.consume('a')).allowed).toBe(true);
+  });
+});
+
+describe('FileRateLimitStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ratelimit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists limits across store instances', async () => {
+    const filePath = path.join(dir, 'limits.json');
+    const options = { limit: 2, windowMs: 60000 };
+
+    const first = new RateLimiter({ ...options, store: new FileRateLimitStore(filePath) });
+    await first.consume('a');
+    await first.consume('a');
+
+    // Simulates a server restart
+    const second = new RateLimiter({ ...options, store: new FileRateLimitStore(filePath) });
+    expect((await second.consume('a')).allowed).toBe(false);
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  /** A Redis stand-in running the compare-and-set script; `beforeSet` runs inside EVAL */
+  function fakeRedis(beforeSet: () => void = () => undefined) {
+    const data = new Map<string, string>();
+    const execute = jest.fn(async (command: string, ...args: (string | number)[]) => {
+      if (command === 'GET') return data.get(String(args[0])) ?? null;
+      if (command === 'DEL') data.delete(String(args[0]));
+      if (command === 'EVAL') {
+        beforeSet();
+        const [, , key, expected, value] = args.map(String);
+        if ((data.get(key) ?? '') !== expected) return 0;
+        data.set(key, value);
+        return 1;
+      }
+      return 'OK';
+    });
+    return { data, execute };
+  }
+
+  it('stores JSON state with a PX expiry', async () => {
+    const { execute } = fakeRedis();
+
+    const limiter = new RateLimiter({
+      limit: 1,
+      windowMs: 5000,
+      prefix: 'ai',
+      store: new RedisRateLimitStore(execute),
+    });
+
+    expect((await limiter.consume('user')).allowed).toBe(true);
+    expect((await limiter.consume('user')).allowed).toBe(false);
+    expect(execute).toHaveBeenCalledWith(
+      'EVAL',
+      expect.stringContaining("'PX'"),
+      1,
+      'ratelimit:ai:sliding-log:user',
+      '',
+      expect.any(String),
+      5000
+    );
+  });
+
+  it('counts requests another instance made during an update', async () => {
+    let racing = true;
+    const { data, execute } = fakeRedis(() => {
+      // Another instance stores its request between our GET and EVAL, once
+      if (racing) {
+        racing = false;
+        data.set('ratelimit:ai:fixed-window:user', JSON.stringify({ count: 1, windowStart: 0 }));
+      }
+    });
+    const limiter = new RateLimiter({
+      limit: 2,
+      windowMs: 5000,
+      prefix: 'ai',
+      algorithm: 'fixed-window',
+      store: new RedisRateLimitStore(execute),
+    });
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+    expect(await limiter.consume('user')).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.consume('user')).toMatchObject({ allowed: false });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('buildRateLimitHeaders', () => {
+  it('formats allowed results without Retry-After', () => {
+    const headers = buildRateLimitHeaders({
+      allowed: true,
+      limit: 20,
+      remaining: 15,
+      resetTime: 1234567890123,
+      retryAfter: 0,
+    });
+
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '20',
+      'X-RateLimit-Remaining': '15',
+      'X-RateLimit-Reset': '1234567890',
+    });
+  });
+
+  it('includes Retry-After when rejected', () => {
+    const headers = buildRateLimitHeaders({
+      allowed: false,
+      limit: 20,
+      remaining: 0,
+      resetTime: 1234567890123,
+      retryAfter: 42,
+    });
+
+    expect(headers['Retry-After']).toBe('42');
+  });
+});
+
+describe('parseRateLimitAlgorithm', () => {
+  it('falls back to sliding-log', () => {
+    expect(parseRateLimitAlgorithm('token-bucket')).toBe('token-bucket');
+    expect(parseRateLimitAlgorithm('unknown')).toBe('sliding-log');
+    expect(parseRateLimitAlgorithm(undefined)).toBe('sliding-log');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Auth Token for API Requests
+ *
+ * Requests to our backend send the Clerk session token as a Bearer token.
+ * Clerk only hands it out through `useAuth().getToken()`, so the auth hook
+ * (src/hooks/useAuth.ts) registers that getter here, and code outside React
+ * components (services, request callbacks) reads the token with getAuthToken.
+ */
+
+type TokenGetter = () => Promise<string | null>;
+
+let tokenGetter: TokenGetter | null = null;
+
+/**
+ * Register how to get the session token (null when signed out)
+ */
+export function setAuthTokenGetter(getter: TokenGetter | null): void {
+  tokenGetter = getter;
+}
+
+/**
+ * The signed-in user's session token, or null when signed out
+ * Clerk refreshes the token when it's about to expire.
+ */
+export async function getAuthToken(): Promise<string | null> {
+  if (!tokenGetter) return null;
+
+  try {
+    return await tokenGetter();
+  } catch (error) {
+    console.error('[Auth] Failed to get session token:', error);
+    return null;
+  }
+}
+
+/**
+ * Authorization header for our backend; empty when signed out
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,75 @@
+/**
+ * Feature Flag Evaluation
+ *
+ * Pure targeting and rollout rules shared by the client flag manager
+ * (./featureFlags.ts) and server code that buckets users per request
+ * (e.g. prompt template rollouts). No storage or React dependencies.
+ */
+
+export interface FeatureFlag {
+  key: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  enabledForPercentage?: number; // 0-100
+  enabledForUserIds?: string[];
+  enabledForEmails?: string[];
+}
+
+export interface FeatureFlagTarget {
+  userId?: string;
+  userEmail?: string;
+}
+
+/**
+ * Simple string hash function
+ */
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Check if an identifier is in a flag's percentage rollout
+ * Uses consistent hashing so the same identifier always gets the same result
+ */
+export function isInPercentage(flagKey: string, percentage: number, identifier: string): boolean {
+  if (percentage >= 100) return true;
+  if (percentage <= 0) return false;
+
+  const bucket = hashString(`${flagKey}:${identifier}`) % 100;
+  return bucket < percentage;
+}
+
+/**
+ * Evaluate a flag for a user
+ */
+export function evaluateFeatureFlag(flag: FeatureFlag, target: FeatureFlagTarget = {}): boolean {
+  // If flag is disabled, return false immediately
+  if (!flag.enabled) {
+    return false;
+  }
+
+  // Check user ID targeting
+  if (flag.enabledForUserIds && target.userId) {
+    return flag.enabledForUserIds.includes(target.userId);
+  }
+
+  // Check email targeting
+  if (flag.enabledForEmails && target.userEmail) {
+    return flag.enabledForEmails.includes(target.userEmail);
+  }
+
+  // Check percentage rollout
+  if (flag.enabledForPercentage !== undefined) {
+    return isInPercentage(flag.key, flag.enabledForPercentage, target.userId || 'anonymous');
+  }
+
+  // Default: enabled
+  return true;
+}
@@ -10,21 +10,14 @@
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useState, useEffect, useCallback } from "react";
+import { type FeatureFlag, evaluateFeatureFlag } from "./featureFlagEvaluation";
 
 const REMOTE_FLAGS_KEY = "@app/remoteFeatureFlags";
 const FLAGS_LAST_FETCH_KEY = "@app/flagsLastFetch";
 const FLAGS_FETCH_INTERVAL = 1000 * 60 * 60; // 1 hour
 const FLAG_OVERRIDE_PREFIX = "@app/flag_override_";
 
-export interface FeatureFlag {
-  key: string;
-  name: string;
-  description: string;
-  enabled: boolean;
-  enabledForPercentage?: number; // 0-100
-  enabledForUserIds?: string[];
-  enabledForEmails?: string[];
-}
+export type { FeatureFlag };
 
 export interface FeatureFlagsConfig {
   /** API endpoint to fetch remote flags */
@@ -135,59 +128,13 @@ class FeatureFlagsManager {
 
   /**
    * Evaluate a flag based on its configuration
+   * Rules live in ./featureFlagEvaluation.ts so server code can share them
    */
   private evaluateFlag(flag: FeatureFlag): boolean {
-    // If flag is disabled, return false immediately
-    if (!flag.enabled) {
-      return false;
-    }
-
-    // Check user ID targeting
-    if (flag.enabledForUserIds && this.config.userId) {
-      return flag.enabledForUserIds.includes(this.config.userId);
-    }
-
-    // Check email targeting
-    if (flag.enabledForEmails && this.config.userEmail) {
-      return flag.enabledForEmails.includes(this.config.userEmail);
-    }
-
-    // Check percentage rollout
-    if (flag.enabledForPercentage !== undefined) {
-      return this.isInPercentage(flag.key, flag.enabledForPercentage);
-    }
-
-    // Default: enabled
-    return true;
-  }
-
-  /**
-   * Check if user is in percentage rollout
-   * Uses consistent hashing to ensure same user always gets same result
-   */
-  private isInPercentage(flagKey: string, percentage: number): boolean {
-    if (percentage >= 100) return true;
-    if (percentage <= 0) return false;
-
-    // Use userId or a device-specific identifier for consistency
-    const identifier = this.config.userId || "anonymous";
-    const hash = this.hashString(`${flagKey}:${identifier}`);
-    const bucket = hash % 100;
-
-    return bucket < percentage;
-  }
-
-  /**
-   * Simple string hash function
-   */
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash);
+    return evaluateFeatureFlag(flag, {
+      userId: this.config.userId,
+      userEmail: this.config.userEmail,
+    });
   }
 
   /**
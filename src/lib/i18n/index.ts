@@ -3,15 +3,7 @@ import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import { I18nManager } from 'react-native';
 
-import ar from './locales/ar.json';
-import en from './locales/en.json';
-import es from './locales/es.json';
-
-const resources = {
-  en: { translation: en },
-  es: { translation: es },
-  ar: { translation: ar },
-};
+import { resources } from './resources';
 
 // Get device locale
 const deviceLanguage = Localization.getLocales()[0]?.languageCode ?? 'en';
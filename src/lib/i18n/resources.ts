@@ -0,0 +1,20 @@
+/**
+ * Translation resources
+ *
+ * The locale files without the React Native setup in ./index.ts, so server code
+ * (e.g. the plan catalog) can translate with the same strings.
+ */
+
+import ar from './locales/ar.json';
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+export const resources = {
+  en: { translation: en },
+  es: { translation: es },
+  ar: { translation: ar },
+};
+
+export type SupportedLanguage = keyof typeof resources;
+
+export const SUPPORTED_LANGUAGES = Object.keys(resources) as SupportedLanguage[];
@@ -0,0 +1,959 @@
+/**
+ * Safe Math Expression Evaluator
+ *
+ * Parses and evaluates arithmetic expressions without `eval`:
+ * - operators: + - * / ^ (or **), mod, postfix ! (factorial), implicit multiplication (2pi, 3(4+5))
+ * - percentages: 15% * 80, 20% of 150, 200 + 10% (increase), 200 - 10% (decrease)
+ * - functions: sqrt, cbrt, abs, round, floor, ceil, min, max, pow, exp, ln, log, log2, log10,
+ *   sin, cos, tan, asin, acos, atan, atan2
+ * - constants: pi, e, tau, phi
+ * - units: 5 km to mi, 3 h + 20 min, 100 F in C, sin(30 deg), 2 GB / 512 MB
+ *
+ * Every input is bounded (length, token count, nesting depth, evaluation steps)
+ * and errors are thrown as ExpressionError with a code and the position that failed,
+ * so callers (e.g. an AI tool) can report exactly what to fix.
+ */
+
+export type ExpressionErrorCode =
+  | 'EMPTY_EXPRESSION'
+  | 'TOO_LONG'
+  | 'UNEXPECTED_CHARACTER'
+  | 'UNEXPECTED_TOKEN'
+  | 'UNEXPECTED_END'
+  | 'UNKNOWN_IDENTIFIER'
+  | 'UNKNOWN_UNIT'
+  | 'WRONG_ARGUMENT_COUNT'
+  | 'UNIT_MISMATCH'
+  | 'DIVISION_BY_ZERO'
+  | 'DOMAIN_ERROR'
+  | 'NOT_FINITE'
+  | 'LIMIT_EXCEEDED';
+
+/**
+ * Structured evaluation error
+ * `position` is the 0-based index into the expression where the problem starts.
+ */
+export class ExpressionError extends Error {
+  constructor(
+    public code: ExpressionErrorCode,
+    message: string,
+    public position: number
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+
+  /**
+   * The expression with a caret under the failing position
+   */
+  pointer(expression: string): string {
+    return `${expression}\n${' '.repeat(Math.min(this.position, expression.length))}^`;
+  }
+
+  toJSON(): { code: ExpressionErrorCode; message: string; position: number } {
+    return { code: this.code, message: this.message, position: this.position };
+  }
+}
+
+export interface EvaluateOptions {
+  /** Maximum expression length in characters (default 500) */
+  maxLength?: number;
+  /** Maximum number of tokens (default 200) */
+  maxTokens?: number;
+  /** Maximum nesting of parentheses, calls and unary operators (default 32) */
+  maxDepth?: number;
+  /** Maximum evaluation steps (default 1000) */
+  maxSteps?: number;
+}
+
+export interface EvaluationResult {
+  value: number;
+  /** Unit symbol of the result, if any */
+  unit?: string;
+  /** Display form, e.g. "3.10686 mi" */
+  formatted: string;
+}
+
+export const DEFAULT_EVALUATE_OPTIONS: Required<EvaluateOptions> = {
+  maxLength: 500,
+  maxTokens: 200,
+  maxDepth: 32,
+  maxSteps: 1000,
+};
+
+const MAX_FACTORIAL = 170;
+
+// =============================================================================
+// Units, constants and functions
+// =============================================================================
+
+type Dimension = 'length' | 'mass' | 'time' | 'volume' | 'data' | 'temperature' | 'angle';
+
+interface UnitDefinition {
+  symbol: string;
+  dimension: Dimension;
+  /** Multiplier to the dimension's base unit */
+  factor: number;
+  /** Added after scaling (temperatures) */
+  offset?: number;
+}
+
+const unit = (
+  symbol: string,
+  dimension: Dimension,
+  factor: number,
+  aliases: string[] = [],
+  offset = 0
+): Array<[string, UnitDefinition]> =>
+  [symbol, ...aliases].map((name) => [name, { symbol, dimension, factor, offset }]);
+
+const UNITS = new Map<string, UnitDefinition>([
+  // Length (meters)
+  ...unit('m', 'length', 1, ['meter', 'meters', 'metre', 'metres']),
+  ...unit('km', 'length', 1000, ['kilometer', 'kilometers', 'kilometre', 'kilometres']),
+  ...unit('cm', 'length', 0.01, ['centimeter', 'centimeters']),
+  ...unit('mm', 'length', 0.001, ['millimeter', 'millimeters']),
+  ...unit('mi', 'length', 1609.344, ['mile', 'miles']),
+  ...unit('yd', 'length', 0.9144, ['yard', 'yards']),
+  ...unit('ft', 'length', 0.3048, ['foot', 'feet']),
+  // "in" is the conversion keyword
+  ...unit('inch', 'length', 0.0254, ['inches']),
+
+  // Mass (kilograms)
+  ...unit('kg', 'mass', 1, ['kilogram', 'kilograms']),
+  ...unit('g', 'mass', 0.001, ['gram', 'grams']),
+  ...unit('mg', 'mass', 0.000001, ['milligram', 'milligrams']),
+  ...unit('lb', 'mass', 0.45359237, ['lbs', 'pound', 'pounds']),
+  ...unit('oz', 'mass', 0.028349523125, ['ounce', 'ounces']),
+
+  // Time (seconds)
+  ...unit('s', 'time', 1, ['sec', 'second', 'seconds']),
+  ...unit('ms', 'time', 0.001, ['millisecond', 'milliseconds']),
+  ...unit('min', 'time', 60, ['minute', 'minutes']),
+  ...unit('h', 'time', 3600, ['hr', 'hour', 'hours']),
+  ...unit('day', 'time', 86400, ['days']),
+  ...unit('week', 'time', 604800, ['weeks']),
+  ...unit('year', 'time', 31557600, ['years']),
+
+  // Volume (liters)
+  ...unit('l', 'volume', 1, ['L', 'liter', 'liters', 'litre', 'litres']),
+  ...unit('ml', 'volume', 0.001, ['mL', 'milliliter', 'milliliters']),
+  ...unit('gal', 'volume', 3.785411784, ['gallon', 'gallons']),
+  ...unit('qt', 'volume', 0.946352946, ['quart', 'quarts']),
+  ...unit('cup', 'volume', 0.2365882365, ['cups']),
+
+  // Data (bytes)
+  ...unit('B', 'data', 1, ['byte', 'bytes']),
+  ...unit('KB', 'data', 1e3),
+  ...unit('MB', 'data', 1e6),
+  ...unit('GB', 'data', 1e9),
+  ...unit('TB', 'data', 1e12),
+  ...unit('KiB', 'data', 1024),
+  ...unit('MiB', 'data', 1024 ** 2),
+  ...unit('GiB', 'data', 1024 ** 3),
+
+  // Temperature (kelvin)
+  ...unit('K', 'temperature', 1, ['kelvin']),
+  ...unit('C', 'temperature', 1, ['°C', 'degC', 'celsius'], 273.15),
+  ...unit('F', 'temperature', 5 / 9, ['°F', 'degF', 'fahrenheit'], (459.67 * 5) / 9),
+
+  // Angle (radians)
+  ...unit('rad', 'angle', 1, ['radian', 'radians']),
+  ...unit('deg', 'angle', Math.PI / 180, ['°', 'degree', 'degrees']),
+]);
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+};
+
+interface FunctionDefinition {
+  minArgs: number;
+  maxArgs: number;
+  /**
+   * How arguments with units are treated:
+   * - none: units are rejected
+   * - keep: arguments are converted to the first argument's unit, which the result keeps
+   * - angle: angles are converted to radians
+   */
+  units: 'none' | 'keep' | 'angle';
+  apply: (...args: number[]) => number;
+}
+
+const fn = (
+  apply: (...args: number[]) => number,
+  minArgs = 1,
+  maxArgs = minArgs,
+  units: FunctionDefinition['units'] = 'none'
+): FunctionDefinition => ({ apply, minArgs, maxArgs, units });
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  sqrt: fn(Math.sqrt),
+  cbrt: fn(Math.cbrt),
+  abs: fn(Math.abs, 1, 1, 'keep'),
+  floor: fn(Math.floor, 1, 1, 'keep'),
+  ceil: fn(Math.ceil, 1, 1, 'keep'),
+  round: fn(
+    (value, digits = 0) => {
+      const scale = 10 ** Math.max(0, Math.min(15, Math.trunc(digits)));
+      return Math.round(value * scale) / scale;
+    },
+    1,
+    2,
+    'keep'
+  ),
+  min: fn(Math.min, 1, 20, 'keep'),
+  max: fn(Math.max, 1, 20, 'keep'),
+  pow: fn(Math.pow, 2),
+  exp: fn(Math.exp),
+  ln: fn(Math.log),
+  log: fn(
+    (value, base) => (base === undefined ? Math.log10(value) : Math.log(value) / Math.log(base)),
+    1,
+    2
+  ),
+  log2: fn(Math.log2),
+  log10: fn(Math.log10),
+  sin: fn(Math.sin, 1, 1, 'angle'),
+  cos: fn(Math.cos, 1, 1, 'angle'),
+  tan: fn(Math.tan, 1, 1, 'angle'),
+  asin: fn(Math.asin),
+  acos: fn(Math.acos),
+  atan: fn(Math.atan),
+  atan2: fn(Math.atan2, 2),
+};
+
+const KEYWORDS = new Set(['to', 'in', 'mod', 'of']);
+
+function findUnit(name: string): UnitDefinition | undefined {
+  return UNITS.get(name) ?? (name.length > 2 ? UNITS.get(name.toLowerCase()) : undefined);
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const NUMBER_PATTERN = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/;
+const IDENTIFIER_PATTERN = /^(?:°[CF]?|[A-Za-z_][A-Za-z0-9_]*)/;
+const OPERATORS = ['**', '+', '-', '*', '/', '^', '%', '!', '(', ')', ','];
+const OPERATOR_ALIASES: Record<string, string> = { '×': '*', '÷': '/', '−': '-' };
+
+function tokenize(expression: string, maxTokens: number): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (tokens.length >= maxTokens) {
+      throw new ExpressionError(
+        'LIMIT_EXCEEDED',
+        `Expression has more than ${maxTokens} tokens`,
+        index
+      );
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER_PATTERN.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op)) ?? OPERATOR_ALIASES[char];
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position: index });
+      index += OPERATOR_ALIASES[char] ? 1 : operator.length;
+      continue;
+    }
+
+    throw new ExpressionError('UNEXPECTED_CHARACTER', `Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+type Node =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'constant'; name: string; position: number }
+  | { type: 'unary'; operator: '+' | '-'; operand: Node; position: number }
+  | { type: 'binary'; operator: string; left: Node; right: Node; position: number }
+  | { type: 'postfix'; operator: '%' | '!'; operand: Node; position: number }
+  | { type: 'unit'; unit: UnitDefinition; operand: Node; position: number }
+  | { type: 'convert'; unit: UnitDefinition; operand: Node; position: number }
+  | { type: 'call'; name: string; args: Node[]; position: number };
+
+/**
+ * Recursive descent parser
+ *
+ *   expression     := additive (('to' | 'in') unit)?
+ *   additive       := multiplicative (('+' | '-') multiplicative)*
+ *   multiplicative := unary (('*' | '/' | 'mod' | 'of' | '%') unary | implicit unary)*
+ *   unary          := ('+' | '-') unary | power
+ *   power          := postfix (('^' | '**') unary)?
+ *   postfix        := primary ('%' | '!' | unit)*
+ *   primary        := number | constant | function '(' args ')' | '(' expression ')'
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private tokens: Token[],
+    private maxDepth: number
+  ) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private isOperator(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'operator' && token.text === text;
+  }
+
+  private isKeyword(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.text === text;
+  }
+
+  private expect(text: string): Token {
+    if (!this.isOperator(text)) {
+      throw this.unexpected(this.peek(), `'${text}'`);
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token, expected?: string): ExpressionError {
+    const suffix = expected ? `, expected ${expected}` : '';
+    if (token.type === 'end') {
+      return new ExpressionError(
+        'UNEXPECTED_END',
+        `Expression ended unexpectedly${suffix || ', expected a value'}`,
+        token.position
+      );
+    }
+    return new ExpressionError(
+      'UNEXPECTED_TOKEN',
+      `Unexpected '${token.text}' at position ${token.position + 1}${suffix}`,
+      token.position
+    );
+  }
+
+  private nested<T>(position: number, parse: () => T): T {
+    this.depth += 1;
+    if (this.depth > this.maxDepth) {
+      throw new ExpressionError(
+        'LIMIT_EXCEEDED',
+        `Expression is nested more than ${this.maxDepth} levels deep`,
+        position
+      );
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  /**
+   * Whether the next token can start an operand (for implicit multiplication and modulo)
+   */
+  private startsOperand(): boolean {
+    const token = this.peek();
+    if (token.type === 'number') return true;
+    if (token.type === 'operator') return token.text === '(';
+    return token.type === 'identifier' && !KEYWORDS.has(token.text);
+  }
+
+  private expression(): Node {
+    const operand = this.additive();
+
+    if (this.isKeyword('to') || this.isKeyword('in')) {
+      const keyword = this.next();
+      const target = this.next();
+      const unit = target.type === 'identifier' ? findUnit(target.text) : undefined;
+      if (!unit) {
+        throw target.type === 'identifier'
+          ? new ExpressionError('UNKNOWN_UNIT', `Unknown unit '${target.text}'`, target.position)
+          : this.unexpected(target, 'a unit');
+      }
+      return { type: 'convert', unit, operand, position: keyword.position };
+    }
+
+    return operand;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.next();
+      const right = this.multiplicative();
+      left = { type: 'binary', operator: operator.text, left, right, position: operator.position };
+    }
+
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+
+    while (true) {
+      const token = this.peek();
+      let operator: string | null = null;
+
+      if (this.isOperator('*') || this.isOperator('/')) {
+        operator = this.next().text;
+      } else if (this.isKeyword('mod') || this.isKeyword('of')) {
+        operator = this.next().text;
+      } else if (this.isOperator('%')) {
+        // Postfix % was consumed already, so a % here sits between two operands
+        operator = 'mod';
+        this.next();
+      } else if (this.startsOperand() && this.peek().type !== 'number') {
+        // Implicit multiplication: 2pi, 3(4 + 5), (1 + 2)(3 + 4)
+        operator = '*';
+      }
+
+      if (!operator) {
+        return left;
+      }
+
+      const right = this.unary();
+      left = { type: 'binary', operator, left, right, position: token.position };
+    }
+  }
+
+  private unary(): Node {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const operator = this.next();
+      return this.nested(operator.position, () => ({
+        type: 'unary' as const,
+        operator: operator.text as '+' | '-',
+        operand: this.unary(),
+        position: operator.position,
+      }));
+    }
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.postfix();
+
+    if (this.isOperator('^') || this.isOperator('**')) {
+      const operator = this.next();
+      // Right-associative: 2^3^2 = 2^(3^2)
+      const exponent = this.nested(operator.position, () => this.unary());
+      return {
+        type: 'binary',
+        operator: '^',
+        left: base,
+        right: exponent,
+        position: operator.position,
+      };
+    }
+
+    return base;
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+
+    while (true) {
+      const token = this.peek();
+
+      if (this.isOperator('!')) {
+        this.next();
+        node = { type: 'postfix', operator: '!', operand: node, position: token.position };
+        continue;
+      }
+
+      // % is a percentage unless another operand follows (then it is modulo)
+      if (this.isOperator('%')) {
+        this.next();
+        if (this.startsOperand()) {
+          this.index -= 1;
+          return node;
+        }
+        node = { type: 'postfix', operator: '%', operand: node, position: token.position };
+        continue;
+      }
+
+      // A unit right after a value, unless it is a function call like min(...)
+      if (token.type === 'identifier' && !KEYWORDS.has(token.text) && !this.isOperator('(', 1)) {
+        const unit = findUnit(token.text);
+        if (unit) {
+          this.next();
+          node = { type: 'unit', unit, operand: node, position: token.position };
+          continue;
+        }
+      }
+
+      return node;
+    }
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: Number(token.text), position: token.position };
+    }
+
+    if (token.type === 'operator' && token.text === '(') {
+      return this.nested(token.position, () => {
+        const node = this.expression();
+        this.expect(')');
+        return node;
+      });
+    }
+
+    if (token.type === 'identifier') {
+      const name = token.text;
+
+      if (this.isOperator('(')) {
+        // Own keys only: names like 'constructor' would find Object.prototype's
+        if (!Object.hasOwn(FUNCTIONS, name)) {
+          throw new ExpressionError(
+            'UNKNOWN_IDENTIFIER',
+            `Unknown function '${name}'. Available: ${Object.keys(FUNCTIONS).join(', ')}`,
+            token.position
+          );
+        }
+        return this.nested(token.position, () => this.call(token));
+      }
+
+      if (Object.hasOwn(CONSTANTS, name)) {
+        return { type: 'constant', name, position: token.position };
+      }
+
+      if (findUnit(name)) {
+        throw new ExpressionError(
+          'UNEXPECTED_TOKEN',
+          `Unit '${name}' at position ${token.position + 1} needs a number before it`,
+          token.position
+        );
+      }
+
+      throw new ExpressionError(
+        'UNKNOWN_IDENTIFIER',
+        `Unknown name '${name}'. Available constants: ${Object.keys(CONSTANTS).join(', ')}`,
+        token.position
+      );
+    }
+
+    throw this.unexpected(token, 'a number, name or (');
+  }
+
+  private call(name: Token): Node {
+    this.expect('(');
+    const args: Node[] = [];
+
+    if (!this.isOperator(')')) {
+      args.push(this.expression());
+      while (this.isOperator(',')) {
+        this.next();
+        args.push(this.expression());
+      }
+    }
+
+    this.expect(')');
+
+    const definition = FUNCTIONS[name.text];
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected =
+        definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : `${definition.minArgs}-${definition.maxArgs}`;
+      throw new ExpressionError(
+        'WRONG_ARGUMENT_COUNT',
+        `${name.text}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`,
+        name.position
+      );
+    }
+
+    return { type: 'call', name: name.text, args, position: name.position };
+  }
+}
+
+// =============================================================================
+// Evaluator
+// =============================================================================
+
+interface Value {
+  value: number;
+  unit?: UnitDefinition;
+  /** Produced by a postfix %, for "200 + 10%" style arithmetic */
+  percent?: boolean;
+}
+
+const toBase = (value: number, unit: UnitDefinition) => value * unit.factor + (unit.offset ?? 0);
+const fromBase = (value: number, unit: UnitDefinition) =>
+  (value - (unit.offset ?? 0)) / unit.factor;
+
+class Evaluator {
+  private steps = 0;
+
+  constructor(private maxSteps: number) {}
+
+  evaluate(node: Node): Value {
+    this.steps += 1;
+    if (this.steps > this.maxSteps) {
+      throw new ExpressionError(
+        'LIMIT_EXCEEDED',
+        `Evaluation exceeded ${this.maxSteps} steps`,
+        node.position
+      );
+    }
+
+    const result = this.evaluateNode(node);
+
+    if (Number.isNaN(result.value)) {
+      throw new ExpressionError(
+        'DOMAIN_ERROR',
+        `Result at position ${node.position + 1} is undefined`,
+        node.position
+      );
+    }
+    if (!Number.isFinite(result.value)) {
+      throw new ExpressionError(
+        'NOT_FINITE',
+        `Result at position ${node.position + 1} is too large`,
+        node.position
+      );
+    }
+
+    return result;
+  }
+
+  private evaluateNode(node: Node): Value {
+    switch (node.type) {
+      case 'number':
+        return { value: node.value };
+
+      case 'constant':
+        return { value: CONSTANTS[node.name] };
+
+      case 'unary': {
+        const operand = this.evaluate(node.operand);
+        return node.operator === '-' ? { ...operand, value: -operand.value } : operand;
+      }
+
+      case 'postfix':
+        return this.postfix(node.operator, this.evaluate(node.operand), node.position);
+
+      case 'unit': {
+        const operand = this.evaluate(node.operand);
+        if (operand.unit || operand.percent) {
+          throw new ExpressionError(
+            'UNIT_MISMATCH',
+            `Value before '${node.unit.symbol}' already has a unit`,
+            node.position
+          );
+        }
+        return { value: operand.value, unit: node.unit };
+      }
+
+      case 'convert':
+        return this.convert(this.evaluate(node.operand), node.unit, node.position);
+
+      case 'binary':
+        return this.binary(
+          node.operator,
+          this.evaluate(node.left),
+          this.evaluate(node.right),
+          node.position
+        );
+
+      case 'call':
+        return this.call(
+          node.name,
+          node.args.map((arg) => this.evaluate(arg)),
+          node.position
+        );
+    }
+  }
+
+  private postfix(operator: '%' | '!', operand: Value, position: number): Value {
+    this.requireUnitless(operand, operator, position);
+
+    if (operator === '%') {
+      return { value: operand.value / 100, percent: true };
+    }
+
+    const n = operand.value;
+    if (!Number.isInteger(n) || n < 0) {
+      throw new ExpressionError(
+        'DOMAIN_ERROR',
+        `Factorial at position ${position + 1} needs a non-negative integer, got ${n}`,
+        position
+      );
+    }
+    if (n > MAX_FACTORIAL) {
+      throw new ExpressionError(
+        'LIMIT_EXCEEDED',
+        `Factorial at position ${position + 1} is limited to ${MAX_FACTORIAL}!`,
+        position
+      );
+    }
+
+    let result = 1;
+    for (let i = 2; i <= n; i++) {
+      result *= i;
+    }
+    return { value: result };
+  }
+
+  private convert(operand: Value, target: UnitDefinition, position: number): Value {
+    if (!operand.unit) {
+      throw new ExpressionError(
+        'UNIT_MISMATCH',
+        `Cannot convert a value without a unit to '${target.symbol}'`,
+        position
+      );
+    }
+    if (operand.unit.dimension !== target.dimension) {
+      throw new ExpressionError(
+        'UNIT_MISMATCH',
+        `Cannot convert ${operand.unit.dimension} (${operand.unit.symbol}) to ${target.dimension} (${target.symbol})`,
+        position
+      );
+    }
+    return { value: fromBase(toBase(operand.value, operand.unit), target), unit: target };
+  }
+
+  private binary(operator: string, left: Value, right: Value, position: number): Value {
+    switch (operator) {
+      case '+':
+      case '-': {
+        const sign = operator === '+' ? 1 : -1;
+
+        // 200 + 10% adds 10% of 200
+        if (right.percent && !left.percent) {
+          return { value: left.value * (1 + sign * right.value), unit: left.unit };
+        }
+
+        if (Boolean(left.unit) !== Boolean(right.unit)) {
+          throw new ExpressionError(
+            'UNIT_MISMATCH',
+            `Cannot ${operator === '+' ? 'add' : 'subtract'} a value ${left.unit ? 'without' : 'with'} a unit at position ${position + 1}`,
+            position
+          );
+        }
+
+        const rightValue =
+          left.unit && right.unit ? this.convert(right, left.unit, position).value : right.value;
+        return { value: left.value + sign * rightValue, unit: left.unit };
+      }
+
+      case '*':
+      case 'of':
+        if (left.unit && right.unit) {
+          throw new ExpressionError(
+            'UNIT_MISMATCH',
+            `Cannot multiply ${left.unit.symbol} by ${right.unit.symbol}`,
+            position
+          );
+        }
+        return { value: left.value * right.value, unit: left.unit ?? right.unit };
+
+      case '/':
+        if (right.value === 0) {
+          throw new ExpressionError(
+            'DIVISION_BY_ZERO',
+            `Division by zero at position ${position + 1}`,
+            position
+          );
+        }
+        if (right.unit) {
+          if (!left.unit || left.unit.dimension !== right.unit.dimension) {
+            throw new ExpressionError(
+              'UNIT_MISMATCH',
+              `Cannot divide ${left.unit?.symbol ?? 'a plain number'} by ${right.unit.symbol}`,
+              position
+            );
+          }
+          // Same dimension: a plain ratio
+          return { value: toBase(left.value, left.unit) / toBase(right.value, right.unit) };
+        }
+        return { value: left.value / right.value, unit: left.unit };
+
+      case 'mod':
+        this.requireUnitless(right, 'mod', position);
+        if (right.value === 0) {
+          throw new ExpressionError(
+            'DIVISION_BY_ZERO',
+            `Modulo by zero at position ${position + 1}`,
+            position
+          );
+        }
+        return { value: left.value % right.value, unit: left.unit };
+
+      case '^':
+        this.requireUnitless(left, '^', position);
+        this.requireUnitless(right, '^', position);
+        return { value: left.value ** right.value };
+
+      default:
+        throw new ExpressionError('UNEXPECTED_TOKEN', `Unknown operator '${operator}'`, position);
+    }
+  }
+
+  private call(name: string, args: Value[], position: number): Value {
+    const definition = FUNCTIONS[name];
+    let unit: UnitDefinition | undefined;
+    let values: number[];
+
+    if (definition.units === 'keep' && args[0].unit) {
+      const target = args[0].unit;
+      unit = target;
+      // round(x, digits): only the value takes the unit
+      const unitArgs = name === 'round' ? args.slice(0, 1) : args;
+      values = [
+        ...unitArgs.map((arg) => this.convert(arg, target, position).value),
+        ...args
+          .slice(unitArgs.length)
+          .map((arg) => this.requireUnitless(arg, `${name}()`, position)),
+      ];
+    } else if (definition.units === 'angle') {
+      values = args.map((arg) => {
+        if (!arg.unit) return arg.value;
+        if (arg.unit.dimension !== 'angle') {
+          throw new ExpressionError(
+            'UNIT_MISMATCH',
+            `${name}() takes an angle, got ${arg.unit.symbol}`,
+            position
+          );
+        }
+        return toBase(arg.value, arg.unit);
+      });
+    } else {
+      values = args.map((arg) => this.requireUnitless(arg, `${name}()`, position));
+    }
+
+    const value = definition.apply(...values);
+    if (Number.isNaN(value)) {
+      throw new ExpressionError(
+        'DOMAIN_ERROR',
+        `${name}(${values.join(', ')}) is undefined`,
+        position
+      );
+    }
+
+    return { value, unit };
+  }
+
+  private requireUnitless(value: Value, operation: string, position: number): number {
+    if (value.unit) {
+      throw new ExpressionError(
+        'UNIT_MISMATCH',
+        `${operation} at position ${position + 1} does not accept units (got ${value.unit.symbol})`,
+        position
+      );
+    }
+    return value.value;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Round away floating point noise (0.1 + 0.2 = 0.3)
+ */
+function clean(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Parse and evaluate an expression
+ * @throws ExpressionError
+ */
+export function evaluateExpression(
+  expression: string,
+  options: EvaluateOptions = {}
+): EvaluationResult {
+  const limits = { ...DEFAULT_EVALUATE_OPTIONS, ...options };
+
+  if (expression.length > limits.maxLength) {
+    throw new ExpressionError(
+      'TOO_LONG',
+      `Expression is longer than ${limits.maxLength} characters`,
+      limits.maxLength
+    );
+  }
+  if (!expression.trim()) {
+    throw new ExpressionError('EMPTY_EXPRESSION', 'Expression is empty', 0);
+  }
+
+  const tokens = tokenize(expression, limits.maxTokens);
+  const ast = new Parser(tokens, limits.maxDepth).parse();
+  const result = new Evaluator(limits.maxSteps).evaluate(ast);
+
+  const value = clean(result.value);
+  return {
+    value,
+    ...(result.unit && { unit: result.unit.symbol }),
+    formatted: result.unit ? `${value} ${result.unit.symbol}` : `${value}`,
+  };
+}
+
+/**
+ * List the supported functions, constants and units (e.g. for a tool description)
+ */
+export function getSupportedSyntax(): {
+  functions: string[];
+  constants: string[];
+  units: string[];
+} {
+  return {
+    functions: Object.keys(FUNCTIONS),
+    constants: Object.keys(CONSTANTS),
+    units: [...new Set([...UNITS.values()].map((u) => u.symbol))],
+  };
+}
@@ -6,6 +6,8 @@
  * - Listens to network connectivity
  * - Auto-retries queued requests
  * - Handles request prioritization
+ * - Routes typed requests to handlers registered for their type
+ * - Reports processed, retried and dropped requests to subscribers
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -18,6 +20,8 @@ const MAX_RETRY_ATTEMPTS = 3;
 
 export interface QueuedRequest {
   id: string;
+  /** Routes the request to the handler registered for this type (default handler otherwise) */
+  type?: string;
   url: string;
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   headers?: Record<string, string>;
@@ -30,18 +34,69 @@ export interface QueuedRequest {
 
 export type RequestHandler = (request: QueuedRequest) => Promise<void>;
 
+export type QueueEvent =
+  | { type: 'processed'; request: QueuedRequest }
+  | { type: 'retrying'; request: QueuedRequest; error: unknown }
+  | { type: 'dropped'; request: QueuedRequest; error: unknown };
+
+export type QueueListener = (event: QueueEvent) => void;
+
 class OfflineQueue {
   private queue: QueuedRequest[] = [];
   private isProcessing = false;
+  private processAgain = false;
   private isOnline = true;
   private requestHandler?: RequestHandler;
+  private typeHandlers = new Map<string, RequestHandler>();
+  private listeners = new Set<QueueListener>();
   private unsubscribeNetInfo?: () => void;
+  private started: Promise<void> | null = null;
 
   /**
    * Initialize the offline queue
    */
   async initialize(requestHandler: RequestHandler): Promise<void> {
     this.requestHandler = requestHandler;
+    this.started = this.start();
+    await this.started;
+  }
+
+  /**
+   * Register the handler for requests of a type, starting the queue if needed
+   * Returns a function that unregisters it
+   */
+  async registerHandler(type: string, handler: RequestHandler): Promise<() => void> {
+    this.typeHandlers.set(type, handler);
+    this.started ??= this.start();
+    await this.started;
+
+    if (this.isOnline) {
+      this.processQueue();
+    }
+
+    return () => {
+      if (this.typeHandlers.get(type) === handler) {
+        this.typeHandlers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Listen for processed, retried and dropped requests
+   * Returns a function that unsubscribes
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load persisted requests and start following connectivity
+   */
+  private async start(): Promise<void> {
+    this.unsubscribeNetInfo?.();
 
     // Load persisted queue
     await this.loadQueue();
@@ -72,7 +127,9 @@ class OfflineQueue {
   destroy(): void {
     if (this.unsubscribeNetInfo) {
       this.unsubscribeNetInfo();
+      this.unsubscribeNetInfo = undefined;
     }
+    this.started = null;
   }
 
   /**
@@ -146,9 +203,15 @@ class OfflineQueue {
 
   /**
    * Process the queue
+   * Requests added while a pass is running are picked up by another pass.
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || !this.isOnline || !this.requestHandler) {
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      this.processAgain = true;
+      return;
+    }
+
+    if (!this.isOnline) {
       return;
     }
 
@@ -173,17 +236,24 @@ class OfflineQueue {
         break;
       }
 
+      // Leave requests queued until a handler for them is registered
+      const handler = request.type ? this.typeHandlers.get(request.type) : this.requestHandler;
+      if (!handler) {
+        continue;
+      }
+
       try {
         console.log(`[OfflineQueue] Processing: ${request.method} ${request.url}`);
 
         request.attempts += 1;
         request.lastAttemptAt = Date.now();
 
-        await this.requestHandler(request);
+        await handler(request);
 
         // Success - remove from queue
         await this.removeRequest(request.id);
         console.log(`[OfflineQueue] Successfully processed: ${request.id}`);
+        this.emit({ type: 'processed', request });
       } catch (error) {
         console.error(`[OfflineQueue] Failed to process request ${request.id}:`, error);
 
@@ -198,14 +268,34 @@ class OfflineQueue {
               reason: 'Max retries exceeded',
             },
           });
+          this.emit({ type: 'dropped', request, error });
         } else {
           // Save updated attempt count
           await this.saveQueue();
+          this.emit({ type: 'retrying', request, error });
         }
       }
     }
 
     this.isProcessing = false;
+
+    if (this.processAgain) {
+      this.processAgain = false;
+      await this.processQueue();
+    }
+  }
+
+  /**
+   * Notify subscribers; a failing listener doesn't stop the queue
+   */
+  private emit(event: QueueEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[OfflineQueue] Listener error:', error);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,505 @@
+/**
+ * Server-Side Rate Limiter
+ *
+ * Shared rate limiting for API routes with:
+ * - Pluggable stores (in-memory, file-backed, Redis protocol)
+ * - Selectable algorithms (fixed window, sliding log, token bucket)
+ * - Non-consuming peeks for reporting limits
+ * - Consistent X-RateLimit-* response headers
+ *
+ * ⚠️ SERVER-ONLY: Import this from API routes (/app/api/) only.
+ */
+
+import { promises as fs } from 'node:fs';
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'token-bucket';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // Epoch ms when the limit frees up
+  retryAfter: number; // Seconds until the next request is allowed (0 when allowed)
+}
+
+/**
+ * Key/value store used to persist limiter state
+ * Values are plain JSON so any backend can hold them. `update` may call `updater`
+ * more than once when another update wins a race; the last value is stored.
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RateLimiterOptions {
+  /** Maximum requests per window (bucket capacity for token bucket) */
+  limit: number;
+  /** Window length in ms (full refill time for token bucket) */
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm;
+  /** Defaults to the shared store (see setDefaultRateLimitStore) */
+  store?: RateLimitStore;
+  /** Key prefix so several limiters can share one store */
+  prefix?: string;
+}
+
+// =============================================================================
+// Algorithms
+// =============================================================================
+
+interface FixedWindowState {
+  count: number;
+  windowStart: number;
+}
+
+interface SlidingLogState {
+  timestamps: number[];
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface AlgorithmOutcome<S> {
+  state: S;
+  result: RateLimitResult;
+}
+
+type AlgorithmFn<S> = (
+  state: S | undefined,
+  now: number,
+  cost: number,
+  options: { limit: number; windowMs: number }
+) => AlgorithmOutcome<S>;
+
+/**
+ * A cost of 0 evaluates the limit without consuming anything (peek)
+ */
+const fixedWindow: AlgorithmFn<FixedWindowState> = (state, now, cost, { limit, windowMs }) => {
+  const current =
+    state && now < state.windowStart + windowMs ? state : { count: 0, windowStart: now };
+  const resetTime = current.windowStart + windowMs;
+  const allowed = current.count + Math.max(cost, 1) <= limit;
+  const count = allowed ? current.count + cost : current.count;
+
+  return {
+    state: { count, windowStart: current.windowStart },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetTime,
+      retryAfter: allowed ? 0 : Math.ceil((resetTime - now) / 1000),
+    },
+  };
+};
+
+const slidingLog: AlgorithmFn<SlidingLogState> = (state, now, cost, { limit, windowMs }) => {
+  const timestamps = (state?.timestamps ?? []).filter((t) => t > now - windowMs);
+  const allowed = timestamps.length + Math.max(cost, 1) <= limit;
+
+  if (allowed) {
+    for (let i = 0; i < cost; i++) {
+      timestamps.push(now);
+    }
+  }
+
+  // The window frees up a slot when the oldest entry ages out
+  const resetTime = timestamps.length > 0 ? timestamps[0] + windowMs : now + windowMs;
+
+  return {
+    state: { timestamps },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      resetTime,
+      retryAfter: allowed ? 0 : Math.ceil((resetTime - now) / 1000),
+    },
+  };
+};
+
+const tokenBucket: AlgorithmFn<TokenBucketState> = (state, now, cost, { limit, windowMs }) => {
+  const refillRate = limit / windowMs; // tokens per ms
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(limit, state.tokens + elapsed * refillRate) : limit;
+  const allowed = available >= Math.max(cost, 1);
+  const tokens = allowed ? available - cost : available;
+
+  // Denied: when the next token arrives. Allowed: when the bucket is full again
+  const resetTime = allowed
+    ? now + Math.ceil((limit - tokens) / refillRate)
+    : now + Math.ceil((Math.max(cost, 1) - tokens) / refillRate);
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(tokens)),
+      resetTime,
+      retryAfter: allowed ? 0 : Math.ceil((resetTime - now) / 1000),
+    },
+  };
+};
+
+/** The state each algorithm keeps */
+interface AlgorithmStates {
+  'fixed-window': FixedWindowState;
+  'sliding-log': SlidingLogState;
+  'token-bucket': TokenBucketState;
+}
+
+const algorithms: { [A in RateLimitAlgorithm]: AlgorithmFn<AlgorithmStates[A]> } = {
+  'fixed-window': fixedWindow,
+  'sliding-log': slidingLog,
+  'token-bucket': tokenBucket,
+};
+
+/**
+ * Run an algorithm on its own state (keys include the algorithm, so states never mix)
+ */
+function runAlgorithm<A extends RateLimitAlgorithm>(
+  algorithm: A,
+  ...args: Parameters<AlgorithmFn<AlgorithmStates[A]>>
+): AlgorithmOutcome<AlgorithmStates[A]> {
+  const fn: AlgorithmFn<AlgorithmStates[A]> = algorithms[algorithm];
+  return fn(...args);
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+interface StoredEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart and is not shared across instances - development only
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, StoredEntry>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.read<T>(key);
+  }
+
+  async update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T> {
+    // Read and write synchronously so concurrent requests can't interleave
+    const value = updater(this.read<T>(key));
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Drop expired entries (call periodically on long-running servers)
+   */
+  prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private read<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value as T;
+  }
+}
+
+/**
+ * File-backed store
+ * Persists limiter state as JSON so limits survive restarts on a single instance.
+ * Writes are serialized and replace the file atomically.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private entries: Record<string, StoredEntry> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entries = await this.load();
+    const entry = entries[key];
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry.value as T;
+  }
+
+  update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const now = Date.now();
+      const existing = entries[key];
+      const value = updater(
+        existing && existing.expiresAt > now ? (existing.value as T) : undefined
+      );
+
+      entries[key] = { value, expiresAt: now + ttlMs };
+      await this.persist(entries, now);
+      return value;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      delete entries[key];
+      await this.persist(entries, Date.now());
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Record<string, StoredEntry>> {
+    if (this.entries) return this.entries;
+
+    try {
+      this.entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch {
+      // Missing or corrupt file - start fresh
+      this.entries = {};
+    }
+    return this.entries as Record<string, StoredEntry>;
+  }
+
+  private async persist(entries: Record<string, StoredEntry>, now: number): Promise<void> {
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.expiresAt <= now) {
+        delete entries[key];
+      }
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(entries), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Sends a single Redis command and resolves with its reply.
+ * Works with any client that speaks the Redis protocol, e.g.:
+ * - ioredis: (...args) => redis.call(...args)
+ * - node-redis: (...args) => client.sendCommand(args.map(String))
+ */
+export type RedisCommandExecutor = (
+  command: string,
+  ...args: (string | number)[]
+) => Promise<unknown>;
+
+/**
+ * Sets KEYS[1] to ARGV[2] (expiring in ARGV[3] ms) only if it still holds ARGV[1]
+ * ('' for a missing key); returns 1 if it did
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/** Attempts before an update that keeps losing races gives up */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Redis protocol store
+ * Shares limits across instances. Updates compare and set in a Lua script (EVAL),
+ * and run again if another instance changed the key in between.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private execute: RedisCommandExecutor,
+    private keyPrefix = 'ratelimit:'
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return parseStoredValue<T>(await this.read(key));
+  }
+
+  async update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const raw = await this.read(key);
+      const value = updater(parseStoredValue<T>(raw));
+      const stored = await this.execute(
+        'EVAL',
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        this.keyPrefix + key,
+        raw ?? '',
+        JSON.stringify(value),
+        Math.max(1, Math.ceil(ttlMs))
+      );
+      if (Number(stored) === 1) return value;
+    }
+    throw new Error(`Rate limit state for ${key} kept changing`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.execute('DEL', this.keyPrefix + key);
+  }
+
+  private async read(key: string): Promise<string | undefined> {
+    const raw = await this.execute('GET', this.keyPrefix + key);
+    return typeof raw === 'string' ? raw : undefined;
+  }
+}
+
+function parseStoredValue<T>(raw: string | undefined): T | undefined {
+  if (raw === undefined) return undefined;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// Default store
+// =============================================================================
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Create the store selected by environment variables:
+ * - RATE_LIMIT_STORE=memory (default) | file
+ * - RATE_LIMIT_FILE=path to the JSON file (default: .ratelimit.json)
+ *
+ * Redis needs a client instance, so register it with setDefaultRateLimitStore.
+ */
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'file') {
+    return new FileRateLimitStore(process.env.RATE_LIMIT_FILE || '.ratelimit.json');
+  }
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Get the store shared by all limiters without an explicit store
+ */
+export function getDefaultRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = createRateLimitStoreFromEnv();
+  }
+  return defaultStore;
+}
+
+/**
+ * Replace the shared store (e.g. with a RedisRateLimitStore at server startup)
+ */
+export function setDefaultRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Parse an algorithm name, falling back to sliding log
+ */
+export function parseRateLimitAlgorithm(value: string | undefined): RateLimitAlgorithm {
+  return value && value in algorithms ? (value as RateLimitAlgorithm) : 'sliding-log';
+}
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+export class RateLimiter {
+  readonly limit: number;
+  readonly windowMs: number;
+  readonly algorithm: RateLimitAlgorithm;
+  private store?: RateLimitStore;
+  private prefix: string;
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+    this.algorithm = options.algorithm ?? 'sliding-log';
+    this.store = options.store;
+    this.prefix = options.prefix ?? 'default';
+  }
+
+  /**
+   * Count a request against the limit
+   */
+  async consume(key: string, cost = 1): Promise<RateLimitResult> {
+    let result: RateLimitResult | undefined;
+
+    await this.getStore().update<AlgorithmStates[RateLimitAlgorithm]>(
+      this.storageKey(key),
+      this.windowMs,
+      (state) => {
+        const outcome = runAlgorithm(this.algorithm, state, Date.now(), cost, this);
+        result = outcome.result;
+        return outcome.state;
+      }
+    );
+
+    return result as RateLimitResult;
+  }
+
+  /**
+   * Report the current limit without consuming a request
+   */
+  async peek(key: string): Promise<RateLimitResult> {
+    const state = await this.getStore().get<AlgorithmStates[RateLimitAlgorithm]>(
+      this.storageKey(key)
+    );
+    return runAlgorithm(this.algorithm, state, Date.now(), 0, this).result;
+  }
+
+  /**
+   * Clear all recorded requests for a key
+   */
+  async reset(key: string): Promise<void> {
+    await this.getStore().delete(this.storageKey(key));
+  }
+
+  private getStore(): RateLimitStore {
+    return this.store ?? getDefaultRateLimitStore();
+  }
+
+  private storageKey(key: string): string {
+    return `${this.prefix}:${this.algorithm}:${key}`;
+  }
+}
+
+/**
+ * Build standard rate limit headers for a response
+ * Retry-After is only included when the request was rejected
+ */
+export function buildRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'X-RateLimit-Reset': String(Math.floor(result.resetTime / 1000)),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
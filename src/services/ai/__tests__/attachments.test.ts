@@ -0,0 +1,170 @@
+import type { MessageAttachment } from '@/features/ai/schemas/attachments';
+import {
+  AttachmentError,
+  AttachmentService,
+  MemoryAttachmentStore,
+  getAttachmentCapabilities,
+  toMessageAttachment,
+} from '../attachments';
+import type { ImageStorage } from '../imageJobs';
+import { decodePng, encodePng } from '../thumbnails';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+class FakeStorage implements ImageStorage {
+  files = new Map<string, Uint8Array>();
+
+  async save(path: string, data: Uint8Array) {
+    this.files.set(path, data);
+    return `https://cdn.test/${path}`;
+  }
+
+  async delete(paths: string[]) {
+    for (const path of paths) this.files.delete(path);
+  }
+
+  async read(path: string) {
+    const data = this.files.get(path);
+    return data ? { data, contentType: 'application/octet-stream' } : null;
+  }
+}
+
+/** A solid-color RGB PNG */
+function solidPng(width: number, height: number): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3).fill(120);
+  return encodePng({ width, height, channels: 3, pixels });
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('AttachmentService', () => {
+  let storage: FakeStorage;
+  let service: AttachmentService;
+
+  beforeEach(() => {
+    storage = new FakeStorage();
+    service = new AttachmentService(new MemoryAttachmentStore(), storage, { thumbnailSize: 8 });
+  });
+
+  it('stores images with a thumbnail under the user folder', async () => {
+    const record = await service.upload('user-1', {
+      name: 'chart.png',
+      mediaType: 'image/png',
+      data: solidPng(32, 16),
+    });
+
+    expect(toMessageAttachment(record)).toEqual({
+      type: 'image',
+      id: record.id,
+      name: 'chart.png',
+      mediaType: 'image/png',
+      size: record.size,
+      url: `https://cdn.test/attachments/user-1/${record.id}.png`,
+      thumbnailUrl: `https://cdn.test/attachments/user-1/${record.id}.thumb.png`,
+    });
+
+    const thumbnail = storage.files.get(`attachments/user-1/${record.id}.thumb.png`);
+    expect(decodePng(thumbnail as Uint8Array)).toMatchObject({ width: 8, height: 4 });
+  });
+
+  it('detects documents by extension when the picker reports no type', async () => {
+    const record = await service.upload('user-1', {
+      name: 'notes.md',
+      mediaType: 'application/octet-stream',
+      data: text('# Notes'),
+    });
+
+    expect(record).toMatchObject({ type: 'file', mediaType: 'text/markdown' });
+    expect(record.thumbnailUrl).toBeUndefined();
+  });
+
+  it('rejects unsupported, mislabeled and oversized files', async () => {
+    await expect(
+      service.upload('user-1', {
+        name: 'run.exe',
+        mediaType: 'application/x-msdownload',
+        data: text('MZ'),
+      })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' });
+
+    await expect(
+      service.upload('user-1', { name: 'photo.jpg', mediaType: 'image/jpeg', data: solidPng(4, 4) })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' });
+
+    const upload = service.upload('user-1', {
+      name: 'big.txt',
+      mediaType: 'text/plain',
+      data: new Uint8Array(200 * 1024).fill(97),
+    });
+    await expect(upload).rejects.toBeInstanceOf(AttachmentError);
+    await expect(upload).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('resolves only uploads owned by the caller, using the stored details', async () => {
+    const record = await service.upload('user-1', {
+      name: 'report.pdf',
+      mediaType: 'application/pdf',
+      data: text('%PDF-1.7'),
+    });
+    const claimed: MessageAttachment = {
+      ...toMessageAttachment(record),
+      url: 'https://evil.test/report.pdf',
+    };
+    const barcode: MessageAttachment = { type: 'barcode', id: 'b1', format: 'qr', data: 'hi' };
+
+    const own = await service.resolve('user-1', [claimed, barcode]);
+    expect(own.missing).toEqual([]);
+    expect(own.attachments).toEqual([toMessageAttachment(record), barcode]);
+
+    const other = await service.resolve('user-2', [claimed]);
+    expect(other).toEqual({ attachments: [], missing: [record.id] });
+  });
+
+  it('turns attachments into model parts the model can read', async () => {
+    const image = await service.upload('user-1', {
+      name: 'cat.png',
+      mediaType: 'image/png',
+      data: solidPng(4, 4),
+    });
+    const pdf = await service.upload('user-1', {
+      name: 'report.pdf',
+      mediaType: 'application/pdf',
+      data: text('%PDF-1.7'),
+    });
+    const csv = await service.upload('user-1', {
+      name: 'data.csv',
+      mediaType: 'text/csv',
+      data: text('a,b\n1,2'),
+    });
+    const attachments: MessageAttachment[] = [
+      toMessageAttachment(image),
+      toMessageAttachment(pdf),
+      toMessageAttachment(csv),
+      { type: 'barcode', id: 'b1', format: 'ean13', data: '4006381333931' },
+    ];
+
+    expect(getAttachmentCapabilities(attachments)).toEqual(['imageInput', 'fileInput']);
+
+    const parts = await service.toModelParts('user-1', attachments, ['imageInput', 'fileInput']);
+    expect(parts).toEqual([
+      { type: 'image', image: storage.files.get(image.path), mediaType: 'image/png' },
+      {
+        type: 'file',
+        data: storage.files.get(pdf.path),
+        mediaType: 'application/pdf',
+        filename: 'report.pdf',
+      },
+      { type: 'text', text: 'Attached file "data.csv":\n\na,b\n1,2' },
+      { type: 'text', text: 'Scanned ean13 barcode: 4006381333931' },
+    ]);
+
+    // Without vision or file input, only the text survives
+    const textOnly = await service.toModelParts('user-1', attachments, []);
+    expect(textOnly.map((part) => part.type)).toEqual(['text', 'text', 'text', 'text']);
+    expect(textOnly[0]).toEqual({
+      type: 'text',
+      text: '[Attachment "cat.png" (image/png) is not available to this model]',
+    });
+  });
+});
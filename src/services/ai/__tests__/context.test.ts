@@ -0,0 +1,146 @@
+import {
+  ContextManager,
+  type ContextMessage,
+  MemorySummaryStore,
+  SUMMARY_PREFIX,
+  estimateContextTokens,
+  getContextBudget,
+  getContextWindow,
+} from '../context';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+// ~100 tokens each with the OpenAI estimate
+const turn = (role: ContextMessage['role'], index: number): ContextMessage => ({
+  role,
+  content: `${role} ${index} `.padEnd(384, '.'),
+});
+
+const conversation = (turns: number): ContextMessage[] =>
+  Array.from({ length: turns }, (_, i) => [turn('user', i), turn('assistant', i)]).flat();
+
+describe('AI Context', () => {
+  const originalEnv = process.env;
+  let manager: ContextManager;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      AI_CONTEXT_MAX_TOKENS: '1000',
+      AI_CONTEXT_SUMMARY_TOKENS: '200',
+    };
+    manager = new ContextManager(new MemorySummaryStore());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('token estimation', () => {
+    it('looks up context windows per model', () => {
+      expect(getContextWindow('gpt-4o', 'openai')).toBe(128000);
+      expect(getContextWindow('claude-haiku-4-5', 'anthropic')).toBe(200000);
+      expect(getContextWindow('llama3.1', 'local')).toBe(8192);
+    });
+
+    it('estimates conservatively for local models', () => {
+      const messages = conversation(2);
+
+      expect(estimateContextTokens(messages, undefined, 'local')).toBeGreaterThan(
+        estimateContextTokens(messages, undefined, 'openai')
+      );
+    });
+
+    it('caps the budget and reserves the reply', () => {
+      expect(getContextBudget(128000, 1000)).toBe(1000);
+      expect(getContextBudget(1500, 1000)).toBe(500);
+    });
+  });
+
+  describe('fit', () => {
+    it('leaves conversations within budget untouched', async () => {
+      const messages = conversation(2);
+      const summarize = jest.fn();
+
+      const result = await manager.fit(messages, {
+        model: 'gpt-4o',
+        provider: 'openai',
+        summarize,
+      });
+
+      expect(result.messages).toBe(messages);
+      expect(result.metadata.truncated).toBe(false);
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('replaces older turns with a summary and keeps system and recent messages', async () => {
+      const system: ContextMessage = { role: 'system', content: 'Be brief.' };
+      const messages = [system, ...conversation(10)];
+      const summarize = jest.fn(async () => 'They talked about dots.');
+
+      const result = await manager.fit(messages, {
+        model: 'gpt-4o',
+        provider: 'openai',
+        summarize,
+      });
+
+      expect(result.messages[0]).toBe(system);
+      expect(result.messages[1]).toEqual({
+        role: 'system',
+        content: `${SUMMARY_PREFIX}\nThey talked about dots.`,
+      });
+      expect(result.messages[2].role).toBe('user');
+      expect(result.messages[result.messages.length - 1]).toBe(messages[messages.length - 1]);
+      expect(result.metadata).toMatchObject({ truncated: true, summarized: true });
+      expect(result.metadata.estimatedTokens).toBeLessThanOrEqual(result.metadata.budget);
+      expect(summarize).toHaveBeenCalledWith(
+        messages.slice(1, 1 + result.metadata.omittedMessages)
+      );
+    });
+
+    it('extends the cached summary as the conversation grows', async () => {
+      const summarize = jest.fn(
+        async (messages: ContextMessage[], previous?: string) =>
+          `${previous ?? ''}+${messages.length}`
+      );
+      const options = {
+        model: 'gpt-4o',
+        provider: 'openai' as const,
+        summarize,
+        conversationKey: 'u:t',
+      };
+
+      const first = await manager.fit(conversation(10), options);
+      const second = await manager.fit(conversation(12), options);
+
+      expect(summarize).toHaveBeenCalledTimes(2);
+      const [newer, previous] = summarize.mock.calls[1];
+      expect(previous).toBe(`+${first.metadata.omittedMessages}`);
+      expect(newer).toHaveLength(second.metadata.omittedMessages - first.metadata.omittedMessages);
+
+      // Same history again: the cached summary is reused as is
+      await manager.fit(conversation(12), options);
+      expect(summarize).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops older turns when summarization fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const summarize = jest.fn(async () => {
+        throw new Error('provider down');
+      });
+
+      const result = await manager.fit(conversation(10), {
+        model: 'gpt-4o',
+        provider: 'openai',
+        summarize,
+      });
+
+      expect(result.metadata).toMatchObject({ truncated: true, summarized: false });
+      expect(result.messages.every((m) => !m.content.startsWith(SUMMARY_PREFIX))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  createDataStreamParser,
+  formatDataStreamPart,
+  parseDataStreamPart,
+} from '@/features/ai/schemas/dataStream';
+import type { TextStreamPart, ToolSet } from 'ai';
+import { createDataStreamResponse, encodeDataStream } from '../dataStream';
+import { KeywordClassifier, ModerationPipeline, createBlocklistRules } from '../moderation';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+
+function streamOf(parts: unknown[]): AsyncIterable<TextStreamPart<ToolSet>> {
+  return (async function* () {
+    for (const part of parts) {
+      yield part as TextStreamPart<ToolSet>;
+    }
+  })();
+}
+
+// Two steps: a tool call, then an answer using its result
+const agentRun = [
+  { type: 'start' },
+  { type: 'start-step' },
+  { type: 'tool-input-start', id: 'call-1', toolName: 'calculate' },
+  { type: 'tool-input-delta', id: 'call-1', delta: '{"expression":' },
+  { type: 'tool-input-delta', id: 'call-1', delta: '"2+2"}' },
+  { type: 'tool-input-end', id: 'call-1' },
+  { type: 'tool-call', toolCallId: 'call-1', toolName: 'calculate', input: { expression: '2+2' } },
+  {
+    type: 'tool-result',
+    toolCallId: 'call-1',
+    toolName: 'calculate',
+    input: { expression: '2+2' },
+    output: { success: true, result: 4 },
+  },
+  { type: 'finish-step', finishReason: 'tool-calls', usage },
+  { type: 'start-step' },
+  { type: 'text-start', id: 't1' },
+  { type: 'text-delta', id: 't1', text: 'It is ' },
+  { type: 'text-delta', id: 't1', text: '4.' },
+  { type: 'text-end', id: 't1' },
+  { type: 'finish-step', finishReason: 'stop', usage },
+  { type: 'finish', finishReason: 'stop', totalUsage: { ...usage, totalTokens: 30 } },
+];
+
+async function encode(parts: unknown[], maxSteps?: number): Promise<string[]> {
+  const lines: string[] = [];
+  for await (const line of encodeDataStream(streamOf(parts), {
+    metadata: { model: 'gpt-4o-mini' },
+    maxSteps,
+  })) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+describe('data stream protocol', () => {
+  it('round-trips parts and ignores unknown or malformed lines', () => {
+    const line = formatDataStreamPart('tool-result', { toolCallId: 'c', result: { ok: true } });
+
+    expect(line).toBe('a:{"toolCallId":"c","result":{"ok":true}}\n');
+    expect(parseDataStreamPart(line.trim())).toEqual({
+      type: 'tool-result',
+      value: { toolCallId: 'c', result: { ok: true } },
+    });
+    expect(parseDataStreamPart('z:"future part"')).toBeNull();
+    expect(parseDataStreamPart('0:{not json')).toBeNull();
+    expect(parseDataStreamPart('b:{"toolCallId":1}')).toBeNull();
+  });
+
+  it('reassembles lines split across chunks', () => {
+    const parser = createDataStreamParser();
+
+    expect(parser.push('0:"Hel')).toEqual([]);
+    expect(parser.push('lo"\n0:"!"\n3:"boom"')).toEqual([
+      { type: 'text', value: 'Hello' },
+      { type: 'text', value: '!' },
+    ]);
+    expect(parser.flush()).toEqual([{ type: 'error', value: 'boom' }]);
+  });
+});
+
+describe('encodeDataStream', () => {
+  it('interleaves steps, tool calls and text', async () => {
+    const parts = (await encode(agentRun)).map((line) => parseDataStreamPart(line.trim()));
+
+    expect(parts.map((part) => part?.type)).toEqual([
+      'metadata',
+      'start-step',
+      'tool-call-start',
+      'tool-call-delta',
+      'tool-call-delta',
+      'tool-call',
+      'tool-result',
+      'finish-step',
+      'start-step',
+      'text',
+      'text',
+      'finish-step',
+      'metadata',
+      'finish-message',
+    ]);
+    expect(parts[7]).toEqual({
+      type: 'finish-step',
+      value: { step: 0, finishReason: 'tool-calls', usage: { inputTokens: 10, outputTokens: 5 } },
+    });
+    expect(parts[12]).toEqual({
+      type: 'metadata',
+      value: { model: 'gpt-4o-mini', tokensUsed: 30, finishReason: 'stop' },
+    });
+    expect(parts[13]).toMatchObject({
+      type: 'finish-message',
+      value: { finishReason: 'stop', steps: 2, maxStepsReached: false },
+    });
+  });
+
+  it('reports when the step limit stopped the loop', async () => {
+    const stopped = [
+      ...agentRun.slice(0, 9),
+      { type: 'finish', finishReason: 'tool-calls', totalUsage: usage },
+    ];
+    const last = (await encode(stopped, 1)).at(-1) ?? '';
+
+    expect(parseDataStreamPart(last.trim())).toMatchObject({
+      value: { steps: 1, maxStepsReached: true },
+    });
+  });
+
+  it('reports tool and stream errors', async () => {
+    const lines = await encode([
+      {
+        type: 'tool-error',
+        toolCallId: 'call-1',
+        toolName: 'calculate',
+        input: {},
+        error: new Error('boom'),
+      },
+      { type: 'error', error: new Error('provider down') },
+    ]);
+
+    expect(lines.slice(1)).toEqual([
+      'a:{"toolCallId":"call-1","result":{"success":false,"error":"boom"},"isError":true}\n',
+      '3:"provider down"\n',
+    ]);
+  });
+
+  it('ends the stream with content_filter when the moderator blocks the reply', async () => {
+    const moderator = new ModerationPipeline([
+      new KeywordClassifier(createBlocklistRules(['it is'])),
+    ]).createOutputModerator();
+    const onContentFiltered = jest.fn();
+    const lines: string[] = [];
+    for await (const line of encodeDataStream(streamOf(agentRun), {
+      moderator,
+      onContentFiltered,
+    })) {
+      lines.push(line);
+    }
+    const parts = lines.map((line) => parseDataStreamPart(line.trim()));
+
+    expect(onContentFiltered).toHaveBeenCalled();
+    expect(parts.filter((part) => part?.type === 'text')).toEqual([]);
+    expect(parts.slice(-2)).toEqual([
+      {
+        type: 'metadata',
+        value: {
+          finishReason: 'content_filter',
+          moderation: { action: 'block', stage: 'output', categories: ['blocklist'] },
+        },
+      },
+      {
+        type: 'finish-message',
+        value: { finishReason: 'content-filter', steps: 1, maxStepsReached: false },
+      },
+    ]);
+  });
+
+  it('streams the encoded lines as a Response', async () => {
+    const response = createDataStreamResponse(streamOf(agentRun), {
+      headers: { 'X-AI-Provider': 'openai' },
+    });
+    const parser = createDataStreamParser();
+    const text = parser
+      .push(await response.text())
+      .filter((part) => part.type === 'text')
+      .map((part) => part.value)
+      .join('');
+
+    expect(response.headers.get('X-AI-Provider')).toBe('openai');
+    expect(text).toBe('It is 4.');
+  });
+});
@@ -0,0 +1,67 @@
+import { type ExtractionMessage, extractStructured, parseJsonResponse } from '../extraction';
+
+/** Generator replaying canned model responses, recording what it was sent */
+function replay(responses: string[]) {
+  const calls: ExtractionMessage[][] = [];
+  const generate = async (messages: ExtractionMessage[]) => {
+    calls.push([...messages]);
+    return { text: responses[calls.length - 1] ?? '' };
+  };
+  return { generate, calls };
+}
+
+describe('parseJsonResponse', () => {
+  it('reads bare, fenced and surrounded JSON', () => {
+    expect(parseJsonResponse('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonResponse('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonResponse('Here you go: {"a":1} Hope that helps!')).toEqual({ a: 1 });
+    expect(() => parseJsonResponse('no data here')).toThrow('does not contain JSON');
+  });
+});
+
+describe('extractStructured', () => {
+  it('returns validated data with defaults applied', async () => {
+    const { generate, calls } = replay(['{"title":"Groceries","content":"Milk, eggs"}']);
+
+    const result = await extractStructured('note', 'buy milk and eggs', generate, {
+      referenceDate: '2025-01-01T00:00:00Z',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { title: 'Groceries', content: 'Milk, eggs', tags: [] },
+      attempts: [{ issues: [] }],
+    });
+    expect(calls[0][0].content).toContain('"title"');
+    expect(calls[0][0].content).toContain('2025-01-01T00:00:00Z');
+    expect(calls[0][1]).toEqual({ role: 'user', content: 'buy milk and eggs' });
+  });
+
+  it('sends validation problems back to the model to repair', async () => {
+    const { generate, calls } = replay([
+      'not json',
+      '{"title":"Standup","startDate":"2025-01-02T10:00:00Z","endDate":"2025-01-02T09:00:00Z"}',
+      '{"title":"Standup","startDate":"2025-01-02T10:00:00Z","endDate":"2025-01-02T10:15:00Z"}',
+    ]);
+
+    const result = await extractStructured('calendarEvent', 'standup tomorrow at 10', generate);
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toHaveLength(3);
+    expect(result.attempts[0].issues[0]).toContain('Invalid JSON');
+    expect(result.attempts[1].issues).toEqual(['endDate: endDate must not be before startDate']);
+
+    const repair = calls[2];
+    expect(repair.at(-2)).toMatchObject({ role: 'assistant' });
+    expect(repair.at(-1)?.content).toContain('endDate must not be before startDate');
+  });
+
+  it('gives up after the repair limit', async () => {
+    const { generate, calls } = replay(['{"email":"nope"}', '{"email":"still nope"}']);
+
+    const result = await extractStructured('contact', 'card text', generate, { maxRepairs: 1 });
+
+    expect(calls).toHaveLength(2);
+    expect(result).toMatchObject({ success: false, issues: ['email: Invalid email'] });
+  });
+});
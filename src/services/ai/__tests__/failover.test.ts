@@ -0,0 +1,200 @@
+import { APICallError } from 'ai';
+import {
+  AIFailoverError,
+  AITimeoutError,
+  CircuitBreaker,
+  type FailoverEvent,
+  getFallbackChain,
+  isTransientError,
+  runWithFailover,
+  waitForStreamStart,
+} from '../failover';
+
+const serverError = () =>
+  new APICallError({
+    message: 'Service Unavailable',
+    url: 'https://example.com',
+    requestBodyValues: {},
+    statusCode: 503,
+  });
+
+const badRequest = () =>
+  new APICallError({
+    message: 'Bad Request',
+    url: 'https://example.com',
+    requestBodyValues: {},
+    statusCode: 400,
+  });
+
+describe('AI Failover', () => {
+  const originalEnv = process.env;
+  const sleep = jest.fn(async () => undefined);
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    sleep.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('runWithFailover', () => {
+    it('retries transient errors with backoff', async () => {
+      const execute = jest.fn().mockRejectedValueOnce(serverError()).mockResolvedValueOnce('ok');
+
+      const { result, provider, failedProviders } = await runWithFailover(['openai'], execute, {
+        breaker,
+        sleep,
+      });
+
+      expect(result).toBe('ok');
+      expect(provider).toBe('openai');
+      expect(failedProviders).toEqual([]);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back without retrying non-transient errors', async () => {
+      const events: FailoverEvent[] = [];
+      const execute = jest.fn(async (_config, _signal, provider) => {
+        if (provider === 'openai') throw badRequest();
+        return provider;
+      });
+
+      const { result, failedProviders } = await runWithFailover(['openai', 'anthropic'], execute, {
+        breaker,
+        sleep,
+        onEvent: (event) => events.push(event),
+      });
+
+      expect(result).toBe('anthropic');
+      expect(failedProviders).toEqual(['openai']);
+      expect(sleep).not.toHaveBeenCalled();
+      expect(events).toContainEqual({ type: 'fallback', from: 'openai', to: 'anthropic' });
+    });
+
+    it('throws AIFailoverError when every provider fails', async () => {
+      const execute = jest.fn().mockRejectedValue(serverError());
+
+      const error = await runWithFailover(['openai', 'google'], execute, {
+        breaker,
+        sleep,
+        policy: { maxRetries: 1 },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AIFailoverError);
+      expect(error.errors.map((e: { provider: string }) => e.provider)).toEqual([
+        'openai',
+        'google',
+      ]);
+      expect(execute).toHaveBeenCalledTimes(4);
+    });
+
+    it('times out slow attempts and aborts the call', async () => {
+      let signal: AbortSignal | undefined;
+      const execute = jest.fn(
+        (_config, abortSignal: AbortSignal) =>
+          new Promise((resolve) => {
+            signal = abortSignal;
+            setTimeout(resolve, 1000);
+          })
+      );
+
+      const error = await runWithFailover(['openai'], execute, {
+        breaker,
+        sleep,
+        policy: { maxRetries: 0, timeoutMs: 10 },
+      }).catch((e) => e);
+
+      expect(error.errors[0].error).toBeInstanceOf(AITimeoutError);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('skips providers with an open circuit', async () => {
+      for (let i = 0; i < 3; i++) breaker.recordFailure('openai');
+      const execute = jest.fn(async (_config, _signal, provider) => provider);
+
+      const { provider } = await runWithFailover(['openai', 'anthropic'], execute, {
+        breaker,
+        sleep,
+      });
+
+      expect(provider).toBe('anthropic');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    it('opens after repeated failures and half-opens after the cooldown', () => {
+      let now = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      breaker.recordFailure('openai');
+      breaker.recordFailure('openai');
+      expect(breaker.getState('openai')).toBe('closed');
+
+      expect(breaker.recordFailure('openai')).toBe(true);
+      expect(breaker.canRequest('openai')).toBe(false);
+
+      now = 1000;
+      expect(breaker.getState('openai')).toBe('half-open');
+
+      // A failed trial request reopens the circuit immediately
+      expect(breaker.recordFailure('openai')).toBe(true);
+      expect(breaker.getState('openai')).toBe('open');
+
+      now = 2000;
+      breaker.recordSuccess('openai');
+      expect(breaker.getState('openai')).toBe('closed');
+    });
+  });
+
+  describe('isTransientError', () => {
+    it('classifies provider errors', () => {
+      expect(isTransientError(serverError())).toBe(true);
+      expect(isTransientError(badRequest())).toBe(false);
+      expect(isTransientError(new TypeError('fetch failed'))).toBe(true);
+      expect(isTransientError(new Error('Invalid tool'))).toBe(false);
+    });
+  });
+
+  describe('getFallbackChain', () => {
+    it('puts the primary provider first and drops unconfigured fallbacks', () => {
+      process.env.AI_PROVIDER = 'openai';
+      process.env.AI_CHAT_FALLBACK = 'anthropic, google, openai';
+      process.env.ANTHROPIC_API_KEY = 'key';
+      process.env.GOOGLE_AI_API_KEY = '';
+      process.env.GOOGLE_GENERATIVE_AI_API_KEY = '';
+
+      expect(getFallbackChain('chat')).toEqual(['openai', 'anthropic']);
+      expect(getFallbackChain('completion')).toEqual(['openai']);
+    });
+  });
+
+  describe('waitForStreamStart', () => {
+    async function* parts(...items: Array<{ type: string; error?: unknown }>) {
+      yield* items;
+    }
+
+    it('resolves on the first content part', async () => {
+      await expect(
+        waitForStreamStart(parts({ type: 'start' }, { type: 'text-delta' }))
+      ).resolves.toBeUndefined();
+    });
+
+    it('throws stream errors', async () => {
+      const error = serverError();
+
+      await expect(
+        waitForStreamStart(parts({ type: 'start' }, { type: 'error', error }))
+      ).rejects.toBe(error);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import type { ImageRequest } from '@/features/ai/schemas';
+import {
+  type GeneratedImage,
+  ImageJobLimitError,
+  ImageJobService,
+  type ImageStorage,
+  LocalImageStorage,
+  MemoryImageJobStore,
+  isStorageOwner,
+  withSignedUrls,
+} from '../imageJobs';
+import { decodePng, encodePng } from '../thumbnails';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const request: ImageRequest = {
+  prompt: 'A lighthouse at dusk',
+  size: '1024x1024',
+  quality: 'standard',
+  style: 'vivid',
+  n: 1,
+};
+
+/** A solid-color RGB PNG */
+function solidPng(width: number, height: number, rgb: [number, number, number]): string {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = rgb[i % 3];
+  return Buffer.from(encodePng({ width, height, channels: 3, pixels })).toString('base64');
+}
+
+class FakeStorage implements ImageStorage {
+  files = new Map<string, Uint8Array>();
+
+  async save(path: string, data: Uint8Array) {
+    this.files.set(path, data);
+    return `https://cdn.test/${path}`;
+  }
+
+  async delete(paths: string[]) {
+    for (const path of paths) this.files.delete(path);
+  }
+
+  async read(path: string) {
+    const data = this.files.get(path);
+    return data ? { data, contentType: 'image/png' } : null;
+  }
+}
+
+/** Resolves once the job reaches a finished status */
+async function settle(service: ImageJobService, userId: string, jobId: string) {
+  for (let i = 0; i < 50; i++) {
+    const job = await service.getJob(userId, jobId);
+    if (job && ['succeeded', 'failed', 'cancelled'].includes(job.status)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throw new Error('Job did not finish');
+}
+
+/** Resolves once `onFinished` was called */
+async function finished(onFinished: jest.Mock) {
+  for (let i = 0; i < 50 && onFinished.mock.calls.length === 0; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+describe('ImageJobService', () => {
+  it('stores base64 images with thumbnails and lists them per user', async () => {
+    const storage = new FakeStorage();
+    const service = new ImageJobService(new MemoryImageJobStore(), storage, {
+      thumbnailSize: 8,
+    });
+    const generate = jest.fn(
+      async (): Promise<GeneratedImage[]> => [
+        { b64Json: solidPng(32, 16, [200, 10, 10]), revisedPrompt: 'A red lighthouse' },
+      ]
+    );
+
+    const queued = await service.createJob('user-1', request, generate);
+    expect(queued.status).toBe('queued');
+
+    const job = await settle(service, 'user-1', queued.id);
+    expect(job.status).toBe('succeeded');
+    expect(job.images).toHaveLength(1);
+
+    const [image] = job.images;
+    expect(image).toMatchObject({
+      jobId: job.id,
+      url: `https://cdn.test/user-1/${image.id}.png`,
+      thumbnailUrl: `https://cdn.test/user-1/${image.id}.thumb.png`,
+      revisedPrompt: 'A red lighthouse',
+    });
+
+    const thumbnail = decodePng(storage.files.get(`user-1/${image.id}.thumb.png`) as Uint8Array);
+    expect(thumbnail).toMatchObject({ width: 8, height: 4, channels: 3 });
+    expect(Array.from(thumbnail?.pixels.slice(0, 3) ?? [])).toEqual([200, 10, 10]);
+
+    expect(await service.listImages('user-1')).toEqual([image]);
+    expect(await service.listImages('user-2')).toEqual([]);
+    expect(await service.getJob('user-2', job.id)).toBeUndefined();
+  });
+
+  it('cancels a running job and aborts the generator', async () => {
+    const storage = new FakeStorage();
+    const service = new ImageJobService(new MemoryImageJobStore(), storage);
+    let signal: AbortSignal | undefined;
+    const generate = (_request: ImageRequest, abortSignal: AbortSignal) => {
+      signal = abortSignal;
+      return new Promise<GeneratedImage[]>((_resolve, reject) => {
+        abortSignal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    };
+
+    const queued = await service.createJob('user-1', request, generate);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const cancelled = await service.cancelJob('user-1', queued.id);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(signal?.aborted).toBe(true);
+
+    const job = await settle(service, 'user-1', queued.id);
+    expect(job.status).toBe('cancelled');
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('reports the images a job kept when saving fails', async () => {
+    const storage = new FakeStorage();
+    storage.save = jest.fn(async () => {
+      throw new Error('Bucket is full');
+    });
+    const service = new ImageJobService(new MemoryImageJobStore(), storage);
+    const onFinished = jest.fn();
+
+    const queued = await service.createJob(
+      'user-1',
+      { ...request, n: 2 },
+      async () => [{ b64Json: solidPng(4, 4, [0, 0, 0]) }, { b64Json: solidPng(4, 4, [0, 0, 0]) }],
+      { onFinished }
+    );
+    await finished(onFinished);
+
+    expect(onFinished).toHaveBeenCalledWith(
+      expect.objectContaining({ id: queued.id, status: 'failed', images: [] })
+    );
+  });
+
+  it('reports no images for jobs cancelled while saving', async () => {
+    const storage = new FakeStorage();
+    let resume: () => void = () => undefined;
+    const saving = new Promise<void>((resolve) => {
+      resume = resolve;
+    });
+    const save = storage.save.bind(storage);
+    storage.save = async (path, data) => {
+      await saving;
+      return save(path, data);
+    };
+    const service = new ImageJobService(new MemoryImageJobStore(), storage);
+    const onFinished = jest.fn();
+
+    const queued = await service.createJob(
+      'user-1',
+      request,
+      async () => [{ b64Json: solidPng(4, 4, [0, 0, 0]) }],
+      { onFinished }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await service.cancelJob('user-1', queued.id);
+    resume();
+    await finished(onFinished);
+
+    expect(onFinished).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'cancelled', images: [] })
+    );
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('records failures and limits unfinished jobs per user', async () => {
+    const service = new ImageJobService(new MemoryImageJobStore(), new FakeStorage(), {
+      maxActiveJobs: 1,
+    });
+
+    const failing = await service.createJob('user-1', request, async () => {
+      throw new Error('Provider is down');
+    });
+    await expect(service.createJob('user-1', request, async () => [])).rejects.toBeInstanceOf(
+      ImageJobLimitError
+    );
+
+    const job = await settle(service, 'user-1', failing.id);
+    expect(job).toMatchObject({ status: 'failed', error: 'Provider is down' });
+    await expect(service.createJob('user-1', request, async () => [])).resolves.toBeDefined();
+  });
+
+  it('limits concurrent job creations too', async () => {
+    const service = new ImageJobService(new MemoryImageJobStore(), new FakeStorage(), {
+      maxActiveJobs: 1,
+    });
+    const generate = () => new Promise<GeneratedImage[]>(() => undefined);
+
+    const results = await Promise.allSettled([
+      service.createJob('user-1', request, generate),
+      service.createJob('user-1', request, generate),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(results[1]).toMatchObject({ reason: expect.any(ImageJobLimitError) });
+  });
+});
+
+describe('signed file URLs', () => {
+  const NOW = Date.parse('2026-06-15T12:30:00Z');
+  const storage = new LocalImageStorage('.ai-images-test', '/api/ai/image-files', 'secret');
+
+  it('signs local file URLs until the next hour after a day', () => {
+    const image = withSignedUrls(
+      {
+        id: 'a',
+        url: '/api/ai/image-files/user-1/a.png',
+        thumbnailUrl: '/api/ai/image-files/user-1/a.thumb.png',
+      },
+      storage,
+      NOW
+    );
+    const url = new URL(image.url, 'https://app.test');
+    const expires = Date.parse('2026-06-16T13:00:00Z') / 1000;
+
+    expect(url.pathname).toBe('/api/ai/image-files/user-1/a.png');
+    expect(url.searchParams.get('expires')).toBe(String(expires));
+    expect(withSignedUrls(image, new FakeStorage(), NOW)).toBe(image);
+    expect(storage.verifySignature('user-1/a.png', url.searchParams, NOW)).toBe(true);
+    expect(image.thumbnailUrl).toContain('/user-1/a.thumb.png?expires=');
+  });
+
+  it('rejects expired, tampered and foreign signatures', () => {
+    const { url } = withSignedUrls({ url: '/api/ai/image-files/user-1/a.png' }, storage, NOW);
+    const params = new URL(url, 'https://app.test').searchParams;
+    const other = new LocalImageStorage('.ai-images-test', '/api/ai/image-files', 'other');
+
+    expect(storage.verifySignature('user-1/b.png', params, NOW)).toBe(false);
+    expect(storage.verifySignature('user-1/a.png', params, NOW + 2 * 24 * 60 * 60 * 1000)).toBe(
+      false
+    );
+    expect(other.verifySignature('user-1/a.png', params, NOW)).toBe(false);
+    expect(storage.verifySignature('user-1/a.png', new URLSearchParams(), NOW)).toBe(false);
+  });
+
+  it('knows the owner of images and attachments', () => {
+    expect(isStorageOwner('user_1/a.png', 'user:1')).toBe(true);
+    expect(isStorageOwner('attachments/user-1/a.png', 'user-1')).toBe(true);
+    expect(isStorageOwner('attachments/user-2/a.png', 'user-1')).toBe(false);
+  });
+});
+
+describe('thumbnails', () => {
+  it('returns null for images it cannot decode', () => {
+    expect(decodePng(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBeNull();
+  });
+});
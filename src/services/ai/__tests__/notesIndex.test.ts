@@ -0,0 +1,113 @@
+import { splitNoteCitations } from '@/features/ai/schemas/citations';
+import { type Embedder, MemoryVectorStore, NotesIndex, chunkText, tokenize } from '../notesIndex';
+
+jest.mock('../provider', () => ({ getCurrentProvider: () => ({}) }));
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+/** Words mapped to "meaning" dimensions, so synonyms embed close together */
+const CONCEPTS: Record<string, number> = {
+  car: 0,
+  automobile: 0,
+  vehicle: 0,
+  mechanic: 0,
+  dog: 1,
+  puppy: 1,
+  vet: 1,
+  pasta: 2,
+  recipe: 2,
+  dinner: 2,
+};
+
+function fakeEmbedder() {
+  const calls: string[][] = [];
+  const embed: Embedder = async (values) => {
+    calls.push(values);
+    return values.map((value) => {
+      const vector = [0, 0, 0, 0.01];
+      for (const word of tokenize(value)) {
+        if (word in CONCEPTS) vector[CONCEPTS[word]] += 1;
+      }
+      return vector;
+    });
+  };
+  return { embed, calls };
+}
+
+const notes = [
+  { id: 'n1', title: 'Garage', content: 'Take the automobile to the mechanic on Friday.' },
+  { id: 'n2', title: 'Puppy', content: 'Book a vet appointment for the puppy.' },
+  { id: 'n3', title: 'Home insurance', content: 'Policy number 12345, renews in March.' },
+];
+
+async function buildIndex(embed: Embedder | null) {
+  const index = new NotesIndex(new MemoryVectorStore(), embed);
+  for (const note of notes) await index.indexNote('user-1', note);
+  return index;
+}
+
+describe('chunkText', () => {
+  it('packs paragraphs into chunks with overlap', () => {
+    const text = ['First paragraph here.', 'Second paragraph here.', 'Third one.'].join('\n\n');
+    const chunks = chunkText(text, { size: 45, overlap: 18 });
+
+    expect(chunks).toEqual([
+      'First paragraph here.\nSecond paragraph here.',
+      'paragraph here.\nThird one.',
+    ]);
+    expect(chunks.every((chunk) => chunk.length <= 45)).toBe(true);
+  });
+
+  it('splits long sentences at word boundaries', () => {
+    const chunks = chunkText('word '.repeat(50).trim(), { size: 40, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.length <= 40 && !chunk.includes('wor '))).toBe(true);
+  });
+});
+
+describe('NotesIndex', () => {
+  it('finds semantic matches that share no keywords', async () => {
+    const index = await buildIndex(fakeEmbedder().embed);
+
+    const [best] = await index.search('user-1', 'car repair');
+
+    expect(best).toMatchObject({ noteId: 'n1', title: 'Garage', citation: '[note:n1]' });
+    expect(best.snippet).toContain('mechanic');
+  });
+
+  it('scores titles with BM25 and works without an embedding model', async () => {
+    const index = await buildIndex(null);
+
+    const results = await index.search('user-1', 'home insurance');
+
+    expect(results.map((result) => result.noteId)).toEqual(['n3']);
+    expect(await index.search('user-2', 'home insurance')).toEqual([]);
+  });
+
+  it('re-embeds only changed chunks and removes deleted notes', async () => {
+    const { embed, calls } = fakeEmbedder();
+    const index = await buildIndex(embed);
+    calls.length = 0;
+
+    await index.indexNote('user-1', { ...notes[1] });
+    expect(calls).toEqual([]);
+
+    await index.indexNote('user-1', { ...notes[1], content: 'Puppy dinner recipe.' });
+    expect(calls).toEqual([['Puppy\n\nPuppy dinner recipe.']]);
+
+    await index.removeNote('user-1', 'n2');
+    const results = await index.search('user-1', 'puppy');
+    expect(results.map((result) => result.noteId)).not.toContain('n2');
+  });
+});
+
+describe('splitNoteCitations', () => {
+  it('splits replies into text and note citations', () => {
+    expect(splitNoteCitations('See [note:n1] and [note:a-2].')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'note', noteId: 'n1', start: 4 },
+      { type: 'text', text: ' and ' },
+      { type: 'note', noteId: 'a-2', start: 18 },
+      { type: 'text', text: '.' },
+    ]);
+  });
+});
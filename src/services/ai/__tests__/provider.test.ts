@@ -0,0 +1,94 @@
+import {
+  getMissingCapabilities,
+  getModelCapabilities,
+  getModelId,
+  getProvider,
+  getVoiceProvider,
+  validateProviderKeys,
+} from '../provider';
+
+describe('AI Provider', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getProvider', () => {
+    it('creates models for each provider', () => {
+      expect(getModelId(getProvider('anthropic').chat)).toBe('claude-sonnet-4-5');
+      expect(getModelId(getProvider('google').completion)).toBe('gemini-2.5-flash');
+      expect(getProvider('anthropic').image).toBeUndefined();
+    });
+
+    it('creates voice models only where the provider has them', () => {
+      expect(getProvider('openai').transcription?.modelId).toBe('whisper-1');
+      expect(getProvider('openai').speech?.voice).toBe('alloy');
+      expect(getProvider('anthropic').transcription).toBeUndefined();
+      expect(getProvider('anthropic').speech).toBeUndefined();
+    });
+  });
+
+  describe('getVoiceProvider', () => {
+    it('follows AI_PROVIDER unless AI_VOICE_PROVIDER is set', () => {
+      process.env.AI_PROVIDER = 'anthropic';
+      expect(getVoiceProvider()).toBe('anthropic');
+
+      process.env.AI_VOICE_PROVIDER = 'openai';
+      expect(getVoiceProvider()).toBe('openai');
+    });
+  });
+
+  describe('validateProviderKeys', () => {
+    it('requires the key for the selected provider', () => {
+      process.env.ANTHROPIC_API_KEY = '';
+      process.env.GOOGLE_AI_API_KEY = 'key';
+
+      expect(validateProviderKeys('anthropic').valid).toBe(false);
+      expect(validateProviderKeys('google').valid).toBe(true);
+    });
+
+    it('validates the local base URL', () => {
+      process.env.LOCAL_AI_BASE_URL = 'not a url';
+      expect(validateProviderKeys('local').valid).toBe(false);
+
+      process.env.LOCAL_AI_BASE_URL = 'http://localhost:8080/v1';
+      expect(validateProviderKeys('local').valid).toBe(true);
+    });
+
+    it('rejects unknown providers', () => {
+      const result = validateProviderKeys('mistral' as never);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Unknown AI_PROVIDER');
+    });
+  });
+
+  describe('capabilities', () => {
+    it('uses the model matrix for known models', () => {
+      expect(getModelCapabilities('dall-e-3', 'openai').imageGeneration).toBe(true);
+      expect(getModelCapabilities('claude-haiku-4-5', 'anthropic').imageInput).toBe(true);
+    });
+
+    it('falls back to provider defaults', () => {
+      expect(getModelCapabilities('gpt-next', 'openai')).toEqual({
+        tools: true,
+        streaming: true,
+        imageInput: false,
+        fileInput: false,
+        imageGeneration: false,
+      });
+    });
+
+    it('makes tools opt-in for local models', () => {
+      expect(getMissingCapabilities('gpt-4o', ['tools', 'streaming'], 'local')).toEqual(['tools']);
+
+      process.env.LOCAL_AI_SUPPORTS_TOOLS = 'true';
+      expect(getMissingCapabilities('gpt-4o', ['tools', 'streaming'], 'local')).toEqual([]);
+    });
+  });
+});
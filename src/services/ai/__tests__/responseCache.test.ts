@@ -0,0 +1,143 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  FileResponseCacheStore,
+  MemoryResponseCacheStore,
+  ResponseCache,
+  type ResponseCacheKeyInput,
+  normalizePrompt,
+} from '../responseCache';
+
+const request: ResponseCacheKeyInput = {
+  userId: 'user-1',
+  prompt: 'Summarize this',
+  model: 'gpt-4o-mini',
+  promptTemplate: 'summarize@1',
+  systemPrompt: 'Summarize the text.',
+  params: { temperature: 0, maxTokens: 500 },
+};
+
+describe('ResponseCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 2, 15, 12, 0, 0);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('caches deterministic or opted-in requests only', () => {
+    const cache = new ResponseCache();
+
+    expect(cache.shouldCache({ temperature: 0 })).toBe(true);
+    expect(cache.shouldCache({ temperature: 0.7 })).toBe(false);
+    expect(cache.shouldCache({ temperature: 0.7, cache: true })).toBe(true);
+    expect(cache.shouldCache({ temperature: 0, cache: false })).toBe(false);
+    expect(new ResponseCache(undefined, { enabled: false }).shouldCache({ temperature: 0 })).toBe(
+      false
+    );
+  });
+
+  it('keys on the normalized prompt, model, template version and params', () => {
+    const cache = new ResponseCache();
+    const key = cache.createKey(request);
+
+    expect(
+      cache.createKey({
+        ...request,
+        prompt: '  Summarize   this \r\n',
+        params: { maxTokens: 500, temperature: 0, stopSequences: undefined },
+      })
+    ).toBe(key);
+    expect(cache.createKey({ ...request, model: 'gpt-4o' })).not.toBe(key);
+    expect(cache.createKey({ ...request, promptTemplate: 'summarize@2' })).not.toBe(key);
+    expect(cache.createKey({ ...request, params: { temperature: 0, maxTokens: 100 } })).not.toBe(
+      key
+    );
+    expect(cache.createKey({ ...request, prompt: 'summarize this' })).not.toBe(key);
+  });
+
+  it('scopes entries per user unless global', () => {
+    const perUser = new ResponseCache();
+    const global = new ResponseCache(undefined, { scope: 'global' });
+    const otherUser = { ...request, userId: 'user-2' };
+
+    expect(perUser.createKey(otherUser)).not.toBe(perUser.createKey(request));
+    expect(global.createKey(otherUser)).toBe(global.createKey(request));
+  });
+
+  it('expires entries after the TTL', async () => {
+    const cache = new ResponseCache(new MemoryResponseCacheStore(), { ttlMs: 1000 });
+    const key = cache.createKey(request);
+
+    await cache.set(key, { text: 'Short summary' });
+    expect(await cache.get(key)).toEqual({ text: 'Short summary' });
+
+    now += 1000;
+    expect(await cache.get(key)).toBeNull();
+  });
+});
+
+describe('normalizePrompt', () => {
+  it('ignores formatting-only differences', () => {
+    expect(normalizePrompt('\n  a\t b  \r\n\r\n\r\n\nc  ')).toBe('a b\n\nc');
+  });
+});
+
+describe('MemoryResponseCacheStore', () => {
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryResponseCacheStore(2);
+    const entry = { body: {}, createdAt: 0, expiresAt: Number.POSITIVE_INFINITY };
+
+    await store.set('a', entry);
+    await store.set('b', entry);
+    await store.get('a');
+    await store.set('c', entry);
+
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+});
+
+describe('FileResponseCacheStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists unexpired entries across store instances', async () => {
+    const filePath = path.join(dir, 'cache.json');
+    const first = new FileResponseCacheStore(filePath);
+    await first.set('live', { body: { text: 'kept' }, createdAt: 0, expiresAt: Date.now() + 1e6 });
+    await first.set('stale', { body: { text: 'old' }, createdAt: 0, expiresAt: 1 });
+
+    // Simulates a server restart
+    const second = new FileResponseCacheStore(filePath);
+    expect((await second.get('live'))?.body).toEqual({ text: 'kept' });
+    expect(await second.get('stale')).toBeNull();
+  });
+
+  it('keeps saving after a failed write', async () => {
+    const filePath = path.join(dir, 'missing', 'cache.json');
+    const store = new FileResponseCacheStore(filePath);
+    const entry = { body: { text: 'kept' }, createdAt: 0, expiresAt: Date.now() + 1e6 };
+
+    await expect(store.set('lost', entry)).rejects.toThrow('ENOENT');
+
+    await fs.mkdir(path.dirname(filePath));
+    await store.set('saved', entry);
+
+    const reloaded = new FileResponseCacheStore(filePath);
+    expect((await reloaded.get('saved'))?.body).toEqual({ text: 'kept' });
+  });
+});
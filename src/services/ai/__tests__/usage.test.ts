@@ -0,0 +1,202 @@
+import { paymentsRepository } from '../../payments/repository';
+import {
+  AI_BUDGETS,
+  MemoryUsageStore,
+  UsageLedger,
+  calculateImageCost,
+  calculateTokenCost,
+  getPeriodEnd,
+  getPeriodStart,
+  resolveAITier,
+  setAITierResolver,
+} from '../usage';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+describe('AI Usage Ledger', () => {
+  let ledger: UsageLedger;
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 2, 15, 12, 0, 0);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    ledger = new UsageLedger(new MemoryUsageStore());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordTokens', () => {
+    it('records prompt and completion tokens with cost', async () => {
+      const record = await ledger.recordTokens('user-1', 'gpt-4o', 'chat', {
+        inputTokens: 1000,
+        outputTokens: 500,
+      });
+
+      expect(record.promptTokens).toBe(1000);
+      expect(record.completionTokens).toBe(500);
+      expect(record.costUsd).toBeCloseTo(0.0075);
+    });
+
+    it('treats missing usage as zero tokens', async () => {
+      const record = await ledger.recordTokens('user-1', 'gpt-4o', 'chat', {});
+
+      expect(record.promptTokens).toBe(0);
+      expect(record.costUsd).toBe(0);
+    });
+  });
+
+  describe('getSummary', () => {
+    it('aggregates usage per model', async () => {
+      await ledger.recordTokens('user-1', 'gpt-4o', 'chat', { inputTokens: 100, outputTokens: 50 });
+      await ledger.recordTokens('user-1', 'gpt-4o-mini', 'completion', {
+        inputTokens: 200,
+        outputTokens: 100,
+      });
+      await ledger.recordImages('user-1', 'dall-e-3', 2, 'hd');
+      await ledger.recordTokens('user-2', 'gpt-4o', 'chat', { inputTokens: 999, outputTokens: 1 });
+
+      const summary = await ledger.getSummary('user-1', 0);
+
+      expect(summary.totalTokens).toBe(450);
+      expect(summary.images).toBe(2);
+      expect(summary.byModel['gpt-4o'].totalTokens).toBe(150);
+      expect(summary.byModel['gpt-4o-mini'].promptTokens).toBe(200);
+      expect(summary.byModel['dall-e-3'].costUsd).toBeCloseTo(0.16);
+    });
+
+    it('aggregates usage per prompt template version', async () => {
+      await ledger.recordTokens(
+        'user-1',
+        'gpt-4o',
+        'chat',
+        { inputTokens: 100, outputTokens: 50 },
+        { promptTemplate: 'assistant@1' }
+      );
+      await ledger.recordTokens(
+        'user-1',
+        'gpt-4o',
+        'chat',
+        { inputTokens: 10, outputTokens: 5 },
+        { promptTemplate: 'assistant@2' }
+      );
+      await ledger.recordTokens('user-1', 'gpt-4o', 'chat', { inputTokens: 1 });
+
+      const summary = await ledger.getSummary('user-1', 0);
+
+      expect(Object.keys(summary.byPromptTemplate)).toEqual(['assistant@1', 'assistant@2']);
+      expect(summary.byPromptTemplate['assistant@2'].totalTokens).toBe(15);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('allows requests within budget', async () => {
+      await ledger.recordTokens('user-1', 'gpt-4o', 'chat', {
+        inputTokens: 100,
+        outputTokens: 100,
+      });
+
+      const check = await ledger.checkBudget('user-1', 'free', { tokens: 1000 });
+
+      expect(check.allowed).toBe(true);
+    });
+
+    it('rejects requests over the daily token budget', async () => {
+      await ledger.recordTokens('user-1', 'gpt-4o', 'chat', {
+        inputTokens: AI_BUDGETS.free.daily.tokens,
+        outputTokens: 0,
+      });
+
+      const check = await ledger.checkBudget('user-1', 'free', { tokens: 10 });
+
+      expect(check.allowed).toBe(false);
+      if (!check.allowed) {
+        expect(check.budget.period).toBe('daily');
+        expect(check.budget.metric).toBe('tokens');
+        expect(check.budget.resetAt).toBe('2025-03-16T00:00:00.000Z');
+      }
+    });
+
+    it('gives paid users larger quotas', async () => {
+      await ledger.recordTokens('user-1', 'gpt-4o', 'chat', {
+        inputTokens: AI_BUDGETS.free.daily.tokens,
+        outputTokens: 0,
+      });
+
+      const check = await ledger.checkBudget('user-1', 'pro', { tokens: 10 });
+
+      expect(check.allowed).toBe(true);
+    });
+
+    it('enforces the monthly budget across days', async () => {
+      for (let day = 1; day <= 6; day++) {
+        now = Date.UTC(2025, 2, day, 12);
+        await ledger.recordImages('user-1', 'dall-e-3', 5);
+      }
+
+      now = Date.UTC(2025, 2, 20, 12);
+      const check = await ledger.checkBudget('user-1', 'free', { images: 1 });
+
+      expect(check.allowed).toBe(false);
+      if (!check.allowed) {
+        expect(check.budget.period).toBe('monthly');
+        expect(check.budget.used).toBe(30);
+      }
+    });
+
+    it('resets the daily budget at UTC midnight', async () => {
+      await ledger.recordImages('user-1', 'dall-e-3', AI_BUDGETS.free.daily.images);
+
+      now = Date.UTC(2025, 2, 16, 0, 0, 1);
+      const check = await ledger.checkBudget('user-1', 'free', { images: 1 });
+
+      expect(check.allowed).toBe(true);
+    });
+  });
+
+  describe('pricing', () => {
+    it('returns zero cost for unknown models', () => {
+      expect(calculateTokenCost('unknown-model', 1000, 1000)).toBe(0);
+      expect(calculateImageCost('unknown-model', 1)).toBe(0);
+    });
+  });
+
+  describe('budget periods', () => {
+    it('computes daily and monthly boundaries in UTC', () => {
+      const time = Date.UTC(2024, 11, 31, 23, 30);
+
+      expect(getPeriodStart('daily', time)).toBe(Date.UTC(2024, 11, 31));
+      expect(getPeriodEnd('daily', time)).toBe(Date.UTC(2025, 0, 1));
+      expect(getPeriodStart('monthly', time)).toBe(Date.UTC(2024, 11, 1));
+      expect(getPeriodEnd('monthly', time)).toBe(Date.UTC(2025, 0, 1));
+    });
+  });
+
+  describe('resolveAITier', () => {
+    it('gives users with an active entitlement the pro tier', async () => {
+      await paymentsRepository.saveSubscription({
+        id: 'sub_tier',
+        source: 'stripe',
+        userId: 'user-pro',
+        status: 'active',
+        currentPeriodEnd: now + 24 * 60 * 60 * 1000,
+        cancelAtPeriodEnd: false,
+        eventCreated: now,
+        updatedAt: now,
+      });
+
+      await expect(resolveAITier('user-pro')).resolves.toBe('pro');
+      await expect(resolveAITier('user-free')).resolves.toBe('free');
+    });
+
+    it('falls back to free when the resolver fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      setAITierResolver(async () => {
+        throw new Error('lookup failed');
+      });
+
+      await expect(resolveAITier('user-1')).resolves.toBe('free');
+    });
+  });
+});
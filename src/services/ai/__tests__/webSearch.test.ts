@@ -0,0 +1,181 @@
+import { PageFetchError, PageFetcher, extractReadableText, isBlockedAddress } from '../pageFetcher';
+import { BraveSearchBackend, FixtureSearchBackend, SearxngSearchBackend } from '../webSearch';
+
+/** fetch stand-in answering from a URL → Response map, recording requested URLs */
+function fakeFetch(pages: Record<string, () => Response>) {
+  const requested: string[] = [];
+  const fetchFn = (async (input: string | URL) => {
+    const url = input.toString();
+    requested.push(url);
+    const page = pages[url];
+    return page ? page() : new Response('Not Found', { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, requested };
+}
+
+const publicHost = async () => ['93.184.216.34'];
+
+describe('search backends', () => {
+  it('maps Brave results and strips highlighting', async () => {
+    const { fetchFn, requested } = fakeFetch({
+      'https://api.search.brave.com/res/v1/web/search?q=expo+router&count=2': () =>
+        Response.json({
+          web: {
+            results: [
+              {
+                title: 'Expo Router',
+                url: 'https://docs.expo.dev/router/introduction/',
+                description: 'File-based <strong>routing</strong> &amp; more',
+                page_age: '2025-01-01T00:00:00',
+              },
+              { title: 'Bad', url: 'javascript:alert(1)', description: '' },
+            ],
+          },
+        }),
+    });
+
+    const results = await new BraveSearchBackend('key', fetchFn).search('expo router', {
+      numResults: 2,
+    });
+
+    expect(requested).toHaveLength(1);
+    expect(results).toEqual([
+      {
+        title: 'Expo Router',
+        url: 'https://docs.expo.dev/router/introduction/',
+        snippet: 'File-based routing & more',
+        publishedAt: '2025-01-01T00:00:00',
+      },
+    ]);
+  });
+
+  it('maps SearXNG results', async () => {
+    const { fetchFn } = fakeFetch({
+      'https://searx.test/search?q=zod&format=json': () =>
+        Response.json({
+          results: [{ title: 'Zod', url: 'https://zod.dev/', content: 'TypeScript-first schemas' }],
+        }),
+    });
+
+    expect(await new SearxngSearchBackend('https://searx.test', fetchFn).search('zod')).toEqual([
+      { title: 'Zod', url: 'https://zod.dev/', snippet: 'TypeScript-first schemas' },
+    ]);
+  });
+
+  it('answers from fixtures with a catch-all', async () => {
+    const result = { title: 'T', url: 'https://example.com/', snippet: 'S' };
+    const backend = new FixtureSearchBackend({ 'Hello  World': [result], '*': [] });
+
+    expect(await backend.search('hello world')).toEqual([result]);
+    expect(await backend.search('anything else')).toEqual([]);
+  });
+});
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    'fd00::1',
+    'fe80::1%eth0',
+    '2002:7f00:1::',
+    '2002:a9fe:a9fe::1',
+    '2001:0:7f00:1::1',
+    '2001:0:4136:e378:8000:63bf:80ff:fffe',
+  ])('blocks %s', (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '93.184.216.34',
+    '8.8.8.8',
+    '2606:4700:4700::1111',
+    '::ffff:8.8.8.8',
+    '2002:808:808::1',
+    '2001:0:4136:e378:8000:63bf:f7f7:f7f7',
+  ])('allows %s', (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe('PageFetcher', () => {
+  it('extracts readable text from HTML', async () => {
+    const html = `<html><head><title>Guide &amp; Tips</title><style>p{}</style></head>
+      <body><nav>Menu</nav><h1>Intro</h1><p>First&nbsp;line<br>second</p>
+      <script>alert(1)</script><p>Done &#8212; ok</p></body></html>`;
+    const { fetchFn } = fakeFetch({
+      'https://example.com/guide': () =>
+        new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } }),
+    });
+
+    const page = await new PageFetcher({ fetch: fetchFn, resolveHost: publicHost }).fetchPage(
+      'https://example.com/guide'
+    );
+
+    expect(page).toMatchObject({
+      finalUrl: 'https://example.com/guide',
+      title: 'Guide & Tips',
+      text: 'Intro\nFirst line\nsecond\nDone — ok',
+      truncated: false,
+    });
+    expect(extractReadableText('<p>a</p><!-- hidden -->').text).toBe('a');
+  });
+
+  it('refuses private addresses, including after redirects', async () => {
+    const { fetchFn, requested } = fakeFetch({
+      'https://example.com/go': () =>
+        new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/' } }),
+    });
+    const fetcher = new PageFetcher({
+      fetch: fetchFn,
+      resolveHost: async (host) => (host === 'internal.test' ? ['10.0.0.5'] : ['93.184.216.34']),
+    });
+
+    for (const url of ['http://localhost/', 'http://[::1]/', 'https://internal.test/x']) {
+      await expect(fetcher.fetchPage(url)).rejects.toMatchObject({ code: 'BLOCKED_ADDRESS' });
+    }
+    await expect(fetcher.fetchPage('file:///etc/passwd')).rejects.toMatchObject({
+      code: 'INVALID_URL',
+    });
+    await expect(fetcher.fetchPage('https://example.com/go')).rejects.toBeInstanceOf(
+      PageFetchError
+    );
+    expect(requested).toEqual(['https://example.com/go']);
+  });
+
+  it('enforces size limits and content types', async () => {
+    const { fetchFn } = fakeFetch({
+      'https://example.com/big': () =>
+        new Response('x'.repeat(5000), { headers: { 'Content-Type': 'text/plain' } }),
+      'https://example.com/declared': () =>
+        new Response('x', { headers: { 'Content-Type': 'text/plain', 'Content-Length': '9999' } }),
+      'https://example.com/image': () =>
+        new Response('png', { headers: { 'Content-Type': 'image/png' } }),
+    });
+    const fetcher = new PageFetcher({
+      fetch: fetchFn,
+      resolveHost: publicHost,
+      maxBytes: 1000,
+      maxChars: 100,
+    });
+
+    const page = await fetcher.fetchPage('https://example.com/big');
+    expect(page.text).toHaveLength(100);
+    expect(page.truncated).toBe(true);
+
+    await expect(fetcher.fetchPage('https://example.com/declared')).rejects.toMatchObject({
+      code: 'TOO_LARGE',
+    });
+    await expect(fetcher.fetchPage('https://example.com/image')).rejects.toMatchObject({
+      code: 'UNSUPPORTED_CONTENT',
+    });
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Chat Attachments (server-side)
+ *
+ * Images and documents are uploaded with POST /api/ai/attachments and referenced
+ * by ID from chat messages. Files go to the image storage (./imageJobs.ts) under
+ * `attachments/<user>/`; their metadata and owner are kept in an attachment store.
+ *
+ * When a chat request is sent, attachments become model message parts:
+ * - images: image parts (the model needs `imageInput`)
+ * - PDFs: file parts (the model needs `fileInput`)
+ * - text documents and scanned barcodes: text parts, so any model can read them
+ *
+ * Uploads are checked against their declared type (magic bytes, or UTF-8 for text)
+ * so a renamed file can't reach the model as something else.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { readFile } from 'node:fs/promises';
+import {
+  ATTACHMENT_MEDIA_TYPES,
+  type MessageAttachment,
+  type UploadedAttachment,
+  type UploadedAttachmentType,
+  formatAttachmentSize,
+  getAttachmentMediaType,
+} from '@/features/ai/schemas/attachments';
+import type { FilePart, ImagePart, TextPart } from 'ai';
+import { type ImageStorage, imageStorage, storageFolder } from './imageJobs';
+import { JsonFileWriter } from './jsonFileWriter';
+import type { ModelCapabilities } from './provider';
+import { THUMBNAIL_SIZE, createPngThumbnail } from './thumbnails';
+
+/** An upload as kept on the server, with its owner and storage paths */
+export interface AttachmentRecord {
+  id: string;
+  userId: string;
+  type: UploadedAttachmentType;
+  name: string;
+  mediaType: string;
+  size: number;
+  path: string;
+  url: string;
+  thumbnailUrl?: string;
+  createdAt: number;
+}
+
+export type AttachmentPart = TextPart | ImagePart | FilePart;
+
+/** Capabilities attachments can require of the chat model */
+export type AttachmentCapability = Extract<keyof ModelCapabilities, 'imageInput' | 'fileInput'>;
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface AttachmentStore {
+  get(id: string): Promise<AttachmentRecord | undefined>;
+  put(record: AttachmentRecord): Promise<void>;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryAttachmentStore implements AttachmentStore {
+  protected records = new Map<string, AttachmentRecord>();
+
+  async get(id: string) {
+    return this.records.get(id);
+  }
+
+  async put(record: AttachmentRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+}
+
+/**
+ * JSON file store
+ * Loads the file once and rewrites it (tmp + rename) after each change.
+ */
+export class FileAttachmentStore extends MemoryAttachmentStore {
+  private loaded: Promise<void> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(private filePath: string) {
+    super();
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  override async get(id: string) {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async put(record: AttachmentRecord): Promise<void> {
+    await this.load();
+    await super.put(record);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+        for (const record of (data.attachments ?? []) as AttachmentRecord[]) {
+          this.records.set(record.id, record);
+        }
+      } catch {
+        // Missing or unreadable file: start empty
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({ attachments: [...this.records.values()] });
+
+    return this.writer.write(snapshot);
+  }
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+/**
+ * Thrown for uploads that are too large or of an unsupported type
+ */
+export class AttachmentError extends Error {
+  constructor(
+    public code: 'PAYLOAD_TOO_LARGE' | 'UNSUPPORTED_MEDIA_TYPE',
+    message: string
+  ) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+function startsWith(data: Uint8Array, signature: string, offset = 0): boolean {
+  return [...signature].every((char, i) => data[offset + i] === char.charCodeAt(0));
+}
+
+/**
+ * Whether the bytes look like the declared media type
+ */
+function matchesMediaType(data: Uint8Array, mediaType: string): boolean {
+  switch (mediaType) {
+    case 'image/png':
+      return startsWith(data, '\x89PNG');
+    case 'image/jpeg':
+      return startsWith(data, '\xff\xd8\xff');
+    case 'image/gif':
+      return startsWith(data, 'GIF8');
+    case 'image/webp':
+      return startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8);
+    case 'application/pdf':
+      return startsWith(data, '%PDF');
+    default:
+      return decodeText(data) !== null;
+  }
+}
+
+function decodeText(data: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Model capabilities needed to send the attachments as parts
+ */
+export function getAttachmentCapabilities(
+  attachments: MessageAttachment[]
+): AttachmentCapability[] {
+  const capabilities = new Set<AttachmentCapability>();
+  for (const attachment of attachments) {
+    if (attachment.type === 'image') {
+      capabilities.add('imageInput');
+    } else if (
+      attachment.type === 'file' &&
+      !ATTACHMENT_MEDIA_TYPES[attachment.mediaType]?.inline
+    ) {
+      capabilities.add('fileInput');
+    }
+  }
+  return [...capabilities];
+}
+
+/**
+ * Attachment as referenced from chat messages (without the owner and paths)
+ */
+export function toMessageAttachment(record: AttachmentRecord): UploadedAttachment {
+  return {
+    type: record.type,
+    id: record.id,
+    name: record.name,
+    mediaType: record.mediaType,
+    size: record.size,
+    url: record.url,
+    ...(record.thumbnailUrl && { thumbnailUrl: record.thumbnailUrl }),
+  };
+}
+
+export interface AttachmentServiceOptions {
+  /** Longest side of image thumbnails in pixels */
+  thumbnailSize?: number;
+}
+
+export class AttachmentService {
+  private thumbnailSize: number;
+
+  constructor(
+    private store: AttachmentStore,
+    private storage: ImageStorage,
+    options: AttachmentServiceOptions = {}
+  ) {
+    this.thumbnailSize = options.thumbnailSize ?? THUMBNAIL_SIZE;
+  }
+
+  /**
+   * Check and store an upload
+   * Throws AttachmentError if it's too large or not a supported type
+   */
+  async upload(
+    userId: string,
+    file: { name: string; mediaType?: string | null; data: Uint8Array }
+  ): Promise<AttachmentRecord> {
+    const mediaType = getAttachmentMediaType(file.name, file.mediaType);
+    const accepted = mediaType ? ATTACHMENT_MEDIA_TYPES[mediaType] : undefined;
+    if (!mediaType || !accepted) {
+      throw new AttachmentError(
+        'UNSUPPORTED_MEDIA_TYPE',
+        `Unsupported attachment type "${file.mediaType || file.name}"`
+      );
+    }
+
+    if (file.data.length > accepted.maxBytes) {
+      throw new AttachmentError(
+        'PAYLOAD_TOO_LARGE',
+        `${file.name} is too large (limit for ${mediaType}: ${formatAttachmentSize(accepted.maxBytes)})`
+      );
+    }
+
+    if (!matchesMediaType(file.data, mediaType)) {
+      throw new AttachmentError(
+        'UNSUPPORTED_MEDIA_TYPE',
+        `The file's contents don't match its type (${mediaType})`
+      );
+    }
+
+    const id = crypto.randomUUID();
+    const folder = `attachments/${storageFolder(userId)}`;
+    const path = `${folder}/${id}.${accepted.extension}`;
+    const url = await this.storage.save(path, file.data, mediaType);
+
+    let thumbnailUrl: string | undefined;
+    if (accepted.type === 'image') {
+      // Only PNGs can be downscaled; other images are their own thumbnail
+      const thumbnail =
+        mediaType === 'image/png' && createPngThumbnail(file.data, this.thumbnailSize);
+      thumbnailUrl = thumbnail
+        ? await this.storage.save(`${folder}/${id}.thumb.png`, thumbnail, 'image/png')
+        : url;
+    }
+
+    const record: AttachmentRecord = {
+      id,
+      userId,
+      type: accepted.type,
+      name: file.name.slice(0, 255),
+      mediaType,
+      size: file.data.length,
+      path,
+      url,
+      ...(thumbnailUrl && { thumbnailUrl }),
+      createdAt: Date.now(),
+    };
+    await this.store.put(record);
+    return record;
+  }
+
+  /**
+   * An upload owned by the user, or undefined
+   */
+  async get(userId: string, id: string): Promise<AttachmentRecord | undefined> {
+    const record = await this.store.get(id);
+    return record?.userId === userId ? record : undefined;
+  }
+
+  /**
+   * Replace client-sent upload details with the stored ones
+   * Uploads that don't exist or belong to someone else are listed in `missing`.
+   */
+  async resolve(
+    userId: string,
+    attachments: MessageAttachment[]
+  ): Promise<{ attachments: MessageAttachment[]; missing: string[] }> {
+    const resolved: MessageAttachment[] = [];
+    const missing: string[] = [];
+
+    for (const attachment of attachments) {
+      if (attachment.type === 'barcode') {
+        resolved.push(attachment);
+        continue;
+      }
+
+      const record = await this.get(userId, attachment.id);
+      if (record) {
+        resolved.push(toMessageAttachment(record));
+      } else {
+        missing.push(attachment.id);
+      }
+    }
+
+    return { attachments: resolved, missing };
+  }
+
+  /**
+   * Message parts for the model
+   * Attachments the model can't read (or that are gone) are described in text instead.
+   */
+  async toModelParts(
+    userId: string,
+    attachments: MessageAttachment[],
+    supported: AttachmentCapability[]
+  ): Promise<AttachmentPart[]> {
+    const parts: AttachmentPart[] = [];
+
+    for (const attachment of attachments) {
+      if (attachment.type === 'barcode') {
+        parts.push({
+          type: 'text',
+          text: `Scanned ${attachment.format} barcode: ${attachment.data}`,
+        });
+        continue;
+      }
+
+      const omitted: TextPart = {
+        type: 'text',
+        text: `[Attachment "${attachment.name}" (${attachment.mediaType}) is not available to this model]`,
+      };
+
+      const [capability] = getAttachmentCapabilities([attachment]);
+      const record = await this.get(userId, attachment.id);
+      const file =
+        record && (!capability || supported.includes(capability))
+          ? await this.storage.read(record.path)
+          : null;
+      if (!record || !file) {
+        parts.push(omitted);
+        continue;
+      }
+
+      if (record.type === 'image') {
+        parts.push({ type: 'image', image: file.data, mediaType: record.mediaType });
+      } else if (capability) {
+        parts.push({
+          type: 'file',
+          data: file.data,
+          mediaType: record.mediaType,
+          filename: record.name,
+        });
+      } else {
+        const text = decodeText(file.data);
+        parts.push(
+          text === null
+            ? omitted
+            : { type: 'text', text: `Attached file "${record.name}":\n\n${text}` }
+        );
+      }
+    }
+
+    return parts;
+  }
+}
+
+/**
+ * Store selected by environment variables:
+ * - AI_ATTACHMENT_STORE=memory (default) | file
+ * - AI_ATTACHMENT_FILE=path to the JSON file (default: .ai-attachments.json)
+ * Files themselves go to the image storage (AI_IMAGE_STORAGE).
+ */
+function createAttachmentStoreFromEnv(): AttachmentStore {
+  if (process.env.AI_ATTACHMENT_STORE === 'file') {
+    return new FileAttachmentStore(process.env.AI_ATTACHMENT_FILE || '.ai-attachments.json');
+  }
+  return new MemoryAttachmentStore();
+}
+
+// Singleton instance
+export const attachmentService = new AttachmentService(
+  createAttachmentStoreFromEnv(),
+  imageStorage
+);
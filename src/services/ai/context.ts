@@ -0,0 +1,370 @@
+/**
+ * AI Context Window Management
+ *
+ * Keeps chat prompts within the model's context window (and a configurable
+ * cost cap) by estimating tokens per model:
+ * - the system prompt, system messages and the most recent turns are kept verbatim
+ * - older turns are replaced by a rolling summary from the completion model
+ * - summaries are cached per conversation and extended as more turns fall out
+ *   of the window, so each turn is only summarized once
+ * - if summarization fails, older turns are dropped instead
+ *
+ * Configuration (environment variables):
+ * - AI_CONTEXT_MAX_TOKENS: prompt token cap below the context window (default 16000)
+ * - AI_CONTEXT_SUMMARY_TOKENS: tokens reserved for the summary (default 500)
+ * - AI_CONTEXT_WINDOW: context window for models not in the table (default 8192)
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { createHash } from 'node:crypto';
+import type { ContextMetadata } from '@/features/ai/schemas';
+import { type LanguageModel, generateText } from 'ai';
+import { getFallbackChain, runWithFailover } from './failover';
+import { type AIProvider, getAIProvider, getModelId } from './provider';
+import { usageLedger } from './usage';
+
+export interface ContextMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+}
+
+/**
+ * Summarize older messages, extending a previous summary if given
+ */
+export type Summarizer = (messages: ContextMessage[], previousSummary?: string) => Promise<string>;
+
+export interface FitContextOptions {
+  model: LanguageModel | string;
+  provider?: AIProvider;
+  systemPrompt?: string;
+  /** Tokens reserved for the reply */
+  maxOutputTokens?: number;
+  /** Overrides the model's context window (e.g. the smallest in a fallback chain) */
+  contextWindow?: number;
+  /** Stable conversation key (e.g. user + thread) for reusing rolling summaries */
+  conversationKey?: string;
+  summarize?: Summarizer;
+}
+
+export interface FitContextResult<T extends ContextMessage> {
+  /** Messages to send, with the summary as a leading system message if one was made */
+  messages: Array<T | ContextMessage>;
+  metadata: ContextMetadata;
+}
+
+export interface SummaryEntry {
+  summary: string;
+  /** Number of leading older messages the summary covers */
+  coveredCount: number;
+  /** Hash of those messages, to detect edited or different histories */
+  fingerprint: string;
+}
+
+export interface SummaryStore {
+  get(key: string): Promise<SummaryEntry | undefined>;
+  set(key: string, entry: SummaryEntry): Promise<void>;
+}
+
+/**
+ * In-memory summary cache, bounded to the most recently used conversations
+ * ⚠️ Resets on restart - summaries are rebuilt on demand
+ */
+export class MemorySummaryStore implements SummaryStore {
+  private entries = new Map<string, SummaryEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string): Promise<SummaryEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Refresh recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: SummaryEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+}
+
+export const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+// =============================================================================
+// Token estimation
+// =============================================================================
+
+/**
+ * Context windows (tokens) by model
+ * Models not listed here use AI_CONTEXT_WINDOW
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  // OpenAI
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+
+  // Anthropic
+  'claude-sonnet-4-5': 200000,
+  'claude-haiku-4-5': 200000,
+
+  // Google
+  'gemini-2.5-pro': 1048576,
+  'gemini-2.5-flash': 1048576,
+};
+
+/**
+ * Rough tokenizer characteristics per provider
+ * Local models use unknown tokenizers, so they are estimated conservatively.
+ */
+const TOKENIZER_PROFILES: Record<AIProvider, { charsPerToken: number; messageOverhead: number }> = {
+  openai: { charsPerToken: 4, messageOverhead: 4 },
+  anthropic: { charsPerToken: 3.5, messageOverhead: 5 },
+  google: { charsPerToken: 4, messageOverhead: 5 },
+  local: { charsPerToken: 3, messageOverhead: 6 },
+};
+
+/**
+ * Get a model's context window in tokens
+ */
+export function getContextWindow(
+  model: LanguageModel | string,
+  provider: AIProvider = getAIProvider()
+): number {
+  const modelId = typeof model === 'string' ? model : getModelId(model);
+
+  if (provider !== 'local' && MODEL_CONTEXT_WINDOWS[modelId]) {
+    return MODEL_CONTEXT_WINDOWS[modelId];
+  }
+
+  return parseNumber(process.env.AI_CONTEXT_WINDOW, 8192);
+}
+
+/**
+ * Estimate the prompt tokens of one message for a provider's models
+ */
+export function estimateMessageTokens(
+  message: ContextMessage,
+  provider: AIProvider = getAIProvider()
+): number {
+  const profile = TOKENIZER_PROFILES[provider] ?? TOKENIZER_PROFILES.openai;
+  return Math.ceil(message.content.length / profile.charsPerToken) + profile.messageOverhead;
+}
+
+/**
+ * Estimate the prompt tokens of a conversation, including the system prompt
+ */
+export function estimateContextTokens(
+  messages: ContextMessage[],
+  systemPrompt?: string,
+  provider: AIProvider = getAIProvider()
+): number {
+  const all = systemPrompt
+    ? [{ role: 'system' as const, content: systemPrompt }, ...messages]
+    : messages;
+  return all.reduce((sum, message) => sum + estimateMessageTokens(message, provider), 0);
+}
+
+/**
+ * Prompt token budget: the context window minus the reply, capped by AI_CONTEXT_MAX_TOKENS
+ */
+export function getContextBudget(contextWindow: number, maxOutputTokens = 0): number {
+  const cap = parseNumber(process.env.AI_CONTEXT_MAX_TOKENS, 16000);
+  return Math.max(0, Math.min(cap, contextWindow - maxOutputTokens));
+}
+
+// =============================================================================
+// Context manager
+// =============================================================================
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function fingerprint(messages: ContextMessage[]): string {
+  const hash = createHash('sha256');
+  for (const message of messages) {
+    hash.update(`${message.role}\u0000${message.content}\u0001`);
+  }
+  return hash.digest('hex');
+}
+
+export class ContextManager {
+  constructor(private summaries: SummaryStore = new MemorySummaryStore()) {}
+
+  /**
+   * Fit a conversation into the model's context window
+   *
+   * Recent turns are kept newest-first until the budget (minus the summary
+   * reservation) is used up; the kept part always starts at a user turn and
+   * always includes the latest message. Everything older is summarized.
+   */
+  async fit<T extends ContextMessage>(
+    messages: T[],
+    options: FitContextOptions
+  ): Promise<FitContextResult<T>> {
+    const provider = options.provider ?? getAIProvider();
+    const contextWindow = options.contextWindow ?? getContextWindow(options.model, provider);
+    const budget = getContextBudget(contextWindow, options.maxOutputTokens);
+    const estimate = (list: ContextMessage[]) =>
+      estimateContextTokens(list, options.systemPrompt, provider);
+
+    const totalTokens = estimate(messages);
+    if (totalTokens <= budget) {
+      return {
+        messages,
+        metadata: {
+          truncated: false,
+          summarized: false,
+          omittedMessages: 0,
+          keptMessages: messages.length,
+          estimatedTokens: totalTokens,
+          budget,
+        },
+      };
+    }
+
+    // System messages are instructions, not conversation - always keep them
+    const pinned = messages.filter((m) => m.role === 'system');
+    const conversation = messages.filter((m) => m.role !== 'system');
+
+    const summaryReserve = parseNumber(process.env.AI_CONTEXT_SUMMARY_TOKENS, 500);
+    let available = budget - summaryReserve - estimate(pinned);
+    let start = conversation.length;
+
+    while (start > 0) {
+      const cost = estimateMessageTokens(conversation[start - 1], provider);
+      if (cost > available && start < conversation.length) {
+        break;
+      }
+      available -= cost;
+      start -= 1;
+    }
+
+    // Don't open the kept part mid-turn with a reply or tool result
+    while (start < conversation.length - 1 && conversation[start].role !== 'user') {
+      start += 1;
+    }
+
+    const older = conversation.slice(0, start);
+    const recent = conversation.slice(start);
+
+    let summary: string | null = null;
+    if (older.length > 0 && options.summarize) {
+      try {
+        summary =
+          (await this.summarizeRolling(older, options.summarize, options.conversationKey)) || null;
+      } catch (error) {
+        // Dropping old turns beats failing the request
+        console.warn('[AI Context] Summarization failed, dropping older messages:', error);
+      }
+    }
+
+    const fitted: Array<T | ContextMessage> = [
+      ...pinned,
+      ...(summary ? [{ role: 'system' as const, content: `${SUMMARY_PREFIX}\n${summary}` }] : []),
+      ...recent,
+    ];
+
+    return {
+      messages: fitted,
+      metadata: {
+        truncated: older.length > 0,
+        summarized: summary !== null,
+        omittedMessages: older.length,
+        keptMessages: pinned.length + recent.length,
+        estimatedTokens: estimate(fitted),
+        budget,
+      },
+    };
+  }
+
+  /**
+   * Summarize older messages, extending the cached summary when it covers a prefix of them
+   */
+  private async summarizeRolling(
+    older: ContextMessage[],
+    summarize: Summarizer,
+    conversationKey?: string
+  ): Promise<string> {
+    const cached = conversationKey ? await this.summaries.get(conversationKey) : undefined;
+    const reusable =
+      cached &&
+      cached.coveredCount <= older.length &&
+      fingerprint(older.slice(0, cached.coveredCount)) === cached.fingerprint;
+
+    if (reusable && cached.coveredCount === older.length) {
+      return cached.summary;
+    }
+
+    const summary = reusable
+      ? await summarize(older.slice(cached.coveredCount), cached.summary)
+      : await summarize(older);
+
+    if (conversationKey) {
+      await this.summaries.set(conversationKey, {
+        summary,
+        coveredCount: older.length,
+        fingerprint: fingerprint(older),
+      });
+    }
+
+    return summary;
+  }
+}
+
+// Singleton shared by all AI routes
+export const contextManager = new ContextManager();
+
+// =============================================================================
+// Summarizer
+// =============================================================================
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Write a concise summary that preserves facts, names, numbers, decisions, open questions and the user's preferences.
+Write in the third person, as plain prose without headings. Never invent details.`;
+
+/**
+ * Summarizer backed by the completion model (with failover), billed to the user
+ */
+export function createCompletionSummarizer(userId: string): Summarizer {
+  return async (messages, previousSummary) => {
+    const transcript = messages.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n');
+    const prompt = previousSummary
+      ? `Current summary:\n${previousSummary}\n\nExtend the summary with these newer messages:\n\n${transcript}`
+      : `Summarize these messages:\n\n${transcript}`;
+
+    const {
+      result: { summary, modelId, usage },
+    } = await runWithFailover(getFallbackChain('completion'), async (config, abortSignal) => {
+      const result = await generateText({
+        model: config.completion,
+        system: SUMMARY_SYSTEM_PROMPT,
+        prompt,
+        temperature: 0,
+        abortSignal,
+        // Retries are handled by runWithFailover
+        maxRetries: 0,
+      });
+      return {
+        summary: result.text.trim(),
+        modelId: getModelId(config.completion),
+        usage: result.usage,
+      };
+    });
+
+    await usageLedger.recordTokens(userId, modelId, 'completion', usage);
+
+    return summary;
+  };
+}
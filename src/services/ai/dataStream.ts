@@ -0,0 +1,243 @@
+/**
+ * Chat Data Stream Encoder
+ *
+ * Turns the AI SDK's full stream (text, tool calls and results across several
+ * steps) into the line protocol in src/features/ai/schemas/dataStream.ts, so the
+ * client can render tool activity while the agent loop runs.
+ *
+ * With an output moderator, text is checked a sentence at a time before it is
+ * sent; a blocked reply ends the stream with the `content-filter` finish reason.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import type { StreamMetadata } from '@/features/ai/schemas';
+import { formatDataStreamPart } from '@/features/ai/schemas/dataStream';
+import type { FinishReason, LanguageModelUsage, TextStreamPart, ToolSet } from 'ai';
+import type { OutputModerator } from './moderation';
+
+export interface DataStreamOptions {
+  /** Sent as the first part (model, context) and merged into the final metadata part */
+  metadata?: StreamMetadata;
+  /** Step limit the request ran with, to report when the loop was cut short */
+  maxSteps?: number;
+  /** Message shown to the client instead of raw provider errors */
+  getErrorMessage?: (error: unknown) => string;
+  /** Checks text before it is sent */
+  moderator?: OutputModerator;
+  /** Called when the moderator blocks the reply, e.g. to stop the model */
+  onContentFiltered?: () => void;
+}
+
+/**
+ * Map AI SDK finish reasons to the names used in StreamMetadata
+ */
+export function toMetadataFinishReason(finishReason: FinishReason): StreamMetadata['finishReason'] {
+  switch (finishReason) {
+    case 'stop':
+    case 'length':
+      return finishReason;
+    case 'content-filter':
+      return 'content_filter';
+    case 'tool-calls':
+      return 'tool_calls';
+    default:
+      return undefined;
+  }
+}
+
+const DATA_STREAM_HEADERS = {
+  'Content-Type': 'text/plain; charset=utf-8',
+  'X-AI-Data-Stream': 'v1',
+};
+
+function toUsage(usage: LanguageModelUsage | undefined) {
+  return usage ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } : undefined;
+}
+
+function defaultErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+/**
+ * Final parts for a reply stopped by content moderation
+ */
+export function* encodeContentFiltered(metadata: StreamMetadata = {}, steps = 0) {
+  yield formatDataStreamPart('metadata', { ...metadata, finishReason: 'content_filter' });
+  yield formatDataStreamPart('finish-message', {
+    finishReason: 'content-filter',
+    steps,
+    maxStepsReached: false,
+  });
+}
+
+/**
+ * Encode an AI SDK full stream as protocol lines
+ */
+export async function* encodeDataStream(
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>,
+  options: DataStreamOptions = {}
+): AsyncGenerator<string> {
+  const {
+    metadata,
+    maxSteps,
+    getErrorMessage = defaultErrorMessage,
+    moderator,
+    onContentFiltered,
+  } = options;
+  let step = 0;
+
+  const moderationMetadata = () =>
+    moderator && moderator.metadata.action !== 'allow'
+      ? { moderation: moderator.metadata }
+      : undefined;
+
+  if (metadata) {
+    yield formatDataStreamPart('metadata', metadata);
+  }
+
+  for await (const part of fullStream) {
+    // Release held-back text before tool calls and the end of each step
+    const releasesText =
+      part.type === 'tool-input-start' || part.type === 'tool-call' || part.type === 'finish-step';
+    let text = '';
+    if (part.type === 'text-delta') {
+      text = moderator ? await moderator.push(part.text) : part.text;
+    } else if (moderator && releasesText) {
+      text = await moderator.flush();
+    }
+
+    if (text) {
+      yield formatDataStreamPart('text', text);
+    }
+    if (moderator?.blocked) {
+      onContentFiltered?.();
+      yield* encodeContentFiltered({ ...metadata, ...moderationMetadata() }, step);
+      return;
+    }
+
+    switch (part.type) {
+      case 'start-step':
+        yield formatDataStreamPart('start-step', { step });
+        break;
+
+      case 'tool-input-start':
+        yield formatDataStreamPart('tool-call-start', {
+          toolCallId: part.id,
+          toolName: part.toolName,
+        });
+        break;
+
+      case 'tool-input-delta':
+        yield formatDataStreamPart('tool-call-delta', {
+          toolCallId: part.id,
+          argsTextDelta: part.delta,
+        });
+        break;
+
+      case 'tool-call':
+        yield formatDataStreamPart('tool-call', {
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          args: part.input,
+        });
+        break;
+
+      case 'tool-result':
+        yield formatDataStreamPart('tool-result', {
+          toolCallId: part.toolCallId,
+          result: part.output,
+        });
+        break;
+
+      case 'tool-error':
+        yield formatDataStreamPart('tool-result', {
+          toolCallId: part.toolCallId,
+          result: { success: false, error: getErrorMessage(part.error) },
+          isError: true,
+        });
+        break;
+
+      case 'finish-step':
+        yield formatDataStreamPart('finish-step', {
+          step,
+          finishReason: part.finishReason,
+          usage: toUsage(part.usage),
+        });
+        step++;
+        break;
+
+      case 'finish': {
+        const finishReason = toMetadataFinishReason(part.finishReason);
+        yield formatDataStreamPart('metadata', {
+          ...metadata,
+          ...moderationMetadata(),
+          tokensUsed: part.totalUsage?.totalTokens,
+          finishReason,
+        });
+        yield formatDataStreamPart('finish-message', {
+          finishReason: part.finishReason,
+          steps: step,
+          // The loop stops with pending tool calls only when it hit the step limit
+          maxStepsReached:
+            part.finishReason === 'tool-calls' && maxSteps !== undefined && step >= maxSteps,
+          usage: toUsage(part.totalUsage),
+        });
+        break;
+      }
+
+      case 'error':
+        yield formatDataStreamPart('error', getErrorMessage(part.error));
+        break;
+    }
+  }
+}
+
+/**
+ * Create a streaming Response in the chat data stream protocol
+ */
+export function createDataStreamResponse(
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>,
+  options: DataStreamOptions & { headers?: Record<string, string> } = {}
+): Response {
+  const { headers, ...streamOptions } = options;
+  const encoder = new TextEncoder();
+  const lines = encodeDataStream(fullStream, streamOptions);
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        controller.enqueue(
+          encoder.encode(
+            formatDataStreamPart('error', (options.getErrorMessage ?? defaultErrorMessage)(error))
+          )
+        );
+        controller.close();
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+
+  return new Response(body, { headers: { ...DATA_STREAM_HEADERS, ...headers } });
+}
+
+/**
+ * Data stream Response for a request blocked before reaching the model
+ */
+export function createContentFilteredResponse(
+  metadata: StreamMetadata,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response([...encodeContentFiltered(metadata)].join(''), {
+    headers: { ...DATA_STREAM_HEADERS, ...headers },
+  });
+}
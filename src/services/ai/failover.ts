@@ -0,0 +1,372 @@
+/**
+ * AI Provider Failover
+ *
+ * Runs a model call against an ordered chain of providers:
+ * - transient errors (timeouts, 408/409/429/5xx, network) are retried with exponential backoff
+ * - any remaining error falls through to the next provider in the chain
+ * - a per-provider circuit breaker skips providers that keep failing
+ *
+ * Configuration (environment variables):
+ * - AI_CHAT_FALLBACK / AI_COMPLETION_FALLBACK: comma-separated providers tried after AI_PROVIDER
+ * - AI_MAX_RETRIES (default 2), AI_TIMEOUT_MS (default 30000)
+ * - AI_CIRCUIT_THRESHOLD (default 5 failures), AI_CIRCUIT_COOLDOWN_MS (default 60000)
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { APICallError } from 'ai';
+import { type AIProvider, getAIProvider, getProvider, validateProviderKeys } from './provider';
+
+export type AIRoute = 'chat' | 'completion';
+
+export interface RetryPolicy {
+  /** Retries per provider after the first attempt */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on each retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures before the circuit opens */
+  failureThreshold: number;
+  /** How long an open circuit skips the provider before a trial request */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type FailoverEvent =
+  | { type: 'attempt'; provider: AIProvider; attempt: number }
+  | { type: 'retry'; provider: AIProvider; attempt: number; delayMs: number; error: string }
+  | { type: 'failed'; provider: AIProvider; attempt: number; error: string; transient: boolean }
+  | { type: 'circuit-open'; provider: AIProvider }
+  | { type: 'skipped'; provider: AIProvider }
+  | { type: 'fallback'; from: AIProvider; to: AIProvider }
+  | { type: 'success'; provider: AIProvider; attempt: number };
+
+export interface FailoverOptions {
+  policy?: Partial<RetryPolicy>;
+  breaker?: CircuitBreaker;
+  /** Observe attempts, retries and fallbacks (e.g. as Sentry breadcrumbs) */
+  onEvent?: (event: FailoverEvent) => void;
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  /** Provider that served the request */
+  provider: AIProvider;
+  /** Providers tried before it, in order */
+  failedProviders: AIProvider[];
+}
+
+type ProviderConfig = ReturnType<typeof getProvider>;
+
+/**
+ * Thrown when an attempt exceeds the policy timeout
+ */
+export class AITimeoutError extends Error {
+  constructor(
+    public provider: AIProvider,
+    public timeoutMs: number
+  ) {
+    super(`${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'AITimeoutError';
+  }
+}
+
+/**
+ * Thrown when every provider in the chain failed or was skipped
+ */
+export class AIFailoverError extends Error {
+  constructor(
+    message: string,
+    public errors: Array<{ provider: AIProvider; error: unknown }>,
+    public skipped: AIProvider[]
+  ) {
+    super(message);
+    this.name = 'AIFailoverError';
+  }
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: parseNumber(process.env.AI_MAX_RETRIES, 2),
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: parseNumber(process.env.AI_TIMEOUT_MS, 30000),
+};
+
+// =============================================================================
+// Circuit breaker
+// =============================================================================
+
+/**
+ * Per-provider circuit breaker
+ *
+ * closed → open after `failureThreshold` consecutive transient failures;
+ * open → half-open once `cooldownMs` has passed, letting one trial request through;
+ * half-open → closed on success, open again on failure.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<AIProvider, { failures: number; openedAt: number | null }>();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      cooldownMs: options.cooldownMs ?? 60000,
+    };
+  }
+
+  getState(provider: AIProvider): CircuitState {
+    const circuit = this.circuits.get(provider);
+    if (!circuit || circuit.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - circuit.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent to the provider
+   */
+  canRequest(provider: AIProvider): boolean {
+    return this.getState(provider) !== 'open';
+  }
+
+  recordSuccess(provider: AIProvider): void {
+    this.circuits.delete(provider);
+  }
+
+  /**
+   * Record a transient failure
+   * Returns true if this failure opened the circuit
+   */
+  recordFailure(provider: AIProvider): boolean {
+    const wasHalfOpen = this.getState(provider) === 'half-open';
+    const circuit = this.circuits.get(provider) ?? { failures: 0, openedAt: null };
+    circuit.failures += 1;
+
+    const shouldOpen = wasHalfOpen || circuit.failures >= this.options.failureThreshold;
+    if (shouldOpen) {
+      circuit.openedAt = Date.now();
+    }
+
+    this.circuits.set(provider, circuit);
+    return shouldOpen;
+  }
+
+  reset(provider?: AIProvider): void {
+    if (provider) {
+      this.circuits.delete(provider);
+    } else {
+      this.circuits.clear();
+    }
+  }
+}
+
+// Singleton shared by all AI routes
+export const aiCircuitBreaker = new CircuitBreaker({
+  failureThreshold: parseNumber(process.env.AI_CIRCUIT_THRESHOLD, 5),
+  cooldownMs: parseNumber(process.env.AI_CIRCUIT_COOLDOWN_MS, 60000),
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether an error is worth retrying on the same provider
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof AITimeoutError) {
+    return true;
+  }
+
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+
+  if (error instanceof Error) {
+    // Aborted/timed out fetches and network failures ("fetch failed", ECONNRESET, ...)
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return true;
+    }
+    return error instanceof TypeError && /fetch|network|socket|ECONN/i.test(error.message);
+  }
+
+  return false;
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (1-based)
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+/**
+ * Ordered provider chain for a route: AI_PROVIDER first, then the configured
+ * fallbacks. Providers without valid keys are left out.
+ */
+export function getFallbackChain(route: AIRoute): AIProvider[] {
+  const primary = getAIProvider();
+  const configured =
+    route === 'chat' ? process.env.AI_CHAT_FALLBACK : process.env.AI_COMPLETION_FALLBACK;
+  const fallbacks = (configured ?? '')
+    .split(',')
+    .map((name: string) => name.trim())
+    .filter(Boolean) as AIProvider[];
+
+  return [primary, ...fallbacks].filter(
+    (provider, index, chain) =>
+      chain.indexOf(provider) === index &&
+      (provider === primary || validateProviderKeys(provider).valid)
+  );
+}
+
+/**
+ * Wait for a streamed response to produce its first part
+ *
+ * streamText reports provider errors inside the stream rather than throwing,
+ * so a route must see the stream start before it can commit to a provider.
+ * Reads a separate tee of the stream; the response still gets every part.
+ */
+export async function waitForStreamStart(
+  fullStream: AsyncIterable<{ type: string; error?: unknown }>
+): Promise<void> {
+  for await (const part of fullStream) {
+    if (part.type === 'error') {
+      throw part.error;
+    }
+    if (part.type !== 'start' && part.type !== 'start-step') {
+      return;
+    }
+  }
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run one attempt with a timeout
+ * The signal is aborted when the timeout fires so the model call stops too
+ */
+async function runAttempt<T>(
+  provider: AIProvider,
+  config: ProviderConfig,
+  timeoutMs: number,
+  execute: (config: ProviderConfig, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AITimeoutError(provider, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([execute(config, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// =============================================================================
+// Failover
+// =============================================================================
+
+/**
+ * Run a model call with retries, fallback providers and circuit breaking
+ *
+ * @param providers - Ordered chain, usually from getFallbackChain()
+ * @param execute - Makes the model call with the given provider's config.
+ *   Pass `signal` to the AI SDK as `abortSignal` so timed out calls are cancelled.
+ */
+export async function runWithFailover<T>(
+  providers: AIProvider[],
+  execute: (config: ProviderConfig, signal: AbortSignal, provider: AIProvider) => Promise<T>,
+  options: FailoverOptions = {}
+): Promise<FailoverResult<T>> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const breaker = options.breaker ?? aiCircuitBreaker;
+  const sleep = options.sleep ?? defaultSleep;
+  const emit = options.onEvent ?? (() => undefined);
+
+  const errors: Array<{ provider: AIProvider; error: unknown }> = [];
+  const skipped: AIProvider[] = [];
+  const failedProviders: AIProvider[] = [];
+  let previous: AIProvider | null = null;
+
+  for (const provider of providers) {
+    if (!breaker.canRequest(provider)) {
+      skipped.push(provider);
+      emit({ type: 'skipped', provider });
+      continue;
+    }
+
+    if (previous) {
+      emit({ type: 'fallback', from: previous, to: provider });
+    }
+    previous = provider;
+
+    const config = getProvider(provider);
+
+    for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+      emit({ type: 'attempt', provider, attempt });
+
+      try {
+        const result = await runAttempt(provider, config, policy.timeoutMs, (cfg, signal) =>
+          execute(cfg, signal, provider)
+        );
+        breaker.recordSuccess(provider);
+        emit({ type: 'success', provider, attempt });
+        return { result, provider, failedProviders };
+      } catch (error) {
+        const transient = isTransientError(error);
+        emit({ type: 'failed', provider, attempt, error: describeError(error), transient });
+
+        if (transient && breaker.recordFailure(provider)) {
+          emit({ type: 'circuit-open', provider });
+          errors.push({ provider, error });
+          break;
+        }
+
+        if (!transient || attempt > policy.maxRetries) {
+          errors.push({ provider, error });
+          break;
+        }
+
+        const delayMs = getBackoffDelay(attempt, policy);
+        emit({ type: 'retry', provider, attempt, delayMs, error: describeError(error) });
+        await sleep(delayMs);
+      }
+    }
+
+    failedProviders.push(provider);
+  }
+
+  const lastError = errors[errors.length - 1]?.error;
+  const message =
+    errors.length > 0
+      ? `All AI providers failed (${errors.map((e) => e.provider).join(', ')}): ${describeError(lastError)}`
+      : `All AI providers are temporarily unavailable (${skipped.join(', ')})`;
+
+  throw new AIFailoverError(message, errors, skipped);
+}
@@ -0,0 +1,623 @@
+/**
+ * AI Image Generation Jobs (server-side)
+ *
+ * Image generation runs as a background job: POST /api/ai/image queues a job and
+ * returns its id, clients poll GET /api/ai/image-jobs/:id and may cancel it.
+ *
+ * Images are requested as base64 and saved to our own storage, so their URLs
+ * stay valid after the provider's temporary URLs expire:
+ * - LocalImageStorage: files on disk, served by GET /api/ai/image-files/... to
+ *   their owner, or with a signed URL (see withSignedUrls)
+ * - SupabaseImageStorage: a public Supabase Storage bucket
+ *
+ * Each image gets a PNG thumbnail (./thumbnails.ts). Finished jobs form the
+ * user's gallery (GET /api/ai/images).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import {
+  FINISHED_IMAGE_JOB_STATUSES,
+  type ImageJob,
+  type ImageRequest,
+  type ModerationMetadata,
+  type StoredImage,
+} from '@/features/ai/schemas';
+import { logError } from '@/lib/sentry';
+import { type SupabaseClient, createClient } from '@supabase/supabase-js';
+import { JsonFileWriter } from './jsonFileWriter';
+import { THUMBNAIL_SIZE, createPngThumbnail } from './thumbnails';
+
+/** A job as kept on the server, with its owner */
+export interface ImageJobRecord extends ImageJob {
+  userId: string;
+}
+
+/** An image returned by the provider */
+export interface GeneratedImage {
+  /** Base64 encoded image data */
+  b64Json: string;
+  revisedPrompt?: string;
+}
+
+/**
+ * Calls the image model; must stop when `abortSignal` fires
+ */
+export type ImageGenerator = (
+  request: ImageRequest,
+  abortSignal: AbortSignal
+) => Promise<GeneratedImage[]>;
+
+// =============================================================================
+// Job Stores
+// =============================================================================
+
+export interface ImageJobStore {
+  get(id: string): Promise<ImageJobRecord | undefined>;
+  put(job: ImageJobRecord): Promise<void>;
+  /** All jobs of a user, newest first */
+  listByUser(userId: string): Promise<ImageJobRecord[]>;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryImageJobStore implements ImageJobStore {
+  protected jobs = new Map<string, ImageJobRecord>();
+
+  async get(id: string) {
+    return this.jobs.get(id);
+  }
+
+  async put(job: ImageJobRecord): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async listByUser(userId: string) {
+    return [...this.jobs.values()]
+      .filter((job) => job.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
+
+/**
+ * JSON file store
+ * Loads the file once and rewrites it (tmp + rename) after each change.
+ * Jobs that were still running when the server stopped are marked failed on load.
+ */
+export class FileImageJobStore extends MemoryImageJobStore {
+  private loaded: Promise<void> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(private filePath: string) {
+    super();
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  override async get(id: string) {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async put(job: ImageJobRecord): Promise<void> {
+    await this.load();
+    await super.put(job);
+    await this.persist();
+  }
+
+  override async listByUser(userId: string) {
+    await this.load();
+    return super.listByUser(userId);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+        for (const job of (data.jobs ?? []) as ImageJobRecord[]) {
+          const interrupted = !FINISHED_IMAGE_JOB_STATUSES.includes(job.status);
+          this.jobs.set(
+            job.id,
+            interrupted
+              ? { ...job, status: 'failed', error: 'Interrupted by a server restart' }
+              : job
+          );
+        }
+      } catch {
+        // Missing or unreadable file: start empty
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({ jobs: [...this.jobs.values()] });
+
+    return this.writer.write(snapshot);
+  }
+}
+
+// =============================================================================
+// Image Storage
+// =============================================================================
+
+export interface ImageStorage {
+  /** Save a file and return its stable URL */
+  save(path: string, data: Uint8Array, contentType: string): Promise<string>;
+  delete(paths: string[]): Promise<void>;
+  /** Read a stored file, or null if the path is invalid or missing */
+  read(path: string): Promise<{ data: Uint8Array; contentType: string } | null>;
+  /** A file URL readable without auth until `expiresAt`, for storage that checks access */
+  signUrl?(url: string, expiresAt: number): string;
+}
+
+/** Also covers chat attachments (./attachments.ts), which share this storage */
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  pdf: 'application/pdf',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+};
+
+/** Only plain file names: no separators, no leading dots */
+const SAFE_SEGMENT = /^[\w-][\w.-]*$/;
+
+/**
+ * Local filesystem storage
+ * Files are served by GET /api/ai/image-files/<path> (see `read`) to their owner,
+ * or to anyone with a URL signed with `secret` (random per process by default).
+ */
+export class LocalImageStorage implements ImageStorage {
+  private root: string;
+
+  constructor(
+    directory: string,
+    private baseUrl = '/api/ai/image-files',
+    private secret = randomBytes(32).toString('hex')
+  ) {
+    this.root = resolve(directory);
+  }
+
+  async save(path: string, data: Uint8Array): Promise<string> {
+    const filePath = this.resolvePath(path);
+    if (!filePath) {
+      throw new Error(`Invalid image path: ${path}`);
+    }
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return `${this.baseUrl}/${path}`;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      const filePath = this.resolvePath(path);
+      if (filePath) await rm(filePath, { force: true });
+    }
+  }
+
+  /**
+   * Read a stored file, or null if the path is invalid or missing
+   */
+  async read(path: string): Promise<{ data: Uint8Array; contentType: string } | null> {
+    const filePath = this.resolvePath(path);
+    if (!filePath) return null;
+
+    try {
+      const data = await readFile(filePath);
+      const extension = path.split('.').pop()?.toLowerCase() ?? '';
+      return { data, contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream' };
+    } catch {
+      return null;
+    }
+  }
+
+  signUrl(url: string, expiresAt: number): string {
+    if (!url.startsWith(`${this.baseUrl}/`)) return url;
+
+    const expires = Math.floor(expiresAt / 1000);
+    const path = url.slice(this.baseUrl.length + 1);
+    return `${url}?expires=${expires}&signature=${this.signature(path, expires)}`;
+  }
+
+  /**
+   * Whether `params` (of a URL from signUrl) sign `path` and haven't expired
+   */
+  verifySignature(path: string, params: URLSearchParams, now = Date.now()): boolean {
+    const expires = Number(params.get('expires'));
+    if (!Number.isInteger(expires) || expires * 1000 <= now) return false;
+
+    const expected = Buffer.from(this.signature(path, expires));
+    const actual = Buffer.from(params.get('signature') ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private signature(path: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${path}\n${expires}`).digest('base64url');
+  }
+
+  private resolvePath(path: string): string | null {
+    const segments = path.split('/');
+    if (!segments.every((segment) => SAFE_SEGMENT.test(segment))) return null;
+
+    const filePath = resolve(this.root, ...segments);
+    return filePath.startsWith(this.root + sep) ? filePath : null;
+  }
+}
+
+/**
+ * Supabase Storage (public bucket)
+ * Uses the service role key, so it must only run on the server.
+ */
+export class SupabaseImageStorage implements ImageStorage {
+  private client: SupabaseClient;
+
+  constructor(
+    url: string,
+    serviceRoleKey: string,
+    private bucket: string
+  ) {
+    this.client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  async save(path: string, data: Uint8Array, contentType: string): Promise<string> {
+    const bucket = this.client.storage.from(this.bucket);
+    const { error } = await bucket.upload(path, data, { contentType, upsert: false });
+    if (error) throw error;
+    return bucket.getPublicUrl(path).data.publicUrl;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    const { error } = await this.client.storage.from(this.bucket).remove(paths);
+    if (error) throw error;
+  }
+
+  async read(path: string): Promise<{ data: Uint8Array; contentType: string } | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).download(path);
+    if (error || !data) return null;
+    return {
+      data: new Uint8Array(await data.arrayBuffer()),
+      contentType: data.type || 'application/octet-stream',
+    };
+  }
+}
+
+// =============================================================================
+// Jobs
+// =============================================================================
+
+/**
+ * Thrown when a user already has the maximum number of unfinished jobs
+ */
+export class ImageJobLimitError extends Error {
+  constructor(public limit: number) {
+    super(`You can run at most ${limit} image generations at a time`);
+    this.name = 'ImageJobLimitError';
+  }
+}
+
+export interface ImageJobServiceOptions {
+  /** Unfinished jobs allowed per user (default: 2) */
+  maxActiveJobs?: number;
+  /** Longest side of thumbnails in pixels */
+  thumbnailSize?: number;
+}
+
+export interface CreateImageJobOptions {
+  moderation?: ModerationMetadata;
+  /** Called with the job once it has finished (succeeded, failed or cancelled) */
+  onFinished?: (job: ImageJobRecord) => Promise<void> | void;
+}
+
+function isFinished(job: ImageJob): boolean {
+  return FINISHED_IMAGE_JOB_STATUSES.includes(job.status);
+}
+
+/** Keep user ids usable as a single path segment */
+export function storageFolder(userId: string): string {
+  return userId.replace(/[^\w-]/g, '_') || 'anonymous';
+}
+
+/**
+ * Whether a stored file (<folder>/<file> or attachments/<folder>/<file>) is the user's
+ */
+export function isStorageOwner(path: string, userId: string): boolean {
+  const segments = path.split('/');
+  const folder = segments[0] === 'attachments' ? segments[1] : segments[0];
+  return folder === storageFolder(userId);
+}
+
+/** How long signed file URLs stay readable */
+const SIGNED_URL_TTL_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * An image or attachment with the URLs clients get: signed for a day when the
+ * storage checks access. Expiry is rounded up to the hour, so responses within
+ * an hour repeat the same URLs and clients keep their cached files.
+ */
+export function withSignedUrls<T extends { url: string; thumbnailUrl?: string }>(
+  item: T,
+  storage: ImageStorage = imageStorage,
+  now = Date.now()
+): T {
+  if (!storage.signUrl) return item;
+
+  const expiresAt = Math.ceil((now + SIGNED_URL_TTL_MS) / HOUR_MS) * HOUR_MS;
+  return {
+    ...item,
+    url: storage.signUrl(item.url, expiresAt),
+    ...(item.thumbnailUrl && { thumbnailUrl: storage.signUrl(item.thumbnailUrl, expiresAt) }),
+  };
+}
+
+/**
+ * Public view of a job (without the owner, with signed image URLs)
+ */
+export function toImageJob({ userId: _userId, ...job }: ImageJobRecord): ImageJob {
+  return { ...job, images: job.images.map((image) => withSignedUrls(image)) };
+}
+
+export class ImageJobService {
+  private maxActiveJobs: number;
+  private thumbnailSize: number;
+  /** Abort controllers of jobs running in this process */
+  private running = new Map<string, AbortController>();
+  /** Last job creation of each user; creations wait for it, so limit checks can't race */
+  private creating = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: ImageJobStore,
+    private storage: ImageStorage,
+    options: ImageJobServiceOptions = {}
+  ) {
+    this.maxActiveJobs = options.maxActiveJobs ?? 2;
+    this.thumbnailSize = options.thumbnailSize ?? THUMBNAIL_SIZE;
+  }
+
+  /**
+   * Queue a job and start it in the background
+   * @throws ImageJobLimitError if the user has too many unfinished jobs
+   */
+  async createJob(
+    userId: string,
+    request: ImageRequest,
+    generate: ImageGenerator,
+    options: CreateImageJobOptions = {}
+  ): Promise<ImageJobRecord> {
+    const { moderation, onFinished } = options;
+    const job = await this.serialize(userId, async () => {
+      const active = (await this.store.listByUser(userId)).filter((job) => !isFinished(job));
+      if (active.length >= this.maxActiveJobs) {
+        throw new ImageJobLimitError(this.maxActiveJobs);
+      }
+
+      const now = Date.now();
+      const queued: ImageJobRecord = {
+        id: crypto.randomUUID(),
+        userId,
+        status: 'queued',
+        ...request,
+        images: [],
+        ...(moderation && { moderation }),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.put(queued);
+      return queued;
+    });
+
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    this.run(job, generate, controller.signal)
+      .finally(() => this.running.delete(job.id))
+      .then(() => onFinished && this.notifyFinished(job, onFinished));
+
+    return job;
+  }
+
+  /**
+   * A job of this user, or undefined if it does not exist or belongs to someone else
+   */
+  async getJob(userId: string, jobId: string): Promise<ImageJobRecord | undefined> {
+    const job = await this.store.get(jobId);
+    return job?.userId === userId ? job : undefined;
+  }
+
+  /**
+   * Cancel an unfinished job; finished jobs are returned unchanged
+   */
+  async cancelJob(userId: string, jobId: string): Promise<ImageJobRecord | undefined> {
+    const job = await this.getJob(userId, jobId);
+    if (!job || isFinished(job)) return job;
+
+    const cancelled = await this.update(jobId, { status: 'cancelled' });
+    this.running.get(jobId)?.abort();
+    return cancelled ?? job;
+  }
+
+  /**
+   * The user's generated images, newest first
+   * @param before only images created before this time (ms), for paging
+   */
+  async listImages(userId: string, options: { limit?: number; before?: number } = {}) {
+    const { limit = 50, before = Number.POSITIVE_INFINITY } = options;
+
+    return (await this.store.listByUser(userId))
+      .filter((job) => job.status === 'succeeded')
+      .flatMap((job) => job.images)
+      .filter((image) => image.createdAt < before)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Run `task` after the user's earlier creations have finished
+   */
+  private serialize<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.creating.get(userId) ?? Promise.resolve()).then(task, task);
+    const last = run.catch(() => undefined);
+    this.creating.set(userId, last);
+    last.then(() => {
+      if (this.creating.get(userId) === last) this.creating.delete(userId);
+    });
+    return run;
+  }
+
+  /**
+   * Apply a change unless the job has finished meanwhile (e.g. was cancelled)
+   */
+  private async update(
+    jobId: string,
+    changes: Partial<ImageJobRecord>
+  ): Promise<ImageJobRecord | undefined> {
+    const current = await this.store.get(jobId);
+    if (!current || isFinished(current)) return undefined;
+
+    const job = { ...current, ...changes, updatedAt: Date.now() };
+    await this.store.put(job);
+    return job;
+  }
+
+  private async run(job: ImageJobRecord, generate: ImageGenerator, signal: AbortSignal) {
+    const saved: string[] = [];
+
+    try {
+      if (!(await this.update(job.id, { status: 'running' }))) return;
+
+      const { prompt, size, quality, style, n } = job;
+      const generated = await generate({ prompt, size, quality, style, n }, signal);
+
+      const images: StoredImage[] = [];
+      for (const image of generated) {
+        signal.throwIfAborted();
+        images.push(await this.saveImage(job, image, saved));
+      }
+
+      if (!(await this.update(job.id, { status: 'succeeded', images }))) {
+        // Cancelled while saving: drop the files
+        await this.storage.delete(saved);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        await this.storage.delete(saved).catch(() => undefined);
+        return;
+      }
+
+      logError(error as Error, { context: 'AI Image Job', jobId: job.id, userId: job.userId });
+      await this.update(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Image generation failed',
+      }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Hand the finished job, with the images it kept, to `onFinished`
+   */
+  private async notifyFinished(
+    job: ImageJobRecord,
+    onFinished: NonNullable<CreateImageJobOptions['onFinished']>
+  ) {
+    try {
+      // Without the stored job, report it as finished without images
+      const finished = await this.store.get(job.id).catch(() => undefined);
+      await onFinished(finished ?? { ...job, status: 'failed', images: [] });
+    } catch (error) {
+      logError(error as Error, { context: 'AI Image Job', jobId: job.id, userId: job.userId });
+    }
+  }
+
+  private async saveImage(
+    job: ImageJobRecord,
+    image: GeneratedImage,
+    saved: string[]
+  ): Promise<StoredImage> {
+    const id = crypto.randomUUID();
+    const folder = storageFolder(job.userId);
+    const data = Buffer.from(image.b64Json, 'base64');
+
+    const path = `${folder}/${id}.png`;
+    const url = await this.storage.save(path, data, 'image/png');
+    saved.push(path);
+
+    let thumbnailUrl = url;
+    const thumbnail = createPngThumbnail(data, this.thumbnailSize);
+    if (thumbnail) {
+      const thumbnailPath = `${folder}/${id}.thumb.png`;
+      thumbnailUrl = await this.storage.save(thumbnailPath, thumbnail, 'image/png');
+      saved.push(thumbnailPath);
+    }
+
+    return {
+      id,
+      jobId: job.id,
+      url,
+      thumbnailUrl,
+      prompt: job.prompt,
+      ...(image.revisedPrompt && { revisedPrompt: image.revisedPrompt }),
+      size: job.size,
+      createdAt: Date.now(),
+    };
+  }
+}
+
+/**
+ * Storage selected by environment variables:
+ * - AI_IMAGE_STORAGE=local (default) | supabase
+ * - AI_IMAGE_DIR=directory for local files (default: .ai-images)
+ * - AI_IMAGE_BUCKET=Supabase bucket (default: ai-images), with SUPABASE_SERVICE_ROLE_KEY
+ * - AI_IMAGE_URL_SECRET=key signing local file URLs (default: random, so links
+ *   stop working on restart and only work on the instance that made them)
+ */
+function createImageStorageFromEnv(): ImageStorage {
+  if (process.env.AI_IMAGE_STORAGE === 'supabase') {
+    const url = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error(
+        'AI_IMAGE_STORAGE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+      );
+    }
+    return new SupabaseImageStorage(
+      url,
+      serviceRoleKey,
+      process.env.AI_IMAGE_BUCKET || 'ai-images'
+    );
+  }
+  return new LocalImageStorage(
+    process.env.AI_IMAGE_DIR || '.ai-images',
+    undefined,
+    process.env.AI_IMAGE_URL_SECRET || undefined
+  );
+}
+
+/**
+ * Job store selected by environment variables:
+ * - AI_IMAGE_JOB_STORE=memory (default) | file
+ * - AI_IMAGE_JOB_FILE=path to the JSON file (default: .ai-image-jobs.json)
+ */
+function createImageJobStoreFromEnv(): ImageJobStore {
+  if (process.env.AI_IMAGE_JOB_STORE === 'file') {
+    return new FileImageJobStore(process.env.AI_IMAGE_JOB_FILE || '.ai-image-jobs.json');
+  }
+  return new MemoryImageJobStore();
+}
+
+// Singleton instances
+export const imageStorage = createImageStorageFromEnv();
+
+export const imageJobService = new ImageJobService(createImageJobStoreFromEnv(), imageStorage, {
+  maxActiveJobs: Number(process.env.AI_IMAGE_MAX_ACTIVE_JOBS) || undefined,
+});
@@ -0,0 +1,33 @@
+/**
+ * JSON File Writer (server-side)
+ *
+ * The file-backed AI stores (threads, response cache, attachments, notes index,
+ * image jobs) keep their data in memory and rewrite one JSON file after each
+ * change. Writes go to a temp file that is renamed over the original, one at a
+ * time, so the file always holds a complete snapshot.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { rename, writeFile } from 'node:fs/promises';
+
+export class JsonFileWriter {
+  /** Settles when the last write has; never rejects, so a failed write doesn't stop later ones */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Replace the file with `snapshot` once earlier writes have finished
+   * Rejects if this write fails.
+   */
+  write(snapshot: string): Promise<void> {
+    const run = this.queue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, snapshot, 'utf8');
+      await rename(tmpPath, this.filePath);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * Notes Search Index (server-side)
+ *
+ * Retrieval for the searchNotes tool. Notes are split into overlapping chunks,
+ * embedded when they are created or updated (app/api/notes), and searched with
+ * hybrid scoring: cosine similarity of embeddings blended with BM25 keyword
+ * scores over the title and text. Without an embedding model (e.g. Anthropic)
+ * search is keyword-only.
+ *
+ * Vectors live in a pluggable VectorStore:
+ * - MemoryVectorStore: in-process, brute-force cosine (tests, development)
+ * - FileVectorStore: the same, persisted to a JSON file
+ * A database-backed store (e.g. pgvector) only needs to implement VectorStore.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { formatNoteCitation } from '@/features/ai/schemas/citations';
+import { embedMany } from 'ai';
+import { JsonFileWriter } from './jsonFileWriter';
+import { getCurrentProvider } from './provider';
+import { usageLedger } from './usage';
+
+export interface IndexedNote {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export interface NoteChunk {
+  /** `<noteId>:<index>` */
+  id: string;
+  noteId: string;
+  userId: string;
+  title: string;
+  text: string;
+  /** null when indexed without an embedding model */
+  embedding: number[] | null;
+}
+
+export interface VectorMatch {
+  chunk: NoteChunk;
+  /** Cosine similarity, -1..1 */
+  score: number;
+}
+
+export interface NoteSearchResult {
+  noteId: string;
+  title: string;
+  /** Best matching passage, trimmed to a few sentences */
+  snippet: string;
+  /** Inline marker the model should use to cite the note, e.g. [note:42] */
+  citation: string;
+  /** Hybrid score, 0..1 */
+  score: number;
+}
+
+/**
+ * Embeds texts in order; one vector per input
+ */
+export type Embedder = (values: string[], abortSignal?: AbortSignal) => Promise<number[][]>;
+
+// =============================================================================
+// Vector Stores
+// =============================================================================
+
+export interface VectorStore {
+  /** Replace all chunks of a note */
+  replaceNote(userId: string, noteId: string, chunks: NoteChunk[]): Promise<void>;
+  deleteNote(userId: string, noteId: string): Promise<void>;
+  /** All chunks of a user; keyword scoring runs over these */
+  listChunks(userId: string): Promise<NoteChunk[]>;
+  /** The user's chunks most similar to `embedding`, best first */
+  query(userId: string, embedding: number[], topK: number): Promise<VectorMatch[]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart - development and tests only
+ */
+export class MemoryVectorStore implements VectorStore {
+  protected chunks = new Map<string, NoteChunk[]>();
+
+  private key(userId: string, noteId: string) {
+    return JSON.stringify([userId, noteId]);
+  }
+
+  async replaceNote(userId: string, noteId: string, chunks: NoteChunk[]): Promise<void> {
+    this.chunks.set(this.key(userId, noteId), chunks);
+  }
+
+  async deleteNote(userId: string, noteId: string): Promise<void> {
+    this.chunks.delete(this.key(userId, noteId));
+  }
+
+  async listChunks(userId: string) {
+    return [...this.chunks.values()].flat().filter((chunk) => chunk.userId === userId);
+  }
+
+  async query(userId: string, embedding: number[], topK: number) {
+    return (await this.listChunks(userId))
+      .filter((chunk) => chunk.embedding)
+      .map((chunk) => ({ chunk, score: cosineSimilarity(embedding, chunk.embedding ?? []) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * JSON file store
+ * Loads the file once and rewrites it (tmp + rename) after each change
+ */
+export class FileVectorStore extends MemoryVectorStore {
+  private loaded: Promise<void> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(private filePath: string) {
+    super();
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  override async replaceNote(userId: string, noteId: string, chunks: NoteChunk[]) {
+    await this.load();
+    await super.replaceNote(userId, noteId, chunks);
+    await this.persist();
+  }
+
+  override async deleteNote(userId: string, noteId: string) {
+    await this.load();
+    await super.deleteNote(userId, noteId);
+    await this.persist();
+  }
+
+  override async listChunks(userId: string) {
+    await this.load();
+    return super.listChunks(userId);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+        for (const [key, chunks] of data.notes ?? []) this.chunks.set(key, chunks);
+      } catch {
+        // Missing or unreadable file: start empty
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({ notes: [...this.chunks.entries()] });
+
+    return this.writer.write(snapshot);
+  }
+}
+
+// =============================================================================
+// Chunking
+// =============================================================================
+
+export interface ChunkOptions {
+  /** Maximum characters per chunk (default: 800) */
+  size?: number;
+  /** Characters repeated from the end of the previous chunk (default: 100) */
+  overlap?: number;
+}
+
+/**
+ * Split text into pieces of at most `size` characters at paragraph, then
+ * sentence, then word boundaries
+ */
+function splitPieces(text: string, size: number): string[] {
+  const pieces: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (trimmed.length <= size) {
+      pieces.push(trimmed);
+      continue;
+    }
+
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      let rest = sentence;
+      while (rest.length > size) {
+        const cut = rest.lastIndexOf(' ', size);
+        const end = cut > size / 2 ? cut : size;
+        pieces.push(rest.slice(0, end).trim());
+        rest = rest.slice(end).trim();
+      }
+      if (rest) pieces.push(rest);
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * Split a note's text into overlapping chunks
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const { size = 800, overlap = 100 } = options;
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of splitPieces(text, size)) {
+    if (current && current.length + piece.length + 1 > size) {
+      chunks.push(current);
+      // Carry the end of the previous chunk over, starting at a word
+      const tail = current.slice(-overlap);
+      const space = tail.indexOf(' ');
+      const carry = overlap > 0 && space >= 0 ? tail.slice(space + 1) : '';
+      current = carry && carry.length + piece.length + 1 <= size ? carry : '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// =============================================================================
+// Keyword Scoring (BM25)
+// =============================================================================
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+/**
+ * Lowercase, accent-folded words without stop words
+ */
+export function tokenize(text: string): string[] {
+  const words =
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * BM25 score of each document (a list of terms) for the query terms
+ */
+export function bm25Scores(queryTerms: string[], documents: string[][], k1 = 1.2, b = 0.75) {
+  const count = documents.length;
+  if (count === 0) return [];
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / count || 1;
+  const frequencies = documents.map((doc) => {
+    const terms = new Map<string, number>();
+    for (const term of doc) terms.set(term, (terms.get(term) ?? 0) + 1);
+    return terms;
+  });
+
+  const uniqueTerms = [...new Set(queryTerms)];
+  const idf = new Map(
+    uniqueTerms.map((term) => {
+      const df = frequencies.filter((terms) => terms.has(term)).length;
+      return [term, Math.log(1 + (count - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  return frequencies.map((terms, i) => {
+    const lengthNorm = k1 * (1 - b + (b * documents[i].length) / averageLength);
+    return uniqueTerms.reduce((score, term) => {
+      const tf = terms.get(term) ?? 0;
+      return score + ((idf.get(term) ?? 0) * tf * (k1 + 1)) / (tf + lengthNorm);
+    }, 0);
+  });
+}
+
+/** Title words count this many times, so titles weigh more than body text */
+const TITLE_WEIGHT = 2;
+
+function chunkTerms(chunk: NoteChunk): string[] {
+  const titleTerms = tokenize(chunk.title);
+  return [
+    ...Array.from({ length: TITLE_WEIGHT }, () => titleTerms).flat(),
+    ...tokenize(chunk.text),
+  ];
+}
+
+/**
+ * The passage of a chunk around the first query term, at most `length` characters
+ */
+export function createSnippet(text: string, queryTerms: string[], length = 240): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= length) return normalized;
+
+  const lower = normalized.toLowerCase();
+  const hits = queryTerms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const hit = hits.length > 0 ? Math.min(...hits) : 0;
+
+  let start = Math.max(0, hit - Math.floor(length / 3));
+  if (start > 0) {
+    const space = normalized.indexOf(' ', start);
+    start = space >= 0 && space < hit ? space + 1 : start;
+  }
+  const end = Math.min(normalized.length, start + length);
+
+  return `${start > 0 ? '…' : ''}${normalized.slice(start, end).trim()}${end < normalized.length ? '…' : ''}`;
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+export interface NotesIndexOptions extends ChunkOptions {
+  /** Weight of vector similarity vs. BM25 in hybrid scores, 0..1 (default: 0.5) */
+  vectorWeight?: number;
+  /** Results scoring below this are dropped (default: 0.1) */
+  minScore?: number;
+}
+
+/** Text embedded for a chunk; the title gives short chunks context */
+function embeddingInput(title: string, text: string): string {
+  return text ? `${title}\n\n${text}` : title;
+}
+
+export class NotesIndex {
+  private chunkOptions: ChunkOptions;
+  private vectorWeight: number;
+  private minScore: number;
+
+  constructor(
+    private store: VectorStore,
+    private embed: Embedder | null,
+    options: NotesIndexOptions = {}
+  ) {
+    this.chunkOptions = { size: options.size, overlap: options.overlap };
+    this.vectorWeight = options.vectorWeight ?? 0.5;
+    this.minScore = options.minScore ?? 0.1;
+  }
+
+  /**
+   * Chunk and embed a note, replacing what was indexed for it before
+   * Chunks whose text did not change keep their embeddings.
+   * @returns the number of chunks
+   */
+  async indexNote(userId: string, note: IndexedNote, abortSignal?: AbortSignal) {
+    const texts = chunkText(note.content, this.chunkOptions);
+    if (texts.length === 0) texts.push('');
+
+    const previous = new Map(
+      (await this.store.listChunks(userId))
+        .filter((chunk) => chunk.noteId === note.id && chunk.embedding)
+        .map((chunk) => [embeddingInput(chunk.title, chunk.text), chunk.embedding])
+    );
+
+    const inputs = texts.map((text) => embeddingInput(note.title, text));
+    const missing = [...new Set(inputs.filter((input) => !previous.has(input)))];
+
+    if (this.embed && missing.length > 0) {
+      const vectors = await this.embed(missing, abortSignal);
+      missing.forEach((input, i) => previous.set(input, vectors[i]));
+    }
+
+    const chunks: NoteChunk[] = texts.map((text, i) => ({
+      id: `${note.id}:${i}`,
+      noteId: note.id,
+      userId,
+      title: note.title,
+      text,
+      embedding: (this.embed && previous.get(inputs[i])) || null,
+    }));
+
+    await this.store.replaceNote(userId, note.id, chunks);
+    return chunks.length;
+  }
+
+  async removeNote(userId: string, noteId: string): Promise<void> {
+    await this.store.deleteNote(userId, noteId);
+  }
+
+  /**
+   * Best matching notes, one result per note, best first
+   */
+  async search(
+    userId: string,
+    query: string,
+    options: { limit?: number; abortSignal?: AbortSignal } = {}
+  ): Promise<NoteSearchResult[]> {
+    const { limit = 5, abortSignal } = options;
+
+    const chunks = await this.store.listChunks(userId);
+    if (chunks.length === 0) return [];
+
+    const queryTerms = tokenize(query);
+    const keyword = bm25Scores(queryTerms, chunks.map(chunkTerms));
+    const maxKeyword = Math.max(0, ...keyword);
+
+    const similarity = new Map<string, number>();
+    const useVectors = Boolean(this.embed) && chunks.some((chunk) => chunk.embedding);
+    if (this.embed && useVectors) {
+      const [queryEmbedding] = await this.embed([query], abortSignal);
+      const matches = await this.store.query(userId, queryEmbedding, Math.max(limit * 4, 20));
+      for (const { chunk, score } of matches) similarity.set(chunk.id, Math.max(0, score));
+    }
+
+    const vectorWeight = useVectors ? this.vectorWeight : 0;
+    const bestByNote = new Map<string, { chunk: NoteChunk; score: number }>();
+
+    chunks.forEach((chunk, i) => {
+      const keywordScore = maxKeyword > 0 ? keyword[i] / maxKeyword : 0;
+      const score =
+        vectorWeight * (similarity.get(chunk.id) ?? 0) + (1 - vectorWeight) * keywordScore;
+      const best = bestByNote.get(chunk.noteId);
+      if (score >= this.minScore && (!best || score > best.score)) {
+        bestByNote.set(chunk.noteId, { chunk, score });
+      }
+    });
+
+    return [...bestByNote.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        noteId: chunk.noteId,
+        title: chunk.title,
+        snippet: createSnippet(chunk.text || chunk.title, queryTerms),
+        citation: formatNoteCitation(chunk.noteId),
+        score: Math.round(score * 1000) / 1000,
+      }));
+  }
+}
+
+/**
+ * Embedder for the current provider's embedding model, or null if it has none
+ * Usage is recorded against the user's budget.
+ */
+export function createProviderEmbedder(userId: string): Embedder | null {
+  const model = getCurrentProvider().embedding;
+  if (!model) return null;
+
+  const modelId = typeof model === 'string' ? model : model.modelId;
+
+  return async (values, abortSignal) => {
+    const { embeddings, usage } = await embedMany({ model, values, abortSignal });
+    await usageLedger.recordTokens(userId, modelId, 'embedding', {
+      inputTokens: usage.tokens,
+    });
+    return embeddings;
+  };
+}
+
+/**
+ * Create the vector store selected by environment variables:
+ * - AI_NOTES_INDEX_STORE=memory (default) | file
+ * - AI_NOTES_INDEX_FILE=path to the JSON file (default: .ai-notes-index.json)
+ */
+function createVectorStoreFromEnv(): VectorStore {
+  if (process.env.AI_NOTES_INDEX_STORE === 'file') {
+    return new FileVectorStore(process.env.AI_NOTES_INDEX_FILE || '.ai-notes-index.json');
+  }
+  return new MemoryVectorStore();
+}
+
+// Singleton store; indexes are per request since embeddings are billed to the user
+export const notesVectorStore = createVectorStoreFromEnv();
+
+const vectorWeightSetting = Number(process.env.AI_NOTES_VECTOR_WEIGHT || Number.NaN);
+
+/**
+ * Notes index for a user's request, embedding with the current provider
+ */
+export function getNotesIndex(userId: string): NotesIndex {
+  return new NotesIndex(notesVectorStore, createProviderEmbedder(userId), {
+    vectorWeight: Number.isFinite(vectorWeightSetting) ? vectorWeightSetting : undefined,
+  });
+}
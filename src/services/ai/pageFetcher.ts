@@ -0,0 +1,414 @@
+/**
+ * Web Page Fetching (server-side)
+ *
+ * Downloads a URL for the fetchPage tool and extracts its readable text.
+ *
+ * Guards, since the URL comes from the model (and so, indirectly, from whatever
+ * it has read):
+ * - SSRF: only http(s) on default ports; hosts that resolve to private, loopback,
+ *   link-local, CGNAT, multicast or reserved addresses are refused, and every
+ *   redirect hop is checked again
+ * - Size: the body is read up to `maxBytes`, the extracted text cut at `maxChars`
+ * - Content type: HTML, plain text, JSON and XML only
+ *
+ * The address check resolves the host before fetching; run the server behind an
+ * egress proxy as well if DNS rebinding is a concern.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+export type PageFetchErrorCode =
+  | 'INVALID_URL'
+  | 'BLOCKED_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'HTTP_ERROR'
+  | 'UNSUPPORTED_CONTENT'
+  | 'TOO_LARGE';
+
+export class PageFetchError extends Error {
+  constructor(
+    public code: PageFetchErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+export interface FetchedPage {
+  /** The requested URL */
+  url: string;
+  /** URL after redirects; cite this one */
+  finalUrl: string;
+  title: string;
+  text: string;
+  contentType: string;
+  /** Text was cut at `maxChars` */
+  truncated: boolean;
+}
+
+/** Resolves a host name to all its addresses */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export interface PageFetcherOptions {
+  /** Maximum response body in bytes (default: 1 MB) */
+  maxBytes?: number;
+  /** Maximum extracted text in characters (default: 12000) */
+  maxChars?: number;
+  /** Default 5 */
+  maxRedirects?: number;
+  /** Injected for tests */
+  fetch?: typeof fetch;
+  resolveHost?: HostResolver;
+}
+
+const ALLOWED_CONTENT_TYPES = [
+  'text/html',
+  'application/xhtml+xml',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+  'application/xml',
+  'text/xml',
+];
+
+// =============================================================================
+// Address checks
+// =============================================================================
+
+/** Private and reserved IPv4 ranges as [network, prefix length] */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (cloud metadata)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+/**
+ * Expand an IPv6 address to its eight 16-bit groups
+ */
+function ipv6Groups(address: string): number[] {
+  let normalized = address.toLowerCase().split('%')[0];
+
+  // Embedded IPv4 (e.g. ::ffff:127.0.0.1) becomes two groups
+  const ipv4 = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4) {
+    const value = ipv4ToNumber(ipv4[1]);
+    normalized = normalized.replace(
+      ipv4[1],
+      `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`
+    );
+  }
+
+  const [head, tail] = normalized.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = [
+    ...headGroups,
+    ...(tail !== undefined ? Array(missing).fill('0') : []),
+    ...tailGroups,
+  ];
+  return groups.map((group) => Number.parseInt(group, 16) || 0);
+}
+
+/**
+ * The IPv4 address in two 16-bit groups
+ */
+function ipv4FromGroups(high: number, low: number): string {
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+function isBlockedIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+
+  if (groups.slice(0, 5).every((group) => group === 0)) {
+    // IPv4-mapped (::ffff:a.b.c.d)
+    if (groups[5] === 0xffff) {
+      return isBlockedIPv4(ipv4FromGroups(groups[6], groups[7]));
+    }
+    // Unspecified (::), loopback (::1) and deprecated IPv4-compatible addresses
+    if (groups[5] === 0) return true;
+  }
+
+  // 6to4 (2002::/16) relays to the IPv4 address in groups 1-2
+  if (first === 0x2002 && isBlockedIPv4(ipv4FromGroups(groups[1], groups[2]))) {
+    return true;
+  }
+  // Teredo (2001::/32): the server's IPv4 address, and the client's with its bits inverted
+  if (
+    first === 0x2001 &&
+    groups[1] === 0 &&
+    (isBlockedIPv4(ipv4FromGroups(groups[2], groups[3])) ||
+      isBlockedIPv4(ipv4FromGroups(groups[6] ^ 0xffff, groups[7] ^ 0xffff)))
+  ) {
+    return true;
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 || // multicast ff00::/8
+    (first === 0x2001 && groups[1] === 0x0db8) || // documentation
+    (first === 0x64 && groups[1] === 0xff9b) // NAT64 can reach IPv4 internals
+  );
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not public
+ */
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIPv4(address);
+  if (version === 6) return isBlockedIPv6(address);
+  return true;
+}
+
+const resolveWithDns: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+// =============================================================================
+// Text extraction
+// =============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  copy: '©',
+};
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Readable text of an HTML document: no scripts, styles or navigation chrome,
+ * block elements on their own lines
+ */
+export function extractReadableText(html: string): { title: string; text: string } {
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const text = decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(
+        /<(head|script|style|noscript|svg|template|iframe|nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi,
+        ''
+      )
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(
+        /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|tr|table|blockquote|pre)\b[^>]*>/gi,
+        '\n'
+      )
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  return { title, text };
+}
+
+// =============================================================================
+// Fetcher
+// =============================================================================
+
+export class PageFetcher {
+  private maxBytes: number;
+  private maxChars: number;
+  private maxRedirects: number;
+  private fetch: typeof fetch;
+  private resolveHost: HostResolver;
+
+  constructor(options: PageFetcherOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 1_000_000;
+    this.maxChars = options.maxChars ?? 12_000;
+    this.maxRedirects = options.maxRedirects ?? 5;
+    this.fetch = options.fetch ?? globalThis.fetch;
+    this.resolveHost = options.resolveHost ?? resolveWithDns;
+  }
+
+  /**
+   * Refuse URLs that aren't public http(s) addresses
+   * @throws PageFetchError INVALID_URL or BLOCKED_ADDRESS
+   */
+  async checkUrl(rawUrl: string): Promise<URL> {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new PageFetchError('INVALID_URL', `Invalid URL: ${rawUrl}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new PageFetchError('INVALID_URL', 'Only http and https URLs can be fetched');
+    }
+    if (url.username || url.password) {
+      throw new PageFetchError('INVALID_URL', 'URLs with credentials are not allowed');
+    }
+    if (url.port && url.port !== '80' && url.port !== '443') {
+      throw new PageFetchError(
+        'BLOCKED_ADDRESS',
+        'Only the default http and https ports are allowed'
+      );
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+      throw new PageFetchError('BLOCKED_ADDRESS', `${hostname} is not a public address`);
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname) ? [hostname] : await this.resolveHost(hostname);
+    } catch {
+      throw new PageFetchError('INVALID_URL', `Could not resolve ${hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+      throw new PageFetchError('BLOCKED_ADDRESS', `${hostname} is not a public address`);
+    }
+
+    return url;
+  }
+
+  /**
+   * Download a page and extract its text
+   * @throws PageFetchError
+   */
+  async fetchPage(rawUrl: string, abortSignal?: AbortSignal): Promise<FetchedPage> {
+    let url = await this.checkUrl(rawUrl);
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      response = await this.fetch(url, {
+        redirect: 'manual',
+        signal: abortSignal,
+        headers: {
+          Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5',
+          'User-Agent': 'Mozilla/5.0 (compatible; AppAssistant/1.0)',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (redirects >= this.maxRedirects) {
+        throw new PageFetchError('TOO_MANY_REDIRECTS', `More than ${this.maxRedirects} redirects`);
+      }
+      url = await this.checkUrl(new URL(location, url).toString());
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new PageFetchError('HTTP_ERROR', `The page returned HTTP ${response.status}`);
+    }
+
+    const contentType = (response.headers.get('content-type') ?? 'text/html').split(';')[0].trim();
+    if (!ALLOWED_CONTENT_TYPES.includes(contentType.toLowerCase())) {
+      await response.body?.cancel();
+      throw new PageFetchError('UNSUPPORTED_CONTENT', `Cannot read ${contentType} content`);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > this.maxBytes) {
+      await response.body?.cancel();
+      throw new PageFetchError('TOO_LARGE', `The page is larger than ${this.maxBytes} bytes`);
+    }
+
+    const body = await this.readBody(response);
+    const isHtml = contentType.includes('html');
+    const { title, text } = isHtml ? extractReadableText(body) : { title: '', text: body.trim() };
+    const truncated = text.length > this.maxChars;
+
+    return {
+      url: rawUrl,
+      finalUrl: url.toString(),
+      title,
+      text: truncated ? text.slice(0, this.maxChars) : text,
+      contentType,
+      truncated,
+    };
+  }
+
+  /**
+   * Read the body, stopping at `maxBytes`
+   * Larger pages are cut rather than rejected when they don't declare a length.
+   */
+  private async readBody(response: Response): Promise<string> {
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let received = 0;
+    let text = '';
+
+    while (received < this.maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) return text + decoder.decode();
+
+      const chunk = value.subarray(0, this.maxBytes - received);
+      received += chunk.byteLength;
+      text += decoder.decode(chunk, { stream: true });
+    }
+
+    await reader.cancel();
+    return text + decoder.decode();
+  }
+}
+
+// Singleton instance
+export const pageFetcher = new PageFetcher({
+  maxBytes: Number(process.env.AI_FETCH_MAX_BYTES) || undefined,
+  maxChars: Number(process.env.AI_FETCH_MAX_CHARS) || undefined,
+});
@@ -0,0 +1,349 @@
+/**
+ * AI Prompt Templates
+ *
+ * System prompts live on the server as versioned templates. Clients pick a
+ * template by ID and pass variables, which are validated against the version's
+ * Zod schema and interpolated into `{{name}}` placeholders, so clients can't
+ * replace the system prompt.
+ *
+ * A template serves its stable version to everyone except users in its rollout,
+ * which is a feature flag (src/lib/featureFlagEvaluation.ts) that buckets users
+ * by ID into a newer version. The served `<id>@<version>` is recorded with usage
+ * so versions can be compared.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { type FeatureFlag, evaluateFeatureFlag } from '@/lib/featureFlagEvaluation';
+import { z } from 'zod';
+
+export type PromptFeature = 'chat' | 'completion';
+
+export interface PromptTemplateVersion {
+  version: number;
+  /** Prompt text with `{{variable}}` placeholders */
+  template: string;
+  /** Variables the placeholders read; defaults apply to omitted values */
+  variables: z.AnyZodObject;
+}
+
+export interface PromptTemplateRollout {
+  /** Version served to users the flag is enabled for */
+  version: number;
+  flag: FeatureFlag;
+}
+
+export interface PromptTemplate {
+  id: string;
+  description: string;
+  /** Endpoints that accept the template */
+  features: PromptFeature[];
+  /** Version served outside the rollout */
+  stableVersion: number;
+  versions: PromptTemplateVersion[];
+  rollout?: PromptTemplateRollout;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  /** `<id>@<version>`, as recorded in usage */
+  label: string;
+  text: string;
+}
+
+export type PromptTemplateErrorCode = 'UNKNOWN_TEMPLATE' | 'INVALID_VARIABLES';
+
+/**
+ * Thrown when a template can't be rendered for a request
+ */
+export class PromptTemplateError extends Error {
+  constructor(
+    public code: PromptTemplateErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Label recorded in usage for a template version
+ */
+export function formatTemplateLabel(templateId: string, version: number): string {
+  return `${templateId}@${version}`;
+}
+
+/**
+ * Flag that gates a template rollout; keyed by version so a user's bucket is
+ * stable while the percentage grows
+ */
+export function createRolloutFlag(
+  templateId: string,
+  version: number,
+  options: { percentage?: number; userIds?: string[]; enabled?: boolean } = {}
+): FeatureFlag {
+  return {
+    key: `prompt.${templateId}.v${version}`,
+    name: `Prompt ${templateId} v${version}`,
+    description: `Serve version ${version} of the ${templateId} prompt template`,
+    enabled: options.enabled ?? true,
+    enabledForPercentage: options.percentage,
+    enabledForUserIds: options.userIds,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Replace `{{name}}` placeholders with variable values
+ */
+export function interpolate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => formatValue(variables[name]));
+}
+
+// =============================================================================
+// Built-in templates
+// =============================================================================
+
+const toneSchema = z.enum(['friendly', 'concise', 'detailed']).default('friendly');
+const languageSchema = z.string().trim().min(2).max(40).default('the language of the user');
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'assistant',
+    description: 'General-purpose chat assistant (default for chat)',
+    features: ['chat'],
+    stableVersion: 1,
+    versions: [
+      {
+        version: 1,
+        template:
+          'You are a helpful assistant. Keep a {{tone}} tone and reply in {{language}}. ' +
+          'If you are unsure, say so instead of guessing.',
+        variables: z.object({ tone: toneSchema, language: languageSchema }),
+      },
+      {
+        version: 2,
+        template:
+          'You are a helpful assistant inside a mobile app, so keep replies easy to read on ' +
+          'a small screen: short paragraphs and lists. Keep a {{tone}} tone and reply in ' +
+          '{{language}}. Use tools when they help, cite sources they return, and say so ' +
+          'when you are unsure instead of guessing.',
+        variables: z.object({ tone: toneSchema, language: languageSchema }),
+      },
+    ],
+    rollout: { version: 2, flag: createRolloutFlag('assistant', 2, { percentage: 0 }) },
+  },
+  {
+    id: 'summarize',
+    description: 'Summarize the prompt text',
+    features: ['completion'],
+    stableVersion: 1,
+    versions: [
+      {
+        version: 1,
+        template:
+          'Summarize the text the user sends as {{format}} in at most {{maxWords}} words. ' +
+          'Only use information from the text.',
+        variables: z.object({
+          format: z.enum(['a paragraph', 'bullet points']).default('a paragraph'),
+          maxWords: z.number().int().min(10).max(500).default(100),
+        }),
+      },
+    ],
+  },
+  {
+    id: 'translate',
+    description: 'Translate the prompt text',
+    features: ['completion'],
+    stableVersion: 1,
+    versions: [
+      {
+        version: 1,
+        template:
+          'Translate the text the user sends into {{targetLanguage}}. ' +
+          'Reply with the translation only.',
+        variables: z.object({ targetLanguage: z.string().trim().min(2).max(40) }),
+      },
+    ],
+  },
+];
+
+/** Template used by a feature when the request doesn't name one */
+export const DEFAULT_TEMPLATE_IDS: Partial<Record<PromptFeature, string>> = {
+  chat: 'assistant',
+};
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export class PromptTemplateRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  constructor(templates: PromptTemplate[] = []) {
+    for (const template of templates) {
+      this.register(template);
+    }
+  }
+
+  /**
+   * Add or replace a template; throws if it references versions or variables
+   * it doesn't define
+   */
+  register(template: PromptTemplate): PromptTemplate {
+    const versions = new Set(template.versions.map((v) => v.version));
+    const referenced = [template.stableVersion, template.rollout?.version].filter(
+      (version): version is number => version !== undefined
+    );
+    for (const version of referenced) {
+      if (!versions.has(version)) {
+        throw new Error(`Prompt template ${template.id} has no version ${version}`);
+      }
+    }
+
+    for (const { version, template: text, variables } of template.versions) {
+      for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!(name in variables.shape)) {
+          throw new Error(
+            `Prompt template ${template.id}@${version} uses undefined variable "${name}"`
+          );
+        }
+      }
+    }
+
+    this.templates.set(template.id, template);
+    return template;
+  }
+
+  get(templateId: string): PromptTemplate | undefined {
+    return this.templates.get(templateId);
+  }
+
+  list(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * Version a user is served: the rollout version if its flag is enabled for
+   * them, otherwise the stable version
+   */
+  resolveVersion(template: PromptTemplate, userId: string): PromptTemplateVersion {
+    const { rollout } = template;
+    const version =
+      rollout && evaluateFeatureFlag(rollout.flag, { userId })
+        ? rollout.version
+        : template.stableVersion;
+
+    return template.versions.find((v) => v.version === version) as PromptTemplateVersion;
+  }
+
+  /**
+   * Render the template version for a user
+   */
+  render(
+    templateId: string,
+    variables: Record<string, unknown> | undefined,
+    options: { userId: string; feature: PromptFeature }
+  ): RenderedPrompt {
+    const template = this.templates.get(templateId);
+    if (!template || !template.features.includes(options.feature)) {
+      throw new PromptTemplateError(
+        'UNKNOWN_TEMPLATE',
+        `No ${options.feature} prompt template "${templateId}"`
+      );
+    }
+
+    const version = this.resolveVersion(template, options.userId);
+    const parsed = version.variables.strict().safeParse(variables ?? {});
+    if (!parsed.success) {
+      throw new PromptTemplateError(
+        'INVALID_VARIABLES',
+        `Invalid variables for prompt template "${templateId}"`,
+        parsed.error.errors
+      );
+    }
+
+    return {
+      templateId,
+      version: version.version,
+      label: formatTemplateLabel(templateId, version.version),
+      text: interpolate(version.template, parsed.data),
+    };
+  }
+}
+
+/**
+ * Rollout overrides, e.g. AI_PROMPT_ROLLOUTS='{"assistant":{"version":2,"percentage":25}}'
+ * `stable` changes the stable version; `percentage: 0` or `enabled: false` stops a rollout.
+ */
+const rolloutOverridesSchema = z.record(
+  z.object({
+    stable: z.number().int().positive().optional(),
+    version: z.number().int().positive().optional(),
+    percentage: z.number().min(0).max(100).optional(),
+    userIds: z.array(z.string()).optional(),
+    enabled: z.boolean().optional(),
+  })
+);
+
+export function applyRolloutOverrides(
+  templates: PromptTemplate[],
+  overrides: z.infer<typeof rolloutOverridesSchema>
+): PromptTemplate[] {
+  return templates.map((template) => {
+    const override = overrides[template.id];
+    if (!override) {
+      return template;
+    }
+
+    const rolloutVersion = override.version ?? template.rollout?.version;
+    return {
+      ...template,
+      stableVersion: override.stable ?? template.stableVersion,
+      rollout:
+        rolloutVersion === undefined
+          ? undefined
+          : {
+              version: rolloutVersion,
+              flag: createRolloutFlag(template.id, rolloutVersion, {
+                percentage: override.percentage ?? template.rollout?.flag.enabledForPercentage,
+                userIds: override.userIds ?? template.rollout?.flag.enabledForUserIds,
+                enabled: override.enabled,
+              }),
+            },
+    };
+  });
+}
+
+/**
+ * Create the registry from the built-in templates and AI_PROMPT_ROLLOUTS
+ */
+function createPromptTemplatesFromEnv(): PromptTemplateRegistry {
+  let templates = DEFAULT_PROMPT_TEMPLATES;
+
+  if (process.env.AI_PROMPT_ROLLOUTS) {
+    try {
+      templates = applyRolloutOverrides(
+        templates,
+        rolloutOverridesSchema.parse(JSON.parse(process.env.AI_PROMPT_ROLLOUTS))
+      );
+    } catch (error) {
+      console.error('[PromptTemplates] Ignoring invalid AI_PROMPT_ROLLOUTS:', error);
+    }
+  }
+
+  return new PromptTemplateRegistry(templates);
+}
+
+// Singleton instance
+export const promptTemplates = createPromptTemplatesFromEnv();
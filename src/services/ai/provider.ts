@@ -4,25 +4,70 @@
  * This module provides a unified interface to swap AI providers with a single line change.
  * The AI SDK exposes a unified interface to multiple LLM vendors for portability.
  *
+ * Supported providers (AI_PROVIDER):
+ * - openai: GPT-4o / GPT-4o-mini / DALL-E 3
+ * - anthropic: Claude Sonnet / Claude Haiku
+ * - google: Gemini Pro / Gemini Flash
+ * - local: any OpenAI-compatible server (Ollama, LM Studio, vLLM, a test stand-in)
+ *
+ * Voice (transcription and speech) can come from a different provider than chat
+ * via AI_VOICE_PROVIDER, e.g. OpenAI voice with Claude chat.
+ *
  * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
  * Never import this in client components as it requires server-only API keys.
  */
 
-import { openai } from '@ai-sdk/openai';
-import type { LanguageModel } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { EmbeddingModel, LanguageModel, SpeechModel, TranscriptionModel } from 'ai';
 
 // Provider configuration type
 export type AIProvider = 'openai' | 'anthropic' | 'google' | 'local';
 
+const AI_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'google', 'local'];
+
 interface ProviderConfig {
   chat: LanguageModel;
   completion: LanguageModel;
   image?: {
     model: string;
     apiKey: string;
+    /** OpenAI-compatible API base URL (images are POSTed to `${baseURL}/images/generations`) */
+    baseURL: string;
+  };
+  /** Text embeddings (notes search); providers without one fall back to keyword search */
+  embedding?: EmbeddingModel<string>;
+  /** Speech to text (POST /api/ai/transcribe) */
+  transcription?: TranscriptionModel;
+  /** Text to speech (POST /api/ai/speech) */
+  speech?: {
+    model: SpeechModel;
+    /** Voice used when the request doesn't pick one */
+    voice: string;
   };
 }
 
+/**
+ * What a model can do
+ * Routes check these up front instead of failing mid-request
+ */
+export interface ModelCapabilities {
+  /** Function calling / tools */
+  tools: boolean;
+  /** Token streaming */
+  streaming: boolean;
+  /** Image inputs (vision) */
+  imageInput: boolean;
+  /** PDF document inputs */
+  fileInput: boolean;
+  /** Image generation */
+  imageGeneration: boolean;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+
 /**
  * Get the configured AI provider
  * Change this single line to swap providers
@@ -34,35 +79,127 @@ export const getAIProvider = (): AIProvider => {
 /**
  * OpenAI Provider Configuration
  */
-const openaiConfig: ProviderConfig = {
-  // Default: GPT-4o for chat
-  chat: openai('gpt-4o'),
+const createOpenAIConfig = (): ProviderConfig => {
+  const apiKey = process.env.OPENAI_API_KEY || '';
+  const openai = createOpenAI({ apiKey });
 
-  // GPT-4o-mini for completions (faster, cheaper)
-  completion: openai('gpt-4o-mini'),
+  return {
+    // Default: GPT-4o for chat
+    chat: openai(process.env.AI_CHAT_MODEL || 'gpt-4o'),
 
-  // DALL-E 3 for image generation
-  image: {
-    model: 'dall-e-3',
-    apiKey: process.env.OPENAI_API_KEY || '',
-  },
+    // GPT-4o-mini for completions (faster, cheaper)
+    completion: openai(process.env.AI_COMPLETION_MODEL || 'gpt-4o-mini'),
+
+    // DALL-E 3 for image generation
+    image: {
+      model: process.env.AI_IMAGE_MODEL || 'dall-e-3',
+      apiKey,
+      baseURL: OPENAI_BASE_URL,
+    },
+
+    embedding: openai.textEmbeddingModel(
+      process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small'
+    ),
+
+    transcription: openai.transcription(process.env.AI_TRANSCRIPTION_MODEL || 'whisper-1'),
+
+    speech: {
+      model: openai.speech(process.env.AI_SPEECH_MODEL || 'tts-1'),
+      voice: process.env.AI_SPEECH_VOICE || 'alloy',
+    },
+  };
+};
+
+/**
+ * Anthropic (Claude) Provider Configuration
+ * Claude has no image generation, embeddings or voice API
+ */
+const createAnthropicConfig = (): ProviderConfig => {
+  const anthropic = createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+  return {
+    chat: anthropic(process.env.AI_CHAT_MODEL || 'claude-sonnet-4-5'),
+    completion: anthropic(process.env.AI_COMPLETION_MODEL || 'claude-haiku-4-5'),
+  };
+};
+
+/**
+ * Google (Gemini) Provider Configuration
+ * Voice isn't available through the AI SDK provider; use AI_VOICE_PROVIDER
+ */
+const createGoogleConfig = (): ProviderConfig => {
+  const google = createGoogleGenerativeAI({ apiKey: getGoogleApiKey() });
+
+  return {
+    chat: google(process.env.AI_CHAT_MODEL || 'gemini-2.5-pro'),
+    completion: google(process.env.AI_COMPLETION_MODEL || 'gemini-2.5-flash'),
+    embedding: google.textEmbedding(process.env.AI_EMBEDDING_MODEL || 'text-embedding-004'),
+  };
+};
+
+/**
+ * Local Provider Configuration
+ * Talks to any OpenAI-compatible server through the Chat Completions API.
+ * Point LOCAL_AI_BASE_URL at Ollama, LM Studio, vLLM or a stand-in server for tests.
+ */
+const createLocalConfig = (): ProviderConfig => {
+  const baseURL = getLocalBaseURL();
+  const apiKey = process.env.LOCAL_AI_API_KEY || 'local';
+  const local = createOpenAI({ baseURL, apiKey, name: 'local' });
+  const chatModel = process.env.LOCAL_AI_CHAT_MODEL || 'llama3.1';
+
+  return {
+    chat: local.chat(chatModel),
+    completion: local.chat(process.env.LOCAL_AI_COMPLETION_MODEL || chatModel),
+    ...(process.env.LOCAL_AI_IMAGE_MODEL && {
+      image: { model: process.env.LOCAL_AI_IMAGE_MODEL, apiKey, baseURL },
+    }),
+    ...(process.env.LOCAL_AI_EMBEDDING_MODEL && {
+      embedding: local.textEmbeddingModel(process.env.LOCAL_AI_EMBEDDING_MODEL),
+    }),
+    ...(process.env.LOCAL_AI_TRANSCRIPTION_MODEL && {
+      transcription: local.transcription(process.env.LOCAL_AI_TRANSCRIPTION_MODEL),
+    }),
+    ...(process.env.LOCAL_AI_SPEECH_MODEL && {
+      speech: {
+        model: local.speech(process.env.LOCAL_AI_SPEECH_MODEL),
+        voice: process.env.LOCAL_AI_SPEECH_VOICE || 'default',
+      },
+    }),
+  };
 };
 
 /**
  * Provider registry
- * Add new providers here following the same interface
+ * Add new providers here following the same interface.
+ * Configs are created on first use so unused providers never read their keys.
  */
-const providers: Record<AIProvider, ProviderConfig> = {
-  openai: openaiConfig,
+const providerFactories: Record<AIProvider, () => ProviderConfig> = {
+  openai: createOpenAIConfig,
+  anthropic: createAnthropicConfig,
+  google: createGoogleConfig,
+  local: createLocalConfig,
+};
 
-  // Placeholder for Anthropic (Claude)
-  anthropic: openaiConfig, // TODO: Implement when needed
+const providerCache = new Map<AIProvider, ProviderConfig>();
+
+/**
+ * Get a provider configuration by name
+ */
+export const getProvider = (provider: AIProvider): ProviderConfig => {
+  const factory = providerFactories[provider];
+
+  if (!factory) {
+    throw new Error(`AI provider "${provider}" is not configured`);
+  }
 
-  // Placeholder for Google (Gemini)
-  google: openaiConfig, // TODO: Implement when needed
+  let config = providerCache.get(provider);
+  if (!config) {
+    config = factory();
+    providerCache.set(provider, config);
+  }
 
-  // Placeholder for local/on-device models
-  local: openaiConfig, // TODO: Implement for offline inference
+  return config;
 };
 
 /**
@@ -70,21 +207,23 @@ const providers: Record<AIProvider, ProviderConfig> = {
  * This is the main entry point for AI functionality
  */
 export const getCurrentProvider = (): ProviderConfig => {
-  const provider = getAIProvider();
-
-  if (!providers[provider]) {
-    throw new Error(`AI provider "${provider}" is not configured`);
-  }
+  return getProvider(getAIProvider());
+};
 
-  return providers[provider];
+/**
+ * Get the provider for transcription and speech
+ * AI_VOICE_PROVIDER overrides AI_PROVIDER for voice only
+ */
+export const getVoiceProvider = (): AIProvider => {
+  return (process.env.AI_VOICE_PROVIDER as AIProvider) || getAIProvider();
 };
 
 /**
  * Validate that required API keys are present
  */
-export const validateProviderKeys = (): { valid: boolean; error?: string } => {
-  const provider = getAIProvider();
-
+export const validateProviderKeys = (
+  provider: AIProvider = getAIProvider()
+): { valid: boolean; error?: string } => {
   switch (provider) {
     case 'openai':
       if (!process.env.OPENAI_API_KEY) {
@@ -95,14 +234,184 @@ export const validateProviderKeys = (): { valid: boolean; error?: string } => {
       }
       break;
 
-    // Add validation for other providers as needed
-    default:
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        return {
+          valid: false,
+          error: 'ANTHROPIC_API_KEY is not configured. Add it to your .env file.',
+        };
+      }
       break;
+
+    case 'google':
+      if (!getGoogleApiKey()) {
+        return {
+          valid: false,
+          error: 'GOOGLE_AI_API_KEY is not configured. Add it to your .env file.',
+        };
+      }
+      break;
+
+    case 'local':
+      try {
+        const url = new URL(getLocalBaseURL());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          throw new Error('Unsupported protocol');
+        }
+      } catch {
+        return {
+          valid: false,
+          error: `LOCAL_AI_BASE_URL "${getLocalBaseURL()}" is not a valid http(s) URL.`,
+        };
+      }
+      break;
+
+    default:
+      return {
+        valid: false,
+        error: `Unknown AI_PROVIDER "${provider}". Use one of: ${AI_PROVIDERS.join(', ')}.`,
+      };
   }
 
   return { valid: true };
 };
 
+/**
+ * Get the model ID of a language model (for usage accounting/logging)
+ */
+export const getModelId = (model: LanguageModel): string => {
+  return typeof model === 'string' ? model : model.modelId;
+};
+
+/**
+ * Model capability matrix
+ * Models not listed here fall back to their provider's defaults below
+ */
+const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  // OpenAI
+  'gpt-4o': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+  'gpt-4o-mini': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+  'dall-e-3': {
+    tools: false,
+    streaming: false,
+    imageInput: false,
+    fileInput: false,
+    imageGeneration: true,
+  },
+  'gpt-image-1': {
+    tools: false,
+    streaming: false,
+    imageInput: true,
+    fileInput: false,
+    imageGeneration: true,
+  },
+
+  // Anthropic
+  'claude-sonnet-4-5': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+  'claude-haiku-4-5': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+
+  // Google
+  'gemini-2.5-pro': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+  'gemini-2.5-flash': {
+    tools: true,
+    streaming: true,
+    imageInput: true,
+    fileInput: true,
+    imageGeneration: false,
+  },
+};
+
+const PROVIDER_DEFAULT_CAPABILITIES: Record<AIProvider, () => ModelCapabilities> = {
+  openai: () => ({
+    tools: true,
+    streaming: true,
+    imageInput: false,
+    fileInput: false,
+    imageGeneration: false,
+  }),
+  anthropic: () => ({
+    tools: true,
+    streaming: true,
+    imageInput: false,
+    fileInput: false,
+    imageGeneration: false,
+  }),
+  google: () => ({
+    tools: true,
+    streaming: true,
+    imageInput: false,
+    fileInput: false,
+    imageGeneration: false,
+  }),
+  // Local servers vary - tools, vision and documents are opt-in via env
+  local: () => ({
+    tools: process.env.LOCAL_AI_SUPPORTS_TOOLS === 'true',
+    streaming: true,
+    imageInput: process.env.LOCAL_AI_SUPPORTS_VISION === 'true',
+    fileInput: process.env.LOCAL_AI_SUPPORTS_FILES === 'true',
+    imageGeneration: Boolean(process.env.LOCAL_AI_IMAGE_MODEL),
+  }),
+};
+
+/**
+ * Get the capabilities of a model
+ * Local models always use the local defaults since any model name can be served
+ */
+export const getModelCapabilities = (
+  model: LanguageModel | string,
+  provider: AIProvider = getAIProvider()
+): ModelCapabilities => {
+  const modelId = typeof model === 'string' ? model : getModelId(model);
+
+  if (provider !== 'local' && MODEL_CAPABILITIES[modelId]) {
+    return MODEL_CAPABILITIES[modelId];
+  }
+
+  return (PROVIDER_DEFAULT_CAPABILITIES[provider] ?? PROVIDER_DEFAULT_CAPABILITIES.openai)();
+};
+
+/**
+ * List the required capabilities a model is missing
+ */
+export const getMissingCapabilities = (
+  model: LanguageModel | string,
+  required: Array<keyof ModelCapabilities>,
+  provider: AIProvider = getAIProvider()
+): Array<keyof ModelCapabilities> => {
+  const capabilities = getModelCapabilities(model, provider);
+  return required.filter((capability) => !capabilities[capability]);
+};
+
 /**
  * Get provider display name for UI/logging
  */
@@ -116,3 +425,17 @@ export const getProviderDisplayName = (provider: AIProvider): string => {
 
   return names[provider] || provider;
 };
+
+/**
+ * Google key: GOOGLE_AI_API_KEY, or the AI SDK default variable
+ */
+function getGoogleApiKey(): string | undefined {
+  return process.env.GOOGLE_AI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+}
+
+/**
+ * Base URL of the local OpenAI-compatible server
+ */
+function getLocalBaseURL(): string {
+  return process.env.LOCAL_AI_BASE_URL || LOCAL_DEFAULT_BASE_URL;
+}
@@ -0,0 +1,272 @@
+/**
+ * AI Response Cache
+ *
+ * Reuses completion replies for identical requests instead of calling the model
+ * again. Keys hash the normalized prompt, the model, the prompt template version
+ * and the generation parameters, so any change misses.
+ *
+ * Entries are used only for deterministic requests (temperature 0) unless the
+ * caller opts in, expire after a TTL, and are scoped per user or shared by
+ * everyone (AI_CACHE_SCOPE). Stores are pluggable: an in-memory LRU (default)
+ * or a JSON file.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { JsonFileWriter } from './jsonFileWriter';
+
+export type ResponseCacheScope = 'user' | 'global';
+
+export interface CachedResponse {
+  /** Response body fields to replay */
+  body: Record<string, unknown>;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface ResponseCacheKeyInput {
+  userId: string;
+  prompt: string;
+  model: string;
+  /** `<id>@<version>` of the prompt template, if any */
+  promptTemplate?: string;
+  /** Rendered system prompt (covers template variables) */
+  systemPrompt?: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Normalize a prompt so formatting-only differences share an entry:
+ * line endings, trailing spaces, runs of spaces/tabs and surrounding blank lines
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** JSON with sorted object keys, so parameter order doesn't change the key */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ * Map iteration order is insertion order, so reads re-insert the entry
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  protected entries = new Map<string, CachedResponse>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * LRU store persisted to a JSON file, so entries survive restarts
+ * Expired entries are dropped when the file is loaded
+ */
+export class FileResponseCacheStore extends MemoryResponseCacheStore {
+  private loaded: Promise<void> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(
+    private filePath: string,
+    maxEntries?: number
+  ) {
+    super(maxEntries);
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  override async get(key: string) {
+    await this.load();
+    return super.get(key);
+  }
+
+  override async set(key: string, entry: CachedResponse): Promise<void> {
+    await this.load();
+    await super.set(key, entry);
+    await this.persist();
+  }
+
+  override async delete(key: string): Promise<void> {
+    await this.load();
+    await super.delete(key);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+        const now = Date.now();
+        for (const [key, entry] of (data.entries ?? []) as Array<[string, CachedResponse]>) {
+          if (entry.expiresAt > now) {
+            await super.set(key, entry);
+          }
+        }
+      } catch {
+        // Missing or unreadable file: start empty
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({ entries: [...this.entries] });
+
+    return this.writer.write(snapshot);
+  }
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+export interface ResponseCacheOptions {
+  enabled?: boolean;
+  /** Default 1 hour */
+  ttlMs?: number;
+  /** Default 'user' */
+  scope?: ResponseCacheScope;
+}
+
+export class ResponseCache {
+  readonly enabled: boolean;
+  readonly ttlMs: number;
+  readonly scope: ResponseCacheScope;
+
+  constructor(
+    private store: ResponseCacheStore = new MemoryResponseCacheStore(),
+    options: ResponseCacheOptions = {}
+  ) {
+    this.enabled = options.enabled ?? true;
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.scope = options.scope ?? 'user';
+  }
+
+  /**
+   * Whether a request may use the cache: deterministic (temperature 0) or opted
+   * in with `cache: true`; `cache: false` always opts out
+   */
+  shouldCache(request: { temperature: number; cache?: boolean }): boolean {
+    if (!this.enabled || request.cache === false) {
+      return false;
+    }
+    return request.temperature === 0 || request.cache === true;
+  }
+
+  /**
+   * Cache key for a request; the user is part of the key in 'user' scope
+   */
+  createKey(input: ResponseCacheKeyInput): string {
+    const material = stableStringify({
+      scope: this.scope === 'user' ? `user:${input.userId}` : 'global',
+      prompt: normalizePrompt(input.prompt),
+      model: input.model,
+      promptTemplate: input.promptTemplate,
+      systemPrompt: input.systemPrompt,
+      params: input.params,
+    });
+    return createHash('sha256').update(material).digest('hex');
+  }
+
+  /**
+   * Cached body for a key, or null when missing or expired
+   */
+  async get(key: string): Promise<Record<string, unknown> | null> {
+    const entry = await this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return null;
+    }
+    return entry.body;
+  }
+
+  async set(key: string, body: Record<string, unknown>): Promise<void> {
+    const now = Date.now();
+    await this.store.set(key, { body, createdAt: now, expiresAt: now + this.ttlMs });
+  }
+}
+
+/**
+ * Create the cache selected by environment variables:
+ * - AI_CACHE=off disables caching
+ * - AI_CACHE_STORE=memory (default) | file
+ * - AI_CACHE_FILE=path to the JSON file (default: .ai-response-cache.json)
+ * - AI_CACHE_MAX_ENTRIES=LRU size (default: 1000)
+ * - AI_CACHE_TTL_SECONDS=entry lifetime (default: 3600)
+ * - AI_CACHE_SCOPE=user (default) | global
+ */
+function createResponseCacheFromEnv(): ResponseCache {
+  const maxEntries = Number(process.env.AI_CACHE_MAX_ENTRIES) || undefined;
+  const store =
+    process.env.AI_CACHE_STORE === 'file'
+      ? new FileResponseCacheStore(
+          process.env.AI_CACHE_FILE || '.ai-response-cache.json',
+          maxEntries
+        )
+      : new MemoryResponseCacheStore(maxEntries);
+
+  const ttlSeconds = Number(process.env.AI_CACHE_TTL_SECONDS);
+
+  return new ResponseCache(store, {
+    enabled: process.env.AI_CACHE !== 'off',
+    ttlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : undefined,
+    scope: process.env.AI_CACHE_SCOPE === 'global' ? 'global' : 'user',
+  });
+}
+
+// Singleton instance
+export const responseCache = createResponseCacheFromEnv();
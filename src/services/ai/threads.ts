@@ -0,0 +1,461 @@
+/**
+ * AI Conversation Threads (server-side)
+ *
+ * Stores chat threads and their messages per user so a conversation can be
+ * resumed on any device. The chat route loads and appends to threads, and the
+ * /api/sync endpoints exchange them with the client's WatermelonDB tables
+ * (`ai_threads`, `ai_messages`) using the WatermelonDB sync protocol.
+ *
+ * Records use the same raw shape as the client tables (snake_case columns, ms timestamps).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createThreadTitle } from '@/features/ai/schemas';
+import { type MessageAttachment, serializeAttachments } from '@/features/ai/schemas/attachments';
+import { JsonFileWriter } from './jsonFileWriter';
+
+export type ThreadMessageRole = 'system' | 'user' | 'assistant';
+
+export interface ThreadRecord {
+  id: string;
+  title: string;
+  last_message_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ThreadMessageRecord {
+  id: string;
+  thread_id: string;
+  role: ThreadMessageRole;
+  content: string;
+  /** JSON array of MessageAttachment (@/features/ai/schemas/attachments), or null */
+  attachments?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A record as kept on the server: owner, last server-side change and tombstone
+ */
+export interface StoredRecord<T> {
+  userId: string;
+  record: T;
+  /** Server time of the last change, used to compute sync pulls */
+  changedAt: number;
+  deleted: boolean;
+}
+
+export interface TableChanges<T> {
+  created: T[];
+  updated: T[];
+  deleted: string[];
+}
+
+export interface ThreadSyncChanges {
+  ai_threads?: TableChanges<ThreadRecord>;
+  ai_messages?: TableChanges<ThreadMessageRecord>;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface ThreadStore {
+  getThread(id: string): Promise<StoredRecord<ThreadRecord> | undefined>;
+  putThread(thread: StoredRecord<ThreadRecord>): Promise<void>;
+  getMessage(id: string): Promise<StoredRecord<ThreadMessageRecord> | undefined>;
+  putMessage(message: StoredRecord<ThreadMessageRecord>): Promise<void>;
+  /** All threads of a user, including deleted ones */
+  listThreads(userId: string): Promise<StoredRecord<ThreadRecord>[]>;
+  /** All messages of a user, optionally for one thread, including deleted ones */
+  listMessages(userId: string, threadId?: string): Promise<StoredRecord<ThreadMessageRecord>[]>;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryThreadStore implements ThreadStore {
+  protected threads = new Map<string, StoredRecord<ThreadRecord>>();
+  protected messages = new Map<string, StoredRecord<ThreadMessageRecord>>();
+
+  async getThread(id: string) {
+    return this.threads.get(id);
+  }
+
+  async putThread(thread: StoredRecord<ThreadRecord>): Promise<void> {
+    this.threads.set(thread.record.id, thread);
+  }
+
+  async getMessage(id: string) {
+    return this.messages.get(id);
+  }
+
+  async putMessage(message: StoredRecord<ThreadMessageRecord>): Promise<void> {
+    this.messages.set(message.record.id, message);
+  }
+
+  async listThreads(userId: string) {
+    return [...this.threads.values()].filter((t) => t.userId === userId);
+  }
+
+  async listMessages(userId: string, threadId?: string) {
+    return [...this.messages.values()].filter(
+      (m) => m.userId === userId && (threadId === undefined || m.record.thread_id === threadId)
+    );
+  }
+}
+
+/**
+ * JSON file store
+ * Loads the file once and rewrites it (tmp + rename) after each change
+ */
+export class FileThreadStore extends MemoryThreadStore {
+  private loaded: Promise<void> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(private filePath: string) {
+    super();
+    this.writer = new JsonFileWriter(filePath);
+  }
+
+  override async getThread(id: string) {
+    await this.load();
+    return super.getThread(id);
+  }
+
+  override async putThread(thread: StoredRecord<ThreadRecord>): Promise<void> {
+    await this.load();
+    await super.putThread(thread);
+    await this.persist();
+  }
+
+  override async getMessage(id: string) {
+    await this.load();
+    return super.getMessage(id);
+  }
+
+  override async putMessage(message: StoredRecord<ThreadMessageRecord>): Promise<void> {
+    await this.load();
+    await super.putMessage(message);
+    await this.persist();
+  }
+
+  override async listThreads(userId: string) {
+    await this.load();
+    return super.listThreads(userId);
+  }
+
+  override async listMessages(userId: string, threadId?: string) {
+    await this.load();
+    return super.listMessages(userId, threadId);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      try {
+        const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+        for (const thread of data.threads ?? []) this.threads.set(thread.record.id, thread);
+        for (const message of data.messages ?? []) this.messages.set(message.record.id, message);
+      } catch {
+        // Missing or unreadable file: start empty
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({
+      threads: [...this.threads.values()],
+      messages: [...this.messages.values()],
+    });
+
+    return this.writer.write(snapshot);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function emptyChanges<T>(): TableChanges<T> {
+  return { created: [], updated: [], deleted: [] };
+}
+
+/**
+ * Thrown when a user touches a thread that belongs to someone else
+ */
+export class ThreadAccessError extends Error {
+  constructor(threadId: string) {
+    super(`Thread ${threadId} not found`);
+    this.name = 'ThreadAccessError';
+  }
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+export class ThreadRepository {
+  constructor(private store: ThreadStore = new MemoryThreadStore()) {}
+
+  /**
+   * A user's thread, or undefined if it doesn't exist or was deleted
+   * Throws ThreadAccessError if the thread belongs to another user
+   */
+  async getThread(userId: string, threadId: string): Promise<ThreadRecord | undefined> {
+    const stored = await this.store.getThread(threadId);
+    if (!stored) return undefined;
+    if (stored.userId !== userId) throw new ThreadAccessError(threadId);
+    return stored.deleted ? undefined : stored.record;
+  }
+
+  /**
+   * Threads, most recently active first, optionally filtered by title
+   */
+  async listThreads(userId: string, search?: string): Promise<ThreadRecord[]> {
+    const query = search?.trim().toLowerCase();
+    return (await this.store.listThreads(userId))
+      .filter((t) => !t.deleted && (!query || t.record.title.toLowerCase().includes(query)))
+      .map((t) => t.record)
+      .sort((a, b) => b.last_message_at - a.last_message_at);
+  }
+
+  /**
+   * Messages of a thread in conversation order
+   */
+  async getMessages(userId: string, threadId: string): Promise<ThreadMessageRecord[]> {
+    await this.getThread(userId, threadId);
+    return (await this.store.listMessages(userId, threadId))
+      .filter((m) => !m.deleted)
+      .map((m) => m.record)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  /**
+   * Create a thread if it doesn't exist yet (the client may not have synced it)
+   */
+  async ensureThread(
+    userId: string,
+    threadId: string,
+    firstMessage: string
+  ): Promise<ThreadRecord> {
+    const existing = await this.getThread(userId, threadId);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const record: ThreadRecord = {
+      id: threadId,
+      title: createThreadTitle(firstMessage),
+      last_message_at: now,
+      created_at: now,
+      updated_at: now,
+    };
+    await this.store.putThread({ userId, record, changedAt: now, deleted: false });
+    return record;
+  }
+
+  /**
+   * Add or replace messages (by ID) and bump the thread's activity time
+   */
+  async saveMessages(
+    userId: string,
+    threadId: string,
+    messages: Array<{
+      id: string;
+      role: ThreadMessageRole;
+      content: string;
+      attachments?: MessageAttachment[];
+      createdAt?: number;
+    }>
+  ): Promise<void> {
+    const thread = await this.getThread(userId, threadId);
+    if (!thread) throw new ThreadAccessError(threadId);
+
+    const now = Date.now();
+    for (const message of messages) {
+      const existing = await this.store.getMessage(message.id);
+      if (existing && existing.userId !== userId) continue;
+
+      await this.store.putMessage({
+        userId,
+        changedAt: now,
+        deleted: false,
+        record: {
+          id: message.id,
+          thread_id: threadId,
+          role: message.role,
+          content: message.content,
+          attachments: serializeAttachments(message.attachments),
+          created_at: existing?.record.created_at ?? message.createdAt ?? now,
+          updated_at: now,
+        },
+      });
+    }
+
+    await this.store.putThread({
+      userId,
+      changedAt: now,
+      deleted: false,
+      record: { ...thread, last_message_at: now, updated_at: now },
+    });
+  }
+
+  async renameThread(userId: string, threadId: string, title: string): Promise<void> {
+    const thread = await this.getThread(userId, threadId);
+    if (!thread) throw new ThreadAccessError(threadId);
+
+    const now = Date.now();
+    await this.store.putThread({
+      userId,
+      changedAt: now,
+      deleted: false,
+      record: { ...thread, title: title.trim() || thread.title, updated_at: now },
+    });
+  }
+
+  /**
+   * Delete a thread and its messages (kept as tombstones for sync)
+   */
+  async deleteThread(userId: string, threadId: string): Promise<void> {
+    const stored = await this.store.getThread(threadId);
+    if (!stored || stored.userId !== userId) return;
+
+    const now = Date.now();
+    await this.store.putThread({ ...stored, changedAt: now, deleted: true });
+    for (const message of await this.store.listMessages(userId, threadId)) {
+      if (!message.deleted) {
+        await this.store.putMessage({ ...message, changedAt: now, deleted: true });
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // WatermelonDB sync
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Changes since the client's last pull
+   * Records created after lastPulledAt are reported as created, the rest as updated
+   */
+  async pullChanges(
+    userId: string,
+    lastPulledAt: number | null
+  ): Promise<{ changes: Required<ThreadSyncChanges>; timestamp: number }> {
+    const timestamp = Date.now();
+    const since = lastPulledAt ?? 0;
+
+    const collect = <T extends { id: string; created_at: number }>(
+      records: StoredRecord<T>[]
+    ): TableChanges<T> => {
+      const changes = emptyChanges<T>();
+      for (const stored of records) {
+        if (stored.changedAt <= since) continue;
+        if (stored.deleted) {
+          // Nothing to delete on a client that never pulled
+          if (lastPulledAt !== null) changes.deleted.push(stored.record.id);
+        } else if (lastPulledAt === null || stored.record.created_at > lastPulledAt) {
+          changes.created.push(stored.record);
+        } else {
+          changes.updated.push(stored.record);
+        }
+      }
+      return changes;
+    };
+
+    return {
+      changes: {
+        ai_threads: collect(await this.store.listThreads(userId)),
+        ai_messages: collect(await this.store.listMessages(userId)),
+      },
+      timestamp,
+    };
+  }
+
+  /**
+   * Apply changes pushed by a client
+   * Conflicts resolve by updated_at (newest wins); records owned by other users, and
+   * system messages (which only the server writes), are ignored.
+   */
+  async pushChanges(userId: string, changes: ThreadSyncChanges): Promise<void> {
+    const now = Date.now();
+
+    const threads = changes.ai_threads ?? emptyChanges<ThreadRecord>();
+    for (const record of [...threads.created, ...threads.updated]) {
+      const existing = await this.store.getThread(record.id);
+      if (existing && (existing.userId !== userId || existing.deleted)) continue;
+      if (existing && existing.record.updated_at > record.updated_at) continue;
+
+      await this.store.putThread({
+        userId,
+        changedAt: now,
+        deleted: false,
+        record: {
+          id: record.id,
+          title: record.title,
+          last_message_at: record.last_message_at,
+          created_at: record.created_at,
+          updated_at: record.updated_at,
+        },
+      });
+    }
+
+    const messages = changes.ai_messages ?? emptyChanges<ThreadMessageRecord>();
+    for (const record of [...messages.created, ...messages.updated]) {
+      if (record.role === 'system') continue;
+
+      const thread = await this.store.getThread(record.thread_id);
+      if (!thread || thread.userId !== userId || thread.deleted) continue;
+
+      const existing = await this.store.getMessage(record.id);
+      if (existing && (existing.userId !== userId || existing.deleted)) continue;
+      if (existing && existing.record.updated_at > record.updated_at) continue;
+
+      await this.store.putMessage({
+        userId,
+        changedAt: now,
+        deleted: false,
+        record: {
+          id: record.id,
+          thread_id: record.thread_id,
+          role: record.role,
+          content: record.content,
+          attachments: record.attachments ?? null,
+          created_at: record.created_at,
+          updated_at: record.updated_at,
+        },
+      });
+    }
+
+    for (const id of messages.deleted) {
+      const existing = await this.store.getMessage(id);
+      if (existing && existing.userId === userId && !existing.deleted) {
+        await this.store.putMessage({ ...existing, changedAt: now, deleted: true });
+      }
+    }
+
+    for (const id of threads.deleted) {
+      await this.deleteThread(userId, id);
+    }
+  }
+}
+
+/**
+ * Create the repository selected by environment variables:
+ * - AI_THREAD_STORE=memory (default) | file
+ * - AI_THREAD_FILE=path to the JSON file (default: .ai-threads.json)
+ */
+function createThreadRepositoryFromEnv(): ThreadRepository {
+  if (process.env.AI_THREAD_STORE === 'file') {
+    return new ThreadRepository(
+      new FileThreadStore(process.env.AI_THREAD_FILE || '.ai-threads.json')
+    );
+  }
+  return new ThreadRepository();
+}
+
+// Singleton instance
+export const threadRepository = createThreadRepositoryFromEnv();
@@ -0,0 +1,190 @@
+/**
+ * Image Thumbnails (server-side)
+ *
+ * Downscales generated images for gallery thumbnails without native image
+ * libraries. Image models return PNGs, so only 8-bit, non-interlaced RGB and
+ * RGBA PNGs are handled; anything else returns null and callers fall back to
+ * the full-size image.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { crc32, deflateSync, inflateSync } from 'node:zlib';
+
+/** Longest side of generated thumbnails, in pixels */
+export const THUMBNAIL_SIZE = 256;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Bytes per pixel by PNG color type */
+const CHANNELS: Record<number, number> = { 2: 3, 6: 4 };
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** 3 (RGB) or 4 (RGBA) */
+  channels: number;
+  pixels: Uint8Array;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode an 8-bit RGB/RGBA PNG, or return null for unsupported input
+ */
+export function decodePng(data: Uint8Array): DecodedImage | null {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (buffer.length < 33 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      const interlace = chunk[12];
+      channels = CHANNELS[chunk[9]] ?? 0;
+      if (bitDepth !== 8 || interlace !== 0 || !channels) return null;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (!width || !height || !channels || idat.length === 0) return null;
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[previous + x - channels] : 0;
+      let predictor = 0;
+
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      else if (filter !== 0) return null;
+
+      pixels[row + x] = (raw[line + x] + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, channels, pixels };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])) >>> 0, 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode pixels as a PNG (no row filtering)
+ */
+export function encodePng(image: DecodedImage): Uint8Array {
+  const { width, height, channels, pixels } = image;
+  const stride = width * channels;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = channels === 4 ? 6 : 2;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Shrink an image so its longest side is at most `maxSize`, averaging each box of pixels
+ */
+export function downscale(image: DecodedImage, maxSize: number): DecodedImage {
+  const { width, height, channels, pixels } = image;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  if (scale === 1) return image;
+
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const out = new Uint8Array(outWidth * outHeight * channels);
+
+  for (let y = 0; y < outHeight; y++) {
+    const y0 = Math.floor((y * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * height) / outHeight));
+
+    for (let x = 0; x < outWidth; x++) {
+      const x0 = Math.floor((x * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * width) / outWidth));
+      const count = (y1 - y0) * (x1 - x0);
+
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            sum += pixels[(sy * width + sx) * channels + c];
+          }
+        }
+        out[(y * outWidth + x) * channels + c] = Math.round(sum / count);
+      }
+    }
+  }
+
+  return { width: outWidth, height: outHeight, channels, pixels: out };
+}
+
+/**
+ * PNG thumbnail of an image, or null when the format is not supported
+ */
+export function createPngThumbnail(
+  data: Uint8Array,
+  maxSize: number = THUMBNAIL_SIZE
+): Uint8Array | null {
+  const image = decodePng(data);
+  return image ? encodePng(downscale(image, maxSize)) : null;
+}
@@ -0,0 +1,172 @@
+/**
+ * AI Tool Audit Log
+ *
+ * Records every tool invocation (who, what, arguments, duration, outcome) so
+ * admins can review what the model ran on behalf of users.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+
+export type ToolCallOutcome = 'success' | 'error' | 'timeout' | 'denied' | 'too_large' | 'blocked';
+
+export interface ToolCallRecord {
+  id: string;
+  toolName: string;
+  userId: string;
+  role: string;
+  /** Arguments as sent by the model (truncated if very large) */
+  args: unknown;
+  durationMs: number;
+  outcome: ToolCallOutcome;
+  error?: string;
+  /** Serialized size of the result in bytes */
+  resultBytes?: number;
+  createdAt: number;
+}
+
+export interface ToolCallFilter {
+  userId?: string;
+  toolName?: string;
+  outcome?: ToolCallOutcome;
+  /** Epoch ms, inclusive */
+  since?: number;
+  /** Epoch ms, exclusive */
+  until?: number;
+  /** Default 50, max 500 */
+  limit?: number;
+}
+
+export const MAX_AUDIT_QUERY_LIMIT = 500;
+
+/** Arguments larger than this are stored as a truncated JSON string */
+const MAX_AUDIT_ARGS_BYTES = 2048;
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface ToolAuditStore {
+  append(record: ToolCallRecord): Promise<void>;
+  /** All records, oldest first */
+  list(): Promise<ToolCallRecord[]>;
+}
+
+/**
+ * In-memory store keeping the most recent records
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryToolAuditStore implements ToolAuditStore {
+  private records: ToolCallRecord[] = [];
+
+  constructor(private maxRecords = 10000) {}
+
+  async append(record: ToolCallRecord): Promise<void> {
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  async list(): Promise<ToolCallRecord[]> {
+    return [...this.records];
+  }
+}
+
+/**
+ * Append-only JSON Lines file store
+ */
+export class FileToolAuditStore implements ToolAuditStore {
+  constructor(private filePath: string) {}
+
+  async append(record: ToolCallRecord): Promise<void> {
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  async list(): Promise<ToolCallRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const records: ToolCallRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line) as ToolCallRecord);
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return records;
+  }
+}
+
+// =============================================================================
+// Audit log
+// =============================================================================
+
+/**
+ * Keep audit records small: oversized arguments are stored as a truncated string
+ */
+function summarizeArgs(args: unknown): unknown {
+  const json = JSON.stringify(args) ?? 'undefined';
+  return json.length > MAX_AUDIT_ARGS_BYTES
+    ? `${json.slice(0, MAX_AUDIT_ARGS_BYTES)}… (${json.length} bytes)`
+    : args;
+}
+
+export class ToolAuditLog {
+  constructor(private store: ToolAuditStore = new MemoryToolAuditStore()) {}
+
+  async record(entry: Omit<ToolCallRecord, 'id' | 'createdAt'>): Promise<ToolCallRecord> {
+    const record: ToolCallRecord = {
+      id: crypto.randomUUID(),
+      ...entry,
+      args: summarizeArgs(entry.args),
+      createdAt: Date.now(),
+    };
+    await this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Recent tool calls matching the filter, newest first
+   */
+  async query(filter: ToolCallFilter = {}): Promise<ToolCallRecord[]> {
+    const limit = Math.min(Math.max(filter.limit ?? 50, 1), MAX_AUDIT_QUERY_LIMIT);
+    const records = await this.store.list();
+
+    const matches: ToolCallRecord[] = [];
+    for (let i = records.length - 1; i >= 0 && matches.length < limit; i--) {
+      const record = records[i];
+      if (filter.userId && record.userId !== filter.userId) continue;
+      if (filter.toolName && record.toolName !== filter.toolName) continue;
+      if (filter.outcome && record.outcome !== filter.outcome) continue;
+      if (filter.since !== undefined && record.createdAt < filter.since) continue;
+      if (filter.until !== undefined && record.createdAt >= filter.until) continue;
+      matches.push(record);
+    }
+    return matches;
+  }
+}
+
+/**
+ * Create the audit log selected by environment variables:
+ * - AI_TOOL_AUDIT_STORE=memory (default) | file
+ * - AI_TOOL_AUDIT_FILE=path to the JSON Lines file (default: .ai-tool-audit.jsonl)
+ */
+function createToolAuditLogFromEnv(): ToolAuditLog {
+  if (process.env.AI_TOOL_AUDIT_STORE === 'file') {
+    return new ToolAuditLog(
+      new FileToolAuditStore(process.env.AI_TOOL_AUDIT_FILE || '.ai-tool-audit.jsonl')
+    );
+  }
+  return new ToolAuditLog();
+}
+
+// Singleton instance
+export const toolAuditLog = createToolAuditLogFromEnv();
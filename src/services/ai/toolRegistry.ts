@@ -0,0 +1,276 @@
+/**
+ * AI Tool Registry
+ *
+ * Central list of the tools the model may call. Each tool declares:
+ * - the roles (matching AuthToken.role) and scopes a user needs to use it
+ * - a maximum execution time, after which the call is aborted
+ * - a maximum result size, so one call can't flood the context window
+ * - whether its results carry untrusted content (user notes, web pages), which is
+ *   moderated at the 'tool' stage and marked so the model treats it as data
+ *
+ * Tools handed to the AI SDK are wrapped so every invocation is checked,
+ * time-limited, size-limited and written to the tool audit log.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import type { Tool } from 'ai';
+import type { z } from 'zod';
+import { type ModerationPipeline, markUntrusted, moderationPipeline } from './moderation';
+import { type ToolAuditLog, type ToolCallOutcome, toolAuditLog } from './toolAudit';
+
+/** Same roles as AuthToken.role */
+export type ToolRole = 'user' | 'admin';
+
+export interface ToolCaller {
+  userId: string;
+  role: ToolRole;
+}
+
+export interface ToolContext extends ToolCaller {
+  /** Aborted when the tool times out or the request is cancelled */
+  signal: AbortSignal;
+}
+
+export interface ToolDefinition<TArgs = unknown> {
+  name: string;
+  description: string;
+  parameters: z.ZodType<TArgs, z.ZodTypeDef, unknown>;
+  execute(args: TArgs, context: ToolContext): Promise<unknown>;
+  /** Roles allowed to use the tool (default: all) */
+  roles?: ToolRole[];
+  /** Scopes the caller's role must grant (default: none) */
+  scopes?: string[];
+  /** Default 10000 */
+  timeoutMs?: number;
+  /** Default 16384 */
+  maxResultBytes?: number;
+  /** Results contain user or third-party content (moderated and marked untrusted) */
+  untrusted?: boolean;
+}
+
+export interface ResolvedTools {
+  /** Wrapped tools, ready to pass to streamText/generateText */
+  tools: Record<string, Tool>;
+  /** Requested tools the caller isn't allowed to use */
+  denied: string[];
+  /** Requested names that aren't registered */
+  unknown: string[];
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+export const DEFAULT_TOOL_MAX_RESULT_BYTES = 16384;
+
+/**
+ * Scopes granted to each role
+ * '*' grants every scope
+ */
+export const ROLE_SCOPES: Record<ToolRole, string[]> = {
+  user: ['notes:read', 'web:search', 'web:fetch'],
+  admin: ['*'],
+};
+
+/**
+ * Thrown inside a tool call when it exceeds its time limit
+ */
+export class ToolTimeoutError extends Error {
+  constructor(
+    public toolName: string,
+    public timeoutMs: number
+  ) {
+    super(`Tool ${toolName} did not finish within ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class ToolRegistry {
+  private definitions = new Map<string, ToolDefinition>();
+
+  constructor(
+    private audit: ToolAuditLog = toolAuditLog,
+    private moderation: ModerationPipeline = moderationPipeline
+  ) {}
+
+  register<TArgs>(definition: ToolDefinition<TArgs>): ToolDefinition<TArgs> {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Tool "${definition.name}" is already registered`);
+    }
+    this.definitions.set(definition.name, definition);
+    return definition;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Whether a caller may use a tool
+   */
+  canUse(definition: ToolDefinition, caller: ToolCaller): boolean {
+    if (definition.roles && !definition.roles.includes(caller.role)) {
+      return false;
+    }
+
+    const granted = ROLE_SCOPES[caller.role] ?? [];
+    return (
+      granted.includes('*') || (definition.scopes ?? []).every((scope) => granted.includes(scope))
+    );
+  }
+
+  /**
+   * Tools the caller may use
+   */
+  listForCaller(caller: ToolCaller): ToolDefinition[] {
+    return this.list().filter((definition) => this.canUse(definition, caller));
+  }
+
+  /**
+   * Resolve requested tool names into wrapped AI SDK tools for a caller
+   */
+  resolve(names: string[], caller: ToolCaller): ResolvedTools {
+    const result: ResolvedTools = { tools: {}, denied: [], unknown: [] };
+
+    for (const name of names) {
+      const definition = this.definitions.get(name);
+      if (!definition) {
+        result.unknown.push(name);
+      } else if (!this.canUse(definition, caller)) {
+        result.denied.push(name);
+      } else {
+        result.tools[name] = this.wrap(definition, caller);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a tool for a caller with permission, timeout and size checks, and audit it
+   * Failures are returned as `{ success: false, error }` so the model can react to them.
+   */
+  async invoke(
+    name: string,
+    args: unknown,
+    caller: ToolCaller,
+    abortSignal?: AbortSignal
+  ): Promise<unknown> {
+    const definition = this.definitions.get(name);
+    const startTime = Date.now();
+
+    const finish = async (
+      outcome: ToolCallOutcome,
+      result: unknown,
+      details: { error?: string; resultBytes?: number } = {}
+    ) => {
+      try {
+        await this.audit.record({
+          toolName: name,
+          userId: caller.userId,
+          role: caller.role,
+          args,
+          durationMs: Date.now() - startTime,
+          outcome,
+          ...details,
+        });
+      } catch (error) {
+        console.error('[AI Tools] Failed to write audit record:', error);
+      }
+      return result;
+    };
+
+    if (!definition || !this.canUse(definition, caller)) {
+      const error = definition ? `Not allowed to use tool ${name}` : `Unknown tool ${name}`;
+      return finish('denied', { success: false, error }, { error });
+    }
+
+    const parsed = definition.parameters.safeParse(args);
+    if (!parsed.success) {
+      const error = `Invalid arguments: ${parsed.error.errors.map((e) => `${e.path.join('.') || 'input'}: ${e.message}`).join('; ')}`;
+      return finish('error', { success: false, error }, { error });
+    }
+
+    const timeoutMs = definition.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(abortSignal?.reason);
+    abortSignal?.addEventListener('abort', onAbort);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new ToolTimeoutError(name, timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      });
+
+      let result = await Promise.race([
+        definition.execute(parsed.data, { ...caller, signal: controller.signal }),
+        timeout,
+      ]);
+
+      // Untrusted content can carry prompt injection, so check it before the model reads it
+      if (definition.untrusted) {
+        const checked = await this.moderation.checkValue(result, {
+          stage: 'tool',
+          userId: caller.userId,
+        });
+        if (checked.action === 'block') {
+          const error = 'Result withheld by content moderation';
+          return finish('blocked', { success: false, error }, { error });
+        }
+        result = markUntrusted(checked.value);
+      }
+
+      const resultBytes = new TextEncoder().encode(JSON.stringify(result) ?? '').length;
+      const maxResultBytes = definition.maxResultBytes ?? DEFAULT_TOOL_MAX_RESULT_BYTES;
+      if (resultBytes > maxResultBytes) {
+        const error = `Result is ${resultBytes} bytes, over the ${maxResultBytes} byte limit. Narrow the request.`;
+        return finish('too_large', { success: false, error }, { error, resultBytes });
+      }
+
+      // Tools report handled failures as { success: false }
+      const failed =
+        typeof result === 'object' &&
+        result !== null &&
+        (result as { success?: unknown }).success === false;
+      return finish(failed ? 'error' : 'success', result, {
+        resultBytes,
+        ...(failed && { error: String((result as { error?: unknown }).error ?? 'Tool failed') }),
+      });
+    } catch (error) {
+      const timedOut = error instanceof ToolTimeoutError;
+      const message = describeError(error);
+      return finish(
+        timedOut ? 'timeout' : 'error',
+        { success: false, error: message },
+        {
+          error: message,
+        }
+      );
+    } finally {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private wrap(definition: ToolDefinition, caller: ToolCaller): Tool {
+    return {
+      description: definition.description,
+      inputSchema: definition.parameters,
+      execute: (args: unknown, options: { abortSignal?: AbortSignal }) =>
+        this.invoke(definition.name, args, caller, options.abortSignal),
+    } as Tool;
+  }
+}
+
+// Singleton instance, populated by app/api/ai/tools.ts
+export const toolRegistry = new ToolRegistry();
@@ -0,0 +1,426 @@
+/**
+ * AI Usage Ledger
+ *
+ * Records token and image usage per user and per model, prices it, and
+ * enforces daily/monthly budgets by subscription tier.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+import { entitlementsService } from '@/services/payments/entitlements';
+
+export type AITier = 'free' | 'pro';
+
+export type UsageKind = 'chat' | 'completion' | 'embedding' | 'image';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export type BudgetMetric = 'tokens' | 'images';
+
+export interface UsageRecord {
+  userId: string;
+  model: string;
+  kind: UsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  costUsd: number;
+  createdAt: number;
+  /** Prompt template version served, as `<id>@<version>` (see ./promptTemplates.ts) */
+  promptTemplate?: string;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byPromptTemplate: Record<string, UsageTotals>;
+}
+
+export interface TierBudget {
+  daily: Record<BudgetMetric, number>;
+  monthly: Record<BudgetMetric, number>;
+}
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  resetAt: string;
+}
+
+export type BudgetCheck =
+  | { allowed: true }
+  | { allowed: false; tier: AITier; budget: BudgetStatus };
+
+/**
+ * Budgets per tier
+ * Paid users get 10x the free quota
+ */
+export const AI_BUDGETS: Record<AITier, TierBudget> = {
+  free: {
+    daily: { tokens: 50_000, images: 5 },
+    monthly: { tokens: 500_000, images: 30 },
+  },
+  pro: {
+    daily: { tokens: 500_000, images: 50 },
+    monthly: { tokens: 5_000_000, images: 300 },
+  },
+};
+
+/**
+ * Prices in USD per 1M tokens
+ * Unknown models are recorded at zero cost
+ */
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+/**
+ * Prices in USD per generated image
+ */
+const IMAGE_PRICES: Record<string, { standard: number; hd: number }> = {
+  'dall-e-3': { standard: 0.04, hd: 0.08 },
+};
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+export interface UsageStore {
+  append(record: UsageRecord): Promise<void>;
+  /** Records for a user created at or after `since` (epoch ms) */
+  list(userId: string, since: number): Promise<UsageRecord[]>;
+}
+
+/**
+ * In-memory store
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryUsageStore implements UsageStore {
+  private records: UsageRecord[] = [];
+
+  async append(record: UsageRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async list(userId: string, since: number): Promise<UsageRecord[]> {
+    return this.records.filter((r) => r.userId === userId && r.createdAt >= since);
+  }
+}
+
+/**
+ * Append-only JSON Lines file store
+ */
+export class FileUsageStore implements UsageStore {
+  constructor(private filePath: string) {}
+
+  async append(record: UsageRecord): Promise<void> {
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  async list(userId: string, since: number): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (record.userId === userId && record.createdAt >= since) {
+          records.push(record);
+        }
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return records;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Rough token estimate (1 token ≈ 4 characters)
+ * Used to pre-check budgets before the model reports real usage
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Price a token count for a model
+ */
+export function calculateTokenCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = TOKEN_PRICES[model];
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Price image generations for a model
+ */
+export function calculateImageCost(
+  model: string,
+  count: number,
+  quality: 'standard' | 'hd' = 'standard'
+): number {
+  const price = IMAGE_PRICES[model];
+  if (!price) return 0;
+  return count * price[quality];
+}
+
+/**
+ * Start of the current budget period (UTC)
+ */
+export function getPeriodStart(period: BudgetPeriod, now = Date.now()): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Start of the next budget period (UTC)
+ */
+export function getPeriodEnd(period: BudgetPeriod, now = Date.now()): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, images: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.promptTokens + record.completionTokens;
+  totals.images += record.images;
+  totals.costUsd += record.costUsd;
+}
+
+// =============================================================================
+// Tier resolution
+// =============================================================================
+
+type TierResolver = (userId: string) => Promise<AITier>;
+
+const TIER_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const tierCache = new Map<string, { tier: AITier; expiresAt: number }>();
+
+/**
+ * Default resolver: users with any active entitlement are 'pro'.
+ * Entitlements come from RevenueCat and the subscription records the payment
+ * webhooks keep (see src/services/payments/entitlements.ts).
+ */
+const entitlementTierResolver: TierResolver = async (userId) => {
+  const cached = tierCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tier;
+  }
+
+  const { entitlements } = await entitlementsService.getEntitlements(userId);
+  const tier: AITier = entitlements.some((entitlement) => entitlement.isActive) ? 'pro' : 'free';
+
+  tierCache.set(userId, { tier, expiresAt: Date.now() + TIER_CACHE_TTL });
+  return tier;
+};
+
+let tierResolver: TierResolver = entitlementTierResolver;
+
+/**
+ * Register how user tiers are resolved (e.g. from subscription records)
+ */
+export function setAITierResolver(resolver: TierResolver): void {
+  tierResolver = resolver;
+}
+
+/**
+ * Resolve the budget tier for a user
+ * Falls back to the free tier if the lookup fails
+ */
+export async function resolveAITier(userId: string): Promise<AITier> {
+  try {
+    return await tierResolver(userId);
+  } catch (error) {
+    console.error('[AIUsage] Failed to resolve tier:', error);
+    return 'free';
+  }
+}
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+export class UsageLedger {
+  constructor(
+    private store: UsageStore = new MemoryUsageStore(),
+    private budgets: Record<AITier, TierBudget> = AI_BUDGETS
+  ) {}
+
+  /**
+   * Record prompt and completion tokens for a chat or completion request
+   */
+  async recordTokens(
+    userId: string,
+    model: string,
+    kind: Exclude<UsageKind, 'image'>,
+    usage: { inputTokens?: number; outputTokens?: number },
+    details: { promptTemplate?: string } = {}
+  ): Promise<UsageRecord> {
+    const promptTokens = usage.inputTokens ?? 0;
+    const completionTokens = usage.outputTokens ?? 0;
+
+    const record: UsageRecord = {
+      userId,
+      model,
+      kind,
+      promptTokens,
+      completionTokens,
+      images: 0,
+      costUsd: calculateTokenCost(model, promptTokens, completionTokens),
+      createdAt: Date.now(),
+      ...(details.promptTemplate && { promptTemplate: details.promptTemplate }),
+    };
+
+    await this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Record generated images
+   */
+  async recordImages(
+    userId: string,
+    model: string,
+    count: number,
+    quality: 'standard' | 'hd' = 'standard'
+  ): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      userId,
+      model,
+      kind: 'image',
+      promptTokens: 0,
+      completionTokens: 0,
+      images: count,
+      costUsd: calculateImageCost(model, count, quality),
+      createdAt: Date.now(),
+    };
+
+    await this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Total usage since a point in time, overall, per model and per prompt template version
+   */
+  async getSummary(userId: string, since: number): Promise<UsageSummary> {
+    const records = await this.store.list(userId, since);
+    const summary: UsageSummary = { ...emptyTotals(), byModel: {}, byPromptTemplate: {} };
+
+    for (const record of records) {
+      addToTotals(summary, record);
+      summary.byModel[record.model] ??= emptyTotals();
+      addToTotals(summary.byModel[record.model], record);
+      if (record.promptTemplate) {
+        summary.byPromptTemplate[record.promptTemplate] ??= emptyTotals();
+        addToTotals(summary.byPromptTemplate[record.promptTemplate], record);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Check whether a request fits in the user's daily and monthly budgets
+   */
+  async checkBudget(
+    userId: string,
+    tier: AITier,
+    request: { tokens?: number; images?: number }
+  ): Promise<BudgetCheck> {
+    const now = Date.now();
+    const periods: BudgetPeriod[] = ['daily', 'monthly'];
+
+    // Monthly records include the daily ones, so fetch once
+    const records = await this.store.list(userId, getPeriodStart('monthly', now));
+
+    for (const period of periods) {
+      const since = getPeriodStart(period, now);
+      const totals = emptyTotals();
+      for (const record of records) {
+        if (record.createdAt >= since) {
+          addToTotals(totals, record);
+        }
+      }
+
+      const checks: Array<[BudgetMetric, number, number]> = [
+        ['tokens', totals.totalTokens, request.tokens ?? 0],
+        ['images', totals.images, request.images ?? 0],
+      ];
+
+      for (const [metric, used, requested] of checks) {
+        const limit = this.budgets[tier][period][metric];
+        if (requested > 0 && used + requested > limit) {
+          return {
+            allowed: false,
+            tier,
+            budget: {
+              period,
+              metric,
+              limit,
+              used,
+              resetAt: new Date(getPeriodEnd(period, now)).toISOString(),
+            },
+          };
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+}
+
+/**
+ * Create the ledger selected by environment variables:
+ * - AI_USAGE_STORE=memory (default) | file
+ * - AI_USAGE_FILE=path to the JSON Lines file (default: .ai-usage.jsonl)
+ */
+function createUsageLedgerFromEnv(): UsageLedger {
+  if (process.env.AI_USAGE_STORE === 'file') {
+    return new UsageLedger(new FileUsageStore(process.env.AI_USAGE_FILE || '.ai-usage.jsonl'));
+  }
+  return new UsageLedger();
+}
+
+// Singleton instance
+export const usageLedger = createUsageLedgerFromEnv();
@@ -0,0 +1,214 @@
+/**
+ * Web Search (server-side)
+ *
+ * Search abstraction behind the webSearch tool. Backends (AI_WEB_SEARCH_BACKEND):
+ * - brave: Brave Search API (BRAVE_SEARCH_API_KEY)
+ * - searxng: a SearXNG instance with the JSON format enabled (SEARXNG_URL)
+ * - fixture: canned results from a JSON file, for tests and offline development
+ *   (AI_WEB_SEARCH_FIXTURES)
+ *
+ * Every result carries its source URL so answers can cite it.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { readFileSync } from 'node:fs';
+import { decodeEntities } from './pageFetcher';
+
+export interface WebSearchResult {
+  title: string;
+  /** Source URL; cite this */
+  url: string;
+  snippet: string;
+  /** ISO date or the engine's age string, when known */
+  publishedAt?: string;
+}
+
+export interface WebSearchOptions {
+  /** Default 5 */
+  numResults?: number;
+  abortSignal?: AbortSignal;
+}
+
+export interface WebSearchBackend {
+  readonly name: string;
+  search(query: string, options?: WebSearchOptions): Promise<WebSearchResult[]>;
+}
+
+/**
+ * Thrown when a search backend fails or is misconfigured
+ */
+export class WebSearchError extends Error {
+  constructor(
+    public backend: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WebSearchError';
+  }
+}
+
+/** Engines return snippets with highlighting markup */
+function cleanSnippet(text = ''): string {
+  return decodeEntities(text.replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isHttpUrl(url: unknown): url is string {
+  return typeof url === 'string' && /^https?:\/\//i.test(url);
+}
+
+/**
+ * Brave Search API
+ * https://api-dashboard.search.brave.com/app/documentation/web-search
+ */
+export class BraveSearchBackend implements WebSearchBackend {
+  readonly name = 'brave';
+
+  constructor(
+    private apiKey: string,
+    private fetchFn: typeof fetch = globalThis.fetch,
+    private baseUrl = 'https://api.search.brave.com/res/v1/web/search'
+  ) {}
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResult[]> {
+    const { numResults = 5, abortSignal } = options;
+    const url = new URL(this.baseUrl);
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(Math.min(numResults, 20)));
+
+    const response = await this.fetchFn(url, {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey },
+      signal: abortSignal,
+    });
+    if (!response.ok) {
+      throw new WebSearchError(this.name, `Brave Search returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const results: Array<Record<string, unknown>> = data.web?.results ?? [];
+
+    return results
+      .filter((result) => isHttpUrl(result.url))
+      .slice(0, numResults)
+      .map((result) => {
+        const publishedAt = result.page_age ?? result.age;
+        return {
+          title: cleanSnippet(String(result.title ?? '')),
+          url: result.url as string,
+          snippet: cleanSnippet(String(result.description ?? '')),
+          ...(typeof publishedAt === 'string' && { publishedAt }),
+        };
+      });
+  }
+}
+
+/**
+ * SearXNG metasearch (requires `json` in the instance's `search.formats`)
+ */
+export class SearxngSearchBackend implements WebSearchBackend {
+  readonly name = 'searxng';
+
+  constructor(
+    private baseUrl: string,
+    private fetchFn: typeof fetch = globalThis.fetch
+  ) {}
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResult[]> {
+    const { numResults = 5, abortSignal } = options;
+    const url = new URL('search', this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+
+    const response = await this.fetchFn(url, {
+      headers: { Accept: 'application/json' },
+      signal: abortSignal,
+    });
+    if (!response.ok) {
+      throw new WebSearchError(this.name, `SearXNG returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const results: Array<Record<string, unknown>> = data.results ?? [];
+
+    return results
+      .filter((result) => isHttpUrl(result.url))
+      .slice(0, numResults)
+      .map((result) => ({
+        title: cleanSnippet(String(result.title ?? '')),
+        url: result.url as string,
+        snippet: cleanSnippet(String(result.content ?? '')),
+        ...(typeof result.publishedDate === 'string' && { publishedAt: result.publishedDate }),
+      }));
+  }
+}
+
+/**
+ * Canned results keyed by query (case and whitespace insensitive)
+ * The `*` entry answers queries without their own entry.
+ */
+export class FixtureSearchBackend implements WebSearchBackend {
+  readonly name = 'fixture';
+  private fixtures: Map<string, WebSearchResult[]>;
+
+  constructor(fixtures: Record<string, WebSearchResult[]>) {
+    this.fixtures = new Map(
+      Object.entries(fixtures).map(([query, results]) => [this.normalize(query), results])
+    );
+  }
+
+  /**
+   * Load fixtures from a JSON file: { "<query>": WebSearchResult[] }
+   */
+  static fromFile(filePath: string): FixtureSearchBackend {
+    return new FixtureSearchBackend(JSON.parse(readFileSync(filePath, 'utf8')));
+  }
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResult[]> {
+    const results = this.fixtures.get(this.normalize(query)) ?? this.fixtures.get('*') ?? [];
+    return results.slice(0, options.numResults ?? 5);
+  }
+
+  private normalize(query: string) {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Create the backend selected by environment variables, or null when web search
+ * is not configured
+ */
+export function createWebSearchBackendFromEnv(): WebSearchBackend | null {
+  switch (process.env.AI_WEB_SEARCH_BACKEND) {
+    case 'brave':
+      if (!process.env.BRAVE_SEARCH_API_KEY) {
+        throw new WebSearchError('brave', 'BRAVE_SEARCH_API_KEY is not configured');
+      }
+      return new BraveSearchBackend(process.env.BRAVE_SEARCH_API_KEY);
+    case 'searxng':
+      if (!process.env.SEARXNG_URL) {
+        throw new WebSearchError('searxng', 'SEARXNG_URL is not configured');
+      }
+      return new SearxngSearchBackend(process.env.SEARXNG_URL);
+    case 'fixture':
+      if (!process.env.AI_WEB_SEARCH_FIXTURES) {
+        throw new WebSearchError('fixture', 'AI_WEB_SEARCH_FIXTURES is not configured');
+      }
+      return FixtureSearchBackend.fromFile(process.env.AI_WEB_SEARCH_FIXTURES);
+    default:
+      return null;
+  }
+}
+
+let backend: WebSearchBackend | null | undefined;
+
+/**
+ * The configured backend (created on first use), or null
+ */
+export function getWebSearchBackend(): WebSearchBackend | null {
+  if (backend === undefined) {
+    backend = createWebSearchBackendFromEnv();
+  }
+  return backend;
+}
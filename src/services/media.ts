@@ -8,8 +8,10 @@
  * - Image picker (library)
  * - Media library management
  * - Video playback utilities
+ * - Voice recording and audio playback
  */
 
+import { type AVPlaybackStatus, Audio } from 'expo-av';
 import { Camera } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
@@ -25,6 +27,12 @@ export interface MediaResult {
   base64?: string;
 }
 
+export interface AudioRecordingResult {
+  uri: string;
+  durationMillis: number;
+  mimeType: string;
+}
+
 /**
  * Request camera permissions
  */
@@ -50,6 +58,14 @@ export async function requestCameraAndMicPermissions(): Promise<boolean> {
   return camera.status === 'granted' && microphone.status === 'granted';
 }
 
+/**
+ * Request microphone permissions (for voice recording)
+ */
+export async function requestMicrophonePermission(): Promise<boolean> {
+  const { status } = await Audio.requestPermissionsAsync();
+  return status === 'granted';
+}
+
 /**
  * Take a photo using the camera
  * @param options Optional configuration
@@ -287,3 +303,72 @@ export async function getRecentMedia(options?: {
     return [];
   }
 }
+
+/**
+ * Start recording from the microphone (AAC in an m4a file, or webm on web)
+ * Only one recording can run at a time; finish it with stopAudioRecording
+ */
+export async function startAudioRecording(): Promise<Audio.Recording | null> {
+  const hasPermission = await requestMicrophonePermission();
+  if (!hasPermission) {
+    console.warn('Microphone permission denied');
+    return null;
+  }
+
+  try {
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+    const { recording } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY
+    );
+    return recording;
+  } catch (error) {
+    console.error('Error starting audio recording:', error);
+    return null;
+  }
+}
+
+/**
+ * Stop a recording and return its file
+ * @param recording Recording from startAudioRecording
+ */
+export async function stopAudioRecording(
+  recording: Audio.Recording
+): Promise<AudioRecordingResult | null> {
+  try {
+    const status = await recording.stopAndUnloadAsync();
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+
+    const uri = recording.getURI();
+    if (!uri) {
+      return null;
+    }
+
+    return {
+      uri,
+      durationMillis: status.durationMillis,
+      mimeType: uri.endsWith('.webm') ? 'audio/webm' : 'audio/mp4',
+    };
+  } catch (error) {
+    console.error('Error stopping audio recording:', error);
+    return null;
+  }
+}
+
+/**
+ * Load an audio file and start playing it, even with the iOS silent switch on
+ * @param uri Local or remote audio URI
+ * @param onStatusUpdate Called with playback progress
+ */
+export async function playSound(
+  uri: string,
+  onStatusUpdate?: (status: AVPlaybackStatus) => void
+): Promise<Audio.Sound | null> {
+  try {
+    await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+    const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true }, onStatusUpdate);
+    return sound;
+  } catch (error) {
+    console.error('Error playing audio:', error);
+    return null;
+  }
+}
@@ -0,0 +1,206 @@
+import { type CreditPackCatalog, CreditsService, parseCreditPacks } from '../credits';
+import { MemoryPaymentsRepository } from '../repository';
+import { RevenueCatWebhookProcessor } from '../revenueCatWebhooks';
+import { type StripeEvent, StripeWebhookProcessor } from '../stripeWebhooks';
+import chargeRefunded from './fixtures/charge.refunded.json';
+import paymentIntentSucceeded from './fixtures/payment_intent.succeeded.json';
+import nonRenewingPurchase from './fixtures/revenuecat.non_renewing_purchase.json';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const PACKS: CreditPackCatalog = {
+  defaultCurrency: 'USD',
+  costs: { image: 4 },
+  packs: [
+    {
+      id: 'credits_100',
+      credits: 100,
+      prices: { USD: { amount: 499 }, EUR: { amount: 449 } },
+      revenueCatProductId: 'credits_100',
+    },
+    {
+      id: 'credits_500',
+      credits: 500,
+      prices: { USD: { amount: 1999 } },
+      revenueCatProductId: 'credits_500',
+      badge: 'bestValue',
+      highlighted: true,
+    },
+  ],
+};
+
+const NOW = Date.parse('2026-06-15T12:00:00Z');
+
+describe('CreditsService', () => {
+  let repository: MemoryPaymentsRepository;
+  let credits: CreditsService;
+
+  const buy = (amount: number, transactionId = 'pi_1') =>
+    credits.addPurchase({
+      userId: 'user-1',
+      packId: 'credits_100',
+      credits: amount,
+      source: 'stripe',
+      transactionId,
+      createdAt: NOW,
+    });
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    credits = new CreditsService(PACKS, repository);
+  });
+
+  it('describes the packs in the requested language and currency', () => {
+    const { locale, packs } = credits.getPacks({ locale: 'es-ES', currency: 'eur' });
+
+    expect(locale).toBe('es');
+    expect(packs[0]).toMatchObject({
+      id: 'credits_100',
+      name: '100 créditos',
+      highlighted: false,
+      price: { amount: 449, currency: 'EUR' },
+    });
+    // No EUR price: the default currency
+    expect(packs[1]).toMatchObject({
+      badge: 'MEJOR PRECIO',
+      price: { amount: 1999, currency: 'USD' },
+    });
+    expect(credits.costOf('image', 3)).toBe(12);
+    expect(credits.costOf('video')).toBe(0);
+  });
+
+  it('adds a purchase once and keeps every change in the ledger', async () => {
+    await buy(100);
+    await buy(100);
+    const spend = await credits.spend('user-1', 30, { description: '3 images', now: NOW + 1 });
+    await credits.refund(spend, { amount: 10, now: NOW + 2 });
+    await credits.refund(spend, { now: NOW + 3 });
+
+    const { balance, entries } = await credits.getCredits('user-1');
+    expect(balance).toBe(80);
+    expect(entries).toEqual([
+      expect.objectContaining({ type: 'refund', amount: 10, balanceAfter: 80 }),
+      expect.objectContaining({
+        type: 'spend',
+        amount: -30,
+        balanceAfter: 70,
+        description: '3 images',
+      }),
+      expect.objectContaining({ id: 'stripe:pi_1', type: 'purchase', balanceAfter: 100 }),
+    ]);
+  });
+
+  it('never spends more than the balance, even concurrently', async () => {
+    await buy(10);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => credits.spend('user-1', 3))
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(3);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: { code: 'INSUFFICIENT_CREDITS', balance: 1, required: 3 },
+    });
+    expect(await credits.getBalance('user-1')).toBe(1);
+  });
+
+  it('takes back the refunded share of a purchase, even if spent', async () => {
+    const purchase = await buy(100);
+    await credits.spend('user-1', 80);
+
+    await credits.reversePurchase(purchase, { refunded: 0.5, createdAt: NOW });
+    expect(await credits.getBalance('user-1')).toBe(-30);
+    // The same refund again takes nothing more
+    expect(await credits.reversePurchase(purchase, { refunded: 0.5, createdAt: NOW })).toBe(
+      undefined
+    );
+
+    await credits.reversePurchase(purchase, { createdAt: NOW });
+    expect(await credits.getBalance('user-1')).toBe(-80);
+    await expect(credits.spend('user-1', 1)).rejects.toMatchObject({ balance: -80 });
+  });
+});
+
+describe('credit pack webhooks', () => {
+  let repository: MemoryPaymentsRepository;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+  });
+
+  it('adds Stripe payment intent credits and takes them back on refund', async () => {
+    const processor = new StripeWebhookProcessor(repository, { creditPacks: PACKS });
+    const refund = (id: string, amountRefunded: number) =>
+      ({
+        ...chargeRefunded,
+        id,
+        data: { object: { ...chargeRefunded.data.object, amount_refunded: amountRefunded } },
+      }) as StripeEvent;
+
+    // Refunds before the purchase arrives fail, so Stripe redelivers them
+    await expect(processor.handle(refund('evt_early', 100))).rejects.toThrow('pi_credits_1');
+
+    expect(await processor.handle(paymentIntentSucceeded as StripeEvent)).toBe('processed');
+    expect(await processor.handle(paymentIntentSucceeded as StripeEvent)).toBe('duplicate');
+    expect(await repository.getCreditBalance('user-1')).toBe(100);
+    expect(await repository.getPayment('pi_credits_1')).toMatchObject({
+      userId: 'user-1',
+      amount: 499,
+      status: 'succeeded',
+    });
+
+    // Partial refunds add up
+    await processor.handle(refund('evt_partial', 100));
+    expect(await repository.getCreditBalance('user-1')).toBe(80);
+    await processor.handle(chargeRefunded as StripeEvent);
+    expect(await repository.getCreditBalance('user-1')).toBe(0);
+    expect((await repository.getPayment('pi_credits_1'))?.status).toBe('refunded');
+  });
+
+  it('ignores payment intents that are not for credit packs', async () => {
+    const processor = new StripeWebhookProcessor(repository, { creditPacks: PACKS });
+    const event = {
+      ...paymentIntentSucceeded,
+      data: { object: { ...paymentIntentSucceeded.data.object, metadata: {} } },
+    } as StripeEvent;
+
+    expect(await processor.handle(event)).toBe('ignored');
+    expect(await repository.getCreditBalance('user-1')).toBe(0);
+  });
+
+  it('adds RevenueCat consumable credits and takes them back on refund', async () => {
+    const processor = new RevenueCatWebhookProcessor(repository, { creditPacks: PACKS });
+
+    expect(await processor.handle(nonRenewingPurchase)).toBe('processed');
+    expect(await repository.getCreditBalance('user-1')).toBe(500);
+    expect(await repository.getSubscriptionsForUser('user-1')).toEqual([]);
+
+    await processor.handle({
+      ...nonRenewingPurchase,
+      event: {
+        ...nonRenewingPurchase.event,
+        id: 'rc-credits-refund',
+        type: 'CANCELLATION',
+        cancel_reason: 'CUSTOMER_SUPPORT',
+        event_timestamp_ms: nonRenewingPurchase.event.event_timestamp_ms + 1000,
+      },
+    });
+
+    expect(await repository.getCreditBalance('user-1')).toBe(0);
+    expect((await repository.getPayment('revenuecat:GPA.3300-1234-5678-90123'))?.status).toBe(
+      'refunded'
+    );
+  });
+});
+
+describe('parseCreditPacks', () => {
+  it('rejects packs without a price in the default currency', () => {
+    const catalog = parseCreditPacks({
+      defaultCurrency: 'EUR',
+      packs: [{ id: 'credits_50', credits: 50, prices: { USD: { amount: 299 } } }],
+    });
+
+    expect(() => new CreditsService(catalog)).toThrow('Credit pack credits_50 has no EUR price');
+    expect(() => parseCreditPacks({ defaultCurrency: 'USD', packs: [{ id: 'x' }] })).toThrow();
+  });
+});
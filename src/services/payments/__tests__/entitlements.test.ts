@@ -0,0 +1,164 @@
+import { EntitlementsService, type RevenueCatSubscriber } from '../entitlements';
+import { MemoryPaymentsRepository, type SubscriptionRecord } from '../repository';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-06-15T12:00:00Z');
+
+function subscription(changes: Partial<SubscriptionRecord> = {}): SubscriptionRecord {
+  return {
+    id: 'sub_1',
+    source: 'stripe',
+    userId: 'user-1',
+    customerId: 'cus_1',
+    priceId: 'price_monthly',
+    status: 'active',
+    currentPeriodEnd: NOW + 10 * DAY,
+    cancelAtPeriodEnd: false,
+    eventCreated: NOW - 20 * DAY,
+    updatedAt: NOW - 20 * DAY,
+    ...changes,
+  };
+}
+
+function subscriber(
+  entitlements: RevenueCatSubscriber['entitlements'],
+  subscriptions: RevenueCatSubscriber['subscriptions'] = {}
+): RevenueCatSubscriber {
+  return { entitlements, subscriptions };
+}
+
+describe('EntitlementsService', () => {
+  let repository: MemoryPaymentsRepository;
+  let getSubscriber: jest.Mock<Promise<RevenueCatSubscriber>, [string]>;
+  let service: EntitlementsService;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    getSubscriber = jest.fn(async (_appUserId: string) => subscriber({}));
+    service = new EntitlementsService(
+      repository,
+      { getSubscriber },
+      { priceEntitlements: { price_pro: ['premium', 'pro'] }, gracePeriodMs: 3 * DAY }
+    );
+  });
+
+  it('grants web subscriptions to the app user', async () => {
+    await repository.saveSubscription(subscription());
+
+    const result = await service.getEntitlements('user-1', NOW);
+
+    expect(getSubscriber).toHaveBeenCalledWith('user-1');
+    expect(result).toEqual({
+      checkedAt: NOW,
+      entitlements: [
+        {
+          id: 'premium',
+          isActive: true,
+          source: 'stripe',
+          store: 'stripe',
+          productId: 'price_monthly',
+          expiresAt: NOW + 10 * DAY,
+          gracePeriodExpiresAt: NOW + 13 * DAY,
+          inGracePeriod: false,
+          willRenew: true,
+        },
+      ],
+    });
+  });
+
+  it('merges both sources, preferring the active entitlement that lasts longest', async () => {
+    await repository.saveSubscription(subscription({ priceId: 'price_pro' }));
+    getSubscriber.mockResolvedValue(
+      subscriber(
+        {
+          premium: { expires_date: null, product_identifier: 'lifetime' },
+          pro: { expires_date: '2026-06-01T00:00:00Z', product_identifier: 'pro_monthly' },
+        },
+        { pro_monthly: { store: 'app_store', unsubscribe_detected_at: '2026-05-20T00:00:00Z' } }
+      )
+    );
+
+    const { entitlements } = await service.getEntitlements('user-1', NOW);
+
+    expect(entitlements).toEqual([
+      expect.objectContaining({
+        id: 'premium',
+        source: 'revenuecat',
+        expiresAt: null,
+        isActive: true,
+        willRenew: false,
+      }),
+      // The App Store subscription lapsed, the web one is current
+      expect.objectContaining({ id: 'pro', source: 'stripe', isActive: true }),
+    ]);
+  });
+
+  it('keeps access during the grace period of a failed renewal', async () => {
+    await repository.saveSubscription(
+      subscription({ status: 'past_due', currentPeriodEnd: NOW - DAY })
+    );
+
+    const [inGrace] = (await service.getEntitlements('user-1', NOW)).entitlements;
+    expect(inGrace).toMatchObject({ isActive: true, inGracePeriod: true, willRenew: false });
+
+    const [lapsed] = (await service.getEntitlements('user-1', NOW + 3 * DAY)).entitlements;
+    expect(lapsed).toMatchObject({ isActive: false, inGracePeriod: false });
+  });
+
+  it('ends canceled subscriptions when they were canceled', async () => {
+    const canceledAt = NOW - DAY;
+    await repository.saveSubscription(
+      subscription({ status: 'canceled', eventCreated: canceledAt })
+    );
+
+    const [entitlement] = (await service.getEntitlements('user-1', NOW)).entitlements;
+    expect(entitlement).toMatchObject({ isActive: false, expiresAt: canceledAt });
+    expect(entitlement.gracePeriodExpiresAt).toBeUndefined();
+  });
+
+  it('still answers with Stripe entitlements when RevenueCat is down', async () => {
+    await repository.saveSubscription(subscription());
+    getSubscriber.mockRejectedValue(new Error('RevenueCat returned 503'));
+
+    const result = await service.getEntitlements('user-1', NOW);
+
+    expect(result.unavailableSources).toEqual(['revenuecat']);
+    expect(result.entitlements).toEqual([expect.objectContaining({ source: 'stripe' })]);
+  });
+
+  it("falls back to the RevenueCat webhook's records", async () => {
+    await repository.saveSubscription(
+      subscription({
+        id: 'revenuecat:user-1:pro_monthly',
+        source: 'revenuecat',
+        customerId: undefined,
+        priceId: undefined,
+        productId: 'pro_monthly',
+        entitlementIds: ['pro'],
+        store: 'app_store',
+        status: 'past_due',
+        currentPeriodEnd: NOW - DAY,
+        gracePeriodEnd: NOW + DAY,
+      })
+    );
+    getSubscriber.mockRejectedValue(new Error('RevenueCat returned 503'));
+
+    const { entitlements } = await service.getEntitlements('user-1', NOW);
+
+    expect(entitlements).toEqual([
+      {
+        id: 'pro',
+        isActive: true,
+        source: 'revenuecat',
+        store: 'app_store',
+        productId: 'pro_monthly',
+        expiresAt: NOW - DAY,
+        gracePeriodExpiresAt: NOW + DAY,
+        inGracePeriod: true,
+        willRenew: false,
+      },
+    ]);
+  });
+});
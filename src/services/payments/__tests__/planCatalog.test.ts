@@ -0,0 +1,162 @@
+import { GET } from '../../../../app/api/payments/plans+api';
+import {
+  type PlanCatalog,
+  PlanCatalogService,
+  createPlanVariantFlag,
+  formatPrice,
+  parsePlanCatalog,
+} from '../planCatalog';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+jest.mock('../../../../app/api/middleware/auth', () => ({
+  verifyAuthToken: jest.fn(async () => null),
+}));
+
+const CATALOG: PlanCatalog = {
+  version: 3,
+  defaultCurrency: 'USD',
+  plans: [
+    {
+      id: 'monthly',
+      period: 'monthly',
+      features: ['allFeatures', 'adFree'],
+      prices: { USD: { amount: 999 }, EUR: { amount: 899, stripePriceId: 'price_monthly_eur' } },
+      stripePriceId: 'price_monthly',
+      revenueCatPackageId: '$rc_monthly',
+    },
+    {
+      id: 'yearly',
+      period: 'yearly',
+      features: ['allFeatures', 'prioritySupport'],
+      badge: 'bestValue',
+      highlighted: true,
+      prices: { USD: { amount: 7999 }, JPY: { amount: 12000 } },
+      trialDays: 7,
+      stripePriceId: 'price_yearly',
+      revenueCatPackageId: '$rc_annual',
+      variants: [
+        {
+          id: 'trial14',
+          flag: createPlanVariantFlag('yearly', 'trial14', { userIds: ['user-b'] }),
+          changes: { trialDays: 14, stripePriceId: 'price_yearly_b' },
+        },
+      ],
+    },
+  ],
+};
+
+describe('PlanCatalogService', () => {
+  const catalog = new PlanCatalogService(CATALOG);
+
+  it('describes the plans in the requested language and currency', () => {
+    const { version, locale, plans } = catalog.getPlans({ locale: 'es-MX', currency: 'eur' });
+
+    expect(version).toBe(3);
+    expect(locale).toBe('es');
+    expect(plans[0]).toMatchObject({
+      id: 'monthly',
+      name: 'Mensual',
+      periodLabel: 'al mes',
+      price: { amount: 899, currency: 'EUR', formatted: formatPrice(899, 'EUR', 'es-MX') },
+      stripePriceId: 'price_monthly_eur',
+      revenueCatPackageId: '$rc_monthly',
+      entitlements: ['premium'],
+      highlighted: false,
+    });
+    expect(plans[0].trialDays).toBeUndefined();
+    // No EUR price: the default currency
+    expect(plans[1]).toMatchObject({
+      badge: 'MEJOR PRECIO',
+      price: { amount: 7999, currency: 'USD' },
+      stripePriceId: 'price_yearly',
+      trialDays: 7,
+      trialLabel: 'Prueba gratuita de 7 días',
+    });
+  });
+
+  it('falls back to English and the default currency', () => {
+    const [monthly, yearly] = catalog.getPlans({ locale: 'fr-FR', currency: 'CHF' }).plans;
+
+    expect(monthly).toMatchObject({
+      name: 'Monthly',
+      features: ['Unlimited access to all features', 'Ad-free experience'],
+      price: { amount: 999, currency: 'USD', formatted: formatPrice(999, 'USD', 'fr-FR') },
+    });
+    expect(yearly).toMatchObject({ badge: 'BEST VALUE', trialLabel: '7-day free trial' });
+    expect(formatPrice(12000, 'JPY', 'en-US')).toBe('¥12,000');
+  });
+
+  it('serves experiment variants to the users bucketed into them', () => {
+    const control = catalog.getPlans({ userId: 'user-a' }).plans[1];
+    const variant = catalog.getPlans({ userId: 'user-b' }).plans[1];
+
+    expect(control).toMatchObject({ trialDays: 7, stripePriceId: 'price_yearly' });
+    expect(control.variant).toBeUndefined();
+    expect(variant).toMatchObject({
+      trialDays: 14,
+      stripePriceId: 'price_yearly_b',
+      variant: 'trial14',
+    });
+    expect(catalog.getPlans().plans[1].variant).toBeUndefined();
+
+    expect(catalog.findByStripePrice('price_yearly_b', 'user-b')).toMatchObject({
+      plan: { id: 'yearly', trialDays: 14 },
+      variant: 'trial14',
+    });
+    expect(catalog.findByStripePrice('price_monthly_eur')?.plan.id).toBe('monthly');
+    expect(catalog.findByStripePrice('price_other')).toBeUndefined();
+  });
+
+  it('rejects plans without a price in the default currency', () => {
+    expect(
+      () =>
+        new PlanCatalogService({
+          ...CATALOG,
+          plans: [{ ...CATALOG.plans[0], prices: { EUR: { amount: 899 } } }],
+        })
+    ).toThrow('Plan monthly has no USD price');
+  });
+});
+
+describe('parsePlanCatalog', () => {
+  it('builds variant flags from the JSON rollout settings', () => {
+    const catalog = parsePlanCatalog({
+      version: 2,
+      defaultCurrency: 'USD',
+      plans: [
+        {
+          id: 'yearly',
+          period: 'yearly',
+          prices: { USD: { amount: 7999 } },
+          variants: [
+            { id: 'cheaper', percentage: 50, changes: { prices: { USD: { amount: 5999 } } } },
+          ],
+        },
+      ],
+    });
+
+    expect(catalog.plans[0]).toMatchObject({ features: [] });
+    expect(catalog.plans[0].variants?.[0].flag).toMatchObject({
+      key: 'plans.yearly.cheaper',
+      enabled: true,
+      enabledForPercentage: 50,
+    });
+    expect(() => parsePlanCatalog({ version: 1, defaultCurrency: 'usd', plans: [] })).toThrow();
+  });
+});
+
+describe('GET /api/payments/plans', () => {
+  it('answers in the Accept-Language language', async () => {
+    const response = await GET(
+      new Request('http://localhost/api/payments/plans?currency=USD', {
+        headers: { 'accept-language': 'ar-EG,ar;q=0.9,en;q=0.8' },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('private, max-age=300');
+    const body = await response.json();
+    expect(body.locale).toBe('ar');
+    expect(body.plans.map((plan: { id: string }) => plan.id)).toEqual(['monthly', 'yearly']);
+  });
+});
@@ -0,0 +1,271 @@
+import { POST as createCheckout } from '../../../../app/api/payments/create-checkout+api';
+import { PlanCatalogService } from '../planCatalog';
+import { type PromoCodeDefinition, PromoCodeService, parsePromoCodes } from '../promoCodes';
+import { MemoryPaymentsRepository } from '../repository';
+import { RevenueCatWebhookProcessor } from '../revenueCatWebhooks';
+import { type StripeEvent, StripeWebhookProcessor } from '../stripeWebhooks';
+import checkoutCompleted from './fixtures/checkout.session.completed.json';
+import initialPurchase from './fixtures/revenuecat.initial_purchase.json';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+jest.mock('../../../../app/api/middleware/auth', () => ({
+  verifyAuthToken: jest.fn(async () => ({ userId: 'user-1' })),
+}));
+
+const mockCreateSession = jest.fn(async () => ({ url: 'https://checkout.stripe.com/c/cs_test' }));
+jest.mock('stripe', () => () => ({ checkout: { sessions: { create: mockCreateSession } } }), {
+  virtual: true,
+});
+
+const NOW = Date.parse('2026-06-15T12:00:00Z');
+
+const CODES: PromoCodeDefinition[] = [
+  {
+    code: 'launch50',
+    percentOff: 50,
+    stripeCouponId: 'launch50',
+    revenueCatOfferingId: 'launch50',
+    expiresAt: Date.parse('2026-07-01T00:00:00Z'),
+  },
+  { code: 'TRYIT', trialDays: 30, planIds: ['yearly'], maxRedemptions: 2 },
+];
+
+const catalog = new PlanCatalogService({
+  version: 1,
+  defaultCurrency: 'USD',
+  plans: [
+    { id: 'monthly', period: 'monthly', features: [], prices: { USD: { amount: 999 } } },
+    {
+      id: 'yearly',
+      period: 'yearly',
+      features: [],
+      prices: { USD: { amount: 7999 } },
+      trialDays: 7,
+    },
+  ],
+});
+
+describe('PromoCodeService', () => {
+  let repository: MemoryPaymentsRepository;
+  let promoCodes: PromoCodeService;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    promoCodes = new PromoCodeService(CODES, repository, catalog);
+  });
+
+  it('accepts codes in any case and prices the plans with them', async () => {
+    const promo = await promoCodes.validate(' Launch50 ', {
+      userId: 'user-1',
+      source: 'stripe',
+      now: NOW,
+    });
+
+    expect(promo.code).toBe('LAUNCH50');
+    const { plans } = promoCodes.describe(promo, { locale: 'en-US' });
+    expect(plans).toEqual([
+      {
+        planId: 'monthly',
+        price: { amount: 500, currency: 'USD', formatted: '$5.00' },
+        originalPrice: { amount: 999, currency: 'USD', formatted: '$9.99' },
+      },
+      expect.objectContaining({
+        planId: 'yearly',
+        price: { amount: 4000, currency: 'USD', formatted: '$40.00' },
+        trialDays: 7,
+      }),
+    ]);
+  });
+
+  it('gives trial codes to the plans they are for', async () => {
+    const promo = await promoCodes.validate('tryit', {
+      userId: 'user-1',
+      source: 'stripe',
+      now: NOW,
+    });
+
+    expect(promoCodes.describe(promo).plans).toEqual([
+      expect.objectContaining({
+        planId: 'yearly',
+        price: expect.objectContaining({ amount: 7999 }),
+        trialDays: 30,
+        trialLabel: '30-day free trial',
+      }),
+    ]);
+    await expect(
+      promoCodes.validate('TRYIT', { userId: 'user-1', source: 'stripe', planId: 'monthly' })
+    ).rejects.toMatchObject({ code: 'NOT_APPLICABLE' });
+  });
+
+  it('rejects unknown, expired and unavailable codes', async () => {
+    const options = { userId: 'user-1', source: 'stripe' as const, now: NOW };
+
+    await expect(promoCodes.validate('NOPE', options)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(
+      promoCodes.validate('LAUNCH50', { ...options, now: Date.parse('2026-07-02T00:00:00Z') })
+    ).rejects.toMatchObject({ code: 'EXPIRED' });
+    // No RevenueCat offering to buy the trial from in the app
+    await expect(
+      promoCodes.validate('TRYIT', { ...options, source: 'revenuecat' })
+    ).rejects.toMatchObject({ code: 'NOT_APPLICABLE' });
+  });
+
+  it('lets each user reserve a code once, up to its redemption limit, even concurrently', async () => {
+    const promo = await promoCodes.validate('tryit', {
+      userId: 'user-1',
+      source: 'stripe',
+      now: NOW,
+    });
+    const reserve = (userId: string, reference: string, now = NOW) =>
+      promoCodes.reserve(promo, {
+        userId,
+        source: 'stripe',
+        reference,
+        expiresAt: now + 60_000,
+        now,
+      });
+
+    const results = await Promise.allSettled([
+      reserve('user-1', 'cs_1'),
+      reserve('user-1', 'cs_2'),
+      reserve('user-2', 'cs_3'),
+      reserve('user-3', 'cs_4'),
+    ]);
+    expect(results.map((result) => result.status === 'rejected' && result.reason.code)).toEqual([
+      false,
+      'ALREADY_REDEEMED',
+      false,
+      'EXHAUSTED',
+    ]);
+    await expect(
+      promoCodes.validate('tryit', { userId: 'user-1', source: 'stripe', now: NOW })
+    ).rejects.toMatchObject({ code: 'ALREADY_REDEEMED' });
+
+    // Lapsed reservations free the code
+    await reserve('user-3', 'cs_5', NOW + 60_000);
+    expect(await repository.countRedemptions('TRYIT', NOW + 60_000)).toBe(1);
+    await expect(
+      promoCodes.validate('tryit', { userId: 'user-1', source: 'stripe', now: NOW + 60_000 })
+    ).resolves.toMatchObject({ code: 'TRYIT' });
+  });
+});
+
+describe('promo code redemptions', () => {
+  let repository: MemoryPaymentsRepository;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+  });
+
+  const checkoutEvent = (id: string, type: string) =>
+    ({
+      ...checkoutCompleted,
+      id,
+      type,
+      data: {
+        object: { ...checkoutCompleted.data.object, metadata: { promoCode: 'LAUNCH50' } },
+      },
+    }) as StripeEvent;
+  const reserve = (reference: string) =>
+    repository.reserveRedemption(
+      {
+        code: 'LAUNCH50',
+        userId: 'user-1',
+        source: 'stripe',
+        reference,
+        redeemedAt: NOW,
+        expiresAt: NOW + 60_000,
+      },
+      { now: NOW }
+    );
+
+  it('are confirmed when a Stripe checkout with a code completes', async () => {
+    await reserve('cs_test_a1');
+
+    await new StripeWebhookProcessor(repository).handle(
+      checkoutEvent('evt_completed', 'checkout.session.completed')
+    );
+
+    expect(await repository.getRedemption('LAUNCH50', 'user-1')).toEqual({
+      code: 'LAUNCH50',
+      userId: 'user-1',
+      source: 'stripe',
+      reference: 'cs_test_a1',
+      redeemedAt: checkoutCompleted.created * 1000,
+    });
+  });
+
+  it('are released when the Stripe checkout that reserved them expires', async () => {
+    const processor = new StripeWebhookProcessor(repository);
+    await reserve('cs_other');
+
+    // Another session's expiry keeps the reservation
+    expect(await processor.handle(checkoutEvent('evt_expired', 'checkout.session.expired'))).toBe(
+      'ignored'
+    );
+    expect(await repository.getRedemption('LAUNCH50', 'user-1')).toBeDefined();
+
+    await repository.releaseRedemption('LAUNCH50', 'user-1', 'cs_other');
+    expect(await reserve('cs_test_a1')).toBe('reserved');
+    expect(
+      await processor.handle(checkoutEvent('evt_expired_a1', 'checkout.session.expired'))
+    ).toBe('processed');
+    expect(await repository.getRedemption('LAUNCH50', 'user-1')).toBeUndefined();
+  });
+
+  it('are recorded for in-app purchases from an offering with the code attribute', async () => {
+    const processor = new RevenueCatWebhookProcessor(repository);
+    const withCode = (id: string, presentedOfferingId: string | null) => ({
+      ...initialPurchase,
+      event: {
+        ...initialPurchase.event,
+        id,
+        presented_offering_id: presentedOfferingId,
+        subscriber_attributes: { promo_code: { value: 'launch50', updated_at_ms: 1 } },
+      },
+    });
+
+    // Not bought from an offering, so not with the code
+    await processor.handle(withCode('rc-no-offering', null));
+    expect(await repository.countRedemptions('LAUNCH50', NOW)).toBe(0);
+
+    await processor.handle(withCode('rc-promo', 'launch50'));
+    expect(await repository.getRedemption('LAUNCH50', 'user-1')).toMatchObject({
+      source: 'revenuecat',
+      reference: 'revenuecat:user-1:pro_monthly',
+    });
+  });
+});
+
+describe('POST /api/payments/create-checkout', () => {
+  it('keeps the server values of reserved metadata keys', async () => {
+    const response = await createCheckout(
+      new Request('http://localhost/api/payments/create-checkout', {
+        method: 'POST',
+        body: JSON.stringify({
+          priceId: 'price_other',
+          metadata: { userId: 'user-2', promoCode: 'LAUNCH50', planId: 'yearly', source: 'ad' },
+        }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const session = (mockCreateSession.mock.calls[0] as unknown[])[0] as {
+      metadata: Record<string, string>;
+      subscription_data: { metadata: Record<string, string> };
+    };
+    expect(session.metadata).toEqual({ source: 'ad', userId: 'user-1' });
+    expect(session.subscription_data.metadata).toEqual({ source: 'ad', userId: 'user-1' });
+  });
+});
+
+describe('parsePromoCodes', () => {
+  it('reads times and rejects codes that do nothing', () => {
+    expect(
+      parsePromoCodes([{ code: 'SUMMER', trialDays: 14, expiresAt: '2026-09-01T00:00:00Z' }])
+    ).toEqual([{ code: 'SUMMER', trialDays: 14, expiresAt: Date.parse('2026-09-01T00:00:00Z') }]);
+    expect(() => parsePromoCodes([{ code: 'NOTHING' }])).toThrow('percentOff or trialDays');
+  });
+});
@@ -0,0 +1,173 @@
+import type { RevenueCatSubscriber } from '../entitlements';
+import { PaymentsReconciler } from '../reconciliation';
+import { MemoryPaymentsRepository, type SubscriptionRecord } from '../repository';
+import type { StripeSubscriptionObject } from '../stripeWebhooks';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-06-15T12:00:00Z');
+
+function record(changes: Partial<SubscriptionRecord> = {}): SubscriptionRecord {
+  return {
+    id: 'sub_1',
+    source: 'stripe',
+    userId: 'user-1',
+    customerId: 'cus_1',
+    priceId: 'price_monthly',
+    status: 'active',
+    currentPeriodEnd: NOW + 10 * DAY,
+    cancelAtPeriodEnd: false,
+    eventCreated: NOW - 20 * DAY,
+    updatedAt: NOW - 20 * DAY,
+    ...changes,
+  };
+}
+
+describe('PaymentsReconciler', () => {
+  let repository: MemoryPaymentsRepository;
+  let retrieveSubscription: jest.Mock<Promise<StripeSubscriptionObject>, [string]>;
+  let getSubscriber: jest.Mock<Promise<RevenueCatSubscriber>, [string]>;
+  let reconciler: PaymentsReconciler;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    retrieveSubscription = jest.fn(async (id: string) => ({
+      id,
+      status: 'active' as const,
+      customer: 'cus_1',
+      cancel_at_period_end: false,
+      items: {
+        data: [{ price: { id: 'price_monthly' }, current_period_end: (NOW + 10 * DAY) / 1000 }],
+      },
+    }));
+    getSubscriber = jest.fn(async (_appUserId: string) => ({
+      entitlements: {},
+      subscriptions: {},
+    }));
+    reconciler = new PaymentsReconciler(repository, {
+      stripe: { retrieveSubscription },
+      revenueCat: { getSubscriber },
+    });
+  });
+
+  it('rewrites Stripe subscriptions whose webhook events were missed', async () => {
+    await repository.saveSubscription(record());
+    await repository.saveSubscription(record({ id: 'sub_2' }));
+    await repository.saveSubscription(record({ id: 'sub_old', status: 'canceled' }));
+    retrieveSubscription.mockImplementation(async (id) => ({
+      id,
+      status: 'past_due',
+      cancel_at_period_end: true,
+      items: {
+        data: [{ price: { id: 'price_monthly' }, current_period_end: (NOW + 10 * DAY) / 1000 }],
+      },
+    }));
+    retrieveSubscription.mockResolvedValueOnce({
+      id: 'sub_1',
+      status: 'active',
+      cancel_at_period_end: false,
+      items: {
+        data: [{ price: { id: 'price_monthly' }, current_period_end: (NOW + 10 * DAY) / 1000 }],
+      },
+    });
+
+    const report = await reconciler.reconcile({ now: NOW });
+
+    // Canceled subscriptions can't change, so they aren't fetched
+    expect(retrieveSubscription.mock.calls).toEqual([['sub_1'], ['sub_2']]);
+    expect(report).toMatchObject({ checked: 2, updated: ['sub_2'], created: [], failed: [] });
+    expect(await repository.getSubscription('sub_2')).toMatchObject({
+      status: 'past_due',
+      cancelAtPeriodEnd: true,
+      eventCreated: NOW,
+    });
+    expect(await repository.getSubscription('sub_1')).toMatchObject({
+      eventCreated: NOW - 20 * DAY,
+    });
+  });
+
+  it('creates, updates and ends RevenueCat subscriptions from the subscriber', async () => {
+    // A web subscriber, and an app purchase whose cancellation webhook was missed
+    await repository.saveSubscription(record());
+    await repository.saveSubscription(
+      record({
+        id: 'revenuecat:user-1:pro_monthly',
+        source: 'revenuecat',
+        customerId: undefined,
+        priceId: undefined,
+        productId: 'pro_monthly',
+        store: 'app_store',
+      })
+    );
+    await repository.saveSubscription(
+      record({
+        id: 'revenuecat:user-1:basic_monthly',
+        source: 'revenuecat',
+        customerId: undefined,
+        priceId: undefined,
+        productId: 'basic_monthly',
+        store: 'app_store',
+      })
+    );
+    getSubscriber.mockResolvedValue({
+      entitlements: {
+        pro: { expires_date: '2026-06-25T12:00:00Z', product_identifier: 'pro_monthly' },
+        premium: { expires_date: '2026-07-01T00:00:00Z', product_identifier: 'premium_yearly' },
+      },
+      subscriptions: {
+        pro_monthly: {
+          store: 'app_store',
+          expires_date: '2026-06-25T12:00:00Z',
+          unsubscribe_detected_at: '2026-06-10T00:00:00Z',
+        },
+        premium_yearly: { store: 'play_store', expires_date: '2026-07-01T00:00:00Z' },
+        web_monthly: { store: 'stripe', expires_date: '2026-07-01T00:00:00Z' },
+      },
+    });
+
+    const report = await reconciler.reconcile({ source: 'revenuecat', now: NOW });
+
+    expect(retrieveSubscription).not.toHaveBeenCalled();
+    expect(getSubscriber).toHaveBeenCalledTimes(1);
+    expect(report).toMatchObject({
+      checked: 3,
+      updated: ['revenuecat:user-1:pro_monthly', 'revenuecat:user-1:basic_monthly'],
+      created: ['revenuecat:user-1:premium_yearly'],
+      failed: [],
+    });
+    expect(await repository.getSubscription('revenuecat:user-1:pro_monthly')).toMatchObject({
+      status: 'active',
+      entitlementIds: ['pro'],
+      cancelAtPeriodEnd: true,
+      eventCreated: NOW,
+    });
+    expect(await repository.getSubscription('revenuecat:user-1:premium_yearly')).toMatchObject({
+      userId: 'user-1',
+      store: 'play_store',
+      currentPeriodEnd: Date.parse('2026-07-01T00:00:00Z'),
+    });
+    // No longer on the subscriber, e.g. transferred to another account
+    expect(await repository.getSubscription('revenuecat:user-1:basic_monthly')).toMatchObject({
+      status: 'canceled',
+    });
+    // Left to the Stripe webhook
+    expect(await repository.getSubscription('revenuecat:user-1:web_monthly')).toBeUndefined();
+  });
+
+  it('reports what it could not check and carries on', async () => {
+    await repository.saveSubscription(record());
+    await repository.saveSubscription(record({ id: 'sub_2', userId: 'user-2' }));
+    retrieveSubscription.mockRejectedValueOnce(new Error('No such subscription'));
+    getSubscriber.mockRejectedValueOnce(new Error('RevenueCat returned 503'));
+
+    const report = await reconciler.reconcile({ now: NOW });
+
+    expect(report.failed).toEqual([
+      { id: 'sub_1', error: 'No such subscription' },
+      { id: 'user-1', error: 'RevenueCat returned 503' },
+    ]);
+    expect(report.checked).toBe(1);
+    expect(getSubscriber).toHaveBeenCalledTimes(2);
+  });
+});
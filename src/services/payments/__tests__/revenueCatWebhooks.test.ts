@@ -0,0 +1,250 @@
+import { POST } from '../../../../app/api/payments/revenuecat-webhook+api';
+import { MemoryPaymentsRepository, paymentsRepository } from '../repository';
+import {
+  type RevenueCatEvent,
+  type RevenueCatWebhook,
+  RevenueCatWebhookProcessor,
+  verifyRevenueCatAuthorization,
+} from '../revenueCatWebhooks';
+import cancellation from './fixtures/revenuecat.cancellation.json';
+import initialPurchase from './fixtures/revenuecat.initial_purchase.json';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const SECRET = 'rc_webhook_test_secret';
+const SUBSCRIPTION_ID = 'revenuecat:user-1:pro_monthly';
+const DAY = 24 * 60 * 60 * 1000;
+
+/** A fixture event with other fields */
+function fixture(webhook: RevenueCatWebhook, changes: Partial<RevenueCatEvent> = {}) {
+  return { ...webhook, event: { ...webhook.event, ...changes } };
+}
+
+function post(webhook: RevenueCatWebhook, authorization: string | null = `Bearer ${SECRET}`) {
+  return POST(
+    new Request('http://localhost/api/payments/revenuecat-webhook', {
+      method: 'POST',
+      headers: authorization ? { authorization } : {},
+      body: JSON.stringify(webhook),
+    })
+  );
+}
+
+describe('RevenueCat authorization', () => {
+  it('accepts the shared secret, with or without Bearer', () => {
+    expect(verifyRevenueCatAuthorization(SECRET, SECRET)).toBe(true);
+    expect(verifyRevenueCatAuthorization(`Bearer ${SECRET}`, SECRET)).toBe(true);
+    expect(verifyRevenueCatAuthorization('Bearer other', SECRET)).toBe(false);
+    expect(verifyRevenueCatAuthorization(null, SECRET)).toBe(false);
+  });
+});
+
+describe('POST /api/payments/revenuecat-webhook', () => {
+  beforeAll(() => {
+    process.env.REVENUECAT_WEBHOOK_SECRET = SECRET;
+  });
+
+  it('records authorized events and answers redeliveries without processing them again', async () => {
+    const webhook = fixture(initialPurchase, {
+      id: 'rc-route-purchase',
+      app_user_id: 'user-route',
+    });
+
+    const response = await post(webhook);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, outcome: 'processed' });
+    expect(
+      await paymentsRepository.getSubscription('revenuecat:user-route:pro_monthly')
+    ).toMatchObject({ source: 'revenuecat', userId: 'user-route', status: 'active' });
+
+    const redelivery = await post(webhook);
+    expect(await redelivery.json()).toEqual({ received: true, outcome: 'duplicate' });
+    expect(await paymentsRepository.getEvent('rc-route-purchase')).toMatchObject({
+      source: 'revenuecat',
+      status: 'processed',
+      attempts: 1,
+    });
+  });
+
+  it('rejects requests without the shared secret', async () => {
+    const webhook = fixture(initialPurchase, { id: 'rc-route-forged' });
+
+    for (const authorization of [null, 'Bearer wrong']) {
+      const response = await post(webhook, authorization);
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'INVALID_AUTHORIZATION' });
+    }
+    expect(await paymentsRepository.getEvent('rc-route-forged')).toBeUndefined();
+  });
+});
+
+describe('RevenueCatWebhookProcessor', () => {
+  let repository: MemoryPaymentsRepository;
+  let processor: RevenueCatWebhookProcessor;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    processor = new RevenueCatWebhookProcessor(repository);
+  });
+
+  it('records purchases in the shared subscription and payment records', async () => {
+    expect(await processor.handle(initialPurchase)).toBe('processed');
+
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toEqual({
+      id: SUBSCRIPTION_ID,
+      source: 'revenuecat',
+      userId: 'user-1',
+      productId: 'pro_monthly',
+      entitlementIds: ['premium', 'pro'],
+      store: 'app_store',
+      status: 'active',
+      currentPeriodEnd: 1762592000000,
+      gracePeriodEnd: undefined,
+      cancelAtPeriodEnd: false,
+      eventCreated: 1760000000000,
+      updatedAt: expect.any(Number),
+    });
+    expect(await repository.getPayment('revenuecat:2000000123456789')).toMatchObject({
+      source: 'revenuecat',
+      userId: 'user-1',
+      subscriptionId: SUBSCRIPTION_ID,
+      amount: 999,
+      currency: 'usd',
+      status: 'succeeded',
+    });
+  });
+
+  it('follows cancellations, billing issues and renewals in event order', async () => {
+    const time = initialPurchase.event.event_timestamp_ms;
+    await processor.handle(initialPurchase);
+
+    const billingIssue = fixture(initialPurchase, {
+      id: 'rc-billing-issue',
+      type: 'BILLING_ISSUE',
+      event_timestamp_ms: time + 30 * DAY,
+      grace_period_expiration_at_ms: time + 46 * DAY,
+    });
+    expect(await processor.handle(billingIssue)).toBe('processed');
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({
+      status: 'past_due',
+      gracePeriodEnd: time + 46 * DAY,
+    });
+
+    const renewal = fixture(initialPurchase, {
+      id: 'rc-renewal',
+      type: 'RENEWAL',
+      event_timestamp_ms: time + 32 * DAY,
+      expiration_at_ms: time + 62 * DAY,
+      transaction_id: '2000000123456790',
+    });
+    // Turned off renewal before the billing issue, delivered after the renewal
+    const cancelled = fixture(initialPurchase, {
+      id: 'rc-cancellation',
+      type: 'CANCELLATION',
+      cancel_reason: 'UNSUBSCRIBE',
+      event_timestamp_ms: time + 10 * DAY,
+    });
+    expect(await processor.handle(renewal)).toBe('processed');
+    expect(await processor.handle(cancelled)).toBe('stale');
+
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({
+      status: 'active',
+      currentPeriodEnd: time + 62 * DAY,
+      gracePeriodEnd: undefined,
+      cancelAtPeriodEnd: false,
+    });
+  });
+
+  it('ends refunded subscriptions and marks the payment refunded', async () => {
+    await processor.handle(initialPurchase);
+    expect(await processor.handle(cancellation)).toBe('processed');
+
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({
+      status: 'canceled',
+      currentPeriodEnd: cancellation.event.expiration_at_ms,
+    });
+    expect(await repository.getPayment('revenuecat:2000000123456789')).toMatchObject({
+      amount: 999,
+      status: 'refunded',
+    });
+  });
+
+  it('moves transferred subscriptions to the new user', async () => {
+    await processor.handle(initialPurchase);
+    const transfer = fixture(initialPurchase, {
+      id: 'rc-transfer',
+      type: 'TRANSFER',
+      event_timestamp_ms: initialPurchase.event.event_timestamp_ms + DAY,
+      transferred_from: ['user-1'],
+      transferred_to: ['user-2'],
+    });
+    expect(await processor.handle(transfer)).toBe('processed');
+
+    expect(await repository.getSubscriptionsForUser('user-2')).toEqual([
+      expect.objectContaining({ id: 'revenuecat:user-2:pro_monthly', status: 'active' }),
+    ]);
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({
+      status: 'canceled',
+    });
+  });
+
+  it('keeps newer records of the user a subscription is transferred to', async () => {
+    const transferredAt = initialPurchase.event.event_timestamp_ms + DAY;
+    await processor.handle(initialPurchase);
+    await processor.handle(
+      fixture(cancellation, {
+        id: 'rc-target-expired',
+        type: 'EXPIRATION',
+        app_user_id: 'user-2',
+        original_app_user_id: 'user-2',
+        event_timestamp_ms: transferredAt + DAY,
+      })
+    );
+
+    const transfer = fixture(initialPurchase, {
+      id: 'rc-transfer',
+      type: 'TRANSFER',
+      event_timestamp_ms: transferredAt,
+      transferred_from: ['user-1'],
+      transferred_to: ['user-2'],
+    });
+    expect(await processor.handle(transfer)).toBe('processed');
+
+    expect(await repository.getSubscription('revenuecat:user-2:pro_monthly')).toMatchObject({
+      status: 'canceled',
+      eventCreated: transferredAt + DAY,
+    });
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({
+      status: 'canceled',
+    });
+  });
+
+  it('ignores sandbox purchases unless they are allowed', async () => {
+    const sandbox = fixture(initialPurchase, { id: 'rc-sandbox', environment: 'SANDBOX' });
+
+    expect(await processor.handle(sandbox)).toBe('ignored');
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toBeUndefined();
+
+    const staging = new RevenueCatWebhookProcessor(repository, { allowSandbox: true });
+    expect(
+      await staging.handle({ ...sandbox, event: { ...sandbox.event, id: 'rc-staging' } })
+    ).toBe('processed');
+    expect(await repository.getSubscription(SUBSCRIPTION_ID)).toMatchObject({ status: 'active' });
+  });
+
+  it('ignores anonymous users, tests and purchases made through Stripe', async () => {
+    const anonymous = fixture(initialPurchase, {
+      id: 'rc-anonymous',
+      app_user_id: '$RCAnonymousID:1',
+      original_app_user_id: '$RCAnonymousID:1',
+      aliases: [],
+    });
+    const viaStripe = fixture(initialPurchase, { id: 'rc-stripe', store: 'STRIPE' });
+    const test = fixture(initialPurchase, { id: 'rc-test', type: 'TEST' });
+
+    for (const webhook of [anonymous, viaStripe, test]) {
+      expect(await processor.handle(webhook)).toBe('ignored');
+    }
+    expect(await repository.listSubscriptions({ limit: 10 })).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import { POST } from '../../../../app/api/payments/webhook+api';
+import { MemoryPaymentsRepository, paymentsRepository } from '../repository';
+import {
+  type StripeEvent,
+  StripeWebhookError,
+  StripeWebhookProcessor,
+  signStripePayload,
+  verifyStripeSignature,
+} from '../stripeWebhooks';
+import checkoutCompleted from './fixtures/checkout.session.completed.json';
+import subscriptionDeleted from './fixtures/customer.subscription.deleted.json';
+import subscriptionUpdated from './fixtures/customer.subscription.updated.json';
+import invoicePaid from './fixtures/invoice.payment_succeeded.json';
+
+jest.mock('@/lib/sentry', () => ({ logError: jest.fn(), addBreadcrumb: jest.fn() }));
+
+const SECRET = 'whsec_test_secret';
+
+/** A fixture event with other IDs or fields */
+function fixture(
+  event: StripeEvent,
+  changes: { id?: string; created?: number; object?: Record<string, unknown> } = {}
+): StripeEvent {
+  return {
+    ...event,
+    id: changes.id ?? event.id,
+    created: changes.created ?? event.created,
+    data: { object: { ...event.data.object, ...changes.object } },
+  };
+}
+
+function post(event: StripeEvent, signature?: string) {
+  const body = JSON.stringify(event);
+  return POST(
+    new Request('http://localhost/api/payments/webhook', {
+      method: 'POST',
+      headers: { 'stripe-signature': signature ?? signStripePayload(body, SECRET) },
+      body,
+    })
+  );
+}
+
+describe('Stripe signatures', () => {
+  const payload = JSON.stringify(invoicePaid);
+
+  it('accepts payloads signed with the secret', () => {
+    const header = signStripePayload(payload, SECRET);
+    expect(verifyStripeSignature(payload, header, SECRET).id).toBe('evt_invoice_paid');
+  });
+
+  it('rejects other secrets, changed payloads and old timestamps', () => {
+    const header = signStripePayload(payload, SECRET, 1_000);
+
+    expect(() => verifyStripeSignature(payload, header, 'whsec_other', { now: 1_000_000 })).toThrow(
+      StripeWebhookError
+    );
+    expect(() => verifyStripeSignature(`${payload} `, header, SECRET, { now: 1_000_000 })).toThrow(
+      'No signature matches the payload'
+    );
+    expect(() => verifyStripeSignature(payload, header, SECRET, { now: 1_000_000_000 })).toThrow(
+      'The signature timestamp is too old'
+    );
+    expect(() => verifyStripeSignature(payload, 'nonsense', SECRET)).toThrow(
+      'Malformed Stripe-Signature header'
+    );
+  });
+});
+
+describe('POST /api/payments/webhook', () => {
+  beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = SECRET;
+  });
+
+  it('records signed events and answers redeliveries without processing them again', async () => {
+    const event = fixture(checkoutCompleted, {
+      id: 'evt_route_checkout',
+      object: { subscription: 'sub_route' },
+    });
+
+    const response = await post(event);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, outcome: 'processed' });
+    expect(await paymentsRepository.getSubscription('sub_route')).toMatchObject({
+      userId: 'user-1',
+      customerId: 'cus_123',
+      status: 'active',
+    });
+
+    const redelivery = await post(event);
+    expect(await redelivery.json()).toEqual({ received: true, outcome: 'duplicate' });
+    expect(await paymentsRepository.getEvent('evt_route_checkout')).toMatchObject({
+      status: 'processed',
+      attempts: 1,
+    });
+  });
+
+  it('rejects events without a valid signature', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const event = fixture(invoicePaid, { id: 'evt_route_forged' });
+
+    const forged = await post(event, signStripePayload(JSON.stringify(event), 'whsec_other'));
+    expect(forged.status).toBe(400);
+    expect(await forged.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(await paymentsRepository.getEvent('evt_route_forged')).toBeUndefined();
+  });
+});
+
+describe('StripeWebhookProcessor', () => {
+  let repository: MemoryPaymentsRepository;
+  let processor: StripeWebhookProcessor;
+
+  beforeEach(() => {
+    repository = new MemoryPaymentsRepository();
+    processor = new StripeWebhookProcessor(repository);
+  });
+
+  it('keeps subscription state from the newest event when events arrive out of order', async () => {
+    await processor.handle(checkoutCompleted);
+    expect(await processor.handle(subscriptionDeleted)).toBe('processed');
+    // Sent before the deletion, delivered after it
+    expect(await processor.handle(subscriptionUpdated)).toBe('stale');
+
+    expect(await repository.getSubscription('sub_123')).toMatchObject({
+      userId: 'user-1',
+      priceId: 'price_monthly',
+      status: 'canceled',
+      currentPeriodEnd: 1762592000 * 1000,
+      eventCreated: subscriptionDeleted.created * 1000,
+    });
+    expect(await repository.getSubscriptionsForUser('user-1')).toHaveLength(1);
+    expect(await repository.getEvent(subscriptionUpdated.id)).toMatchObject({ status: 'stale' });
+  });
+
+  it('links checkout to a subscription without overwriting newer state', async () => {
+    const pastDue = fixture(subscriptionUpdated, {
+      object: { status: 'past_due', metadata: {} },
+    });
+    await processor.handle(pastDue);
+    await processor.handle(checkoutCompleted);
+
+    expect(await repository.getSubscription('sub_123')).toMatchObject({
+      userId: 'user-1',
+      status: 'past_due',
+    });
+  });
+
+  it('applies subscription events created before a checkout that completed first', async () => {
+    await processor.handle(checkoutCompleted);
+    const created = fixture(subscriptionUpdated, {
+      id: 'evt_subscription_created',
+      created: checkoutCompleted.created - 5,
+      object: { status: 'trialing' },
+    });
+
+    expect(await processor.handle({ ...created, type: 'customer.subscription.created' })).toBe(
+      'processed'
+    );
+    expect(await repository.getSubscription('sub_123')).toMatchObject({
+      userId: 'user-1',
+      priceId: 'price_monthly',
+      status: 'trialing',
+      currentPeriodEnd: 1762592000 * 1000,
+    });
+  });
+
+  it('records payments for the subscription owner', async () => {
+    await processor.handle(checkoutCompleted);
+    await processor.handle(invoicePaid);
+
+    const failed = fixture(invoicePaid, {
+      id: 'evt_invoice_failed_earlier',
+      created: invoicePaid.created - 10,
+    });
+    expect(await processor.handle({ ...failed, type: 'invoice.payment_failed' })).toBe('stale');
+
+    expect(await repository.getPayment('in_123')).toEqual({
+      id: 'in_123',
+      source: 'stripe',
+      userId: 'user-1',
+      subscriptionId: 'sub_123',
+      customerId: 'cus_123',
+      amount: 999,
+      currency: 'usd',
+      status: 'succeeded',
+      eventCreated: invoicePaid.created * 1000,
+      updatedAt: expect.any(Number),
+    });
+  });
+
+  it('retries failed events on redelivery and replays stored events', async () => {
+    const saveSubscription = jest
+      .spyOn(repository, 'saveSubscription')
+      .mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(processor.handle(subscriptionUpdated)).rejects.toThrow('database unavailable');
+    expect(await repository.getEvent(subscriptionUpdated.id)).toMatchObject({
+      status: 'failed',
+      error: 'database unavailable',
+      attempts: 1,
+    });
+
+    expect(await processor.handle(subscriptionUpdated)).toBe('processed');
+    expect(await repository.getEvent(subscriptionUpdated.id)).toMatchObject({
+      status: 'processed',
+      attempts: 2,
+    });
+    expect(await repository.getEvent(subscriptionUpdated.id)).not.toHaveProperty('error');
+
+    // A replay reapplies the stored payload, but can't roll the subscription back
+    await processor.handle(subscriptionDeleted);
+    expect(await processor.replay(subscriptionUpdated.id)).toBe('stale');
+    expect(await processor.replay(subscriptionDeleted.id)).toBe('processed');
+    expect(await processor.replay('evt_missing')).toBeUndefined();
+    expect(saveSubscription).toHaveBeenCalledTimes(4);
+
+    const events = await repository.listEvents({ limit: 10 });
+    expect(events.map((event) => event.id)).toEqual([
+      subscriptionUpdated.id,
+      subscriptionDeleted.id,
+    ]);
+  });
+
+  it('ignores event types it does not handle', async () => {
+    const event = fixture(invoicePaid, { id: 'evt_customer_created' });
+    expect(await processor.handle({ ...event, type: 'customer.created' })).toBe('ignored');
+    expect(await repository.getPayment('in_123')).toBeUndefined();
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Credits (server-side)
+ *
+ * Credits are bought in packs and spent on metered features, e.g. image
+ * generations (POST /api/ai/image). Packs are sold:
+ * - on the web with a Stripe PaymentIntent (create-payment-intent), credited by
+ *   the Stripe webhook on `payment_intent.succeeded`
+ * - in the app as RevenueCat consumables, credited by the RevenueCat webhook on
+ *   `NON_RENEWING_PURCHASE`
+ *
+ * Every change is an entry in an append-only ledger (./repository.ts), and the
+ * balance is checked and changed in the same step, so concurrent spends can't
+ * overdraw it. Purchases, spends and refunds are keyed by their payment or
+ * request, so repeated webhooks and retries don't count twice. A refunded
+ * purchase takes its credits back, even those already spent: the balance may go
+ * negative until the user buys more.
+ *
+ * Packs and costs come from PAYMENTS_CREDIT_PACKS (see createCreditsFromEnv).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  type CreditPacksResponse,
+  type CreditsResponse,
+  INSUFFICIENT_CREDITS,
+} from '@/features/payments/schemas';
+import { z } from 'zod';
+import { formatPrice, resolveLanguage, translate } from './planCatalog';
+import {
+  type CreditLedgerEntry,
+  type PaymentSource,
+  type PaymentsRepository,
+  paymentsRepository,
+} from './repository';
+
+export interface CreditPackDefinition {
+  /** Sent to Stripe as the payment intent's `creditPackId` metadata */
+  id: string;
+  credits: number;
+  /** Prices by ISO 4217 code, in the smallest unit; must include the default currency */
+  prices: Record<string, { amount: number }>;
+  /** Consumable store product that sells the pack in the app (RevenueCat) */
+  revenueCatProductId?: string;
+  /** Badge ID, translated as `payments.badges.<id>` */
+  badge?: string;
+  /** Selected by default */
+  highlighted?: boolean;
+}
+
+export interface CreditPackCatalog {
+  /** Currency for requests in currencies a pack has no price in */
+  defaultCurrency: string;
+  packs: CreditPackDefinition[];
+  /** Credits per unit of a metered feature, e.g. { image: 4 }; free if absent */
+  costs?: Record<string, number>;
+}
+
+/**
+ * Thrown when a spend would take the balance below zero
+ */
+export class InsufficientCreditsError extends Error {
+  readonly code = INSUFFICIENT_CREDITS;
+
+  constructor(
+    public balance: number,
+    public required: number
+  ) {
+    super(`This needs ${required} credits and you have ${Math.max(balance, 0)}`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+export class CreditsService {
+  constructor(
+    private packCatalog: CreditPackCatalog,
+    private repository: PaymentsRepository = paymentsRepository
+  ) {
+    const ids = new Set<string>();
+    for (const pack of packCatalog.packs) {
+      if (ids.has(pack.id)) {
+        throw new Error(`Credit packs have two packs with ID ${pack.id}`);
+      }
+      ids.add(pack.id);
+      if (!pack.prices[packCatalog.defaultCurrency]) {
+        throw new Error(`Credit pack ${pack.id} has no ${packCatalog.defaultCurrency} price`);
+      }
+    }
+  }
+
+  get catalog(): CreditPackCatalog {
+    return this.packCatalog;
+  }
+
+  /**
+   * The packs for sale, in the user's language and currency
+   */
+  getPacks(options: { locale?: string; currency?: string } = {}): CreditPacksResponse {
+    const language = resolveLanguage(options.locale);
+    const t = translate(language);
+
+    return {
+      locale: language,
+      packs: this.packCatalog.packs.map((pack) => {
+        const price = this.priceOf(pack, options.currency);
+        return {
+          id: pack.id,
+          credits: pack.credits,
+          name: t('payments.credits.pack', { count: pack.credits }),
+          ...(pack.badge && {
+            badge: t(`payments.badges.${pack.badge}`, { defaultValue: pack.badge }),
+          }),
+          highlighted: !!pack.highlighted,
+          price: {
+            ...price,
+            formatted: formatPrice(price.amount, price.currency, options.locale ?? language),
+          },
+          revenueCatProductId: pack.revenueCatProductId,
+        };
+      }),
+    };
+  }
+
+  findPack(id: string): CreditPackDefinition | undefined {
+    return this.packCatalog.packs.find((pack) => pack.id === id);
+  }
+
+  findPackByProduct(productId: string): CreditPackDefinition | undefined {
+    return this.packCatalog.packs.find((pack) => pack.revenueCatProductId === productId);
+  }
+
+  /**
+   * A pack's price in a currency, or in the default currency if it has none there
+   */
+  priceOf(pack: CreditPackDefinition, currency?: string): { amount: number; currency: string } {
+    const requested = currency?.toUpperCase();
+    const resolved =
+      requested && pack.prices[requested] ? requested : this.packCatalog.defaultCurrency;
+    return { amount: pack.prices[resolved].amount, currency: resolved };
+  }
+
+  /**
+   * Credits for `units` of a metered feature (0: the feature is free)
+   */
+  costOf(feature: string, units = 1): number {
+    return (this.packCatalog.costs?.[feature] ?? 0) * units;
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    return this.repository.getCreditBalance(userId);
+  }
+
+  /**
+   * The balance and a page of the ledger, newest first
+   */
+  async getCredits(
+    userId: string,
+    options: { before?: number; limit?: number } = {}
+  ): Promise<CreditsResponse> {
+    const limit = options.limit ?? 50;
+    const [balance, entries] = await Promise.all([
+      this.repository.getCreditBalance(userId),
+      this.repository.listCreditEntries({ userId, before: options.before, limit }),
+    ]);
+
+    return {
+      balance,
+      entries: entries.map(({ id, type, amount, balanceAfter, description, createdAt }) => ({
+        id,
+        type,
+        amount,
+        balanceAfter,
+        description,
+        createdAt,
+      })),
+      nextBefore: entries.length === limit ? entries[entries.length - 1].createdAt : undefined,
+    };
+  }
+
+  /**
+   * Take credits, if the user has them
+   * Retrying with the same `id` returns the first spend instead of spending again.
+   * @throws InsufficientCreditsError if the balance is lower than `amount`
+   */
+  async spend(
+    userId: string,
+    amount: number,
+    options: { id?: string; reference?: string; description?: string; now?: number } = {}
+  ): Promise<CreditLedgerEntry> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error('Credits to spend must be a positive integer');
+    }
+
+    const result = await this.repository.appendCreditEntry(
+      {
+        id: options.id ?? `spend:${randomUUID()}`,
+        userId,
+        type: 'spend',
+        amount: -amount,
+        reference: options.reference,
+        description: options.description,
+        createdAt: options.now ?? Date.now(),
+      },
+      { allowNegative: false }
+    );
+
+    if (result.status === 'insufficient') {
+      throw new InsufficientCreditsError(result.balance, amount);
+    }
+    return result.entry;
+  }
+
+  /**
+   * Give back (part of) a spend, e.g. when the generation failed; once per spend
+   */
+  async refund(
+    spend: CreditLedgerEntry,
+    options: { amount?: number; description?: string; now?: number } = {}
+  ): Promise<CreditLedgerEntry | undefined> {
+    const amount = Math.min(options.amount ?? -spend.amount, -spend.amount);
+    if (spend.type !== 'spend' || amount <= 0) {
+      return undefined;
+    }
+
+    const result = await this.repository.appendCreditEntry(
+      {
+        id: `refund:${spend.id}`,
+        userId: spend.userId,
+        type: 'refund',
+        amount,
+        reference: spend.id,
+        description: options.description,
+        createdAt: options.now ?? Date.now(),
+      },
+      { allowNegative: false }
+    );
+    return result.status === 'insufficient' ? undefined : result.entry;
+  }
+
+  /**
+   * Add a pack's credits for a completed payment; once per transaction
+   */
+  async addPurchase(purchase: {
+    userId: string;
+    packId: string;
+    credits: number;
+    source: PaymentSource;
+    /** Payment intent ID (pi_...) or store transaction ID */
+    transactionId: string;
+    createdAt: number;
+  }): Promise<CreditLedgerEntry> {
+    const result = await this.repository.appendCreditEntry(
+      {
+        id: creditPurchaseId(purchase.source, purchase.transactionId),
+        userId: purchase.userId,
+        type: 'purchase',
+        amount: purchase.credits,
+        source: purchase.source,
+        reference: purchase.packId,
+        createdAt: purchase.createdAt,
+      },
+      { allowNegative: false }
+    );
+    if (result.status === 'insufficient') {
+      throw new Error('A purchase cannot overdraw credits');
+    }
+    return result.entry;
+  }
+
+  /**
+   * Take back the credits of a refunded purchase
+   * `refunded` is the share of the payment refunded so far (1: all of it); only
+   * what earlier reversals haven't taken yet is taken, so partial refunds add up.
+   * Returns undefined if there's nothing (more) to take back.
+   */
+  async reversePurchase(
+    purchase: CreditLedgerEntry,
+    options: { refunded?: number; createdAt: number }
+  ): Promise<CreditLedgerEntry | undefined> {
+    if (purchase.type !== 'purchase') {
+      return undefined;
+    }
+
+    const target = Math.round(purchase.amount * Math.min(options.refunded ?? 1, 1));
+    const reversals = await this.repository.listCreditEntries({
+      userId: purchase.userId,
+      reference: purchase.id,
+      limit: 100,
+    });
+    const reversed = reversals
+      .filter((entry) => entry.type === 'reversal')
+      .reduce((sum, entry) => sum - entry.amount, 0);
+    if (target <= reversed) {
+      return undefined;
+    }
+
+    const result = await this.repository.appendCreditEntry(
+      {
+        id: `reversal:${purchase.id}:${target}`,
+        userId: purchase.userId,
+        type: 'reversal',
+        amount: -(target - reversed),
+        source: purchase.source,
+        reference: purchase.id,
+        createdAt: options.createdAt,
+      },
+      { allowNegative: true }
+    );
+    return result.status === 'insufficient' ? undefined : result.entry;
+  }
+}
+
+/**
+ * Ledger entry ID of a pack purchase
+ */
+export function creditPurchaseId(source: PaymentSource, transactionId: string): string {
+  return `${source}:${transactionId}`;
+}
+
+// =============================================================================
+// Packs
+// =============================================================================
+
+export const DEFAULT_CREDIT_PACKS: CreditPackCatalog = {
+  defaultCurrency: 'USD',
+  packs: [
+    {
+      id: 'credits_100',
+      credits: 100,
+      prices: { USD: { amount: 499 }, EUR: { amount: 499 }, GBP: { amount: 449 } },
+      revenueCatProductId: 'credits_100',
+    },
+    {
+      id: 'credits_500',
+      credits: 500,
+      prices: { USD: { amount: 1999 }, EUR: { amount: 1999 }, GBP: { amount: 1799 } },
+      revenueCatProductId: 'credits_500',
+      badge: 'bestValue',
+      highlighted: true,
+    },
+  ],
+};
+
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Must be an ISO 4217 code');
+
+const creditPackCatalogSchema = z.object({
+  defaultCurrency: currencyCodeSchema,
+  packs: z.array(
+    z
+      .object({
+        id: z.string().regex(/^\w+$/, 'Letters, digits and underscores only'),
+        credits: z.number().int().positive(),
+        prices: z.record(
+          currencyCodeSchema,
+          z.object({ amount: z.number().int().positive() }).strict()
+        ),
+        revenueCatProductId: z.string().min(1).optional(),
+        badge: z.string().min(1).optional(),
+        highlighted: z.boolean().optional(),
+      })
+      .strict()
+  ),
+  costs: z.record(z.number().int().nonnegative()).optional(),
+});
+
+/**
+ * Packs and costs from JSON
+ * Throws a ZodError if they aren't valid.
+ */
+export function parseCreditPacks(json: unknown): CreditPackCatalog {
+  return creditPackCatalogSchema.parse(json);
+}
+
+/**
+ * Packs from PAYMENTS_CREDIT_PACKS (JSON, see parseCreditPacks), or the built-in
+ * ones, e.g. with image generations at 4 credits each:
+ * {"defaultCurrency":"USD","costs":{"image":4},"packs":[{"id":"credits_100",
+ *  "credits":100,"prices":{"USD":{"amount":499}},"revenueCatProductId":"credits_100"}]}
+ */
+function createCreditsFromEnv(): CreditsService {
+  if (process.env.PAYMENTS_CREDIT_PACKS) {
+    try {
+      return new CreditsService(parseCreditPacks(JSON.parse(process.env.PAYMENTS_CREDIT_PACKS)));
+    } catch (error) {
+      console.error('[Credits] Ignoring invalid PAYMENTS_CREDIT_PACKS:', error);
+    }
+  }
+  return new CreditsService(DEFAULT_CREDIT_PACKS);
+}
+
+// Singleton instance
+export const creditsService = createCreditsFromEnv();
@@ -0,0 +1,290 @@
+/**
+ * Entitlements (server-side)
+ *
+ * Merges what a user bought through either payment system into named entitlements
+ * (GET /api/entitlements):
+ * - RevenueCat: the subscriber's entitlements from the RevenueCat REST API
+ *   (App Store / Play Store purchases, promotional grants)
+ * - Stripe: subscription records kept by the webhook (./repository.ts); each price
+ *   grants the entitlements in STRIPE_PRICE_ENTITLEMENTS, or DEFAULT_ENTITLEMENT
+ *
+ * When both grant the same entitlement, the active one that lasts longest wins.
+ * Without the RevenueCat REST API (not configured, or unreachable) the records its
+ * webhook keeps are used instead; when it's unreachable the response also lists
+ * it in `unavailableSources`.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import {
+  DEFAULT_ENTITLEMENT,
+  type Entitlement,
+  type EntitlementSource,
+  type EntitlementsResponse,
+  isEntitlementActive,
+  pickEntitlement,
+} from '@/features/payments/schemas';
+import { logError } from '@/lib/sentry';
+import { z } from 'zod';
+import { type PaymentsRepository, type SubscriptionRecord, paymentsRepository } from './repository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Subscriber as returned by GET /v1/subscribers/:app_user_id (the fields we use) */
+export interface RevenueCatSubscriber {
+  entitlements: Record<
+    string,
+    {
+      expires_date: string | null;
+      grace_period_expires_date?: string | null;
+      product_identifier: string;
+    }
+  >;
+  subscriptions: Record<
+    string,
+    {
+      store?: string;
+      expires_date?: string | null;
+      period_type?: string;
+      grace_period_expires_date?: string | null;
+      unsubscribe_detected_at?: string | null;
+      billing_issues_detected_at?: string | null;
+      refunded_at?: string | null;
+    }
+  >;
+}
+
+export interface RevenueCatClient {
+  getSubscriber(appUserId: string): Promise<RevenueCatSubscriber>;
+}
+
+/**
+ * RevenueCat REST API (v1) with a secret API key
+ * App user IDs must match the IDs the app logs in with (RevenueCat.identifyUser).
+ */
+export class RevenueCatRestClient implements RevenueCatClient {
+  constructor(
+    private secretApiKey: string,
+    private baseUrl = 'https://api.revenuecat.com/v1',
+    private timeoutMs = 10_000
+  ) {}
+
+  async getSubscriber(appUserId: string): Promise<RevenueCatSubscriber> {
+    const response = await fetch(`${this.baseUrl}/subscribers/${encodeURIComponent(appUserId)}`, {
+      headers: { Authorization: `Bearer ${this.secretApiKey}` },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`RevenueCat returned ${response.status}`);
+    }
+
+    const { subscriber } = (await response.json()) as { subscriber: RevenueCatSubscriber };
+    return subscriber;
+  }
+}
+
+export function parseDate(value: string | null | undefined): number | undefined {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Entitlements from a RevenueCat subscriber
+ */
+export function revenueCatEntitlements(
+  subscriber: RevenueCatSubscriber,
+  now = Date.now()
+): Entitlement[] {
+  return Object.entries(subscriber.entitlements).map(([id, entitlement]) => {
+    const subscription = subscriber.subscriptions[entitlement.product_identifier];
+    const expiresAt = entitlement.expires_date ? (parseDate(entitlement.expires_date) ?? 0) : null;
+    const gracePeriodExpiresAt = parseDate(entitlement.grace_period_expires_date);
+
+    const result: Entitlement = {
+      id,
+      isActive: false,
+      source: 'revenuecat',
+      store: subscription?.store,
+      productId: entitlement.product_identifier,
+      expiresAt,
+      gracePeriodExpiresAt,
+      inGracePeriod: false,
+      // Lifetime purchases have no subscription and nothing to renew
+      willRenew:
+        !!subscription &&
+        !subscription.unsubscribe_detected_at &&
+        !subscription.billing_issues_detected_at,
+    };
+    return withActivity(result, now);
+  });
+}
+
+export interface StripeEntitlementOptions {
+  /** Entitlements granted by Stripe price ID; unlisted prices grant DEFAULT_ENTITLEMENT */
+  priceEntitlements?: Record<string, string[]>;
+  /**
+   * Access kept after the period ends while Stripe retries the renewal payment
+   * (RevenueCat records carry the store's own grace period)
+   */
+  gracePeriodMs?: number;
+}
+
+/** Statuses after which the subscription no longer grants anything */
+const ENDED_STATUSES: SubscriptionRecord['status'][] = [
+  'canceled',
+  'unpaid',
+  'incomplete',
+  'incomplete_expired',
+  'paused',
+];
+
+/**
+ * Entitlements from the user's subscription records (either source)
+ */
+export function subscriptionEntitlements(
+  subscriptions: SubscriptionRecord[],
+  options: StripeEntitlementOptions = {},
+  now = Date.now()
+): Entitlement[] {
+  return subscriptions.flatMap((subscription) => {
+    const ended = ENDED_STATUSES.includes(subscription.status);
+    const stripe = subscription.source === 'stripe';
+    const granted = stripe
+      ? subscription.priceId
+        ? options.priceEntitlements?.[subscription.priceId]
+        : undefined
+      : subscription.entitlementIds;
+    const ids = granted?.length ? granted : [DEFAULT_ENTITLEMENT];
+
+    // Ended subscriptions stop at the event that ended them (or expiry, if earlier),
+    // not at the period end
+    const expiresAt = ended
+      ? Math.min(
+          subscription.currentPeriodEnd ?? subscription.eventCreated,
+          subscription.eventCreated
+        )
+      : (subscription.currentPeriodEnd ?? null);
+    const gracePeriodExpiresAt = ended
+      ? undefined
+      : stripe && subscription.currentPeriodEnd && options.gracePeriodMs
+        ? subscription.currentPeriodEnd + options.gracePeriodMs
+        : subscription.gracePeriodEnd;
+
+    return ids.map((id) =>
+      withActivity(
+        {
+          id,
+          isActive: false,
+          source: subscription.source,
+          store: stripe ? 'stripe' : subscription.store,
+          productId: stripe ? subscription.priceId : subscription.productId,
+          expiresAt,
+          gracePeriodExpiresAt,
+          inGracePeriod: false,
+          willRenew:
+            !ended && subscription.status !== 'past_due' && !subscription.cancelAtPeriodEnd,
+        },
+        now
+      )
+    );
+  });
+}
+
+function withActivity(entitlement: Entitlement, now: number): Entitlement {
+  const isActive = isEntitlementActive(entitlement, now);
+  return {
+    ...entitlement,
+    isActive,
+    inGracePeriod: isActive && entitlement.expiresAt !== null && entitlement.expiresAt <= now,
+  };
+}
+
+/**
+ * One entitlement per ID (see pickEntitlement)
+ */
+export function mergeEntitlements(entitlements: Entitlement[], now = Date.now()): Entitlement[] {
+  const ids = [...new Set(entitlements.map((entitlement) => entitlement.id))].sort();
+  return ids.flatMap((id) => pickEntitlement(entitlements, id, now) ?? []);
+}
+
+export class EntitlementsService {
+  constructor(
+    private repository: PaymentsRepository,
+    private revenueCat: RevenueCatClient | null,
+    private options: StripeEntitlementOptions = {}
+  ) {}
+
+  async getEntitlements(userId: string, now = Date.now()): Promise<EntitlementsResponse> {
+    const unavailableSources: EntitlementSource[] = [];
+
+    const [subscriber, records] = await Promise.all([
+      this.revenueCat?.getSubscriber(userId).catch((error) => {
+        logError(error as Error, { context: 'Entitlements', source: 'revenuecat' });
+        unavailableSources.push('revenuecat');
+        return null;
+      }) ?? null,
+      this.repository.getSubscriptionsForUser(userId).catch((error) => {
+        logError(error as Error, { context: 'Entitlements', source: 'stripe' });
+        unavailableSources.push('stripe');
+        return [];
+      }),
+    ]);
+
+    // RevenueCat's own answer when we have it, what its webhook told us otherwise
+    const fromRevenueCat = subscriber
+      ? revenueCatEntitlements(subscriber, now)
+      : subscriptionEntitlements(
+          records.filter((record) => record.source === 'revenuecat'),
+          this.options,
+          now
+        );
+    const fromStripe = subscriptionEntitlements(
+      records.filter((record) => record.source === 'stripe'),
+      this.options,
+      now
+    );
+
+    return {
+      entitlements: mergeEntitlements([...fromRevenueCat, ...fromStripe], now),
+      checkedAt: now,
+      ...(unavailableSources.length > 0 && { unavailableSources }),
+    };
+  }
+}
+
+const priceEntitlementsSchema = z.record(z.array(z.string().min(1)));
+
+/**
+ * Service configured by environment variables:
+ * - REVENUECAT_SECRET_API_KEY=secret key for the REST API (RevenueCat is skipped without it)
+ * - STRIPE_PRICE_ENTITLEMENTS=JSON map of price ID to entitlement IDs,
+ *   e.g. {"price_pro_monthly":["premium","pro"]} (default: every price grants "premium")
+ * - STRIPE_GRACE_PERIOD_DAYS=days of access after a failed renewal (default: 3)
+ */
+function createEntitlementsServiceFromEnv(): EntitlementsService {
+  const secretApiKey = process.env.REVENUECAT_SECRET_API_KEY;
+  const graceDays = Number(process.env.STRIPE_GRACE_PERIOD_DAYS ?? 3);
+
+  let priceEntitlements: Record<string, string[]> | undefined;
+  if (process.env.STRIPE_PRICE_ENTITLEMENTS) {
+    try {
+      priceEntitlements = priceEntitlementsSchema.parse(
+        JSON.parse(process.env.STRIPE_PRICE_ENTITLEMENTS)
+      );
+    } catch (error) {
+      console.error('[Entitlements] Ignoring invalid STRIPE_PRICE_ENTITLEMENTS:', error);
+    }
+  }
+
+  return new EntitlementsService(
+    paymentsRepository,
+    secretApiKey ? new RevenueCatRestClient(secretApiKey) : null,
+    {
+      priceEntitlements,
+      gracePeriodMs: (Number.isNaN(graceDays) ? 3 : graceDays) * DAY_MS,
+    }
+  );
+}
+
+// Singleton instance
+export const entitlementsService = createEntitlementsServiceFromEnv();
@@ -2,14 +2,34 @@
  * Payment Manager
  *
  * Unified payment service that handles both:
- * 1. Native IAP (RevenueCat) for iOS/Android subscriptions
+ * 1. Native IAP (RevenueCat) for iOS/Android subscriptions and credit packs
  * 2. Web payments (Stripe) for web subscriptions and one-time purchases
  *
  * Automatically chooses the best payment method based on platform and user preference
  */
 
+import {
+  type CreditPack,
+  type CreditsResponse,
+  DEFAULT_ENTITLEMENT,
+  type EntitlementSource,
+  type EntitlementsResponse,
+  PROMO_CODE_ATTRIBUTE,
+  type PlanCatalogResponse,
+  type PlanPeriod,
+  type PromoValidation,
+  creditPacksResponseSchema,
+  creditsResponseSchema,
+  entitlementsResponseSchema,
+  isEntitlementActive,
+  pickEntitlement,
+  planCatalogResponseSchema,
+  promoValidationSchema,
+} from '@/features/payments/schemas';
+import { getAuthHeaders } from '@/lib/authToken';
+import { getStorageItem, removeStorageItem, setStorageItem } from '@/lib/mmkv';
 import { Platform } from 'react-native';
-import type { CustomerInfo } from 'react-native-purchases';
+import type { CustomerInfo, PurchasesPackage } from 'react-native-purchases';
 import * as RevenueCat from './revenueCat';
 import * as Stripe from './stripe';
 
@@ -22,10 +42,26 @@ export interface SubscriptionPlan {
   price: string;
   priceValue: number;
   currency: string;
-  period: 'monthly' | 'yearly' | 'lifetime';
+  period: PlanPeriod;
+  // e.g. "per month"
+  periodLabel: string;
   features: string[];
+  // e.g. "BEST VALUE"
+  badge?: string;
+  // Selected by default
+  highlighted: boolean;
+  trialDays?: number;
+  // e.g. "7-day free trial"
+  trialLabel?: string;
+  // Experiment variant from the plan catalog (absent: control)
+  variant?: string;
+  // Promo code the price includes, and the price without it
+  promoCode?: string;
+  originalPrice?: string;
   // RevenueCat package identifier (for IAP)
   packageId?: string;
+  // RevenueCat offering the package is in (default: the current offering)
+  offeringId?: string;
   // Stripe price ID (for web payments)
   stripePriceId?: string;
 }
@@ -40,67 +76,180 @@ export async function initializePayments(userId?: string): Promise<void> {
   }
 }
 
+const PLAN_CATALOG_CACHE_KEY = 'payments.planCatalog';
+
+/**
+ * Get the plan catalog from the backend (GET /api/payments/plans)
+ * The last response is kept for offline use.
+ */
+export async function getPlanCatalog(
+  options: { locale?: string; currency?: string } = {}
+): Promise<PlanCatalogResponse> {
+  try {
+    // Signed-in users get their experiment variants
+    const headers = await getAuthHeaders();
+
+    const params = new URLSearchParams();
+    if (options.locale) params.set('locale', options.locale);
+    if (options.currency) params.set('currency', options.currency);
+
+    const response = await fetch(
+      `${process.env.EXPO_PUBLIC_API_URL}/api/payments/plans?${params.toString()}`,
+      { headers }
+    );
+    const payload = await response.json();
+
+    if (!response.ok) {
+      throw new Error(payload.message || 'Failed to load plans');
+    }
+
+    const catalog = planCatalogResponseSchema.parse(payload);
+    await setStorageItem(PLAN_CATALOG_CACHE_KEY, catalog);
+    return catalog;
+  } catch (error) {
+    const cached = await getStorageItem<PlanCatalogResponse>(PLAN_CATALOG_CACHE_KEY).catch(
+      () => null
+    );
+    if (cached) {
+      console.warn('Using cached plan catalog:', error);
+      return cached;
+    }
+    throw error;
+  }
+}
+
 /**
  * Get available subscription plans
- * Combines offerings from both RevenueCat and custom plans
+ * Plans come from the plan catalog. On iOS/Android they are sold through their
+ * RevenueCat package, with the store's price; plans the current offering doesn't
+ * have are left out. On web, plans without a Stripe price are left out.
  */
-export async function getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
-  const plans: SubscriptionPlan[] = [];
+export async function getSubscriptionPlans(
+  options: { locale?: string; currency?: string } = {}
+): Promise<SubscriptionPlan[]> {
+  const catalog = await getPlanCatalog(options);
+
+  const plans = catalog.plans.map(
+    (plan): SubscriptionPlan => ({
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      price: plan.price.formatted,
+      priceValue: toMajorUnits(plan.price.amount, plan.price.currency),
+      currency: plan.price.currency,
+      period: plan.period,
+      periodLabel: plan.periodLabel,
+      features: plan.features,
+      badge: plan.badge,
+      highlighted: plan.highlighted,
+      trialDays: plan.trialDays,
+      trialLabel: plan.trialLabel,
+      variant: plan.variant,
+      packageId: plan.revenueCatPackageId,
+      stripePriceId: plan.stripePriceId,
+    })
+  );
 
-  // Get RevenueCat offerings
   if (Platform.OS === 'ios' || Platform.OS === 'android') {
     const offering = await RevenueCat.getOfferings();
-    if (offering) {
-      for (const pkg of offering.availablePackages) {
-        const product = pkg.product;
-        plans.push({
-          id: pkg.identifier,
-          name: product.title,
-          description: product.description,
-          price: product.priceString,
-          priceValue: product.price,
-          currency: product.currencyCode,
-          period: getPeriodFromPackage(pkg.identifier),
-          features: [],
-          packageId: pkg.identifier,
-        });
-      }
-    }
+    return await withStorePackages(plans, offering?.availablePackages ?? []);
+  }
+
+  return plans.filter((plan) => plan.stripePriceId);
+}
+
+/**
+ * Check a promo code for the signed-in user (POST /api/payments/validate-promo)
+ * Throws with the backend's message (e.g. "This code has expired") if it can't be used.
+ */
+export async function validatePromoCode(
+  code: string,
+  options: { locale?: string; currency?: string } = {}
+): Promise<PromoValidation> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/payments/validate-promo`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      code,
+      source: getDefaultPaymentMethod() === 'iap' ? 'revenuecat' : 'stripe',
+      ...options,
+    }),
+  });
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.message || 'Failed to check promo code');
   }
 
-  // Add Stripe plans (for web or alternative payment)
-  // These should match your Stripe dashboard configuration
-  const stripePlans: SubscriptionPlan[] = [
-    {
-      id: 'monthly',
-      name: 'Monthly Subscription',
-      description: 'Billed monthly',
-      price: '$9.99',
-      priceValue: 9.99,
-      currency: 'USD',
-      period: 'monthly',
-      features: ['Feature 1', 'Feature 2', 'Feature 3'],
-      stripePriceId: process.env.EXPO_PUBLIC_STRIPE_MONTHLY_PRICE_ID,
-    },
-    {
-      id: 'yearly',
-      name: 'Yearly Subscription',
-      description: 'Billed annually - Save 20%',
-      price: '$79.99',
-      priceValue: 79.99,
-      currency: 'USD',
-      period: 'yearly',
-      features: ['Feature 1', 'Feature 2', 'Feature 3', 'Priority Support'],
-      stripePriceId: process.env.EXPO_PUBLIC_STRIPE_YEARLY_PRICE_ID,
-    },
-  ];
-
-  // If no RevenueCat plans found, use Stripe plans
-  if (plans.length === 0) {
-    plans.push(...stripePlans);
+  return promoValidationSchema.parse(payload);
+}
+
+/**
+ * The plans a promo code applies to, priced with it
+ * On iOS/Android they are sold from the code's RevenueCat offering at the store's
+ * prices; on web the backend's discounted prices are shown and Stripe Checkout
+ * applies the code.
+ */
+export async function applyPromoCode(
+  plans: SubscriptionPlan[],
+  promo: PromoValidation
+): Promise<SubscriptionPlan[]> {
+  const promoPlans = plans.flatMap((plan): SubscriptionPlan[] => {
+    const promoPlan = promo.plans.find((p) => p.planId === plan.id);
+    if (!promoPlan) {
+      return [];
+    }
+    return [
+      {
+        ...plan,
+        price: promoPlan.price.formatted,
+        priceValue: toMajorUnits(promoPlan.price.amount, promoPlan.price.currency),
+        currency: promoPlan.price.currency,
+        originalPrice: plan.price,
+        trialDays: promoPlan.trialDays,
+        trialLabel: promoPlan.trialLabel,
+        promoCode: promo.code,
+        offeringId: promo.revenueCatOfferingId,
+      },
+    ];
+  });
+
+  if (Platform.OS === 'ios' || Platform.OS === 'android') {
+    const offering = promo.revenueCatOfferingId
+      ? await RevenueCat.getOffering(promo.revenueCatOfferingId)
+      : null;
+    return await withStorePackages(promoPlans, offering?.availablePackages ?? []);
   }
 
-  return plans;
+  return promoPlans;
+}
+
+/**
+ * Plans with the store price of their package in `packages`; plans without one are
+ * left out. Trial labels are kept only where the store still offers the user the trial.
+ */
+async function withStorePackages(
+  plans: SubscriptionPlan[],
+  packages: PurchasesPackage[]
+): Promise<SubscriptionPlan[]> {
+  const matched = plans.flatMap((plan) => {
+    const pkg = packages.find((p) => p.identifier === plan.packageId);
+    return pkg ? [{ plan, pkg }] : [];
+  });
+  const eligibility = await RevenueCat.checkIntroOfferEligibility(
+    matched.map(({ pkg }) => pkg.product)
+  );
+
+  return matched.map(({ plan, pkg }) => ({
+    ...plan,
+    // The store charges in the user's storefront currency
+    price: pkg.product.priceString,
+    priceValue: pkg.product.price,
+    currency: pkg.product.currencyCode,
+    ...(!eligibility[pkg.product.identifier] && { trialDays: undefined, trialLabel: undefined }),
+  }));
 }
 
 /**
@@ -124,13 +273,18 @@ export async function purchaseSubscription(
 
   if (method === 'iap' && plan.packageId) {
     // Use RevenueCat IAP
-    const offering = await RevenueCat.getOfferings();
+    const offering = plan.offeringId
+      ? await RevenueCat.getOffering(plan.offeringId)
+      : await RevenueCat.getOfferings();
     const pkg = offering?.availablePackages.find((p) => p.identifier === plan.packageId);
 
     if (!pkg) {
       return { success: false, error: 'Package not found' };
     }
 
+    // The RevenueCat webhook redeems the code from this attribute
+    await RevenueCat.setUserAttributes({ [PROMO_CODE_ATTRIBUTE]: plan.promoCode ?? null });
+
     return await RevenueCat.purchasePackage(pkg);
   }
   if (method === 'stripe' && plan.stripePriceId) {
@@ -139,6 +293,7 @@ export async function purchaseSubscription(
       priceId: plan.stripePriceId,
       email: options?.email,
       userId: options?.userId,
+      promoCode: plan.promoCode,
     });
 
     return {
@@ -164,21 +319,76 @@ export async function restorePurchases(): Promise<{
   return { success: false, error: 'Restore not available on this platform' };
 }
 
+const ENTITLEMENTS_CACHE_KEY = 'payments.entitlements';
+
 /**
- * Check if user has active subscription
+ * Get the user's entitlements from the backend (GET /api/entitlements)
+ * Merges native (RevenueCat) and web (Stripe) purchases, so a subscription bought on
+ * one platform counts on all of them. The last response is kept for offline use;
+ * expiry is checked again when it's read (isEntitlementActive).
  */
-export async function hasActiveSubscription(): Promise<boolean> {
-  if (Platform.OS === 'ios' || Platform.OS === 'android') {
-    return await RevenueCat.hasActiveSubscription();
+export async function getEntitlements(): Promise<EntitlementsResponse> {
+  const cached = await getStorageItem<EntitlementsResponse>(ENTITLEMENTS_CACHE_KEY).catch(
+    () => null
+  );
+
+  try {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/entitlements`, {
+      headers,
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      throw new Error(payload.message || 'Failed to load entitlements');
+    }
+
+    const result = entitlementsResponseSchema.parse(payload);
+
+    // Keep cached entitlements from a source that couldn't be checked this time
+    const kept = (cached?.entitlements ?? []).filter(
+      (entitlement) =>
+        result.unavailableSources?.includes(entitlement.source) &&
+        !result.entitlements.some((e) => e.id === entitlement.id) &&
+        isEntitlementActive(entitlement)
+    );
+    const merged = { ...result, entitlements: [...result.entitlements, ...kept] };
+
+    await setStorageItem(ENTITLEMENTS_CACHE_KEY, merged);
+    return merged;
+  } catch (error) {
+    if (cached) {
+      console.warn('Using cached entitlements:', error);
+      return cached;
+    }
+    throw error;
   }
+}
 
-  // For web, check via your backend API
+/**
+ * Forget cached entitlements (e.g. on logout)
+ */
+export async function clearEntitlementsCache(): Promise<void> {
+  await removeStorageItem(ENTITLEMENTS_CACHE_KEY);
+}
+
+/**
+ * Check if user has active subscription
+ */
+export async function hasActiveSubscription(
+  entitlementId: string = DEFAULT_ENTITLEMENT
+): Promise<boolean> {
   try {
-    const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/subscription/status`);
-    const data = await response.json();
-    return data.isActive || false;
+    const { entitlements } = await getEntitlements();
+    const entitlement = pickEntitlement(entitlements, entitlementId);
+    return !!entitlement && isEntitlementActive(entitlement);
   } catch (error) {
     console.error('Error checking subscription status:', error);
+    // Backend unreachable and nothing cached: native purchases can still be checked
+    if (Platform.OS === 'ios' || Platform.OS === 'android') {
+      return await RevenueCat.hasActiveEntitlement(entitlementId);
+    }
     return false;
   }
 }
@@ -186,34 +396,43 @@ export async function hasActiveSubscription(): Promise<boolean> {
 /**
  * Get subscription status
  */
-export async function getSubscriptionStatus(): Promise<{
+export async function getSubscriptionStatus(entitlementId: string = DEFAULT_ENTITLEMENT): Promise<{
   isActive: boolean;
   willRenew: boolean;
   expirationDate?: Date;
   plan?: string;
+  inGracePeriod?: boolean;
+  source?: EntitlementSource;
 }> {
-  if (Platform.OS === 'ios' || Platform.OS === 'android') {
-    const status = await RevenueCat.getSubscriptionStatus();
-    return {
-      isActive: status.isActive,
-      willRenew: status.willRenew,
-      expirationDate: status.expirationDate,
-      plan: status.productId,
-    };
-  }
-
-  // For web, check via your backend
   try {
-    const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/subscription/status`);
-    const data = await response.json();
+    const { entitlements } = await getEntitlements();
+    const entitlement = pickEntitlement(entitlements, entitlementId);
+    if (!entitlement) {
+      return { isActive: false, willRenew: false };
+    }
+
+    const isActive = isEntitlementActive(entitlement);
     return {
-      isActive: data.isActive || false,
-      willRenew: data.willRenew || false,
-      expirationDate: data.expirationDate ? new Date(data.expirationDate) : undefined,
-      plan: data.plan,
+      isActive,
+      willRenew: isActive && entitlement.willRenew,
+      expirationDate: entitlement.expiresAt ? new Date(entitlement.expiresAt) : undefined,
+      plan: entitlement.productId,
+      inGracePeriod:
+        isActive && entitlement.expiresAt !== null && entitlement.expiresAt <= Date.now(),
+      source: entitlement.source,
     };
   } catch (error) {
     console.error('Error getting subscription status:', error);
+    if (Platform.OS === 'ios' || Platform.OS === 'android') {
+      const status = await RevenueCat.getSubscriptionStatus();
+      return {
+        isActive: status.isActive,
+        willRenew: status.willRenew,
+        expirationDate: status.expirationDate,
+        plan: status.productId,
+        source: 'revenuecat',
+      };
+    }
     return {
       isActive: false,
       willRenew: false,
@@ -221,6 +440,79 @@ export async function getSubscriptionStatus(): Promise<{
   }
 }
 
+/**
+ * Get the credit packs for sale (GET /api/payments/credit-packs)
+ * On iOS/Android, packs without a RevenueCat product are left out.
+ */
+export async function getCreditPacks(
+  options: { locale?: string; currency?: string } = {}
+): Promise<CreditPack[]> {
+  const params = new URLSearchParams();
+  if (options.locale) params.set('locale', options.locale);
+  if (options.currency) params.set('currency', options.currency);
+
+  const response = await fetch(
+    `${process.env.EXPO_PUBLIC_API_URL}/api/payments/credit-packs?${params.toString()}`
+  );
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.message || 'Failed to load credit packs');
+  }
+
+  const { packs } = creditPacksResponseSchema.parse(payload);
+  if (Platform.OS === 'ios' || Platform.OS === 'android') {
+    return packs.filter((pack) => pack.revenueCatProductId);
+  }
+  return packs;
+}
+
+/**
+ * Get the user's credit balance and ledger, newest first (GET /api/credits)
+ * @param before `nextBefore` of the previous page
+ */
+export async function getCredits(options: { before?: number } = {}): Promise<CreditsResponse> {
+  const headers = await getAuthHeaders();
+
+  const params = new URLSearchParams();
+  if (options.before !== undefined) params.set('before', String(options.before));
+
+  const response = await fetch(
+    `${process.env.EXPO_PUBLIC_API_URL}/api/credits?${params.toString()}`,
+    { headers }
+  );
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.message || 'Failed to load credits');
+  }
+
+  return creditsResponseSchema.parse(payload);
+}
+
+/**
+ * Buy a credit pack: its consumable store product on iOS/Android, the Stripe
+ * payment sheet elsewhere
+ * The credits are added by the backend's webhooks, so refresh the balance
+ * (useCredits) after a successful purchase.
+ */
+export async function purchaseCreditPack(
+  pack: CreditPack,
+  options?: { method?: PaymentMethod }
+): Promise<{ success: boolean; error?: string }> {
+  const method = options?.method || getDefaultPaymentMethod();
+
+  if (method === 'iap' && pack.revenueCatProductId) {
+    const { success, error } = await RevenueCat.purchaseProduct(pack.revenueCatProductId);
+    return { success, error };
+  }
+  if (method === 'stripe') {
+    return await Stripe.presentCreditPackPayment(pack.id, pack.price.currency);
+  }
+
+  return { success: false, error: 'No payment method available' };
+}
+
 /**
  * Open subscription management page
  */
@@ -264,13 +556,11 @@ function getDefaultPaymentMethod(): PaymentMethod {
 }
 
 /**
- * Parse period from package identifier
+ * Amount in the currency's smallest unit (e.g. cents) to its main unit
  */
-function getPeriodFromPackage(packageId: string): 'monthly' | 'yearly' | 'lifetime' {
-  const id = packageId.toLowerCase();
-  if (id.includes('annual') || id.includes('year')) return 'yearly';
-  if (id.includes('lifetime') || id.includes('permanent')) return 'lifetime';
-  return 'monthly';
+function toMajorUnits(amount: number, currency: string): number {
+  const format = new Intl.NumberFormat('en', { style: 'currency', currency });
+  return amount / 10 ** (format.resolvedOptions().maximumFractionDigits ?? 2);
 }
 
 /**
@@ -292,6 +582,7 @@ export async function identifyUser(userId: string, email?: string): Promise<void
  * Logout user from payment systems
  */
 export async function logoutPaymentUser(): Promise<void> {
+  await clearEntitlementsCache();
   if (Platform.OS === 'ios' || Platform.OS === 'android') {
     await RevenueCat.logoutUser();
   }
@@ -0,0 +1,377 @@
+/**
+ * Plan Catalog (server-side)
+ *
+ * The plans the app sells, served by GET /api/payments/plans so they can change
+ * without a release. The catalog has a version, bumped on every change, and each
+ * plan has:
+ * - a name, description and feature bullets from the locale files
+ *   (`payments.*` in src/lib/i18n/locales), in the request's language
+ * - a price per currency; other currencies get the catalog's default currency
+ * - an optional free trial, which Stripe Checkout applies (create-checkout)
+ * - the Stripe price and RevenueCat package that sell it
+ * - variants: experiments that change the plan (price, trial, badge...) for the
+ *   users a feature flag (src/lib/featureFlagEvaluation.ts) buckets into them
+ *
+ * PAYMENTS_PLAN_CATALOG replaces the built-in catalog (see createPlanCatalogFromEnv).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import {
+  type CatalogPlan,
+  DEFAULT_ENTITLEMENT,
+  type PlanCatalogResponse,
+  type PlanPeriod,
+  planPeriodSchema,
+} from '@/features/payments/schemas';
+import { type FeatureFlag, evaluateFeatureFlag } from '@/lib/featureFlagEvaluation';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage, resources } from '@/lib/i18n/resources';
+import i18next, { type TFunction } from 'i18next';
+import { z } from 'zod';
+
+export interface PlanPriceDefinition {
+  /** In the currency's smallest unit (e.g. cents) */
+  amount: number;
+  /** Stripe price for this currency, if not the plan's */
+  stripePriceId?: string;
+}
+
+export interface PlanDefinition {
+  /** Also the locale key: `payments.plans.<id>.name` / `.description` */
+  id: string;
+  period: PlanPeriod;
+  /** Feature IDs, translated as `payments.features.<id>` */
+  features: string[];
+  /** Badge ID, translated as `payments.badges.<id>` */
+  badge?: string;
+  /** Selected by default */
+  highlighted?: boolean;
+  /** Prices by ISO 4217 code; must include the catalog's default currency */
+  prices: Record<string, PlanPriceDefinition>;
+  trialDays?: number;
+  /** Entitlements the plan grants (default: DEFAULT_ENTITLEMENT) */
+  entitlements?: string[];
+  /** Stripe price for currencies without their own */
+  stripePriceId?: string;
+  /** RevenueCat package in the current offering, e.g. "$rc_annual" */
+  revenueCatPackageId?: string;
+  /** Used when the locale files have no name / description for the plan */
+  name?: string;
+  description?: string;
+  variants?: PlanVariant[];
+}
+
+export type PlanChanges = Partial<Omit<PlanDefinition, 'id' | 'period' | 'variants'>>;
+
+export interface PlanVariant {
+  /** Reported with the plan, e.g. "trial14" */
+  id: string;
+  /** Users the flag is enabled for get the variant; the first matching variant wins */
+  flag: FeatureFlag;
+  changes: PlanChanges;
+}
+
+export interface PlanCatalog {
+  version: number;
+  /** Currency for requests in currencies a plan has no price in */
+  defaultCurrency: string;
+  plans: PlanDefinition[];
+}
+
+/**
+ * Flag that buckets users into a plan variant; keyed by plan and variant so a
+ * user's bucket is stable while the percentage grows
+ */
+export function createPlanVariantFlag(
+  planId: string,
+  variantId: string,
+  options: { percentage?: number; userIds?: string[]; enabled?: boolean } = {}
+): FeatureFlag {
+  return {
+    key: `plans.${planId}.${variantId}`,
+    name: `Plan ${planId} ${variantId}`,
+    description: `Serve the ${variantId} variant of the ${planId} plan`,
+    enabled: options.enabled ?? true,
+    enabledForPercentage: options.percentage,
+    enabledForUserIds: options.userIds,
+  };
+}
+
+/**
+ * Supported language for a locale tag (e.g. "es-MX" -> "es"); English otherwise
+ */
+export function resolveLanguage(locale?: string | null): SupportedLanguage {
+  const language = locale?.split(/[-_]/)[0]?.toLowerCase();
+  return SUPPORTED_LANGUAGES.find((supported) => supported === language) ?? 'en';
+}
+
+/**
+ * Format an amount in the currency's smallest unit, e.g. (999, 'USD', 'en') -> "$9.99"
+ */
+export function formatPrice(amount: number, currency: string, locale: string): string {
+  const tag = Intl.NumberFormat.supportedLocalesOf(locale).length > 0 ? locale : 'en';
+  const format = new Intl.NumberFormat(tag, { style: 'currency', currency });
+  const digits = format.resolvedOptions().maximumFractionDigits ?? 2;
+  return format.format(amount / 10 ** digits);
+}
+
+let translator: typeof i18next | undefined;
+
+/**
+ * Translation function for a language, with the locale files' strings
+ */
+export function translate(language: SupportedLanguage): TFunction {
+  if (!translator) {
+    translator = i18next.createInstance();
+    translator.init({
+      resources,
+      fallbackLng: 'en',
+      compatibilityJSON: 'v3',
+      // Resources are in memory, so init synchronously
+      initImmediate: false,
+      interpolation: { escapeValue: false },
+    });
+  }
+  return translator.getFixedT(language);
+}
+
+export class PlanCatalogService {
+  constructor(private catalog: PlanCatalog) {
+    const ids = new Set<string>();
+    for (const plan of catalog.plans) {
+      if (ids.has(plan.id)) {
+        throw new Error(`Plan catalog has two plans with ID ${plan.id}`);
+      }
+      ids.add(plan.id);
+
+      for (const { prices } of [plan, ...(plan.variants ?? []).map((v) => v.changes)]) {
+        if (prices && !prices[catalog.defaultCurrency]) {
+          throw new Error(`Plan ${plan.id} has no ${catalog.defaultCurrency} price`);
+        }
+      }
+    }
+  }
+
+  get version(): number {
+    return this.catalog.version;
+  }
+
+  /**
+   * A plan as a user sees it: with the first variant whose flag is enabled for them
+   * Anonymous users get the plan without variants.
+   */
+  resolvePlan(plan: PlanDefinition, userId?: string): { plan: PlanDefinition; variant?: string } {
+    const variant = userId
+      ? plan.variants?.find(({ flag }) => evaluateFeatureFlag(flag, { userId }))
+      : undefined;
+    return variant
+      ? { plan: { ...plan, ...variant.changes }, variant: variant.id }
+      : { plan: { ...plan } };
+  }
+
+  /**
+   * The catalog for a user, in their language and currency
+   */
+  getPlans(
+    options: { userId?: string; locale?: string; currency?: string } = {}
+  ): PlanCatalogResponse {
+    const language = resolveLanguage(options.locale);
+    const t = translate(language);
+    const currency = options.currency?.toUpperCase();
+
+    return {
+      version: this.catalog.version,
+      locale: language,
+      plans: this.catalog.plans.map((definition) => {
+        const { plan, variant } = this.resolvePlan(definition, options.userId);
+        return this.describe(plan, variant, t, currency, options.locale ?? language);
+      }),
+    };
+  }
+
+  /**
+   * The plan (with the user's variant) sold by a Stripe price
+   */
+  findByStripePrice(
+    priceId: string,
+    userId?: string
+  ): { plan: PlanDefinition; variant?: string } | undefined {
+    for (const definition of this.catalog.plans) {
+      const resolved = this.resolvePlan(definition, userId);
+      const { plan } = resolved;
+      if (
+        plan.stripePriceId === priceId ||
+        Object.values(plan.prices).some((price) => price.stripePriceId === priceId)
+      ) {
+        return resolved;
+      }
+    }
+    return undefined;
+  }
+
+  private describe(
+    plan: PlanDefinition,
+    variant: string | undefined,
+    t: TFunction,
+    requestedCurrency: string | undefined,
+    locale: string
+  ): CatalogPlan {
+    const currency =
+      requestedCurrency && plan.prices[requestedCurrency]
+        ? requestedCurrency
+        : this.catalog.defaultCurrency;
+    const price = plan.prices[currency];
+
+    return {
+      id: plan.id,
+      period: plan.period,
+      name: t(`payments.plans.${plan.id}.name`, { defaultValue: plan.name ?? plan.id }),
+      description: t(`payments.plans.${plan.id}.description`, {
+        defaultValue: plan.description ?? '',
+      }),
+      features: plan.features.map((feature) =>
+        t(`payments.features.${feature}`, { defaultValue: feature })
+      ),
+      ...(plan.badge && {
+        badge: t(`payments.badges.${plan.badge}`, { defaultValue: plan.badge }),
+      }),
+      highlighted: !!plan.highlighted,
+      price: {
+        amount: price.amount,
+        currency,
+        formatted: formatPrice(price.amount, currency, locale),
+      },
+      periodLabel: t(`payments.periods.${plan.period}`),
+      ...(plan.trialDays && {
+        trialDays: plan.trialDays,
+        trialLabel: t('payments.trial', { count: plan.trialDays }),
+      }),
+      entitlements: plan.entitlements ?? [DEFAULT_ENTITLEMENT],
+      stripePriceId: price.stripePriceId ?? plan.stripePriceId,
+      revenueCatPackageId: plan.revenueCatPackageId,
+      variant,
+    };
+  }
+}
+
+// =============================================================================
+// Catalog
+// =============================================================================
+
+export const DEFAULT_PLAN_CATALOG: PlanCatalog = {
+  version: 1,
+  defaultCurrency: 'USD',
+  plans: [
+    {
+      id: 'monthly',
+      period: 'monthly',
+      features: ['allFeatures', 'adFree', 'cloudSync'],
+      prices: { USD: { amount: 999 }, EUR: { amount: 999 }, GBP: { amount: 899 } },
+      stripePriceId:
+        process.env.STRIPE_MONTHLY_PRICE_ID || process.env.EXPO_PUBLIC_STRIPE_MONTHLY_PRICE_ID,
+      revenueCatPackageId: '$rc_monthly',
+    },
+    {
+      id: 'yearly',
+      period: 'yearly',
+      features: ['allFeatures', 'adFree', 'cloudSync', 'prioritySupport', 'earlyAccess'],
+      badge: 'bestValue',
+      highlighted: true,
+      prices: { USD: { amount: 7999 }, EUR: { amount: 7999 }, GBP: { amount: 6999 } },
+      trialDays: 7,
+      stripePriceId:
+        process.env.STRIPE_YEARLY_PRICE_ID || process.env.EXPO_PUBLIC_STRIPE_YEARLY_PRICE_ID,
+      revenueCatPackageId: '$rc_annual',
+    },
+  ],
+};
+
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Must be an ISO 4217 code');
+
+const planChangesSchema = z
+  .object({
+    features: z.array(z.string().min(1)),
+    badge: z.string().min(1),
+    highlighted: z.boolean(),
+    prices: z.record(
+      currencyCodeSchema,
+      z.object({
+        amount: z.number().int().nonnegative(),
+        stripePriceId: z.string().min(1).optional(),
+      })
+    ),
+    trialDays: z.number().int().positive(),
+    entitlements: z.array(z.string().min(1)).min(1),
+    stripePriceId: z.string().min(1),
+    revenueCatPackageId: z.string().min(1),
+    name: z.string(),
+    description: z.string(),
+  })
+  .partial()
+  .strict();
+
+const planCatalogSchema = z.object({
+  version: z.number().int().positive(),
+  defaultCurrency: currencyCodeSchema,
+  plans: z.array(
+    planChangesSchema.extend({
+      id: z.string().regex(/^\w+$/, 'Letters, digits and underscores only'),
+      period: planPeriodSchema,
+      features: z.array(z.string().min(1)).default([]),
+      prices: planChangesSchema.shape.prices.unwrap(),
+      variants: z
+        .array(
+          z.object({
+            id: z.string().min(1),
+            percentage: z.number().min(0).max(100).optional(),
+            userIds: z.array(z.string()).optional(),
+            enabled: z.boolean().optional(),
+            changes: planChangesSchema,
+          })
+        )
+        .optional(),
+    })
+  ),
+});
+
+/**
+ * Catalog from JSON, with variant flags built from `percentage` / `userIds` / `enabled`
+ * Throws a ZodError if it isn't a valid catalog.
+ */
+export function parsePlanCatalog(json: unknown): PlanCatalog {
+  const catalog = planCatalogSchema.parse(json);
+  return {
+    ...catalog,
+    plans: catalog.plans.map((plan) => ({
+      ...plan,
+      variants: plan.variants?.map(({ id, percentage, userIds, enabled, changes }) => ({
+        id,
+        flag: createPlanVariantFlag(plan.id, id, { percentage, userIds, enabled }),
+        changes,
+      })),
+    })),
+  };
+}
+
+/**
+ * Catalog from PAYMENTS_PLAN_CATALOG (JSON, see parsePlanCatalog), or the built-in one,
+ * e.g. a trial experiment on the yearly plan:
+ * {"version":2,"defaultCurrency":"USD","plans":[{"id":"yearly","period":"yearly",
+ *  "prices":{"USD":{"amount":7999}},"trialDays":7,"stripePriceId":"price_...",
+ *  "variants":[{"id":"trial14","percentage":50,"changes":{"trialDays":14}}]}]}
+ */
+function createPlanCatalogFromEnv(): PlanCatalogService {
+  if (process.env.PAYMENTS_PLAN_CATALOG) {
+    try {
+      return new PlanCatalogService(
+        parsePlanCatalog(JSON.parse(process.env.PAYMENTS_PLAN_CATALOG))
+      );
+    } catch (error) {
+      console.error('[PlanCatalog] Ignoring invalid PAYMENTS_PLAN_CATALOG:', error);
+    }
+  }
+  return new PlanCatalogService(DEFAULT_PLAN_CATALOG);
+}
+
+// Singleton instance
+export const planCatalog = createPlanCatalogFromEnv();
@@ -0,0 +1,252 @@
+/**
+ * Promo Codes (server-side)
+ *
+ * Codes users enter in the Paywall for a discount or a free trial, on both
+ * payment platforms:
+ * - Stripe Checkout (create-checkout): the code's Stripe coupon discounts the
+ *   subscription, and its trial becomes `trial_period_days`
+ * - In-app purchases: the app buys from the code's RevenueCat offering, whose
+ *   store products carry the discount or intro offer
+ *
+ * Codes are checked by POST /api/payments/validate-promo and again at checkout.
+ * Each user can redeem a code once; `maxRedemptions` caps the redemptions of all
+ * users. Stripe checkouts reserve the redemption (`reserve`) until the session
+ * expires, and the Stripe webhook confirms or releases it; in-app purchases are
+ * recorded by the RevenueCat webhook once the store has completed them.
+ *
+ * Codes come from PAYMENTS_PROMO_CODES (see createPromoCodesFromEnv).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import {
+  type PromoCodeErrorCode,
+  type PromoValidation,
+  normalizePromoCode,
+} from '@/features/payments/schemas';
+import { z } from 'zod';
+import {
+  type PlanCatalogService,
+  formatPrice,
+  planCatalog,
+  resolveLanguage,
+  translate,
+} from './planCatalog';
+import { type PaymentSource, type PaymentsRepository, paymentsRepository } from './repository';
+
+export interface PromoCodeDefinition {
+  /** What users type; matched case-insensitively */
+  code: string;
+  description?: string;
+  /** Discount, in percent; the Stripe coupon and store offers must match it */
+  percentOff?: number;
+  /** Free trial, instead of the plan's */
+  trialDays?: number;
+  /** Plans the code applies to (default: all) */
+  planIds?: string[];
+  /** Stripe coupon applied at checkout; required for discounts on the web */
+  stripeCouponId?: string;
+  /** RevenueCat offering with the discounted products; required for in-app purchases */
+  revenueCatOfferingId?: string;
+  /** Valid from / until (epoch ms) */
+  startsAt?: number;
+  expiresAt?: number;
+  /** Redemptions by all users */
+  maxRedemptions?: number;
+}
+
+/**
+ * Thrown for codes the user can't redeem
+ */
+export class PromoCodeError extends Error {
+  constructor(
+    public code: PromoCodeErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export class PromoCodeService {
+  private codes = new Map<string, PromoCodeDefinition>();
+
+  constructor(
+    definitions: PromoCodeDefinition[],
+    private repository: PaymentsRepository = paymentsRepository,
+    private catalog: PlanCatalogService = planCatalog
+  ) {
+    for (const definition of definitions) {
+      const code = normalizePromoCode(definition.code);
+      if (this.codes.has(code)) {
+        throw new Error(`Promo code ${code} is defined twice`);
+      }
+      this.codes.set(code, { ...definition, code });
+    }
+  }
+
+  /**
+   * The code, if the user can redeem it now, on `source`, for `planId` (when given)
+   * Throws a PromoCodeError otherwise.
+   */
+  async validate(
+    code: string,
+    options: { userId: string; source: PaymentSource; planId?: string; now?: number }
+  ): Promise<PromoCodeDefinition> {
+    const now = options.now ?? Date.now();
+    const promo = this.codes.get(normalizePromoCode(code));
+
+    if (!promo || (promo.startsAt !== undefined && now < promo.startsAt)) {
+      throw new PromoCodeError('NOT_FOUND', 'This code is not valid');
+    }
+    if (promo.expiresAt !== undefined && now >= promo.expiresAt) {
+      throw new PromoCodeError('EXPIRED', 'This code has expired');
+    }
+    if (options.planId !== undefined && promo.planIds && !promo.planIds.includes(options.planId)) {
+      throw new PromoCodeError('NOT_APPLICABLE', 'This code is not valid for this plan');
+    }
+    const available =
+      options.source === 'revenuecat'
+        ? !!promo.revenueCatOfferingId
+        : !promo.percentOff || !!promo.stripeCouponId;
+    if (!available) {
+      throw new PromoCodeError('NOT_APPLICABLE', "This code can't be used on this device");
+    }
+
+    const redemption = await this.repository.getRedemption(promo.code, options.userId);
+    if (redemption && (redemption.expiresAt === undefined || redemption.expiresAt > now)) {
+      throw new PromoCodeError('ALREADY_REDEEMED', 'You have already used this code');
+    }
+    if (
+      promo.maxRedemptions !== undefined &&
+      (await this.repository.countRedemptions(promo.code, now)) >= promo.maxRedemptions
+    ) {
+      throw new PromoCodeError('EXHAUSTED', 'This code has been used up');
+    }
+    return { ...promo };
+  }
+
+  /**
+   * Hold a validated code for the user's checkout (`reference`) until `expiresAt`
+   * Throws a PromoCodeError if another checkout holds it, or the code is used up.
+   */
+  async reserve(
+    promo: PromoCodeDefinition,
+    options: {
+      userId: string;
+      source: PaymentSource;
+      reference: string;
+      expiresAt: number;
+      now?: number;
+    }
+  ): Promise<void> {
+    const { now = Date.now(), ...reservation } = options;
+    const result = await this.repository.reserveRedemption(
+      { ...reservation, code: promo.code, redeemedAt: now },
+      { maxRedemptions: promo.maxRedemptions, now }
+    );
+    if (result === 'redeemed') {
+      throw new PromoCodeError('ALREADY_REDEEMED', 'You have already used this code');
+    }
+    if (result === 'exhausted') {
+      throw new PromoCodeError('EXHAUSTED', 'This code has been used up');
+    }
+  }
+
+  /**
+   * What a code does to the plans the user is offered, in their language and currency
+   * Throws a PromoCodeError if it applies to none of them.
+   */
+  describe(
+    promo: PromoCodeDefinition,
+    options: { userId?: string; locale?: string; currency?: string } = {}
+  ): PromoValidation {
+    const { locale, plans } = this.catalog.getPlans(options);
+    const t = translate(resolveLanguage(locale));
+
+    const promoPlans = plans
+      .filter((plan) => !promo.planIds || promo.planIds.includes(plan.id))
+      .map((plan) => {
+        const amount = promo.percentOff
+          ? Math.round((plan.price.amount * (100 - promo.percentOff)) / 100)
+          : plan.price.amount;
+        const trialDays = promo.trialDays ?? plan.trialDays;
+        return {
+          planId: plan.id,
+          price: {
+            ...plan.price,
+            amount,
+            formatted: formatPrice(amount, plan.price.currency, options.locale ?? locale),
+          },
+          originalPrice: plan.price,
+          ...(trialDays && {
+            trialDays,
+            trialLabel: t('payments.trial', { count: trialDays }),
+          }),
+        };
+      });
+
+    if (promoPlans.length === 0) {
+      throw new PromoCodeError('NOT_APPLICABLE', 'This code is not valid for any plan');
+    }
+
+    return {
+      code: promo.code,
+      description: promo.description,
+      percentOff: promo.percentOff,
+      trialDays: promo.trialDays,
+      revenueCatOfferingId: promo.revenueCatOfferingId,
+      plans: promoPlans,
+    };
+  }
+}
+
+const timestampSchema = z.string().datetime({ offset: true }).transform(Date.parse);
+
+const promoCodesSchema = z.array(
+  z
+    .object({
+      code: z.string().trim().min(1).max(64),
+      description: z.string().optional(),
+      percentOff: z.number().positive().max(100).optional(),
+      trialDays: z.number().int().positive().optional(),
+      planIds: z.array(z.string().min(1)).min(1).optional(),
+      stripeCouponId: z.string().min(1).optional(),
+      revenueCatOfferingId: z.string().min(1).optional(),
+      startsAt: timestampSchema.optional(),
+      expiresAt: timestampSchema.optional(),
+      maxRedemptions: z.number().int().positive().optional(),
+    })
+    .strict()
+    .refine((promo) => promo.percentOff || promo.trialDays, {
+      message: 'A code needs percentOff or trialDays',
+    })
+);
+
+/**
+ * Codes from JSON, with `startsAt` / `expiresAt` as ISO 8601 times
+ * Throws a ZodError if they aren't valid.
+ */
+export function parsePromoCodes(json: unknown): PromoCodeDefinition[] {
+  return promoCodesSchema.parse(json);
+}
+
+/**
+ * Codes from PAYMENTS_PROMO_CODES (JSON, see parsePromoCodes), e.g.
+ * [{"code":"LAUNCH50","percentOff":50,"stripeCouponId":"launch50",
+ *   "revenueCatOfferingId":"launch50","expiresAt":"2026-12-31T23:59:59Z"},
+ *  {"code":"TRYIT","trialDays":30,"planIds":["yearly"],"maxRedemptions":1000}]
+ */
+function createPromoCodesFromEnv(): PromoCodeService {
+  if (process.env.PAYMENTS_PROMO_CODES) {
+    try {
+      return new PromoCodeService(parsePromoCodes(JSON.parse(process.env.PAYMENTS_PROMO_CODES)));
+    } catch (error) {
+      console.error('[PromoCodes] Ignoring invalid PAYMENTS_PROMO_CODES:', error);
+    }
+  }
+  return new PromoCodeService([]);
+}
+
+// Singleton instance
+export const promoCodeService = createPromoCodesFromEnv();
@@ -0,0 +1,289 @@
+/**
+ * Payments Reconciliation (server-side)
+ *
+ * Webhooks can be missed (the endpoint was down past the retry window, a wrong
+ * secret, purchases from before the webhook existed), so subscription records
+ * drift from what Stripe and RevenueCat know. This job compares the records with
+ * each source's API and rewrites the ones that differ:
+ * - Stripe: every stored subscription that can still change is retrieved
+ * - RevenueCat: the subscriber of every user with records (from either source)
+ *   is fetched; missing subscriptions are created, and records for products the
+ *   subscriber no longer has (e.g. transferred away) are ended
+ *
+ * Corrected records take the time of the check as their event time, so webhook
+ * events sent before it are `stale` if they arrive later.
+ *
+ * Run it periodically: POST /api/payments/reconcile (see
+ * .github/workflows/payments-reconcile.yml).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { logError } from '@/lib/sentry';
+import {
+  type RevenueCatClient,
+  RevenueCatRestClient,
+  type RevenueCatSubscriber,
+  parseDate,
+} from './entitlements';
+import {
+  type PaymentSource,
+  type PaymentsRepository,
+  type SubscriptionRecord,
+  type SubscriptionStatus,
+  paymentsRepository,
+} from './repository';
+import { revenueCatSubscriptionId } from './revenueCatWebhooks';
+import { type StripeSubscriptionObject, subscriptionRecordFromStripe } from './stripeWebhooks';
+
+export interface StripeSubscriptionsClient {
+  retrieveSubscription(id: string): Promise<StripeSubscriptionObject>;
+}
+
+/**
+ * Stripe API through the stripe package
+ */
+export class StripeSdkSubscriptionsClient implements StripeSubscriptionsClient {
+  constructor(private secretKey: string) {}
+
+  retrieveSubscription(id: string): Promise<StripeSubscriptionObject> {
+    const stripe = require('stripe')(this.secretKey);
+    return stripe.subscriptions.retrieve(id);
+  }
+}
+
+export interface ReconciliationReport {
+  /** Records compared */
+  checked: number;
+  /** IDs of records rewritten because they differed */
+  updated: string[];
+  /** IDs of records the source had and we didn't */
+  created: string[];
+  /** Records or users that couldn't be checked */
+  failed: { id: string; error: string }[];
+  startedAt: number;
+  finishedAt: number;
+}
+
+/** Stripe statuses a subscription can't leave */
+const TERMINAL_STATUSES: SubscriptionStatus[] = ['canceled', 'incomplete_expired'];
+
+const COMPARED_FIELDS = [
+  'userId',
+  'priceId',
+  'productId',
+  'store',
+  'status',
+  'currentPeriodEnd',
+  'gracePeriodEnd',
+  'cancelAtPeriodEnd',
+] as const;
+
+function differs(a: SubscriptionRecord, b: SubscriptionRecord): boolean {
+  return (
+    COMPARED_FIELDS.some((field) => a[field] !== b[field]) ||
+    [...(a.entitlementIds ?? [])].sort().join() !== [...(b.entitlementIds ?? [])].sort().join()
+  );
+}
+
+/**
+ * Subscription records for what a RevenueCat subscriber has, as of `now`
+ * Subscriptions bought through RevenueCat's Stripe integration are left to Stripe.
+ */
+export function revenueCatSubscriptionRecords(
+  userId: string,
+  subscriber: RevenueCatSubscriber,
+  now = Date.now()
+): SubscriptionRecord[] {
+  return Object.entries(subscriber.subscriptions)
+    .filter(([, subscription]) => subscription.store !== 'stripe')
+    .map(([productId, subscription]) => {
+      const expiresAt = parseDate(subscription.expires_date);
+      const gracePeriodEnd = parseDate(subscription.grace_period_expires_date);
+      const refundedAt = parseDate(subscription.refunded_at);
+      const lapsed =
+        expiresAt !== undefined && expiresAt <= now && !(gracePeriodEnd && gracePeriodEnd > now);
+
+      let status: SubscriptionStatus = 'active';
+      if (refundedAt || lapsed) status = 'canceled';
+      else if (subscription.billing_issues_detected_at) status = 'past_due';
+      else if (subscription.period_type === 'trial') status = 'trialing';
+
+      const entitlementIds = Object.entries(subscriber.entitlements)
+        .filter(([, entitlement]) => entitlement.product_identifier === productId)
+        .map(([id]) => id);
+
+      return {
+        id: revenueCatSubscriptionId(userId, productId),
+        source: 'revenuecat' as const,
+        userId,
+        productId,
+        ...(entitlementIds.length > 0 && { entitlementIds }),
+        store: subscription.store,
+        status,
+        currentPeriodEnd: refundedAt ?? expiresAt,
+        gracePeriodEnd: status === 'past_due' ? gracePeriodEnd : undefined,
+        cancelAtPeriodEnd: !!subscription.unsubscribe_detected_at || !!refundedAt,
+        eventCreated: now,
+        updatedAt: now,
+      };
+    });
+}
+
+export class PaymentsReconciler {
+  constructor(
+    private repository: PaymentsRepository,
+    private clients: {
+      stripe: StripeSubscriptionsClient | null;
+      revenueCat: RevenueCatClient | null;
+    },
+    private pageSize = 100
+  ) {}
+
+  /**
+   * Check every record (or those of one source) against its source
+   */
+  async reconcile(
+    options: { source?: PaymentSource; now?: number } = {}
+  ): Promise<ReconciliationReport> {
+    const startedAt = options.now ?? Date.now();
+    const report: ReconciliationReport = {
+      checked: 0,
+      updated: [],
+      created: [],
+      failed: [],
+      startedAt,
+      finishedAt: startedAt,
+    };
+    const checkStripe = !!this.clients.stripe && options.source !== 'revenuecat';
+    const checkRevenueCat = !!this.clients.revenueCat && options.source !== 'stripe';
+
+    // Users are collected from both sources: a web subscriber may also have
+    // bought in the app without the RevenueCat webhook telling us
+    const users = new Set<string>();
+    let after: string | undefined;
+    for (;;) {
+      const page = await this.repository.listSubscriptions({ after, limit: this.pageSize });
+      for (const record of page) {
+        if (record.userId) users.add(record.userId);
+        if (checkStripe && record.source === 'stripe') {
+          await this.reconcileStripe(record, startedAt, report);
+        }
+      }
+      if (page.length < this.pageSize) break;
+      after = page[page.length - 1].id;
+    }
+
+    if (checkRevenueCat) {
+      for (const userId of users) {
+        await this.reconcileRevenueCat(userId, startedAt, report);
+      }
+    }
+
+    report.finishedAt = Date.now();
+    return report;
+  }
+
+  private async reconcileStripe(
+    record: SubscriptionRecord,
+    now: number,
+    report: ReconciliationReport
+  ): Promise<void> {
+    if (!this.clients.stripe || TERMINAL_STATUSES.includes(record.status)) {
+      return;
+    }
+
+    try {
+      const subscription = await this.clients.stripe.retrieveSubscription(record.id);
+      const expected = subscriptionRecordFromStripe(subscription, record, now);
+      report.checked++;
+      if (differs(record, expected)) {
+        await this.repository.saveSubscription(expected);
+        report.updated.push(record.id);
+      }
+    } catch (error) {
+      this.fail(report, record.id, 'stripe', error);
+    }
+  }
+
+  private async reconcileRevenueCat(
+    userId: string,
+    now: number,
+    report: ReconciliationReport
+  ): Promise<void> {
+    if (!this.clients.revenueCat) {
+      return;
+    }
+
+    try {
+      const subscriber = await this.clients.revenueCat.getSubscriber(userId);
+      const expected = revenueCatSubscriptionRecords(userId, subscriber, now);
+      const stored = (await this.repository.getSubscriptionsForUser(userId)).filter(
+        (record) => record.source === 'revenuecat'
+      );
+
+      for (const record of expected) {
+        const existing = stored.find((candidate) => candidate.id === record.id);
+        report.checked++;
+        if (!existing) {
+          await this.repository.saveSubscription(record);
+          report.created.push(record.id);
+        } else if (differs(existing, record)) {
+          await this.repository.saveSubscription({
+            ...record,
+            entitlementIds: record.entitlementIds ?? existing.entitlementIds,
+          });
+          report.updated.push(record.id);
+        }
+      }
+
+      // Lifetime purchases aren't subscriptions, but still show up in entitlements
+      const products = new Set([
+        ...Object.keys(subscriber.subscriptions),
+        ...Object.values(subscriber.entitlements).map(
+          (entitlement) => entitlement.product_identifier
+        ),
+      ]);
+      for (const record of stored) {
+        if (!record.productId || products.has(record.productId)) continue;
+        report.checked++;
+        if (record.status !== 'canceled') {
+          await this.repository.saveSubscription({
+            ...record,
+            status: 'canceled',
+            cancelAtPeriodEnd: true,
+            gracePeriodEnd: undefined,
+            eventCreated: now,
+            updatedAt: now,
+          });
+          report.updated.push(record.id);
+        }
+      }
+    } catch (error) {
+      this.fail(report, userId, 'revenuecat', error);
+    }
+  }
+
+  private fail(report: ReconciliationReport, id: string, source: PaymentSource, error: unknown) {
+    logError(error as Error, { context: 'Payments Reconciliation', source, id });
+    report.failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Reconciler configured by environment variables:
+ * - STRIPE_SECRET_KEY=Stripe API key (Stripe records are skipped without it)
+ * - REVENUECAT_SECRET_API_KEY=RevenueCat REST API key (RevenueCat is skipped without it)
+ */
+function createPaymentsReconcilerFromEnv(): PaymentsReconciler {
+  const stripeKey = process.env.STRIPE_SECRET_KEY;
+  const revenueCatKey = process.env.REVENUECAT_SECRET_API_KEY;
+
+  return new PaymentsReconciler(paymentsRepository, {
+    stripe: stripeKey ? new StripeSdkSubscriptionsClient(stripeKey) : null,
+    revenueCat: revenueCatKey ? new RevenueCatRestClient(revenueCatKey) : null,
+  });
+}
+
+// Singleton instance
+export const paymentsReconciler = createPaymentsReconcilerFromEnv();
@@ -0,0 +1,1359 @@
+/**
+ * Payments Repository (server-side)
+ *
+ * Subscriptions, payments and received webhook events from both payment systems,
+ * as written by the Stripe (./stripeWebhooks.ts) and RevenueCat
+ * (./revenueCatWebhooks.ts) webhook handlers and the reconciliation job
+ * (./reconciliation.ts). Backends:
+ * - MemoryPaymentsRepository: development and tests
+ * - SqlitePaymentsRepository: a local SQLite file (better-sqlite3)
+ * - SupabasePaymentsRepository: Postgres tables, with the service role key
+ *
+ * Webhook events are stored with their payload so they can be replayed
+ * (POST /api/payments/replay-events). `insertEvent` only succeeds for the first
+ * delivery of an event ID, which makes processing idempotent.
+ *
+ * Promo code redemptions (./promoCodes.ts) are stored once per code and user.
+ * Checkouts reserve theirs first: `reserveRedemption` checks the user's
+ * redemption and the code's limit and stores the reservation in one step, so
+ * concurrent checkouts can't use a code twice or past its limit. Reservations
+ * lapse at `expiresAt` unless the purchase confirms them (`saveRedemption`).
+ *
+ * Credits (./credits.ts) are an append-only ledger: entries are never changed or
+ * deleted, and a refund is a new entry. `appendCreditEntry` checks the balance and
+ * appends in one step (a transaction, or a Postgres function for Supabase), so
+ * concurrent spends can't take a balance below zero. Entry IDs make it
+ * idempotent: appending an ID again returns the first entry.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import type { CreditEntryType } from '@/features/payments/schemas';
+import { type SupabaseClient, createClient } from '@supabase/supabase-js';
+
+/** Where a record comes from */
+export type PaymentSource = 'stripe' | 'revenuecat';
+
+/** Stripe subscription statuses (RevenueCat states are mapped onto them) */
+export type SubscriptionStatus =
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled'
+  | 'unpaid'
+  | 'paused';
+
+export interface SubscriptionRecord {
+  /** Stripe subscription ID (sub_...), or `revenuecat:<app user ID>:<product ID>` */
+  id: string;
+  source: PaymentSource;
+  userId?: string;
+  /** Stripe customer ID */
+  customerId?: string;
+  /** Stripe price ID */
+  priceId?: string;
+  /** Store product ID (RevenueCat) */
+  productId?: string;
+  /** Entitlements granted, when the source says (RevenueCat) */
+  entitlementIds?: string[];
+  /** Store the purchase was made in (RevenueCat), e.g. "app_store" */
+  store?: string;
+  status: SubscriptionStatus;
+  /** End of the current billing period (epoch ms); none for lifetime purchases */
+  currentPeriodEnd?: number;
+  /** Access kept after a failed renewal until (epoch ms), when the store grants one */
+  gracePeriodEnd?: number;
+  cancelAtPeriodEnd: boolean;
+  /** Time of the last event applied (epoch ms); older events are ignored */
+  eventCreated: number;
+  updatedAt: number;
+}
+
+export interface PaymentRecord {
+  /** Stripe invoice ID (in_...), or `revenuecat:<store transaction ID>` */
+  id: string;
+  source: PaymentSource;
+  userId?: string;
+  subscriptionId?: string;
+  customerId?: string;
+  /** In the currency's smallest unit (e.g. cents) */
+  amount: number;
+  currency: string;
+  status: 'succeeded' | 'failed' | 'refunded';
+  /** Time of the last event applied (epoch ms) */
+  eventCreated: number;
+  updatedAt: number;
+}
+
+/**
+ * - processing: being handled (or the handler crashed)
+ * - processed: applied
+ * - stale: older than the state it would change, so not applied
+ * - ignored: an event type we don't handle
+ * - failed: the handler threw; the sender retries it, or it can be replayed
+ */
+export type WebhookEventStatus = 'processing' | 'processed' | 'stale' | 'ignored' | 'failed';
+
+export interface WebhookEventRecord {
+  /** Stripe event ID (evt_...) or RevenueCat event ID */
+  id: string;
+  source: PaymentSource;
+  type: string;
+  /** When the sender created the event (epoch ms) */
+  created: number;
+  /** The event as received (JSON) */
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  error?: string;
+  receivedAt: number;
+  lastAttemptAt: number;
+  processedAt?: number;
+}
+
+export interface PromoRedemptionRecord {
+  /** Normalized promo code (see normalizePromoCode) */
+  code: string;
+  userId: string;
+  source: PaymentSource;
+  /** What it was redeemed with: Checkout Session ID (cs_...) or subscription record ID */
+  reference?: string;
+  redeemedAt: number;
+  /** Reservations only: held until then, unless the purchase completes */
+  expiresAt?: number;
+}
+
+/** A reservation, or why there is none: the user holds one, or the code's limit is reached */
+export type RedemptionReserveResult = 'reserved' | 'redeemed' | 'exhausted';
+
+export interface CreditLedgerEntry {
+  /** Idempotency key, e.g. `stripe:<payment intent ID>` or `spend:<uuid>` */
+  id: string;
+  userId: string;
+  type: CreditEntryType;
+  /** Credits added (positive) or taken (negative) */
+  amount: number;
+  /** The user's balance with this entry */
+  balanceAfter: number;
+  /** Payment system of purchases and reversals */
+  source?: PaymentSource;
+  /** Credit pack bought, entry refunded or reversed, or what credits were spent on */
+  reference?: string;
+  description?: string;
+  createdAt: number;
+}
+
+/** An entry to append; its balance comes from the ledger */
+export type NewCreditEntry = Omit<CreditLedgerEntry, 'balanceAfter'>;
+
+/**
+ * - appended: the entry, with its balance
+ * - duplicate: an entry with the ID exists (it's returned)
+ * - insufficient: the entry would take the balance below zero
+ */
+export type CreditAppendResult =
+  | { status: 'appended' | 'duplicate'; entry: CreditLedgerEntry }
+  | { status: 'insufficient'; balance: number };
+
+export interface CreditEntryQuery {
+  userId: string;
+  reference?: string;
+  /** Entries created before this time (epoch ms, for paging) */
+  before?: number;
+  limit: number;
+}
+
+export interface WebhookEventQuery {
+  source?: PaymentSource;
+  status?: WebhookEventStatus;
+  type?: string;
+  /** `created` range (epoch ms) */
+  since?: number;
+  until?: number;
+  limit: number;
+}
+
+export interface SubscriptionQuery {
+  source?: PaymentSource;
+  /** Records with IDs after this one (for paging) */
+  after?: string;
+  limit: number;
+}
+
+export interface PaymentsRepository {
+  getSubscription(id: string): Promise<SubscriptionRecord | undefined>;
+  getSubscriptionsForUser(userId: string): Promise<SubscriptionRecord[]>;
+  saveSubscription(record: SubscriptionRecord): Promise<void>;
+  /** Matching subscriptions, by ID */
+  listSubscriptions(query: SubscriptionQuery): Promise<SubscriptionRecord[]>;
+  getPayment(id: string): Promise<PaymentRecord | undefined>;
+  savePayment(record: PaymentRecord): Promise<void>;
+  getEvent(id: string): Promise<WebhookEventRecord | undefined>;
+  /** Store a new event; false if one with the same ID exists */
+  insertEvent(record: WebhookEventRecord): Promise<boolean>;
+  saveEvent(record: WebhookEventRecord): Promise<void>;
+  /** Matching events, oldest first */
+  listEvents(query: WebhookEventQuery): Promise<WebhookEventRecord[]>;
+  getRedemption(code: string, userId: string): Promise<PromoRedemptionRecord | undefined>;
+  /**
+   * Reserve a code for the user, atomically with the checks of their redemption and
+   * `maxRedemptions`; lapsed reservations don't count and are replaced
+   */
+  reserveRedemption(
+    record: PromoRedemptionRecord,
+    options: { maxRedemptions?: number; now: number }
+  ): Promise<RedemptionReserveResult>;
+  /** Store a redemption, replacing the user's reservation of the code */
+  saveRedemption(record: PromoRedemptionRecord): Promise<void>;
+  /** Drop the user's reservation made with `reference`; false if there is none */
+  releaseRedemption(code: string, userId: string, reference: string): Promise<boolean>;
+  /** Redemptions and reservations of a code by all users, held at `now` */
+  countRedemptions(code: string, now: number): Promise<number>;
+  getCreditEntry(id: string): Promise<CreditLedgerEntry | undefined>;
+  /**
+   * Append a ledger entry, atomically with the balance check
+   * Negative entries that would take the balance below zero are refused unless
+   * `allowNegative` (reversals of credits already spent).
+   */
+  appendCreditEntry(
+    entry: NewCreditEntry,
+    options: { allowNegative: boolean }
+  ): Promise<CreditAppendResult>;
+  getCreditBalance(userId: string): Promise<number>;
+  /** Matching entries, newest first */
+  listCreditEntries(query: CreditEntryQuery): Promise<CreditLedgerEntry[]>;
+}
+
+function isHeld(record: PromoRedemptionRecord, now: number): boolean {
+  return record.expiresAt === undefined || record.expiresAt > now;
+}
+
+function matchesCreditQuery(entry: CreditLedgerEntry, query: CreditEntryQuery): boolean {
+  return (
+    entry.userId === query.userId &&
+    (query.reference === undefined || entry.reference === query.reference) &&
+    (query.before === undefined || entry.createdAt < query.before)
+  );
+}
+
+function matchesEventQuery(record: WebhookEventRecord, query: WebhookEventQuery): boolean {
+  return (
+    (!query.source || record.source === query.source) &&
+    (!query.status || record.status === query.status) &&
+    (!query.type || record.type === query.type) &&
+    (query.since === undefined || record.created >= query.since) &&
+    (query.until === undefined || record.created <= query.until)
+  );
+}
+
+// =============================================================================
+// Memory
+// =============================================================================
+
+/**
+ * In-memory repository
+ * ⚠️ Resets on restart - development only
+ */
+export class MemoryPaymentsRepository implements PaymentsRepository {
+  private subscriptions = new Map<string, SubscriptionRecord>();
+  private payments = new Map<string, PaymentRecord>();
+  private events = new Map<string, WebhookEventRecord>();
+  private redemptions = new Map<string, PromoRedemptionRecord>();
+  private creditEntries = new Map<string, CreditLedgerEntry>();
+  private creditBalances = new Map<string, number>();
+
+  async getSubscription(id: string) {
+    const record = this.subscriptions.get(id);
+    return record && { ...record };
+  }
+
+  async getSubscriptionsForUser(userId: string) {
+    return [...this.subscriptions.values()]
+      .filter((record) => record.userId === userId)
+      .map((record) => ({ ...record }));
+  }
+
+  async saveSubscription(record: SubscriptionRecord): Promise<void> {
+    this.subscriptions.set(record.id, { ...record });
+  }
+
+  async listSubscriptions(query: SubscriptionQuery) {
+    return [...this.subscriptions.values()]
+      .filter(
+        (record) =>
+          (!query.source || record.source === query.source) &&
+          (query.after === undefined || record.id > query.after)
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+      .slice(0, query.limit)
+      .map((record) => ({ ...record }));
+  }
+
+  async getPayment(id: string) {
+    const record = this.payments.get(id);
+    return record && { ...record };
+  }
+
+  async savePayment(record: PaymentRecord): Promise<void> {
+    this.payments.set(record.id, { ...record });
+  }
+
+  async getEvent(id: string) {
+    const record = this.events.get(id);
+    return record && { ...record };
+  }
+
+  async insertEvent(record: WebhookEventRecord): Promise<boolean> {
+    if (this.events.has(record.id)) {
+      return false;
+    }
+    this.events.set(record.id, { ...record });
+    return true;
+  }
+
+  async saveEvent(record: WebhookEventRecord): Promise<void> {
+    this.events.set(record.id, { ...record });
+  }
+
+  async listEvents(query: WebhookEventQuery) {
+    return [...this.events.values()]
+      .filter((record) => matchesEventQuery(record, query))
+      .sort((a, b) => a.created - b.created || a.receivedAt - b.receivedAt)
+      .slice(0, query.limit)
+      .map((record) => ({ ...record }));
+  }
+
+  async getRedemption(code: string, userId: string) {
+    const record = this.redemptions.get(`${code}\n${userId}`);
+    return record && { ...record };
+  }
+
+  async reserveRedemption(
+    record: PromoRedemptionRecord,
+    options: { maxRedemptions?: number; now: number }
+  ): Promise<RedemptionReserveResult> {
+    // No awaits between the checks and the reservation, so reservations can't interleave
+    const key = `${record.code}\n${record.userId}`;
+    const existing = this.redemptions.get(key);
+    if (existing && isHeld(existing, options.now)) {
+      return 'redeemed';
+    }
+
+    const held = [...this.redemptions.values()].filter(
+      (redemption) => redemption.code === record.code && isHeld(redemption, options.now)
+    );
+    if (options.maxRedemptions !== undefined && held.length >= options.maxRedemptions) {
+      return 'exhausted';
+    }
+
+    this.redemptions.set(key, { ...record });
+    return 'reserved';
+  }
+
+  async saveRedemption(record: PromoRedemptionRecord): Promise<void> {
+    this.redemptions.set(`${record.code}\n${record.userId}`, { ...record });
+  }
+
+  async releaseRedemption(code: string, userId: string, reference: string) {
+    const key = `${code}\n${userId}`;
+    const existing = this.redemptions.get(key);
+    if (existing?.expiresAt === undefined || existing.reference !== reference) {
+      return false;
+    }
+    this.redemptions.delete(key);
+    return true;
+  }
+
+  async countRedemptions(code: string, now: number) {
+    return [...this.redemptions.values()].filter(
+      (record) => record.code === code && isHeld(record, now)
+    ).length;
+  }
+
+  async getCreditEntry(id: string) {
+    const entry = this.creditEntries.get(id);
+    return entry && { ...entry };
+  }
+
+  async appendCreditEntry(
+    entry: NewCreditEntry,
+    options: { allowNegative: boolean }
+  ): Promise<CreditAppendResult> {
+    // No awaits between the check and the append, so appends can't interleave
+    const existing = this.creditEntries.get(entry.id);
+    if (existing) {
+      return { status: 'duplicate', entry: { ...existing } };
+    }
+
+    const balance = this.creditBalances.get(entry.userId) ?? 0;
+    if (entry.amount < 0 && !options.allowNegative && balance + entry.amount < 0) {
+      return { status: 'insufficient', balance };
+    }
+
+    const appended = { ...entry, balanceAfter: balance + entry.amount };
+    this.creditEntries.set(entry.id, appended);
+    this.creditBalances.set(entry.userId, appended.balanceAfter);
+    return { status: 'appended', entry: { ...appended } };
+  }
+
+  async getCreditBalance(userId: string) {
+    return this.creditBalances.get(userId) ?? 0;
+  }
+
+  async listCreditEntries(query: CreditEntryQuery) {
+    // Newest first; entries of the same time in reverse order of appending
+    return [...this.creditEntries.values()]
+      .reverse()
+      .filter((entry) => matchesCreditQuery(entry, query))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, query.limit)
+      .map((entry) => ({ ...entry }));
+  }
+}
+
+// =============================================================================
+// SQL rows (SQLite and Supabase share the table layout)
+// =============================================================================
+
+interface SubscriptionRow {
+  id: string;
+  source: PaymentSource;
+  user_id: string | null;
+  customer_id: string | null;
+  price_id: string | null;
+  product_id: string | null;
+  /** JSON array */
+  entitlement_ids: string | null;
+  store: string | null;
+  status: SubscriptionStatus;
+  current_period_end: number | null;
+  grace_period_end: number | null;
+  cancel_at_period_end: boolean | number;
+  event_created: number;
+  updated_at: number;
+}
+
+interface PaymentRow {
+  id: string;
+  source: PaymentSource;
+  user_id: string | null;
+  subscription_id: string | null;
+  customer_id: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentRecord['status'];
+  event_created: number;
+  updated_at: number;
+}
+
+interface EventRow {
+  id: string;
+  source: PaymentSource;
+  type: string;
+  created: number;
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  error: string | null;
+  received_at: number;
+  last_attempt_at: number;
+  processed_at: number | null;
+}
+
+interface RedemptionRow {
+  code: string;
+  user_id: string;
+  source: PaymentSource;
+  reference: string | null;
+  redeemed_at: number;
+  expires_at: number | null;
+}
+
+interface CreditEntryRow {
+  id: string;
+  user_id: string;
+  type: CreditEntryType;
+  amount: number;
+  balance_after: number;
+  source: PaymentSource | null;
+  reference: string | null;
+  description: string | null;
+  created_at: number;
+}
+
+function toSubscriptionRow(record: SubscriptionRecord): SubscriptionRow {
+  return {
+    id: record.id,
+    source: record.source,
+    user_id: record.userId ?? null,
+    customer_id: record.customerId ?? null,
+    price_id: record.priceId ?? null,
+    product_id: record.productId ?? null,
+    entitlement_ids: record.entitlementIds ? JSON.stringify(record.entitlementIds) : null,
+    store: record.store ?? null,
+    status: record.status,
+    current_period_end: record.currentPeriodEnd ?? null,
+    grace_period_end: record.gracePeriodEnd ?? null,
+    cancel_at_period_end: record.cancelAtPeriodEnd,
+    event_created: record.eventCreated,
+    updated_at: record.updatedAt,
+  };
+}
+
+function fromSubscriptionRow(row: SubscriptionRow): SubscriptionRecord {
+  return {
+    id: row.id,
+    source: row.source,
+    ...(row.user_id && { userId: row.user_id }),
+    ...(row.customer_id && { customerId: row.customer_id }),
+    ...(row.price_id && { priceId: row.price_id }),
+    ...(row.product_id && { productId: row.product_id }),
+    ...(row.entitlement_ids && { entitlementIds: JSON.parse(row.entitlement_ids) as string[] }),
+    ...(row.store && { store: row.store }),
+    status: row.status,
+    ...(row.current_period_end !== null && { currentPeriodEnd: Number(row.current_period_end) }),
+    ...(row.grace_period_end !== null && { gracePeriodEnd: Number(row.grace_period_end) }),
+    cancelAtPeriodEnd: Boolean(row.cancel_at_period_end),
+    eventCreated: Number(row.event_created),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+function toPaymentRow(record: PaymentRecord): PaymentRow {
+  return {
+    id: record.id,
+    source: record.source,
+    user_id: record.userId ?? null,
+    subscription_id: record.subscriptionId ?? null,
+    customer_id: record.customerId ?? null,
+    amount: record.amount,
+    currency: record.currency,
+    status: record.status,
+    event_created: record.eventCreated,
+    updated_at: record.updatedAt,
+  };
+}
+
+function fromPaymentRow(row: PaymentRow): PaymentRecord {
+  return {
+    id: row.id,
+    source: row.source,
+    ...(row.user_id && { userId: row.user_id }),
+    ...(row.subscription_id && { subscriptionId: row.subscription_id }),
+    ...(row.customer_id && { customerId: row.customer_id }),
+    amount: Number(row.amount),
+    currency: row.currency,
+    status: row.status,
+    eventCreated: Number(row.event_created),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+function toEventRow(record: WebhookEventRecord): EventRow {
+  return {
+    id: record.id,
+    source: record.source,
+    type: record.type,
+    created: record.created,
+    payload: record.payload,
+    status: record.status,
+    attempts: record.attempts,
+    error: record.error ?? null,
+    received_at: record.receivedAt,
+    last_attempt_at: record.lastAttemptAt,
+    processed_at: record.processedAt ?? null,
+  };
+}
+
+function fromEventRow(row: EventRow): WebhookEventRecord {
+  return {
+    id: row.id,
+    source: row.source,
+    type: row.type,
+    created: Number(row.created),
+    payload: row.payload,
+    status: row.status,
+    attempts: Number(row.attempts),
+    ...(row.error && { error: row.error }),
+    receivedAt: Number(row.received_at),
+    lastAttemptAt: Number(row.last_attempt_at),
+    ...(row.processed_at !== null && { processedAt: Number(row.processed_at) }),
+  };
+}
+
+function toRedemptionRow(record: PromoRedemptionRecord): RedemptionRow {
+  return {
+    code: record.code,
+    user_id: record.userId,
+    source: record.source,
+    reference: record.reference ?? null,
+    redeemed_at: record.redeemedAt,
+    expires_at: record.expiresAt ?? null,
+  };
+}
+
+function fromRedemptionRow(row: RedemptionRow): PromoRedemptionRecord {
+  return {
+    code: row.code,
+    userId: row.user_id,
+    source: row.source,
+    ...(row.reference && { reference: row.reference }),
+    redeemedAt: Number(row.redeemed_at),
+    ...(row.expires_at !== null && { expiresAt: Number(row.expires_at) }),
+  };
+}
+
+function toCreditEntryRow(entry: CreditLedgerEntry): CreditEntryRow {
+  return {
+    id: entry.id,
+    user_id: entry.userId,
+    type: entry.type,
+    amount: entry.amount,
+    balance_after: entry.balanceAfter,
+    source: entry.source ?? null,
+    reference: entry.reference ?? null,
+    description: entry.description ?? null,
+    created_at: entry.createdAt,
+  };
+}
+
+function fromCreditEntryRow(row: CreditEntryRow): CreditLedgerEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    amount: Number(row.amount),
+    balanceAfter: Number(row.balance_after),
+    ...(row.source && { source: row.source }),
+    ...(row.reference && { reference: row.reference }),
+    ...(row.description && { description: row.description }),
+    createdAt: Number(row.created_at),
+  };
+}
+
+/** Tables for both SQL backends (run it in the Supabase SQL editor for Supabase) */
+export const PAYMENTS_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS billing_subscriptions (
+  id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  user_id TEXT,
+  customer_id TEXT,
+  price_id TEXT,
+  product_id TEXT,
+  entitlement_ids TEXT,
+  store TEXT,
+  status TEXT NOT NULL,
+  current_period_end BIGINT,
+  grace_period_end BIGINT,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  event_created BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS billing_subscriptions_user_id ON billing_subscriptions (user_id);
+
+CREATE TABLE IF NOT EXISTS billing_payments (
+  id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  user_id TEXT,
+  subscription_id TEXT,
+  customer_id TEXT,
+  amount BIGINT NOT NULL,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL,
+  event_created BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS billing_events (
+  id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  type TEXT NOT NULL,
+  created BIGINT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  error TEXT,
+  received_at BIGINT NOT NULL,
+  last_attempt_at BIGINT NOT NULL,
+  processed_at BIGINT
+);
+CREATE INDEX IF NOT EXISTS billing_events_created ON billing_events (created);
+
+CREATE TABLE IF NOT EXISTS billing_promo_redemptions (
+  code TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  reference TEXT,
+  redeemed_at BIGINT NOT NULL,
+  expires_at BIGINT,
+  PRIMARY KEY (code, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS billing_credit_ledger (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  amount BIGINT NOT NULL,
+  balance_after BIGINT NOT NULL,
+  source TEXT,
+  reference TEXT,
+  description TEXT,
+  created_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS billing_credit_ledger_user_id ON billing_credit_ledger (user_id, created_at);
+CREATE INDEX IF NOT EXISTS billing_credit_ledger_reference ON billing_credit_ledger (reference);
+
+CREATE TABLE IF NOT EXISTS billing_credit_balances (
+  user_id TEXT PRIMARY KEY,
+  balance BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+`;
+
+/**
+ * Postgres functions appending credit entries and reserving promo codes, and the
+ * trigger keeping the ledger append-only (run it after PAYMENTS_SCHEMA_SQL for Supabase)
+ * The balance row is locked while the entry is checked and appended, so a user's
+ * entries are appended one at a time; reservations of a code take a lock on it.
+ */
+export const PAYMENTS_SUPABASE_SQL = `
+CREATE OR REPLACE FUNCTION billing_reserve_promo_redemption(
+  redemption JSONB,
+  max_redemptions INTEGER,
+  now_ms BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  held INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('billing_promo_redemptions:' || (redemption->>'code')));
+
+  PERFORM 1 FROM billing_promo_redemptions
+  WHERE code = redemption->>'code' AND user_id = redemption->>'user_id'
+    AND (expires_at IS NULL OR expires_at > now_ms);
+  IF FOUND THEN
+    RETURN 'redeemed';
+  END IF;
+
+  SELECT COUNT(*) INTO held FROM billing_promo_redemptions
+  WHERE code = redemption->>'code' AND (expires_at IS NULL OR expires_at > now_ms);
+  IF max_redemptions IS NOT NULL AND held >= max_redemptions THEN
+    RETURN 'exhausted';
+  END IF;
+
+  INSERT INTO billing_promo_redemptions
+  SELECT * FROM jsonb_populate_record(NULL::billing_promo_redemptions, redemption)
+  ON CONFLICT (code, user_id) DO UPDATE SET
+    source = EXCLUDED.source,
+    reference = EXCLUDED.reference,
+    redeemed_at = EXCLUDED.redeemed_at,
+    expires_at = EXCLUDED.expires_at;
+  RETURN 'reserved';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION billing_append_credit_entry(entry JSONB, allow_negative BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  amount BIGINT := (entry->>'amount')::BIGINT;
+  current_balance BIGINT;
+  existing billing_credit_ledger;
+  appended billing_credit_ledger;
+BEGIN
+  INSERT INTO billing_credit_balances (user_id, balance, updated_at)
+  VALUES (entry->>'user_id', 0, (entry->>'created_at')::BIGINT)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO current_balance FROM billing_credit_balances
+  WHERE user_id = entry->>'user_id'
+  FOR UPDATE;
+
+  SELECT * INTO existing FROM billing_credit_ledger WHERE id = entry->>'id';
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'entry', to_jsonb(existing));
+  END IF;
+
+  IF amount < 0 AND NOT allow_negative AND current_balance + amount < 0 THEN
+    RETURN jsonb_build_object('status', 'insufficient', 'balance', current_balance);
+  END IF;
+
+  INSERT INTO billing_credit_ledger
+  SELECT * FROM jsonb_populate_record(
+    NULL::billing_credit_ledger,
+    entry || jsonb_build_object('balance_after', current_balance + amount)
+  )
+  RETURNING * INTO appended;
+
+  UPDATE billing_credit_balances
+  SET balance = appended.balance_after, updated_at = appended.created_at
+  WHERE user_id = appended.user_id;
+
+  RETURN jsonb_build_object('status', 'appended', 'entry', to_jsonb(appended));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION billing_credit_ledger_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'billing_credit_ledger is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS billing_credit_ledger_append_only ON billing_credit_ledger;
+CREATE TRIGGER billing_credit_ledger_append_only
+BEFORE UPDATE OR DELETE ON billing_credit_ledger
+FOR EACH ROW EXECUTE FUNCTION billing_credit_ledger_append_only();
+`;
+
+/** Keeps the SQLite ledger append-only */
+const SQLITE_CREDIT_TRIGGERS_SQL = `
+CREATE TRIGGER IF NOT EXISTS billing_credit_ledger_no_update
+BEFORE UPDATE ON billing_credit_ledger
+BEGIN
+  SELECT RAISE(ABORT, 'billing_credit_ledger is append-only');
+END;
+CREATE TRIGGER IF NOT EXISTS billing_credit_ledger_no_delete
+BEFORE DELETE ON billing_credit_ledger
+BEGIN
+  SELECT RAISE(ABORT, 'billing_credit_ledger is append-only');
+END;
+`;
+
+// =============================================================================
+// SQLite
+// =============================================================================
+
+/**
+ * The part of the better-sqlite3 API we use (node:sqlite's DatabaseSync matches it too)
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): { changes: number | bigint };
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/**
+ * SQLite repository
+ * Creates the tables on first use. Queries are synchronous, so inserts can't race.
+ */
+export class SqlitePaymentsRepository implements PaymentsRepository {
+  constructor(private db: SqliteDatabase) {
+    db.exec(PAYMENTS_SCHEMA_SQL);
+    db.exec(SQLITE_CREDIT_TRIGGERS_SQL);
+  }
+
+  async getSubscription(id: string) {
+    const row = this.db.prepare('SELECT * FROM billing_subscriptions WHERE id = ?').get(id);
+    return row ? fromSubscriptionRow(row as SubscriptionRow) : undefined;
+  }
+
+  async getSubscriptionsForUser(userId: string) {
+    const rows = this.db
+      .prepare('SELECT * FROM billing_subscriptions WHERE user_id = ?')
+      .all(userId) as SubscriptionRow[];
+    return rows.map(fromSubscriptionRow);
+  }
+
+  async saveSubscription(record: SubscriptionRecord): Promise<void> {
+    const row = toSubscriptionRow(record);
+    this.replace('billing_subscriptions', {
+      ...row,
+      cancel_at_period_end: row.cancel_at_period_end ? 1 : 0,
+    });
+  }
+
+  async listSubscriptions(query: SubscriptionQuery) {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.source) {
+      conditions.push('source = ?');
+      params.push(query.source);
+    }
+    if (query.after !== undefined) {
+      conditions.push('id > ?');
+      params.push(query.after);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM billing_subscriptions ${where} ORDER BY id ASC LIMIT ?`)
+      .all(...params, query.limit) as SubscriptionRow[];
+    return rows.map(fromSubscriptionRow);
+  }
+
+  async getPayment(id: string) {
+    const row = this.db.prepare('SELECT * FROM billing_payments WHERE id = ?').get(id);
+    return row ? fromPaymentRow(row as PaymentRow) : undefined;
+  }
+
+  async savePayment(record: PaymentRecord): Promise<void> {
+    this.replace('billing_payments', toPaymentRow(record));
+  }
+
+  async getEvent(id: string) {
+    const row = this.db.prepare('SELECT * FROM billing_events WHERE id = ?').get(id);
+    return row ? fromEventRow(row as EventRow) : undefined;
+  }
+
+  async insertEvent(record: WebhookEventRecord): Promise<boolean> {
+    const row = toEventRow(record);
+    const columns = Object.keys(row);
+    const { changes } = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO billing_events (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      )
+      .run(...Object.values(row));
+    return Number(changes) > 0;
+  }
+
+  async saveEvent(record: WebhookEventRecord): Promise<void> {
+    this.replace('billing_events', toEventRow(record));
+  }
+
+  async listEvents(query: WebhookEventQuery) {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.source) {
+      conditions.push('source = ?');
+      params.push(query.source);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.since !== undefined) {
+      conditions.push('created >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('created <= ?');
+      params.push(query.until);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM billing_events ${where} ORDER BY created ASC, received_at ASC LIMIT ?`
+      )
+      .all(...params, query.limit) as EventRow[];
+    return rows.map(fromEventRow);
+  }
+
+  async getRedemption(code: string, userId: string) {
+    const row = this.db
+      .prepare('SELECT * FROM billing_promo_redemptions WHERE code = ? AND user_id = ?')
+      .get(code, userId);
+    return row ? fromRedemptionRow(row as RedemptionRow) : undefined;
+  }
+
+  async reserveRedemption(
+    record: PromoRedemptionRecord,
+    options: { maxRedemptions?: number; now: number }
+  ): Promise<RedemptionReserveResult> {
+    return this.transaction(() => {
+      const existing = this.db
+        .prepare(
+          'SELECT 1 FROM billing_promo_redemptions WHERE code = ? AND user_id = ? AND (expires_at IS NULL OR expires_at > ?)'
+        )
+        .get(record.code, record.userId, options.now);
+      if (existing) {
+        return 'redeemed';
+      }
+      if (
+        options.maxRedemptions !== undefined &&
+        this.countHeldRedemptions(record.code, options.now) >= options.maxRedemptions
+      ) {
+        return 'exhausted';
+      }
+
+      this.replace('billing_promo_redemptions', toRedemptionRow(record));
+      return 'reserved';
+    });
+  }
+
+  async saveRedemption(record: PromoRedemptionRecord): Promise<void> {
+    this.replace('billing_promo_redemptions', toRedemptionRow(record));
+  }
+
+  async releaseRedemption(code: string, userId: string, reference: string) {
+    const { changes } = this.db
+      .prepare(
+        'DELETE FROM billing_promo_redemptions WHERE code = ? AND user_id = ? AND reference = ? AND expires_at IS NOT NULL'
+      )
+      .run(code, userId, reference);
+    return Number(changes) > 0;
+  }
+
+  async countRedemptions(code: string, now: number) {
+    return this.countHeldRedemptions(code, now);
+  }
+
+  async getCreditEntry(id: string) {
+    const row = this.db.prepare('SELECT * FROM billing_credit_ledger WHERE id = ?').get(id);
+    return row ? fromCreditEntryRow(row as CreditEntryRow) : undefined;
+  }
+
+  async appendCreditEntry(
+    entry: NewCreditEntry,
+    options: { allowNegative: boolean }
+  ): Promise<CreditAppendResult> {
+    return this.transaction(() => this.appendCreditEntryInTransaction(entry, options));
+  }
+
+  async getCreditBalance(userId: string) {
+    const row = this.db
+      .prepare('SELECT balance FROM billing_credit_balances WHERE user_id = ?')
+      .get(userId) as { balance: number } | undefined;
+    return row ? Number(row.balance) : 0;
+  }
+
+  async listCreditEntries(query: CreditEntryQuery) {
+    const conditions = ['user_id = ?'];
+    const params: unknown[] = [query.userId];
+    if (query.reference !== undefined) {
+      conditions.push('reference = ?');
+      params.push(query.reference);
+    }
+    if (query.before !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(query.before);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM billing_credit_ledger WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .all(...params, query.limit) as CreditEntryRow[];
+    return rows.map(fromCreditEntryRow);
+  }
+
+  /** IMMEDIATE takes the write lock first, so other connections can't write in between */
+  private transaction<T>(fn: () => T): T {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = fn();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private countHeldRedemptions(code: string, now: number): number {
+    const row = this.db
+      .prepare(
+        'SELECT COUNT(*) AS count FROM billing_promo_redemptions WHERE code = ? AND (expires_at IS NULL OR expires_at > ?)'
+      )
+      .get(code, now) as { count: number };
+    return Number(row.count);
+  }
+
+  private appendCreditEntryInTransaction(
+    entry: NewCreditEntry,
+    options: { allowNegative: boolean }
+  ): CreditAppendResult {
+    const existing = this.db
+      .prepare('SELECT * FROM billing_credit_ledger WHERE id = ?')
+      .get(entry.id);
+    if (existing) {
+      return { status: 'duplicate', entry: fromCreditEntryRow(existing as CreditEntryRow) };
+    }
+
+    const row = this.db
+      .prepare('SELECT balance FROM billing_credit_balances WHERE user_id = ?')
+      .get(entry.userId) as { balance: number } | undefined;
+    const balance = row ? Number(row.balance) : 0;
+    if (entry.amount < 0 && !options.allowNegative && balance + entry.amount < 0) {
+      return { status: 'insufficient', balance };
+    }
+
+    const appended = { ...entry, balanceAfter: balance + entry.amount };
+    const entryRow = toCreditEntryRow(appended);
+    const columns = Object.keys(entryRow);
+    this.db
+      .prepare(
+        `INSERT INTO billing_credit_ledger (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      )
+      .run(...Object.values(entryRow));
+    this.replace('billing_credit_balances', {
+      user_id: entry.userId,
+      balance: appended.balanceAfter,
+      updated_at: entry.createdAt,
+    });
+    return { status: 'appended', entry: appended };
+  }
+
+  private replace(table: string, row: object): void {
+    const columns = Object.keys(row);
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      )
+      .run(...Object.values(row));
+  }
+}
+
+// =============================================================================
+// Supabase
+// =============================================================================
+
+/** Postgres unique violation */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Supabase (Postgres) repository
+ * Create the tables with PAYMENTS_SCHEMA_SQL, then PAYMENTS_SUPABASE_SQL, first; uses
+ * the service role key, so keep row level security enabled without policies for
+ * these tables.
+ */
+export class SupabasePaymentsRepository implements PaymentsRepository {
+  private client: SupabaseClient;
+
+  constructor(url: string, serviceRoleKey: string) {
+    this.client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  async getSubscription(id: string) {
+    const { data, error } = await this.client
+      .from('billing_subscriptions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromSubscriptionRow(data as SubscriptionRow) : undefined;
+  }
+
+  async getSubscriptionsForUser(userId: string) {
+    const { data, error } = await this.client
+      .from('billing_subscriptions')
+      .select('*')
+      .eq('user_id', userId);
+    if (error) throw error;
+    return (data as SubscriptionRow[]).map(fromSubscriptionRow);
+  }
+
+  async saveSubscription(record: SubscriptionRecord): Promise<void> {
+    const { error } = await this.client
+      .from('billing_subscriptions')
+      .upsert(toSubscriptionRow(record));
+    if (error) throw error;
+  }
+
+  async listSubscriptions(query: SubscriptionQuery) {
+    let request = this.client.from('billing_subscriptions').select('*');
+    if (query.source) request = request.eq('source', query.source);
+    if (query.after !== undefined) request = request.gt('id', query.after);
+
+    const { data, error } = await request.order('id', { ascending: true }).limit(query.limit);
+    if (error) throw error;
+    return (data as SubscriptionRow[]).map(fromSubscriptionRow);
+  }
+
+  async getPayment(id: string) {
+    const { data, error } = await this.client
+      .from('billing_payments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromPaymentRow(data as PaymentRow) : undefined;
+  }
+
+  async savePayment(record: PaymentRecord): Promise<void> {
+    const { error } = await this.client.from('billing_payments').upsert(toPaymentRow(record));
+    if (error) throw error;
+  }
+
+  async getEvent(id: string) {
+    const { data, error } = await this.client
+      .from('billing_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromEventRow(data as EventRow) : undefined;
+  }
+
+  async insertEvent(record: WebhookEventRecord): Promise<boolean> {
+    const { error } = await this.client.from('billing_events').insert(toEventRow(record));
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  }
+
+  async saveEvent(record: WebhookEventRecord): Promise<void> {
+    const { error } = await this.client.from('billing_events').upsert(toEventRow(record));
+    if (error) throw error;
+  }
+
+  async listEvents(query: WebhookEventQuery) {
+    let request = this.client.from('billing_events').select('*');
+    if (query.source) request = request.eq('source', query.source);
+    if (query.status) request = request.eq('status', query.status);
+    if (query.type) request = request.eq('type', query.type);
+    if (query.since !== undefined) request = request.gte('created', query.since);
+    if (query.until !== undefined) request = request.lte('created', query.until);
+
+    const { data, error } = await request
+      .order('created', { ascending: true })
+      .order('received_at', { ascending: true })
+      .limit(query.limit);
+    if (error) throw error;
+    return (data as EventRow[]).map(fromEventRow);
+  }
+
+  async getRedemption(code: string, userId: string) {
+    const { data, error } = await this.client
+      .from('billing_promo_redemptions')
+      .select('*')
+      .eq('code', code)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRedemptionRow(data as RedemptionRow) : undefined;
+  }
+
+  async reserveRedemption(
+    record: PromoRedemptionRecord,
+    options: { maxRedemptions?: number; now: number }
+  ): Promise<RedemptionReserveResult> {
+    const { data, error } = await this.client.rpc('billing_reserve_promo_redemption', {
+      redemption: toRedemptionRow(record),
+      max_redemptions: options.maxRedemptions ?? null,
+      now_ms: options.now,
+    });
+    if (error) throw error;
+    return data as RedemptionReserveResult;
+  }
+
+  async saveRedemption(record: PromoRedemptionRecord): Promise<void> {
+    const { error } = await this.client
+      .from('billing_promo_redemptions')
+      .upsert(toRedemptionRow(record));
+    if (error) throw error;
+  }
+
+  async releaseRedemption(code: string, userId: string, reference: string) {
+    const { count, error } = await this.client
+      .from('billing_promo_redemptions')
+      .delete({ count: 'exact' })
+      .eq('code', code)
+      .eq('user_id', userId)
+      .eq('reference', reference)
+      .not('expires_at', 'is', null);
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async countRedemptions(code: string, now: number) {
+    const { count, error } = await this.client
+      .from('billing_promo_redemptions')
+      .select('*', { count: 'exact', head: true })
+      .eq('code', code)
+      .or(`expires_at.is.null,expires_at.gt.${now}`);
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  async getCreditEntry(id: string) {
+    const { data, error } = await this.client
+      .from('billing_credit_ledger')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromCreditEntryRow(data as CreditEntryRow) : undefined;
+  }
+
+  async appendCreditEntry(
+    entry: NewCreditEntry,
+    options: { allowNegative: boolean }
+  ): Promise<CreditAppendResult> {
+    // The function replaces balance_after with the new balance
+    const { data, error } = await this.client.rpc('billing_append_credit_entry', {
+      entry: toCreditEntryRow({ ...entry, balanceAfter: 0 }),
+      allow_negative: options.allowNegative,
+    });
+    if (error) throw error;
+
+    const result = data as
+      | { status: 'appended' | 'duplicate'; entry: CreditEntryRow }
+      | { status: 'insufficient'; balance: number };
+    return result.status === 'insufficient'
+      ? { status: 'insufficient', balance: Number(result.balance) }
+      : { status: result.status, entry: fromCreditEntryRow(result.entry) };
+  }
+
+  async getCreditBalance(userId: string) {
+    const { data, error } = await this.client
+      .from('billing_credit_balances')
+      .select('balance')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? Number((data as { balance: number }).balance) : 0;
+  }
+
+  async listCreditEntries(query: CreditEntryQuery) {
+    let request = this.client.from('billing_credit_ledger').select('*').eq('user_id', query.userId);
+    if (query.reference !== undefined) request = request.eq('reference', query.reference);
+    if (query.before !== undefined) request = request.lt('created_at', query.before);
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+    if (error) throw error;
+    return (data as CreditEntryRow[]).map(fromCreditEntryRow);
+  }
+}
+
+/**
+ * Repository selected by environment variables:
+ * - PAYMENTS_STORE=memory (default) | sqlite | supabase
+ * - PAYMENTS_SQLITE_FILE=path to the database (default: .payments.db), needs better-sqlite3
+ * - supabase uses SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ */
+function createPaymentsRepositoryFromEnv(): PaymentsRepository {
+  switch (process.env.PAYMENTS_STORE) {
+    case 'sqlite': {
+      // Optional dependency: npm install better-sqlite3
+      const Database = require('better-sqlite3');
+      return new SqlitePaymentsRepository(
+        new Database(process.env.PAYMENTS_SQLITE_FILE || '.payments.db')
+      );
+    }
+    case 'supabase': {
+      const url = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+      const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !serviceRoleKey) {
+        throw new Error(
+          'PAYMENTS_STORE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+        );
+      }
+      return new SupabasePaymentsRepository(url, serviceRoleKey);
+    }
+    default:
+      return new MemoryPaymentsRepository();
+  }
+}
+
+// Singleton instance
+export const paymentsRepository = createPaymentsRepositoryFromEnv();
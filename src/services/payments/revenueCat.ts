@@ -61,6 +61,52 @@ export async function getOfferings(): Promise<PurchasesOffering | null> {
   }
 }
 
+/**
+ * Get an offering by identifier (e.g. a promo code's offering)
+ */
+export async function getOffering(identifier: string): Promise<PurchasesOffering | null> {
+  try {
+    const offerings = await Purchases.getOfferings();
+    return offerings.all[identifier] ?? null;
+  } catch (error) {
+    console.error('Error getting offering:', error);
+    return null;
+  }
+}
+
+/**
+ * Check which products the user can still get the free trial / intro price of
+ * On iOS only an eligible status counts (RevenueCat advises showing the regular
+ * price when unknown). Android always reports unknown, but Google Play only offers
+ * the user the intro phases they are eligible for, so there the product's
+ * `introPrice` decides.
+ */
+export async function checkIntroOfferEligibility(
+  products: PurchasesStoreProduct[]
+): Promise<Record<string, boolean>> {
+  const eligibility: Record<string, boolean> = {};
+  try {
+    const statuses = await Purchases.checkTrialOrIntroductoryPriceEligibility(
+      products.map((product) => product.identifier)
+    );
+    const { INTRO_ELIGIBILITY_STATUS } = Purchases;
+    for (const product of products) {
+      const status = statuses[product.identifier]?.status;
+      eligibility[product.identifier] =
+        status === INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_ELIGIBLE ||
+        (status === INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN &&
+          Platform.OS === 'android' &&
+          !!product.introPrice);
+    }
+  } catch (error) {
+    console.error('Error checking intro offer eligibility:', error);
+    for (const product of products) {
+      eligibility[product.identifier] = false;
+    }
+  }
+  return eligibility;
+}
+
 /**
  * Get all available offerings
  */
@@ -0,0 +1,456 @@
+/**
+ * RevenueCat Webhooks (server-side)
+ *
+ * Checks the Authorization header RevenueCat is configured to send and applies
+ * webhook events to the same subscription and payment records as the Stripe
+ * webhook (./repository.ts):
+ * - INITIAL_PURCHASE / RENEWAL / REFUND_REVERSED: a payment, and the subscription
+ *   is active until `expiration_at_ms`. An initial purchase from a presented
+ *   offering redeems the promo code in the `promo_code` subscriber attribute
+ *   (see ./promoCodes.ts)
+ * - UNCANCELLATION / SUBSCRIPTION_EXTENDED: renewal turned back on / a later expiry
+ * - CANCELLATION: renewal turned off; with cancel_reason CUSTOMER_SUPPORT the
+ *   purchase was refunded and access ends at once
+ * - BILLING_ISSUE: past due, with the store's grace period if it has one
+ * - SUBSCRIPTION_PAUSED: won't renew; EXPIRATION follows when the pause starts
+ * - EXPIRATION: ended
+ * - NON_RENEWING_PURCHASE: a payment, and a subscription record if it grants
+ *   entitlements (lifetime unlocks). Consumables of a credit pack add its
+ *   credits instead (./credits.ts); refunding them takes the credits back
+ * - TRANSFER: the transferred subscriptions move to the new app user
+ *
+ * Subscriptions are keyed by app user and product (`revenuecat:<user>:<product>`),
+ * like the RevenueCat REST API, so the reconciliation job (./reconciliation.ts)
+ * can compare them. Purchases made through RevenueCat's Stripe integration are
+ * ignored: the Stripe webhook records those. So are sandbox purchases, except in
+ * development or with REVENUECAT_ALLOW_SANDBOX=true (staging backends).
+ *
+ * Events are stored by `event.id` and ordered by `event_timestamp_ms`
+ * (./webhookProcessor.ts).
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { PROMO_CODE_ATTRIBUTE, normalizePromoCode } from '@/features/payments/schemas';
+import { z } from 'zod';
+import {
+  type CreditPackCatalog,
+  CreditsService,
+  creditPurchaseId,
+  creditsService,
+} from './credits';
+import {
+  type PaymentRecord,
+  type PaymentsRepository,
+  type SubscriptionRecord,
+  paymentsRepository,
+} from './repository';
+import { WebhookProcessor, type WebhookProcessorOptions } from './webhookProcessor';
+
+const revenueCatEventSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.string().min(1),
+    event_timestamp_ms: z.number().int(),
+    app_user_id: z.string().nullish(),
+    original_app_user_id: z.string().nullish(),
+    aliases: z.array(z.string()).nullish(),
+    product_id: z.string().nullish(),
+    entitlement_ids: z.array(z.string()).nullish(),
+    period_type: z.string().nullish(),
+    expiration_at_ms: z.number().nullish(),
+    grace_period_expiration_at_ms: z.number().nullish(),
+    store: z.string().nullish(),
+    environment: z.string().nullish(),
+    transaction_id: z.string().nullish(),
+    cancel_reason: z.string().nullish(),
+    price_in_purchased_currency: z.number().nullish(),
+    currency: z.string().nullish(),
+    transferred_from: z.array(z.string()).nullish(),
+    transferred_to: z.array(z.string()).nullish(),
+    presented_offering_id: z.string().nullish(),
+    subscriber_attributes: z.record(z.object({ value: z.string() }).passthrough()).nullish(),
+  })
+  .passthrough();
+
+const revenueCatWebhookSchema = z
+  .object({
+    api_version: z.string().optional(),
+    event: revenueCatEventSchema,
+  })
+  .passthrough();
+
+export type RevenueCatEvent = z.infer<typeof revenueCatEventSchema>;
+export type RevenueCatWebhook = z.infer<typeof revenueCatWebhookSchema>;
+
+/**
+ * Thrown for webhook requests that aren't authorized or aren't events
+ */
+export class RevenueCatWebhookError extends Error {
+  constructor(
+    public code: 'INVALID_AUTHORIZATION' | 'INVALID_PAYLOAD',
+    message: string
+  ) {
+    super(message);
+    this.name = 'RevenueCatWebhookError';
+  }
+}
+
+/** RevenueCat's ID for users the app never identified */
+const ANONYMOUS_PREFIX = '$RCAnonymousID:';
+
+/** cancel_reason of refunds (Apple and Google report them through customer support) */
+const REFUND_REASON = 'CUSTOMER_SUPPORT';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the Authorization header against the shared secret
+ * RevenueCat sends the header value as configured in the dashboard; both
+ * `<secret>` and `Bearer <secret>` are accepted.
+ */
+export function verifyRevenueCatAuthorization(header: string | null, secret: string): boolean {
+  if (!header) return false;
+  const value = header.startsWith('Bearer ') ? header.slice(7) : header;
+  // Compare digests so the comparison doesn't leak the secret's length
+  return timingSafeEqual(digest(value), digest(secret));
+}
+
+/**
+ * Parse a stored or received webhook body
+ */
+export function parseRevenueCatWebhook(payload: string): RevenueCatWebhook {
+  let json: unknown;
+  try {
+    json = JSON.parse(payload);
+  } catch {
+    throw new RevenueCatWebhookError('INVALID_PAYLOAD', 'The payload is not JSON');
+  }
+
+  const result = revenueCatWebhookSchema.safeParse(json);
+  if (!result.success) {
+    throw new RevenueCatWebhookError('INVALID_PAYLOAD', 'The payload is not a RevenueCat event');
+  }
+  return result.data;
+}
+
+/**
+ * Subscription record ID for an app user's product
+ */
+export function revenueCatSubscriptionId(userId: string, productId: string): string {
+  return `revenuecat:${userId}:${productId}`;
+}
+
+/**
+ * The app's user ID for an event: the first identified ID among the app user
+ * ID, the original app user ID and the aliases
+ */
+export function revenueCatUserId(event: RevenueCatEvent): string | undefined {
+  return [event.app_user_id, event.original_app_user_id, ...(event.aliases ?? [])].find(
+    (id): id is string => !!id && !id.startsWith(ANONYMOUS_PREFIX)
+  );
+}
+
+/**
+ * An amount in the currency's smallest unit (e.g. 9.99 USD -> 999, 1200 JPY -> 1200)
+ */
+function minorUnits(amount: number, currency: string): number {
+  let digits = 2;
+  try {
+    digits =
+      new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions()
+        .maximumFractionDigits ?? 2;
+  } catch {
+    // Unknown currency code: assume cents
+  }
+  return Math.round(Math.abs(amount) * 10 ** digits);
+}
+
+export interface RevenueCatWebhookProcessorOptions extends WebhookProcessorOptions {
+  /** Credit packs (default: PAYMENTS_CREDIT_PACKS) */
+  creditPacks?: CreditPackCatalog;
+  /**
+   * Apply events of SANDBOX purchases, which anyone with a test account can make
+   * (default: in development, or with REVENUECAT_ALLOW_SANDBOX=true)
+   */
+  allowSandbox?: boolean;
+}
+
+export class RevenueCatWebhookProcessor extends WebhookProcessor<RevenueCatWebhook> {
+  protected readonly source = 'revenuecat' as const;
+  private credits: CreditsService;
+  private allowSandbox: boolean;
+
+  constructor(repository: PaymentsRepository, options: RevenueCatWebhookProcessorOptions = {}) {
+    super(repository, options);
+    this.credits = new CreditsService(options.creditPacks ?? creditsService.catalog, repository);
+    this.allowSandbox =
+      options.allowSandbox ??
+      (process.env.NODE_ENV === 'development' || process.env.REVENUECAT_ALLOW_SANDBOX === 'true');
+  }
+
+  protected describe({ event }: RevenueCatWebhook) {
+    return { id: event.id, type: event.type, created: event.event_timestamp_ms };
+  }
+
+  protected parse(payload: string): RevenueCatWebhook {
+    return parseRevenueCatWebhook(payload);
+  }
+
+  protected async apply({ event }: RevenueCatWebhook) {
+    const userId = revenueCatUserId(event);
+    if (event.type === 'TEST' || event.store === 'STRIPE' || !userId) {
+      return 'ignored' as const;
+    }
+    if (event.environment === 'SANDBOX' && !this.allowSandbox) {
+      return 'ignored' as const;
+    }
+
+    switch (event.type) {
+      case 'INITIAL_PURCHASE':
+      case 'RENEWAL':
+      case 'REFUND_REVERSED':
+        await this.recordPayment(event, userId, 'succeeded');
+        if (event.type === 'INITIAL_PURCHASE') {
+          await this.redeemPromoCode(event, userId);
+        }
+        return this.applySubscription(event, userId, {
+          status: event.period_type === 'TRIAL' ? 'trialing' : 'active',
+          cancelAtPeriodEnd: false,
+          gracePeriodEnd: undefined,
+        });
+      case 'UNCANCELLATION':
+        return this.applySubscription(event, userId, { cancelAtPeriodEnd: false });
+      case 'SUBSCRIPTION_EXTENDED':
+        return this.applySubscription(event, userId, {});
+      case 'NON_RENEWING_PURCHASE':
+        await this.recordPayment(event, userId, 'succeeded');
+        if (this.isCreditPack(event)) {
+          return this.addCredits(event, userId);
+        }
+        if (!event.entitlement_ids?.length) {
+          return 'processed' as const;
+        }
+        return this.applySubscription(event, userId, {
+          status: 'active',
+          cancelAtPeriodEnd: true,
+        });
+      case 'CANCELLATION':
+        if (event.cancel_reason === REFUND_REASON) {
+          await this.recordPayment(event, userId, 'refunded');
+          if (this.isCreditPack(event)) {
+            return this.reverseCredits(event);
+          }
+          return this.applySubscription(event, userId, {
+            status: 'canceled',
+            cancelAtPeriodEnd: true,
+            gracePeriodEnd: undefined,
+          });
+        }
+        return this.applySubscription(event, userId, { cancelAtPeriodEnd: true });
+      case 'SUBSCRIPTION_PAUSED':
+        return this.applySubscription(event, userId, { cancelAtPeriodEnd: true });
+      case 'BILLING_ISSUE':
+        return this.applySubscription(event, userId, {
+          status: 'past_due',
+          gracePeriodEnd: event.grace_period_expiration_at_ms ?? undefined,
+        });
+      case 'EXPIRATION':
+        return this.applySubscription(event, userId, {
+          status: 'canceled',
+          gracePeriodEnd: undefined,
+        });
+      case 'TRANSFER':
+        return this.transfer(event);
+      default:
+        // PRODUCT_CHANGE is followed by the new product's purchase or renewal
+        return 'ignored' as const;
+    }
+  }
+
+  private async applySubscription(
+    event: RevenueCatEvent,
+    userId: string,
+    changes: Partial<SubscriptionRecord>
+  ) {
+    if (!event.product_id) {
+      return 'ignored' as const;
+    }
+
+    const id = revenueCatSubscriptionId(userId, event.product_id);
+    const existing = await this.repository.getSubscription(id);
+    if (existing && event.event_timestamp_ms < existing.eventCreated) {
+      return 'stale' as const;
+    }
+
+    await this.repository.saveSubscription({
+      id,
+      source: 'revenuecat',
+      userId,
+      productId: event.product_id,
+      entitlementIds: event.entitlement_ids ?? existing?.entitlementIds,
+      store: event.store?.toLowerCase() ?? existing?.store,
+      status: existing?.status ?? 'active',
+      currentPeriodEnd: event.expiration_at_ms ?? existing?.currentPeriodEnd,
+      gracePeriodEnd: existing?.gracePeriodEnd,
+      cancelAtPeriodEnd: existing?.cancelAtPeriodEnd ?? false,
+      ...changes,
+      eventCreated: event.event_timestamp_ms,
+      updatedAt: Date.now(),
+    });
+    return 'processed' as const;
+  }
+
+  private isCreditPack(event: RevenueCatEvent): boolean {
+    return !!event.product_id && !!this.credits.findPackByProduct(event.product_id);
+  }
+
+  /**
+   * Add the credits of the pack bought, once per store transaction
+   */
+  private async addCredits(event: RevenueCatEvent, userId: string) {
+    const pack = event.product_id ? this.credits.findPackByProduct(event.product_id) : undefined;
+    if (!pack || !event.transaction_id) {
+      return 'ignored' as const;
+    }
+
+    await this.credits.addPurchase({
+      userId,
+      packId: pack.id,
+      credits: pack.credits,
+      source: 'revenuecat',
+      transactionId: event.transaction_id,
+      createdAt: event.event_timestamp_ms,
+    });
+    return 'processed' as const;
+  }
+
+  /**
+   * Take back the credits of a refunded pack (stores refund purchases in full)
+   */
+  private async reverseCredits(event: RevenueCatEvent) {
+    if (!event.transaction_id) {
+      return 'ignored' as const;
+    }
+
+    const purchase = await this.repository.getCreditEntry(
+      creditPurchaseId('revenuecat', event.transaction_id)
+    );
+    if (!purchase) {
+      // Refunded before the purchase arrived: fail so RevenueCat redelivers it
+      throw new Error(`No credit purchase for transaction ${event.transaction_id} yet`);
+    }
+
+    await this.credits.reversePurchase(purchase, { createdAt: event.event_timestamp_ms });
+    return 'processed' as const;
+  }
+
+  /**
+   * Record the promo code the app set before the purchase as redeemed
+   * Only purchases from an offering count: codes are redeemed by buying from theirs.
+   */
+  private async redeemPromoCode(event: RevenueCatEvent, userId: string): Promise<void> {
+    const code = event.subscriber_attributes?.[PROMO_CODE_ATTRIBUTE]?.value;
+    if (!code || !event.presented_offering_id) {
+      return;
+    }
+
+    await this.repository.saveRedemption({
+      code: normalizePromoCode(code),
+      userId,
+      source: 'revenuecat',
+      reference: event.product_id ? revenueCatSubscriptionId(userId, event.product_id) : undefined,
+      redeemedAt: event.event_timestamp_ms,
+    });
+  }
+
+  /**
+   * Record the purchase (or its refund) of the event's store transaction
+   */
+  private async recordPayment(
+    event: RevenueCatEvent,
+    userId: string,
+    status: PaymentRecord['status']
+  ): Promise<void> {
+    // Trials and grants aren't paid for
+    if (!event.transaction_id || !event.price_in_purchased_currency || !event.currency) {
+      return;
+    }
+
+    const id = `revenuecat:${event.transaction_id}`;
+    const existing = await this.repository.getPayment(id);
+    if (existing && event.event_timestamp_ms < existing.eventCreated) {
+      return;
+    }
+
+    await this.repository.savePayment({
+      id,
+      source: 'revenuecat',
+      userId,
+      subscriptionId: event.product_id
+        ? revenueCatSubscriptionId(userId, event.product_id)
+        : undefined,
+      amount: minorUnits(event.price_in_purchased_currency, event.currency),
+      currency: event.currency.toLowerCase(),
+      status,
+      eventCreated: event.event_timestamp_ms,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Move the subscriptions of the users a purchase was transferred from
+   * The old records are ended; the new user's records continue them, unless they
+   * have newer events of their own.
+   */
+  private async transfer(event: RevenueCatEvent) {
+    const to = event.transferred_to?.find((id) => !id.startsWith(ANONYMOUS_PREFIX));
+    if (!to) {
+      return 'ignored' as const;
+    }
+
+    for (const from of event.transferred_from ?? []) {
+      const subscriptions = await this.repository.getSubscriptionsForUser(from);
+      for (const subscription of subscriptions) {
+        if (
+          subscription.source !== 'revenuecat' ||
+          !subscription.productId ||
+          event.event_timestamp_ms < subscription.eventCreated
+        ) {
+          continue;
+        }
+
+        const id = revenueCatSubscriptionId(to, subscription.productId);
+        const target = await this.repository.getSubscription(id);
+        if (!target || event.event_timestamp_ms >= target.eventCreated) {
+          await this.repository.saveSubscription({
+            ...subscription,
+            id,
+            userId: to,
+            eventCreated: event.event_timestamp_ms,
+            updatedAt: Date.now(),
+          });
+        }
+        await this.repository.saveSubscription({
+          ...subscription,
+          status: 'canceled',
+          cancelAtPeriodEnd: true,
+          currentPeriodEnd: Math.min(
+            subscription.currentPeriodEnd ?? event.event_timestamp_ms,
+            event.event_timestamp_ms
+          ),
+          gracePeriodEnd: undefined,
+          eventCreated: event.event_timestamp_ms,
+          updatedAt: Date.now(),
+        });
+      }
+    }
+    return 'processed' as const;
+  }
+}
+
+// Singleton instance
+export const revenueCatWebhookProcessor = new RevenueCatWebhookProcessor(paymentsRepository);
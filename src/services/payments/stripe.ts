@@ -5,6 +5,7 @@
  * Opens Stripe Checkout in browser or WebView for subscriptions
  */
 
+import { getAuthHeaders } from '@/lib/authToken';
 import { initPaymentSheet, presentPaymentSheet } from '@stripe/stripe-react-native';
 import { Linking } from 'react-native';
 
@@ -38,6 +39,11 @@ export interface StripeCheckoutOptions {
    * Custom metadata
    */
   metadata?: Record<string, string>;
+
+  /**
+   * Promo code (checked again by the backend)
+   */
+  promoCode?: string;
 }
 
 /**
@@ -63,6 +69,7 @@ export async function createCheckoutSession(
           successUrl: options.successUrl || `${getAppScheme()}://payment/success`,
           cancelUrl: options.cancelUrl || `${getAppScheme()}://payment/cancel`,
           metadata: options.metadata,
+          promoCode: options.promoCode,
         }),
       }
     );
@@ -155,28 +162,44 @@ export async function presentPayment(
       return { success: false, error: 'Failed to create payment intent' };
     }
 
-    const { error: initError } = await initPaymentSheet({
-      merchantDisplayName: process.env.EXPO_PUBLIC_APP_NAME || 'My App',
-      paymentIntentClientSecret: paymentIntent.clientSecret,
-      allowsDelayedPaymentMethods: true,
-    });
-
-    if (initError) {
-      return { success: false, error: initError.message };
-    }
+    return await presentPaymentIntent(paymentIntent.clientSecret);
+  } catch (error: unknown) {
+    console.error('Error presenting payment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Payment failed',
+    };
+  }
+}
 
-    const { error: presentError } = await presentPaymentSheet();
+/**
+ * Buy a credit pack with the native payment sheet
+ * The backend prices the pack; its Stripe webhook adds the credits once the payment succeeds.
+ */
+export async function presentCreditPackPayment(
+  packId: string,
+  currency?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const headers = await getAuthHeaders();
 
-    if (presentError) {
-      if (presentError.code === 'Canceled') {
-        return { success: false, error: 'User cancelled payment' };
+    const response = await fetch(
+      `${process.env.EXPO_PUBLIC_API_URL}/api/payments/create-payment-intent`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ packId, currency }),
       }
-      return { success: false, error: presentError.message };
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to create payment intent');
     }
 
-    return { success: true };
+    const data = await response.json();
+    return await presentPaymentIntent(data.clientSecret);
   } catch (error: unknown) {
-    console.error('Error presenting payment:', error);
+    console.error('Error presenting credit pack payment:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Payment failed',
@@ -184,6 +207,31 @@ export async function presentPayment(
   }
 }
 
+async function presentPaymentIntent(
+  clientSecret: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error: initError } = await initPaymentSheet({
+    merchantDisplayName: process.env.EXPO_PUBLIC_APP_NAME || 'My App',
+    paymentIntentClientSecret: clientSecret,
+    allowsDelayedPaymentMethods: true,
+  });
+
+  if (initError) {
+    return { success: false, error: initError.message };
+  }
+
+  const { error: presentError } = await presentPaymentSheet();
+
+  if (presentError) {
+    if (presentError.code === 'Canceled') {
+      return { success: false, error: 'User cancelled payment' };
+    }
+    return { success: false, error: presentError.message };
+  }
+
+  return { success: true };
+}
+
 /**
  * Get app scheme for deep linking
  */
@@ -0,0 +1,487 @@
+/**
+ * Stripe Webhooks (server-side)
+ *
+ * Verifies Stripe-Signature headers and applies webhook events to the payments
+ * repository (./repository.ts):
+ * - checkout.session.completed: links the subscription to the user who checked out,
+ *   and confirms the redemption of the promo code used (metadata.promoCode, see
+ *   ./promoCodes.ts)
+ * - checkout.session.expired: releases the promo code the session reserved
+ * - customer.subscription.created / updated / deleted: subscription state
+ * - invoice.payment_succeeded / payment_failed: payments
+ * - payment_intent.succeeded: a credit pack bought with create-payment-intent
+ *   (metadata.creditPackId), whose credits are added (./credits.ts)
+ * - charge.refunded: the refunded share of a credit pack's credits is taken back
+ *
+ * Stripe delivers events at least once and in no particular order, so events are
+ * stored by `event.id` (./webhookProcessor.ts), and every record remembers the
+ * `created` time of the last event applied to it: older events are skipped
+ * (`stale`) instead of overwriting newer state.
+ *
+ * Stored events can be replayed (POST /api/payments/replay-events); replays go
+ * through the same ordering checks, so they can't roll a subscription back.
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import {
+  type CreditPackCatalog,
+  CreditsService,
+  creditPurchaseId,
+  creditsService,
+} from './credits';
+import {
+  type PaymentRecord,
+  type PaymentsRepository,
+  type SubscriptionRecord,
+  type SubscriptionStatus,
+  paymentsRepository,
+} from './repository';
+import {
+  type WebhookOutcome,
+  WebhookProcessor,
+  type WebhookProcessorOptions,
+} from './webhookProcessor';
+
+/** Default tolerance between the signature timestamp and now, as in Stripe's libraries */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const stripeEventSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.string().min(1),
+    created: z.number().int(),
+    data: z.object({ object: z.record(z.unknown()) }),
+  })
+  .passthrough();
+
+export type StripeEvent = z.infer<typeof stripeEventSchema>;
+
+/** An ID field that may also be an expanded object */
+type StripeRef = string | { id: string } | null | undefined;
+
+interface CheckoutSessionObject {
+  id: string;
+  client_reference_id?: string | null;
+  customer?: StripeRef;
+  subscription?: StripeRef;
+  metadata?: Record<string, string> | null;
+}
+
+/** The fields of a Stripe subscription we use */
+export interface StripeSubscriptionObject {
+  id: string;
+  status: SubscriptionStatus;
+  customer?: StripeRef;
+  metadata?: Record<string, string> | null;
+  cancel_at_period_end?: boolean;
+  current_period_end?: number;
+  items?: { data?: { price?: { id: string }; current_period_end?: number }[] };
+}
+
+interface InvoiceObject {
+  id: string;
+  customer?: StripeRef;
+  /** Before API version 2025-03-31 */
+  subscription?: StripeRef;
+  subscription_details?: { metadata?: Record<string, string> | null } | null;
+  parent?: {
+    subscription_details?: {
+      subscription?: StripeRef;
+      metadata?: Record<string, string> | null;
+    } | null;
+  } | null;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+}
+
+/** Payment intents (and their charges) for credit packs carry the pack in their metadata */
+interface CreditPackMetadata {
+  creditPackId?: string;
+  credits?: string;
+  userId?: string;
+}
+
+interface PaymentIntentObject {
+  id: string;
+  customer?: StripeRef;
+  amount_received: number;
+  currency: string;
+  metadata?: CreditPackMetadata | null;
+}
+
+interface ChargeObject {
+  id: string;
+  payment_intent?: StripeRef;
+  amount: number;
+  amount_refunded: number;
+  metadata?: CreditPackMetadata | null;
+}
+
+/**
+ * Thrown for webhook requests that aren't signed by Stripe or aren't events
+ */
+export class StripeWebhookError extends Error {
+  constructor(
+    public code: 'INVALID_SIGNATURE' | 'INVALID_PAYLOAD',
+    message: string
+  ) {
+    super(message);
+    this.name = 'StripeWebhookError';
+  }
+}
+
+function idOf(ref: StripeRef): string | undefined {
+  if (!ref) return undefined;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+function hmac(secret: string, timestamp: number, payload: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Stripe-Signature header for a payload, e.g. to post fixture events in tests
+ */
+export function signStripePayload(
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, payload)}`;
+}
+
+/**
+ * Parse a stored or received event
+ */
+export function parseStripeEvent(payload: string): StripeEvent {
+  let json: unknown;
+  try {
+    json = JSON.parse(payload);
+  } catch {
+    throw new StripeWebhookError('INVALID_PAYLOAD', 'The payload is not JSON');
+  }
+
+  const result = stripeEventSchema.safeParse(json);
+  if (!result.success) {
+    throw new StripeWebhookError('INVALID_PAYLOAD', 'The payload is not a Stripe event');
+  }
+  return result.data;
+}
+
+/**
+ * Check the Stripe-Signature header (HMAC-SHA256 of `<timestamp>.<payload>`) and parse the event
+ * Throws StripeWebhookError if the signature doesn't match or is too old.
+ */
+export function verifyStripeSignature(
+  payload: string,
+  header: string,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): StripeEvent {
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+
+  let timestamp = Number.NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1') signatures.push(value);
+  }
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new StripeWebhookError('INVALID_SIGNATURE', 'Malformed Stripe-Signature header');
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, payload));
+  const matches = signatures.some((signature) => {
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+  if (!matches) {
+    throw new StripeWebhookError('INVALID_SIGNATURE', 'No signature matches the payload');
+  }
+
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new StripeWebhookError('INVALID_SIGNATURE', 'The signature timestamp is too old');
+  }
+
+  return parseStripeEvent(payload);
+}
+
+export interface StripeWebhookProcessorOptions extends WebhookProcessorOptions {
+  /** Called after a failed payment is recorded, e.g. to email the user */
+  onPaymentFailed?: (payment: PaymentRecord) => Promise<void> | void;
+  /** Credit packs (default: PAYMENTS_CREDIT_PACKS) */
+  creditPacks?: CreditPackCatalog;
+}
+
+/**
+ * Subscription record for a Stripe subscription object as of `eventCreated` (epoch ms)
+ * Fields the object doesn't carry are kept from the existing record.
+ */
+export function subscriptionRecordFromStripe(
+  subscription: StripeSubscriptionObject,
+  existing: SubscriptionRecord | undefined,
+  eventCreated: number
+): SubscriptionRecord {
+  const item = subscription.items?.data?.[0];
+  const periodEnd = subscription.current_period_end ?? item?.current_period_end;
+  return {
+    id: subscription.id,
+    source: 'stripe',
+    userId: subscription.metadata?.userId ?? existing?.userId,
+    customerId: idOf(subscription.customer) ?? existing?.customerId,
+    priceId: item?.price?.id ?? existing?.priceId,
+    status: subscription.status,
+    currentPeriodEnd: periodEnd ? periodEnd * 1000 : existing?.currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+    eventCreated,
+    updatedAt: Date.now(),
+  };
+}
+
+export class StripeWebhookProcessor extends WebhookProcessor<StripeEvent> {
+  protected readonly source = 'stripe' as const;
+  private credits: CreditsService;
+
+  constructor(
+    repository: PaymentsRepository,
+    private options: StripeWebhookProcessorOptions = {}
+  ) {
+    super(repository, options);
+    this.credits = new CreditsService(options.creditPacks ?? creditsService.catalog, repository);
+  }
+
+  protected describe(event: StripeEvent) {
+    return { id: event.id, type: event.type, created: event.created * 1000 };
+  }
+
+  protected parse(payload: string): StripeEvent {
+    return parseStripeEvent(payload);
+  }
+
+  protected apply(event: StripeEvent): Promise<Exclude<WebhookOutcome, 'duplicate'>> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return this.linkCheckoutSession(event);
+      case 'checkout.session.expired':
+        return this.releasePromoCode(event);
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return this.applySubscription(event);
+      case 'invoice.payment_succeeded':
+        return this.applyInvoice(event, 'succeeded');
+      case 'invoice.payment_failed':
+        return this.applyInvoice(event, 'failed');
+      case 'payment_intent.succeeded':
+        return this.applyCreditPurchase(event);
+      case 'charge.refunded':
+        return this.applyCreditRefund(event);
+      default:
+        return Promise.resolve('ignored');
+    }
+  }
+
+  /**
+   * Link a subscription bought with Checkout to the user (client_reference_id)
+   * Its status comes from the subscription's own events once they arrive.
+   */
+  private async linkCheckoutSession(event: StripeEvent) {
+    const session = event.data.object as unknown as CheckoutSessionObject;
+    const subscriptionId = idOf(session.subscription);
+    const userId = session.client_reference_id ?? session.metadata?.userId;
+    if (!subscriptionId || !userId) {
+      // One-time payments, or sessions not started by the app
+      return 'ignored' as const;
+    }
+
+    const existing = await this.repository.getSubscription(subscriptionId);
+    const record: SubscriptionRecord = existing
+      ? {
+          ...existing,
+          userId: existing.userId ?? userId,
+          customerId: existing.customerId ?? idOf(session.customer),
+          updatedAt: Date.now(),
+        }
+      : {
+          id: subscriptionId,
+          source: 'stripe',
+          userId,
+          customerId: idOf(session.customer),
+          status: 'active',
+          cancelAtPeriodEnd: false,
+          // A stand-in until the subscription's own events arrive: any of them wins,
+          // even one created before the checkout completed
+          eventCreated: 0,
+          updatedAt: Date.now(),
+        };
+    await this.repository.saveSubscription(record);
+
+    // Confirms the reservation made at checkout (create-checkout)
+    if (session.metadata?.promoCode) {
+      await this.repository.saveRedemption({
+        code: session.metadata.promoCode,
+        userId,
+        source: 'stripe',
+        reference: session.id,
+        redeemedAt: event.created * 1000,
+      });
+    }
+    return 'processed' as const;
+  }
+
+  /**
+   * Let others use the promo code an abandoned checkout reserved
+   */
+  private async releasePromoCode(event: StripeEvent) {
+    const session = event.data.object as unknown as CheckoutSessionObject;
+    const userId = session.client_reference_id ?? session.metadata?.userId;
+    if (!session.metadata?.promoCode || !userId) {
+      return 'ignored' as const;
+    }
+
+    const released = await this.repository.releaseRedemption(
+      session.metadata.promoCode,
+      userId,
+      session.id
+    );
+    return released ? ('processed' as const) : ('ignored' as const);
+  }
+
+  private async applySubscription(event: StripeEvent) {
+    const subscription = event.data.object as unknown as StripeSubscriptionObject;
+    const existing = await this.repository.getSubscription(subscription.id);
+    if (existing && event.created * 1000 < existing.eventCreated) {
+      return 'stale' as const;
+    }
+
+    const record = subscriptionRecordFromStripe(subscription, existing, event.created * 1000);
+    if (event.type === 'customer.subscription.deleted') {
+      record.status = 'canceled';
+    }
+    await this.repository.saveSubscription(record);
+    return 'processed' as const;
+  }
+
+  private async applyInvoice(event: StripeEvent, status: PaymentRecord['status']) {
+    const invoice = event.data.object as unknown as InvoiceObject;
+    const existing = await this.repository.getPayment(invoice.id);
+    if (existing && event.created * 1000 < existing.eventCreated) {
+      return 'stale' as const;
+    }
+
+    const details = invoice.parent?.subscription_details;
+    const subscriptionId = idOf(invoice.subscription) ?? idOf(details?.subscription);
+    const subscription = subscriptionId
+      ? await this.repository.getSubscription(subscriptionId)
+      : undefined;
+
+    const payment: PaymentRecord = {
+      id: invoice.id,
+      source: 'stripe',
+      userId:
+        subscription?.userId ??
+        details?.metadata?.userId ??
+        invoice.subscription_details?.metadata?.userId ??
+        existing?.userId,
+      subscriptionId,
+      customerId: idOf(invoice.customer),
+      amount: status === 'succeeded' ? invoice.amount_paid : invoice.amount_due,
+      currency: invoice.currency,
+      status,
+      eventCreated: event.created * 1000,
+      updatedAt: Date.now(),
+    };
+    await this.repository.savePayment(payment);
+
+    if (status === 'failed') {
+      await this.options.onPaymentFailed?.(payment);
+    }
+    return 'processed' as const;
+  }
+
+  /**
+   * Record a credit pack's payment and add its credits
+   * The credits are the ones the pack had when the intent was created.
+   */
+  private async applyCreditPurchase(event: StripeEvent) {
+    const intent = event.data.object as unknown as PaymentIntentObject;
+    const { creditPackId, credits, userId } = intent.metadata ?? {};
+    if (!creditPackId || !credits || !userId) {
+      // Not a credit pack, or not bought by a signed-in user
+      return 'ignored' as const;
+    }
+
+    const existing = await this.repository.getPayment(intent.id);
+    if (!existing || event.created * 1000 >= existing.eventCreated) {
+      await this.repository.savePayment({
+        id: intent.id,
+        source: 'stripe',
+        userId,
+        customerId: idOf(intent.customer),
+        amount: intent.amount_received,
+        currency: intent.currency,
+        status: 'succeeded',
+        eventCreated: event.created * 1000,
+        updatedAt: Date.now(),
+      });
+    }
+
+    await this.credits.addPurchase({
+      userId,
+      packId: creditPackId,
+      credits: Number(credits),
+      source: 'stripe',
+      transactionId: intent.id,
+      createdAt: event.created * 1000,
+    });
+    return 'processed' as const;
+  }
+
+  /**
+   * Take back the refunded share of a credit pack's credits
+   */
+  private async applyCreditRefund(event: StripeEvent) {
+    const charge = event.data.object as unknown as ChargeObject;
+    const paymentIntentId = idOf(charge.payment_intent);
+    if (!charge.metadata?.creditPackId || !paymentIntentId) {
+      return 'ignored' as const;
+    }
+
+    const purchase = await this.repository.getCreditEntry(
+      creditPurchaseId('stripe', paymentIntentId)
+    );
+    if (!purchase) {
+      // Refunded before payment_intent.succeeded arrived: fail so Stripe redelivers it
+      throw new Error(`No credit purchase for payment intent ${paymentIntentId} yet`);
+    }
+
+    const fullyRefunded = charge.amount_refunded >= charge.amount;
+    const payment = await this.repository.getPayment(paymentIntentId);
+    if (payment && fullyRefunded && event.created * 1000 >= payment.eventCreated) {
+      await this.repository.savePayment({
+        ...payment,
+        status: 'refunded',
+        eventCreated: event.created * 1000,
+        updatedAt: Date.now(),
+      });
+    }
+
+    await this.credits.reversePurchase(purchase, {
+      refunded: charge.amount > 0 ? charge.amount_refunded / charge.amount : 1,
+      createdAt: event.created * 1000,
+    });
+    return 'processed' as const;
+  }
+}
+
+// Singleton instance
+export const stripeWebhookProcessor = new StripeWebhookProcessor(paymentsRepository);
@@ -0,0 +1,129 @@
+/**
+ * Webhook Processor (server-side)
+ *
+ * Idempotent, replayable handling of payment webhook events, shared by the Stripe
+ * (./stripeWebhooks.ts) and RevenueCat (./revenueCatWebhooks.ts) handlers.
+ *
+ * Both deliver events at least once and in no particular order, so:
+ * - every event is stored by its ID and a redelivery is answered without
+ *   processing it again (unless it failed, in which case it's retried)
+ * - handlers compare the event's time with the last event applied to a record
+ *   and skip older ones (`stale`) instead of overwriting newer state
+ *
+ * ⚠️ SECURITY: This file should ONLY be imported in API routes (server-side).
+ */
+
+import type { PaymentSource, PaymentsRepository, WebhookEventRecord } from './repository';
+
+/** How an event was handled */
+export type WebhookOutcome = 'processed' | 'stale' | 'ignored' | 'duplicate';
+
+export interface WebhookProcessorOptions {
+  /**
+   * An event still `processing` after this long (e.g. the server stopped) is
+   * handled again when redelivered (default: 5 minutes)
+   */
+  processingTimeoutMs?: number;
+}
+
+export abstract class WebhookProcessor<TEvent> {
+  protected abstract readonly source: PaymentSource;
+  private processingTimeoutMs: number;
+
+  constructor(
+    protected repository: PaymentsRepository,
+    options: WebhookProcessorOptions = {}
+  ) {
+    this.processingTimeoutMs = options.processingTimeoutMs ?? 5 * 60 * 1000;
+  }
+
+  /** ID, type and creation time (epoch ms) of an event */
+  protected abstract describe(event: TEvent): { id: string; type: string; created: number };
+
+  /** Parse a stored payload */
+  protected abstract parse(payload: string): TEvent;
+
+  protected abstract apply(event: TEvent): Promise<Exclude<WebhookOutcome, 'duplicate'>>;
+
+  /**
+   * Handle a delivery; redeliveries of handled events return `duplicate`
+   * Throws if the event couldn't be applied (it's stored as `failed`).
+   */
+  async handle(event: TEvent, payload = JSON.stringify(event)): Promise<WebhookOutcome> {
+    const now = Date.now();
+    const { id, type, created } = this.describe(event);
+    const existing = await this.repository.getEvent(id);
+    let record: WebhookEventRecord;
+
+    if (!existing) {
+      record = {
+        id,
+        source: this.source,
+        type,
+        created,
+        payload,
+        status: 'processing',
+        attempts: 1,
+        receivedAt: now,
+        lastAttemptAt: now,
+      };
+      if (!(await this.repository.insertEvent(record))) {
+        return 'duplicate';
+      }
+    } else if (
+      existing.status === 'failed' ||
+      (existing.status === 'processing' && now - existing.lastAttemptAt > this.processingTimeoutMs)
+    ) {
+      record = { ...existing, attempts: existing.attempts + 1, lastAttemptAt: now };
+      await this.repository.saveEvent({ ...record, status: 'processing' });
+    } else {
+      return 'duplicate';
+    }
+
+    return this.run(record, event);
+  }
+
+  /**
+   * Apply a stored event again; undefined if this processor has no such event
+   */
+  async replay(eventId: string): Promise<WebhookOutcome | undefined> {
+    const existing = await this.repository.getEvent(eventId);
+    if (!existing || existing.source !== this.source) {
+      return undefined;
+    }
+
+    const record: WebhookEventRecord = {
+      ...existing,
+      attempts: existing.attempts + 1,
+      lastAttemptAt: Date.now(),
+    };
+    await this.repository.saveEvent({ ...record, status: 'processing' });
+    return this.run(record, this.parse(existing.payload));
+  }
+
+  private async run(record: WebhookEventRecord, event: TEvent): Promise<WebhookOutcome> {
+    try {
+      const outcome = await this.apply(event);
+      await this.repository.saveEvent({
+        id: record.id,
+        source: record.source,
+        type: record.type,
+        created: record.created,
+        payload: record.payload,
+        status: outcome,
+        attempts: record.attempts,
+        receivedAt: record.receivedAt,
+        lastAttemptAt: record.lastAttemptAt,
+        processedAt: Date.now(),
+      });
+      return outcome;
+    } catch (error) {
+      await this.repository.saveEvent({
+        ...record,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}